@@ -1,39 +1,188 @@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { Separator } from '@/components/ui/separator';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import TodoCard from '@/components/TodoCard';
+import ListSidebar from '@/components/ListSidebar';
+import TagFilterBar, { type TagMatch } from '@/components/TagFilterBar';
+import DueDatePicker from '@/components/DueDatePicker';
+import PrioritySelect from '@/components/PrioritySelect';
+import RecurrenceEditor from '@/components/RecurrenceEditor';
+import SortableTodo, { type Placement } from '@/components/SortableTodo';
+import TrashView from '@/components/TrashView';
+import ArchiveView from '@/components/ArchiveView';
+import ImportExportDialog from '@/components/ImportExportDialog';
+import ApiTokensView from '@/components/ApiTokensView';
+import SearchResults from '@/components/SearchResults';
+import InvitationsBanner from '@/components/InvitationsBanner';
+import LoadMoreTrigger from '@/components/LoadMoreTrigger';
+import BulkActionBar from '@/components/BulkActionBar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Toaster } from '@/components/ui/sonner';
+import { DUE_GROUP_LABELS, formatDue, groupTodosByDue, type DueValue } from '@/lib/due-dates';
+import { notifyBulkResults, notifyError, notifyUndoable } from '@/lib/notify';
+import { useAuth } from '@/lib/auth';
 import { trpc } from '@/utils/trpc';
-import { useState, useEffect, useCallback } from 'react';
-import { Trash2, Plus, CheckCircle, Circle } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Plus, Menu, LogOut, Search, ListChecks, Archive, ArrowDownWideNarrow, ArrowUpNarrowWide, KeyRound } from 'lucide-react';
 // Using type-only import for better TypeScript compliance
-import type { Todo, CreateTodoInput } from '../../server/src/schema';
+import type { Todo, TodoChange, BulkResult, BulkUpdateTodosInput, TodoCounts, TodoSortBy, SearchResult, CreateTodoInput, UpdateTodoInput, ListWithCounts, Tag, Priority, Recurrence, ChecklistItem, UpdateChecklistItemInput } from '../../server/src/schema';
+
+type TodoStatus = 'all' | 'active' | 'completed';
+type SortDirection = 'asc' | 'desc';
+
+// How long typing has to pause before the search runs
+const SEARCH_DEBOUNCE_MS = 300;
+
+// How many todos each page loads; scrolling to the end loads the next one
+const PAGE_SIZE = 50;
 
 function App() {
+  const { user, logout } = useAuth();
   // Explicit typing with Todo interface
   const [todos, setTodos] = useState<Todo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // null once the last page is loaded
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Counted on the server, since only some of the todos may be loaded
+  const [counts, setCounts] = useState<TodoCounts | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const [lists, setLists] = useState<ListWithCounts[]>([]);
+  // null shows todos from every list
+  const [selectedListId, setSelectedListId] = useState<number | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isApiTokensOpen, setIsApiTokensOpen] = useState(false);
+  // Shows the todos assigned to the signed-in user across all lists
+  const [isAssignedToMeOpen, setIsAssignedToMeOpen] = useState(false);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatch>('any');
+  const [status, setStatus] = useState<TodoStatus>('all');
+  const [sortBy, setSortBy] = useState<TodoSortBy>('due_at');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: number; placement: Placement } | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  // Selection mode puts a checkbox on every todo and shows the bulk action bar
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  // The todo clicked last; shift-clicking another selects everything in between
+  const selectionAnchorRef = useRef<number | null>(null);
+  // null while the search box is empty; the results replace the todos otherwise
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  // Bumped by live updates, which only the server can match against the search
+  const [searchVersion, setSearchVersion] = useState(0);
 
   // Form state with proper typing for nullable fields
   const [formData, setFormData] = useState<CreateTodoInput>({
     title: '',
-    description: null // Explicitly null, not undefined
+    description: null, // Explicitly null, not undefined
+    due_at: null,
+    due_has_time: false,
+    priority: null,
+    recurrence: null
   });
 
+  // Read by the live updates and background reloads without recreating them whenever the todos change
+  const todosRef = useRef<Todo[]>(todos);
+  todosRef.current = todos;
+
+  // The open view's filters, shared by its todos and their counts
+  const filters = useMemo(() => ({
+    listId: selectedListId ?? undefined,
+    assigneeId: isAssignedToMeOpen ? user.id : undefined,
+    tagIds: selectedTagIds,
+    tagMatch
+  }), [selectedListId, isAssignedToMeOpen, user.id, selectedTagIds, tagMatch]);
+
+  // Whether a changed todo still belongs in the open view; the same filters the server applies
+  const matchesView = useCallback((todo: Todo) => {
+    if (todo.deleted_at !== null || todo.archived_at !== null) return false;
+    if (filters.listId !== undefined && todo.list_id !== filters.listId) return false;
+    if (filters.assigneeId !== undefined && todo.assignee_id !== filters.assigneeId) return false;
+    if (status !== 'all' && todo.completed !== (status === 'completed')) return false;
+    const tagIds = new Set(filters.tagIds);
+    if (tagIds.size === 0) return true;
+    const matched = todo.tags.filter((tag: Tag) => tagIds.has(tag.id)).length;
+    return filters.tagMatch === 'all' ? matched === tagIds.size : matched > 0;
+  }, [filters, status]);
+
   // useCallback to memoize function used in useEffect
-  const loadTodos = useCallback(async () => {
+  // Background reloads keep showing the current todos instead of the loading state,
+  // and reload as many as were already scrolled into view
+  const loadTodos = useCallback(async (background: boolean = false) => {
     try {
-      setIsLoading(true);
-      const result = await trpc.getTodos.query();
-      setTodos(result);
+      if (!background) setIsLoading(true);
+      const result = await trpc.getTodos.query({
+        ...filters,
+        status,
+        sortBy,
+        sortDirection,
+        limit: background ? Math.max(PAGE_SIZE, todosRef.current.length) : PAGE_SIZE
+      });
+      setTodos(result.todos);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      notifyError('Failed to load todos', error);
+    } finally {
+      if (!background) setIsLoading(false);
+    }
+  }, [filters, status, sortBy, sortDirection]);
+
+  const loadMoreTodos = useCallback(async () => {
+    if (nextCursor === null || isLoadingMore) return;
+    try {
+      setIsLoadingMore(true);
+      const result = await trpc.getTodos.query({
+        ...filters,
+        status,
+        sortBy,
+        sortDirection,
+        limit: PAGE_SIZE,
+        cursor: nextCursor
+      });
+      setTodos((prev: Todo[]) => [...prev, ...result.todos]);
+      setNextCursor(result.nextCursor);
     } catch (error) {
-      console.error('Failed to load todos:', error);
+      notifyError('Failed to load more todos', error);
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, [filters, status, sortBy, sortDirection, nextCursor, isLoadingMore]);
+
+  // The counts ignore the status filter, so the badges always show both
+  const loadCounts = useCallback(async () => {
+    try {
+      const result = await trpc.getTodoCounts.query(filters);
+      setCounts(result);
+    } catch (error) {
+      notifyError('Failed to count todos', error);
+    }
+  }, [filters]);
+
+  // Lists are reloaded after todo mutations to keep the sidebar counts current
+  const loadLists = useCallback(async () => {
+    try {
+      const result = await trpc.getLists.query();
+      setLists(result);
+    } catch (error) {
+      notifyError('Failed to load lists', error);
+    }
+  }, []); // Empty deps since trpc is stable
+
+  const loadTags = useCallback(async () => {
+    try {
+      const result = await trpc.getTags.query();
+      setTags(result);
+    } catch (error) {
+      notifyError('Failed to load tags', error);
     }
   }, []); // Empty deps since trpc is stable
 
@@ -42,222 +191,1004 @@ function App() {
     loadTodos();
   }, [loadTodos]);
 
+  // Todos that leave the view (trashed, filtered out, moved elsewhere) leave the selection too
+  useEffect(() => {
+    setSelectedIds((prev: number[]) => {
+      const kept = prev.filter((id: number) => todos.some((todo: Todo) => todo.id === id));
+      return kept.length === prev.length ? prev : kept;
+    });
+  }, [todos]);
+
+  // Any change to the loaded todos may change the counts
+  useEffect(() => {
+    loadCounts();
+  }, [todos, loadCounts]);
+
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // Searches once typing pauses; responses to superseded searches are dropped
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await trpc.searchTodos.query({ query });
+        if (isCurrent) setSearchResults(results);
+      } catch (error) {
+        notifyError('Search failed', error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, searchVersion]);
+
+  // Keeps the open view in sync with changes made in other tabs and by collaborators
+  useEffect(() => {
+    const subscription = trpc.onTodoChanged.subscribe(undefined, {
+      onData: (change: TodoChange) => {
+        if (change.type === 'updated' && todosRef.current.some((todo: Todo) => todo.id === change.todo.id)) {
+          // A todo changed out of the view's list, tags, assignee or status leaves it
+          setTodos((prev: Todo[]) => matchesView(change.todo)
+            ? prev.map((todo: Todo) => (todo.id === change.todo.id ? change.todo : todo))
+            : prev.filter((todo: Todo) => todo.id !== change.todo.id));
+        } else if (change.type === 'deleted') {
+          setTodos((prev: Todo[]) => prev.filter((todo: Todo) => todo.id !== change.id));
+        } else {
+          // New todos and todos that may have moved into view need the server's filters and order
+          loadTodos(true);
+        }
+        setSearchVersion((version: number) => version + 1);
+        loadLists();
+      },
+      onError: (error: unknown) => notifyError('Live updates stopped', error)
+    });
+    return () => subscription.unsubscribe();
+  }, [loadTodos, loadLists, matchesView]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title.trim()) return;
     
     setIsCreating(true);
     try {
-      const response = await trpc.createTodo.mutate(formData);
+      // New todos go into the list that is currently open
+      const response = await trpc.createTodo.mutate({ ...formData, list_id: selectedListId });
       // Update todos list with explicit typing in setState callback
       setTodos((prev: Todo[]) => [...prev, response]);
       // Reset form
       setFormData({
         title: '',
-        description: null
+        description: null,
+        due_at: null,
+        due_has_time: false,
+        priority: null,
+        recurrence: null
       });
+      loadLists();
     } catch (error) {
-      console.error('Failed to create todo:', error);
+      notifyError('Failed to create todo', error);
     } finally {
       setIsCreating(false);
     }
   };
 
-  const handleToggleComplete = async (id: number, completed: boolean) => {
+  const handleToggleComplete = async (id: number, completed: boolean, completeChecklist: boolean) => {
+    const previous = todos.find((todo: Todo) => todo.id === id);
     try {
-      const updatedTodo = await trpc.updateTodoCompletion.mutate({ id, completed });
-      // Update the specific todo in the list
+      const updatedTodo = await trpc.updateTodoCompletion.mutate({
+        id,
+        completed,
+        complete_checklist: completeChecklist
+      });
+      // Replace the whole todo - overdue status depends on completion
       setTodos((prev: Todo[]) => 
         prev.map((todo: Todo) => 
-          todo.id === id ? { ...todo, completed: updatedTodo.completed } : todo
+          todo.id === id ? updatedTodo : todo
         )
       );
+      loadLists();
+
+      if (!previous) return;
+      if (!completed) {
+        notifyUndoable(`Reopened "${previous.title}"`, async () => {
+          // A finished series keeps its last completion while reopened, so this does not count it twice
+          replaceTodo(await trpc.updateTodoCompletion.mutate({ id, completed: true, complete_checklist: false }));
+          loadLists();
+        });
+      } else {
+        const message = updatedTodo.completed
+          ? `Completed "${previous.title}"`
+          : `Completed "${previous.title}" - next one is due ${formatDue(updatedTodo).toLowerCase()}`;
+        notifyUndoable(message, async () => {
+          replaceTodo(await trpc.undoTodoCompletion.mutate({
+            id,
+            checklist: previous.checklist.map((item: ChecklistItem) => ({ id: item.id, completed: item.completed }))
+          }));
+          loadLists();
+        });
+      }
+    } catch (error) {
+      notifyError('Failed to update todo', error);
+    }
+  };
+
+  // Rethrows so the card can stay in edit mode when saving fails
+  const handleUpdate = async (input: UpdateTodoInput) => {
+    const previous = todos.find((todo: Todo) => todo.id === input.id);
+    try {
+      const updatedTodo = await trpc.updateTodo.mutate(input);
+      setTodos((prev: Todo[]) =>
+        prev
+          .map((todo: Todo) => (todo.id === updatedTodo.id ? updatedTodo : todo))
+          // Drop todos that were moved out of the open list
+          .filter((todo: Todo) => selectedListId === null || todo.list_id === selectedListId)
+      );
+      loadLists();
+
+      if (previous) {
+        notifyUndoable(`Saved "${updatedTodo.title}"`, async () => {
+          await trpc.updateTodo.mutate({
+            id: previous.id,
+            title: previous.title,
+            description: previous.description,
+            list_id: previous.list_id,
+            due_at: previous.due_at,
+            due_has_time: previous.due_has_time,
+            priority: previous.priority,
+            recurrence: previous.recurrence
+          });
+          // The todo may move back into (or out of) the open list
+          loadTodos();
+          loadLists();
+        });
+      }
+    } catch (error) {
+      notifyError('Failed to update todo', error);
+      throw error;
+    }
+  };
+
+  // Keeps the todos that could not be changed selected, so they can be looked at or retried
+  const finishBulk = (results: BulkResult[]) => {
+    setSelectedIds(results.filter((result: BulkResult) => !result.success).map((result: BulkResult) => result.id));
+    loadTodos(true);
+    loadLists();
+  };
+
+  const handleBulkUpdate = async (action: string, changes: Partial<Omit<BulkUpdateTodosInput, 'ids'>>) => {
+    setIsBulkWorking(true);
+    try {
+      const results = await trpc.bulkUpdateTodos.mutate({ ids: selectedIds, ...changes });
+      finishBulk(results);
+      // Tags may have been created just now
+      if (changes.add_tags) loadTags();
+      notifyBulkResults(action, results);
     } catch (error) {
-      console.error('Failed to update todo:', error);
+      notifyError('Failed to update todos', error);
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    setIsBulkWorking(true);
+    try {
+      const results = await trpc.bulkDeleteTodos.mutate({ ids: selectedIds });
+      finishBulk(results);
+
+      const trashedIds = results.filter((result: BulkResult) => result.success).map((result: BulkResult) => result.id);
+      if (trashedIds.length < results.length) {
+        notifyBulkResults('Trashed', results);
+      } else {
+        notifyUndoable(`Moved ${trashedIds.length} ${trashedIds.length === 1 ? 'todo' : 'todos'} to the trash`, async () => {
+          await Promise.all(trashedIds.map((id: number) => trpc.restoreTodo.mutate({ id })));
+          loadTodos();
+          loadLists();
+        });
+      }
+    } catch (error) {
+      notifyError('Failed to delete todos', error);
+    } finally {
+      setIsBulkWorking(false);
     }
   };
 
+  const handleStopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    selectionAnchorRef.current = null;
+  };
+
   const handleDelete = async (id: number) => {
+    const previous = todos.find((todo: Todo) => todo.id === id);
     try {
       await trpc.deleteTodo.mutate({ id });
       // Remove todo from the list
       setTodos((prev: Todo[]) => prev.filter((todo: Todo) => todo.id !== id));
+      loadLists();
+
+      notifyUndoable(`Moved "${previous?.title ?? 'todo'}" to the trash`, async () => {
+        await trpc.restoreTodo.mutate({ id });
+        loadTodos();
+        loadLists();
+      });
+    } catch (error) {
+      notifyError('Failed to delete todo', error);
+    }
+  };
+
+  const replaceTodo = (updatedTodo: Todo) => {
+    setTodos((prev: Todo[]) =>
+      prev.map((todo: Todo) => (todo.id === updatedTodo.id ? updatedTodo : todo))
+    );
+  };
+
+  // Rethrows so the tag picker stays open when attaching fails
+  const handleAttachTag = async (todoId: number, name: string) => {
+    try {
+      const updatedTodo = await trpc.attachTag.mutate({ todo_id: todoId, name });
+      replaceTodo(updatedTodo);
+      // The tag may have been created just now
+      loadTags();
     } catch (error) {
-      console.error('Failed to delete todo:', error);
+      notifyError('Failed to attach tag', error);
+      throw error;
     }
   };
 
-  const completedCount = todos.filter((todo: Todo) => todo.completed).length;
-  const totalCount = todos.length;
+  const handleDetachTag = async (todoId: number, tagId: number) => {
+    try {
+      const updatedTodo = await trpc.detachTag.mutate({ todo_id: todoId, tag_id: tagId });
+      replaceTodo(updatedTodo);
+    } catch (error) {
+      notifyError('Failed to detach tag', error);
+    }
+  };
+
+  // Rethrows so the checklist keeps the typed step when adding fails
+  const handleAddChecklistItem = async (todoId: number, title: string) => {
+    try {
+      const updatedTodo = await trpc.addChecklistItem.mutate({ todo_id: todoId, title });
+      replaceTodo(updatedTodo);
+    } catch (error) {
+      notifyError('Failed to add checklist item', error);
+      throw error;
+    }
+  };
+
+  const handleUpdateChecklistItem = async (input: UpdateChecklistItemInput) => {
+    try {
+      const updatedTodo = await trpc.updateChecklistItem.mutate(input);
+      replaceTodo(updatedTodo);
+    } catch (error) {
+      notifyError('Failed to update checklist item', error);
+    }
+  };
+
+  const handleDeleteChecklistItem = async (itemId: number) => {
+    try {
+      const updatedTodo = await trpc.deleteChecklistItem.mutate({ id: itemId });
+      replaceTodo(updatedTodo);
+    } catch (error) {
+      notifyError('Failed to delete checklist item', error);
+    }
+  };
+
+  const handleReorderChecklist = async (todoId: number, itemIds: number[]) => {
+    try {
+      const updatedTodo = await trpc.reorderChecklistItems.mutate({ todo_id: todoId, item_ids: itemIds });
+      replaceTodo(updatedTodo);
+    } catch (error) {
+      notifyError('Failed to reorder checklist', error);
+    }
+  };
+
+  const handleMoveTodo = async (id: number, targetId: number, placement: Placement) => {
+    const previousTodos = todos;
+    // Where the todo came from: after its old predecessor, or else before its old successor
+    const index = todos.findIndex((todo: Todo) => todo.id === id);
+    const previousNeighbour = index > 0 ? todos[index - 1] : null;
+    const nextNeighbour = todos[index + 1] ?? null;
+    // Reorder right away; the server only assigns the moved todo a new position
+    setTodos((prev: Todo[]) => {
+      const moving = prev.find((todo: Todo) => todo.id === id);
+      if (!moving) return prev;
+      const rest = prev.filter((todo: Todo) => todo.id !== id);
+      const targetIndex = rest.findIndex((todo: Todo) => todo.id === targetId);
+      rest.splice(placement === 'before' ? targetIndex : targetIndex + 1, 0, moving);
+      return rest;
+    });
+
+    try {
+      const updatedTodo = await trpc.moveTodo.mutate({ id, target_id: targetId, placement });
+      replaceTodo(updatedTodo);
+
+      const origin = previousNeighbour ?? nextNeighbour;
+      if (origin) {
+        notifyUndoable(`Moved "${updatedTodo.title}"`, async () => {
+          await trpc.moveTodo.mutate({
+            id,
+            target_id: origin.id,
+            placement: previousNeighbour ? 'after' : 'before'
+          });
+          loadTodos();
+        });
+      }
+    } catch (error) {
+      notifyError('Failed to move todo', error);
+      setTodos(previousTodos);
+    }
+  };
+
+  // Moves a todo one step up or down and keeps keyboard focus on its handle
+  const handleMoveByOne = (index: number, offset: -1 | 1) => {
+    const todo = todos[index];
+    const target = todos[index + offset];
+    if (!todo || !target) return;
+
+    handleMoveTodo(todo.id, target.id, offset < 0 ? 'before' : 'after');
+    requestAnimationFrame(() => document.getElementById(`move-handle-${todo.id}`)?.focus());
+  };
+
+  const handleDrop = () => {
+    if (draggedId !== null && dropTarget !== null && dropTarget.id !== draggedId) {
+      handleMoveTodo(draggedId, dropTarget.id, dropTarget.placement);
+    }
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  // Rethrows so the assignee picker stays open when assigning fails
+  const handleAssign = async (todoId: number, assigneeId: number | null) => {
+    const previous = todos.find((todo: Todo) => todo.id === todoId);
+    try {
+      const updatedTodo = await trpc.assignTodo.mutate({ id: todoId, assignee_id: assigneeId });
+      setTodos((prev: Todo[]) =>
+        prev
+          .map((todo: Todo) => (todo.id === updatedTodo.id ? updatedTodo : todo))
+          // Drop todos that are no longer assigned to the user in the "Assigned to me" view
+          .filter((todo: Todo) => !isAssignedToMeOpen || todo.assignee_id === user.id)
+      );
+
+      if (previous) {
+        notifyUndoable(
+          updatedTodo.assignee_name ? `Assigned "${updatedTodo.title}" to ${updatedTodo.assignee_name}` : `Unassigned "${updatedTodo.title}"`,
+          async () => {
+            await trpc.assignTodo.mutate({ id: todoId, assignee_id: previous.assignee_id });
+            loadTodos();
+          }
+        );
+      }
+    } catch (error) {
+      notifyError('Failed to assign todo', error);
+      throw error;
+    }
+  };
+
+  const handleCommentCountChange = (todoId: number, count: number) => {
+    setTodos((prev: Todo[]) =>
+      prev.map((todo: Todo) => (todo.id === todoId ? { ...todo, comment_count: count } : todo))
+    );
+  };
+
+  const handleToggleTagFilter = (tagId: number) => {
+    setSelectedTagIds((prev: number[]) =>
+      prev.includes(tagId) ? prev.filter((id: number) => id !== tagId) : [...prev, tagId]
+    );
+  };
+
+  // Rethrows so the tag stays in rename mode when renaming fails
+  const handleRenameTag = async (id: number, name: string) => {
+    try {
+      await trpc.renameTag.mutate({ id, name });
+    } catch (error) {
+      notifyError('Failed to rename tag', error);
+      throw error;
+    }
+    await loadTags();
+    // Todos embed their tags, so refresh them too
+    loadTodos();
+  };
+
+  const handleMergeTags = async (sourceId: number, targetId: number) => {
+    try {
+      await trpc.mergeTags.mutate({ source_id: sourceId, target_id: targetId });
+      await loadTags();
+      if (selectedTagIds.includes(sourceId)) {
+        // Filter by the surviving tag instead; this also reloads todos
+        setSelectedTagIds((prev: number[]) => [
+          ...new Set(prev.map((id: number) => (id === sourceId ? targetId : id)))
+        ]);
+      } else {
+        loadTodos();
+      }
+    } catch (error) {
+      notifyError('Failed to merge tags', error);
+    }
+  };
+
+  // Picking a view from the sidebar also leaves the search
+  const handleSelectList = (listId: number | null) => {
+    setSearchQuery('');
+    setSelectedListId(listId);
+    setIsTrashOpen(false);
+    setIsArchiveOpen(false);
+    setIsApiTokensOpen(false);
+    setIsAssignedToMeOpen(false);
+    setIsSidebarOpen(false);
+  };
+
+  // Leaves the search for the view the todo lives in, without filters that could hide it
+  const handleOpenSearchResult = (todo: Todo) => {
+    setSelectedTagIds([]);
+    handleSelectList(todo.list_id);
+  };
+
+  const handleOpenAssignedToMe = () => {
+    setSearchQuery('');
+    setSelectedListId(null);
+    setIsAssignedToMeOpen(true);
+    setIsTrashOpen(false);
+    setIsArchiveOpen(false);
+    setIsApiTokensOpen(false);
+    setIsSidebarOpen(false);
+  };
+
+  const handleOpenArchive = () => {
+    setSearchQuery('');
+    setIsArchiveOpen(true);
+    setIsTrashOpen(false);
+    setIsApiTokensOpen(false);
+    setIsAssignedToMeOpen(false);
+    setIsSidebarOpen(false);
+  };
+
+  const handleOpenTrash = () => {
+    setSearchQuery('');
+    setIsTrashOpen(true);
+    setIsArchiveOpen(false);
+    setIsApiTokensOpen(false);
+    setIsAssignedToMeOpen(false);
+    setIsSidebarOpen(false);
+  };
+
+  const handleOpenApiTokens = () => {
+    setSearchQuery('');
+    setIsApiTokensOpen(true);
+    setIsTrashOpen(false);
+    setIsArchiveOpen(false);
+    setIsAssignedToMeOpen(false);
+    setIsSidebarOpen(false);
+  };
+
+  // Archives the completed todos of the open list, or of every list from "All todos"
+  const handleClearCompleted = async () => {
+    try {
+      const { ids } = await trpc.archiveCompleted.mutate({ listId: selectedListId ?? undefined });
+      loadTodos(true);
+      loadLists();
+      if (ids.length === 0) return;
+
+      notifyUndoable(`Archived ${ids.length} completed ${ids.length === 1 ? 'todo' : 'todos'}`, async () => {
+        await Promise.all(ids.map((id: number) => trpc.unarchiveTodo.mutate({ id })));
+        loadTodos();
+        loadLists();
+      });
+    } catch (error) {
+      notifyError('Failed to clear completed todos', error);
+    }
+  };
+
+  const handleTodoRestored = () => {
+    loadTodos();
+    loadLists();
+  };
+
+  // Imports can add tags as well as todos
+  const handleImported = () => {
+    loadTodos();
+    loadLists();
+    loadTags();
+  };
+
+  // Rethrows so the sidebar keeps the typed name when saving fails
+  const handleCreateList = async (name: string) => {
+    try {
+      const list = await trpc.createList.mutate({ name });
+      await loadLists();
+      setSelectedListId(list.id);
+      setIsTrashOpen(false);
+      setIsArchiveOpen(false);
+      setIsApiTokensOpen(false);
+      setIsAssignedToMeOpen(false);
+    } catch (error) {
+      notifyError('Failed to create list', error);
+      throw error;
+    }
+  };
+
+  const handleRenameList = async (id: number, name: string) => {
+    try {
+      await trpc.updateList.mutate({ id, name });
+      await loadLists();
+    } catch (error) {
+      notifyError('Failed to rename list', error);
+      throw error;
+    }
+  };
+
+  const handleDeleteList = async (id: number) => {
+    try {
+      await trpc.deleteList.mutate({ id });
+      if (selectedListId === id) {
+        setSelectedListId(null);
+      } else {
+        // The deleted list's todos may be visible under "All todos"
+        loadTodos();
+      }
+      loadLists();
+    } catch (error) {
+      notifyError('Failed to delete list', error);
+    }
+  };
+
+  const handleLeftList = (id: number) => {
+    if (selectedListId === id) {
+      setSelectedListId(null);
+    } else {
+      loadTodos();
+    }
+    loadLists();
+  };
+
+  const handleInvitationAccepted = () => {
+    loadLists();
+    loadTodos();
+  };
+
+  // Only the due date order is split into due date sections; the other orders are one list
+  const dueSections = sortBy === 'due_at' ? groupTodosByDue(todos) : [];
+  const isSearching = searchResults !== null;
+  // The todos in the order they are shown, which is what a shift-click range follows
+  const shownTodos = sortBy === 'due_at' ? dueSections.flatMap((section) => section.todos) : todos;
+
+  const handleSelectTodo = (id: number, extendRange: boolean) => {
+    const anchorIndex = shownTodos.findIndex((todo: Todo) => todo.id === selectionAnchorRef.current);
+    const index = shownTodos.findIndex((todo: Todo) => todo.id === id);
+
+    if (extendRange && anchorIndex !== -1 && index !== -1) {
+      const range = shownTodos
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .map((todo: Todo) => todo.id);
+      setSelectedIds((prev: number[]) => [...new Set([...prev, ...range])]);
+    } else {
+      setSelectedIds((prev: number[]) => (prev.includes(id) ? prev.filter((selected: number) => selected !== id) : [...prev, id]));
+    }
+    selectionAnchorRef.current = id;
+  };
+
+  const renderCard = (todo: Todo) => (
+    <TodoCard
+      todo={todo}
+      lists={lists}
+      allTags={tags}
+      selectedTagIds={selectedTagIds}
+      onToggleComplete={handleToggleComplete}
+      onUpdate={handleUpdate}
+      onDelete={handleDelete}
+      onAttachTag={handleAttachTag}
+      onDetachTag={handleDetachTag}
+      onTagClick={handleToggleTagFilter}
+      onAddChecklistItem={handleAddChecklistItem}
+      onUpdateChecklistItem={handleUpdateChecklistItem}
+      onDeleteChecklistItem={handleDeleteChecklistItem}
+      onReorderChecklist={handleReorderChecklist}
+      onAssign={handleAssign}
+      onCommentCountChange={handleCommentCountChange}
+    />
+  );
+
+  // In selection mode every todo gets a checkbox in front of it
+  const renderTodoCard = (todo: Todo) => {
+    const card = renderCard(todo);
+    if (!isSelecting) return card;
+
+    return (
+      <div className="flex items-start gap-3">
+        <Checkbox
+          className="mt-7 size-5 bg-white"
+          checked={selectedIds.includes(todo.id)}
+          onClick={(e: React.MouseEvent<HTMLButtonElement>) => handleSelectTodo(todo.id, e.shiftKey)}
+          aria-label={`Select "${todo.title}"`}
+        />
+        <div className="flex-1 min-w-0">{card}</div>
+      </div>
+    );
+  };
+
+  const selectedList = lists.find((list: ListWithCounts) => list.id === selectedListId);
+
+  const sidebar = (
+    <ListSidebar
+      lists={lists}
+      selectedListId={selectedListId}
+      isTrashOpen={isTrashOpen}
+      isArchiveOpen={isArchiveOpen}
+      isAssignedToMeOpen={isAssignedToMeOpen}
+      onSelect={handleSelectList}
+      onOpenAssignedToMe={handleOpenAssignedToMe}
+      onOpenArchive={handleOpenArchive}
+      onOpenTrash={handleOpenTrash}
+      onCreate={handleCreateList}
+      onRename={handleRenameList}
+      onDelete={handleDeleteList}
+      onMembersChanged={loadLists}
+      onLeft={handleLeftList}
+    />
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8">
-      <div className="container mx-auto max-w-4xl px-4">
-        <div className="text-center mb-8">
-          <h1 className="text-4xl font-bold text-gray-800 mb-2">📝 Todo App</h1>
-          <p className="text-gray-600">Stay organized and get things done!</p>
-          {totalCount > 0 && (
-            <div className="mt-4 flex justify-center gap-2">
-              <Badge variant="secondary" className="bg-green-100 text-green-800">
-                {completedCount} completed
-              </Badge>
-              <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-                {totalCount - completedCount} remaining
-              </Badge>
-            </div>
-          )}
-        </div>
-
-        {/* Add Todo Form */}
-        <Card className="mb-8 shadow-lg">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Plus className="w-5 h-5" />
-              Add New Todo
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <Input
-                placeholder="What needs to be done? 🎯"
-                value={formData.title}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                  setFormData((prev: CreateTodoInput) => ({ ...prev, title: e.target.value }))
-                }
-                required
-                className="text-lg"
-              />
-              <Textarea
-                placeholder="Add a description (optional) 📝"
-                // Handle nullable field with fallback to empty string
-                value={formData.description || ''}
-                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                  setFormData((prev: CreateTodoInput) => ({
-                    ...prev,
-                    description: e.target.value || null // Convert empty string back to null
-                  }))
-                }
-                className="resize-none"
-                rows={3}
-              />
-              <Button type="submit" disabled={isCreating || !formData.title.trim()} className="w-full">
-                {isCreating ? 'Creating...' : '✨ Add Todo'}
+      <div className="container mx-auto max-w-6xl px-4 md:grid md:grid-cols-[16rem_1fr] md:gap-8">
+        {/* Lists Sidebar - inline on desktop, in a sheet on mobile */}
+        <aside className="hidden md:block">
+          <div className="sticky top-8 rounded-xl bg-white/80 p-4 shadow-lg">
+            {sidebar}
+          </div>
+        </aside>
+
+        <main className="min-w-0">
+          <Sheet open={isSidebarOpen} onOpenChange={setIsSidebarOpen}>
+            <SheetTrigger asChild>
+              <Button variant="outline" size="sm" className="mb-4 md:hidden">
+                <Menu className="w-4 h-4" />
+                Lists
               </Button>
-            </form>
-          </CardContent>
-        </Card>
-
-        {/* Loading State */}
-        {isLoading && (
-          <div className="text-center py-8">
-            <div className="text-gray-500">Loading todos... ⏳</div>
+            </SheetTrigger>
+            <SheetContent side="left" className="p-4">
+              <SheetHeader className="sr-only">
+                <SheetTitle>Lists</SheetTitle>
+              </SheetHeader>
+              {sidebar}
+            </SheetContent>
+          </Sheet>
+
+          <div className="flex items-center justify-end gap-2 mb-4 text-sm text-gray-600">
+            <ImportExportDialog lists={lists} selectedListId={selectedListId} onImported={handleImported} />
+            <Button variant="ghost" size="sm" onClick={handleOpenApiTokens}>
+              <KeyRound className="w-4 h-4" />
+              API tokens
+            </Button>
+            <span>Signed in as <span className="font-medium text-gray-800">{user.name}</span></span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </Button>
           </div>
-        )}
-
-        {/* Empty State */}
-        {!isLoading && todos.length === 0 && (
-          <Card className="shadow-lg">
-            <CardContent className="py-12 text-center">
-              <div className="text-6xl mb-4">🎉</div>
-              <h3 className="text-xl font-semibold text-gray-700 mb-2">No todos yet!</h3>
-              <p className="text-gray-500">Create your first todo above to get started.</p>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Todo List */}
-        {!isLoading && todos.length > 0 && (
-          <div className="space-y-4">
-            {todos.map((todo: Todo) => (
-              <Card key={todo.id} className={`shadow-lg transition-all duration-200 hover:shadow-xl ${
-                todo.completed ? 'bg-green-50 border-green-200' : 'bg-white'
-              }`}>
-                <CardContent className="p-6">
-                  <div className="flex items-start gap-4">
-                    <button
-                      onClick={() => handleToggleComplete(todo.id, !todo.completed)}
-                      className="mt-1 transition-colors duration-200"
-                    >
-                      {todo.completed ? (
-                        <CheckCircle className="w-6 h-6 text-green-600" />
-                      ) : (
-                        <Circle className="w-6 h-6 text-gray-400 hover:text-gray-600" />
-                      )}
-                    </button>
-
-                    <div className="flex-1 min-w-0">
-                      <h3 className={`text-lg font-semibold ${
-                        todo.completed 
-                          ? 'text-green-800 line-through' 
-                          : 'text-gray-800'
-                      }`}>
-                        {todo.title}
-                      </h3>
-                      
-                      {/* Handle nullable description */}
-                      {todo.description && (
-                        <p className={`mt-2 ${
-                          todo.completed 
-                            ? 'text-green-600 line-through' 
-                            : 'text-gray-600'
-                        }`}>
-                          {todo.description}
-                        </p>
-                      )}
-
-                      <div className="flex items-center gap-4 mt-3 text-sm text-gray-500">
-                        <span>Created: {todo.created_at.toLocaleDateString()}</span>
-                        {todo.completed && (
-                          <>
-                            <Separator orientation="vertical" className="h-4" />
-                            <Badge variant="secondary" className="bg-green-100 text-green-800">
-                              ✅ Completed
-                            </Badge>
-                          </>
-                        )}
-                      </div>
+
+          <div className="text-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-800 mb-2">📝 Todo App</h1>
+            <p className="text-gray-600">
+              {isApiTokensOpen
+                ? 'API tokens'
+                : isTrashOpen
+                ? 'Trash'
+                : isArchiveOpen
+                  ? 'Archive'
+                  : isAssignedToMeOpen
+                  ? 'Assigned to me'
+                  : selectedList ? selectedList.name : 'Stay organized and get things done!'}
+            </p>
+            {!isTrashOpen && !isArchiveOpen && !isApiTokensOpen && counts && counts.total > 0 && (
+              <div className="mt-4 flex items-center justify-center gap-2">
+                <Badge variant="secondary" className="bg-green-100 text-green-800">
+                  {counts.completed} completed
+                </Badge>
+                {/* Clearing archives by list, which does not match the Assigned to me view */}
+                {counts.completed > 0 && !isAssignedToMeOpen && selectedList?.role !== 'viewer' && (
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handleClearCompleted}>
+                    <Archive className="w-3 h-3" />
+                    Clear completed
+                  </Button>
+                )}
+                <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+                  {counts.active} remaining
+                </Badge>
+              </div>
+            )}
+          </div>
+
+          <InvitationsBanner onAccepted={handleInvitationAccepted} />
+
+          {isApiTokensOpen ? (
+            <ApiTokensView />
+          ) : isTrashOpen ? (
+            <TrashView onRestored={handleTodoRestored} />
+          ) : isArchiveOpen ? (
+            <ArchiveView lists={lists} onUnarchived={handleTodoRestored} />
+          ) : (
+            <>
+            {/* Add Todo Form - viewers of the selected list cannot add to it; new todos start unassigned */}
+            {!isAssignedToMeOpen && selectedList?.role !== 'viewer' && (
+              <Card className="mb-8 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Plus className="w-5 h-5" />
+                    Add New Todo
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <Input
+                      placeholder="What needs to be done? 🎯"
+                      value={formData.title}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateTodoInput) => ({ ...prev, title: e.target.value }))
+                      }
+                      required
+                      className="text-lg"
+                    />
+                    <Textarea
+                      placeholder="Add a description (optional) 📝"
+                      // Handle nullable field with fallback to empty string
+                      value={formData.description || ''}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                        setFormData((prev: CreateTodoInput) => ({
+                          ...prev,
+                          description: e.target.value || null // Convert empty string back to null
+                        }))
+                      }
+                      className="resize-none"
+                      rows={3}
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      <DueDatePicker
+                        value={{ due_at: formData.due_at ?? null, due_has_time: formData.due_has_time ?? false }}
+                        onChange={(due: DueValue) => setFormData((prev: CreateTodoInput) => ({ ...prev, ...due }))}
+                        disabled={isCreating}
+                      />
+                      <PrioritySelect
+                        value={formData.priority ?? null}
+                        onChange={(priority: Priority | null) => setFormData((prev: CreateTodoInput) => ({ ...prev, priority }))}
+                        disabled={isCreating}
+                      />
+                      <RecurrenceEditor
+                        value={formData.recurrence ?? null}
+                        onChange={(recurrence: Recurrence | null) => setFormData((prev: CreateTodoInput) => ({ ...prev, recurrence }))}
+                        disabled={isCreating}
+                      />
                     </div>
+                    <Button type="submit" disabled={isCreating || !formData.title.trim()} className="w-full">
+                      {isCreating ? 'Creating...' : '✨ Add Todo'}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="mb-4 flex gap-2">
+              <div className="relative flex-1">
+                <Search className="pointer-events-none absolute left-3 top-1/2 w-4 h-4 -translate-y-1/2 text-gray-400" />
+                <Input
+                  type="search"
+                  placeholder="Search todos"
+                  value={searchQuery}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
+                  aria-label="Search todos"
+                  className="bg-white pl-9"
+                />
+              </div>
+            </div>
+
+            <div className="mb-4 flex gap-2">
+              <Select value={status} onValueChange={(value: string) => setStatus(value as TodoStatus)} disabled={isSearching}>
+                <SelectTrigger className="w-36" aria-label="Show todos">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={sortBy} onValueChange={(value: string) => setSortBy(value as TodoSortBy)} disabled={isSearching}>
+                <SelectTrigger className="w-48" aria-label="Sort todos">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="due_at">Sort: Due date</SelectItem>
+                  <SelectItem value="position">Sort: Manual</SelectItem>
+                  <SelectItem value="priority">Sort: Priority</SelectItem>
+                  <SelectItem value="created_at">Sort: Created</SelectItem>
+                  <SelectItem value="updated_at">Sort: Updated</SelectItem>
+                </SelectContent>
+              </Select>
+              {/* The manual order has no direction */}
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="bg-white"
+                onClick={() => setSortDirection((prev: SortDirection) => (prev === 'asc' ? 'desc' : 'asc'))}
+                disabled={isSearching || sortBy === 'position'}
+                aria-label={sortDirection === 'asc' ? 'Sorted ascending; sort descending' : 'Sorted descending; sort ascending'}
+              >
+                {sortDirection === 'asc' ? <ArrowUpNarrowWide className="w-4 h-4" /> : <ArrowDownWideNarrow className="w-4 h-4" />}
+              </Button>
+              <Button
+                type="button"
+                variant={isSelecting ? 'secondary' : 'outline'}
+                className={isSelecting ? 'ml-auto' : 'ml-auto bg-white'}
+                onClick={() => (isSelecting ? handleStopSelecting() : setIsSelecting(true))}
+                disabled={isSearching}
+              >
+                <ListChecks className="w-4 h-4" />
+                {isSelecting ? 'Done' : 'Select'}
+              </Button>
+            </div>
+
+            {searchResults !== null && (
+              <SearchResults
+                query={searchQuery.trim()}
+                results={searchResults}
+                lists={lists}
+                onOpen={handleOpenSearchResult}
+              />
+            )}
+
+            {!isSearching && (
+              <TagFilterBar
+                tags={tags}
+                selectedTagIds={selectedTagIds}
+                tagMatch={tagMatch}
+                onToggleTag={handleToggleTagFilter}
+                onTagMatchChange={setTagMatch}
+                onClear={() => setSelectedTagIds([])}
+                onRename={handleRenameTag}
+                onMerge={handleMergeTags}
+              />
+            )}
 
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Delete Todo</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            Are you sure you want to delete "{todo.title}"? This action cannot be undone.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                          <AlertDialogAction
-                            onClick={() => handleDelete(todo.id)}
-                            className="bg-red-600 hover:bg-red-700"
-                          >
-                            Delete
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
-                  </div>
+            {/* Loading State */}
+            {!isSearching && isLoading && (
+              <div className="text-center py-8">
+                <div className="text-gray-500">Loading todos... ⏳</div>
+              </div>
+            )}
+
+            {/* Empty State */}
+            {!isSearching && !isLoading && todos.length === 0 && status !== 'all' && (counts?.total ?? 0) > 0 && (
+              <Card className="shadow-lg">
+                <CardContent className="py-12 text-center">
+                  <h3 className="text-xl font-semibold text-gray-700 mb-2">
+                    {status === 'active' ? 'Nothing left to do' : 'Nothing completed yet'}
+                  </h3>
+                  <Button type="button" variant="outline" onClick={() => setStatus('all')}>
+                    Show all todos
+                  </Button>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
+            )}
+
+            {!isSearching && !isLoading && todos.length === 0 && (status === 'all' || (counts?.total ?? 0) === 0) && (
+              <Card className="shadow-lg">
+                <CardContent className="py-12 text-center">
+                  <div className="text-6xl mb-4">🎉</div>
+                  <h3 className="text-xl font-semibold text-gray-700 mb-2">
+                    {isAssignedToMeOpen ? 'Nothing assigned to you' : 'No todos yet!'}
+                  </h3>
+                  <p className="text-gray-500">
+                    {isAssignedToMeOpen
+                      ? 'Todos assigned to you in any list show up here.'
+                      : 'Create your first todo above to get started.'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Manual order - a single list that can be rearranged */}
+            {!isSearching && !isLoading && todos.length > 0 && sortBy === 'position' && (
+              <div className="space-y-4">
+                {todos.map((todo: Todo, index: number) => (
+                  <SortableTodo
+                    key={todo.id}
+                    todoId={todo.id}
+                    title={todo.title}
+                    isFirst={index === 0}
+                    isLast={index === todos.length - 1}
+                    isDragging={draggedId === todo.id}
+                    dropPlacement={dropTarget?.id === todo.id && draggedId !== todo.id ? dropTarget.placement : null}
+                    onDragStart={setDraggedId}
+                    onDragOver={(id: number, placement: Placement) => setDropTarget({ id, placement })}
+                    onDrop={handleDrop}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTarget(null);
+                    }}
+                    onMoveUp={() => handleMoveByOne(index, -1)}
+                    onMoveDown={() => handleMoveByOne(index, 1)}
+                  >
+                    {renderTodoCard(todo)}
+                  </SortableTodo>
+                ))}
+              </div>
+            )}
+
+            {/* Priority, created and updated order - a single list in the server's order */}
+            {!isSearching && !isLoading && todos.length > 0 && sortBy !== 'position' && sortBy !== 'due_at' && (
+              <div className="space-y-4">
+                {todos.map((todo: Todo) => (
+                  <div key={todo.id}>{renderTodoCard(todo)}</div>
+                ))}
+              </div>
+            )}
 
-        {/* Footer */}
-        <div className="mt-12 text-center text-gray-500 text-sm">
-          <p>Built with React, tRPC, and Radix UI ✨</p>
-        </div>
+            {/* Due date order - grouped into Overdue / Today / Upcoming / No date */}
+            {!isSearching && !isLoading && todos.length > 0 && sortBy === 'due_at' && (
+              <div className="space-y-8">
+                {dueSections.map((section) => (
+                  <section key={section.group} className="space-y-4">
+                    {/* A lone "No date" section needs no heading */}
+                    {(dueSections.length > 1 || section.group !== 'none') && (
+                      <h2 className={`text-sm font-semibold uppercase tracking-wide ${
+                        section.group === 'overdue' ? 'text-red-600' : 'text-gray-600'
+                      }`}>
+                        {DUE_GROUP_LABELS[section.group]} ({section.todos.length})
+                      </h2>
+                    )}
+                    {section.todos.map((todo: Todo) => (
+                      <div key={todo.id}>{renderTodoCard(todo)}</div>
+                    ))}
+                  </section>
+                ))}
+              </div>
+            )}
+
+            {!isSearching && !isLoading && nextCursor !== null && (
+              <LoadMoreTrigger isLoading={isLoadingMore} onLoadMore={loadMoreTodos} />
+            )}
+            </>
+          )}
+
+          {/* Footer */}
+          <div className="mt-12 text-center text-gray-500 text-sm">
+            <p>Built with React, tRPC, and Radix UI ✨</p>
+          </div>
+        </main>
       </div>
+
+      {isSelecting && !isTrashOpen && !isArchiveOpen && !isApiTokensOpen && !isSearching && (
+        <BulkActionBar
+          selectedCount={selectedIds.length}
+          totalCount={todos.length}
+          lists={lists}
+          allTags={tags}
+          isWorking={isBulkWorking}
+          onSelectAll={() => setSelectedIds(todos.map((todo: Todo) => todo.id))}
+          onComplete={(completed: boolean) => handleBulkUpdate(completed ? 'Completed' : 'Reopened', { completed })}
+          onMove={(listId: number | null) => handleBulkUpdate('Moved', { list_id: listId })}
+          onSetPriority={(priority: Priority | null) => handleBulkUpdate('Updated', { priority })}
+          onTag={(name: string) => handleBulkUpdate('Tagged', { add_tags: [name] })}
+          onDelete={handleBulkDelete}
+          onClose={handleStopSelecting}
+        />
+      )}
+
+      <Toaster />
     </div>
   );
 }
@@ -0,0 +1,244 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { notifyError } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { formatDistanceToNow, isPast } from 'date-fns';
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ApiToken, ApiTokenScope, CreatedApiToken } from '../../../server/src/schema';
+
+const SCOPES: { scope: ApiTokenScope; label: string; description: string }[] = [
+  { scope: 'read', label: 'Read', description: 'List and search todos, lists and tags' },
+  { scope: 'write', label: 'Write', description: 'Create and change todos, lists and tags' },
+  { scope: 'delete', label: 'Delete', description: 'Delete todos, lists, comments and checklist items' }
+];
+
+// Select values must be strings, so "never expires" uses a sentinel
+const NEVER = 'never';
+const EXPIRY_OPTIONS: { value: string; label: string }[] = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: NEVER, label: 'Never' }
+];
+
+const expiryText = (expiresAt: Date | null): string => {
+  if (expiresAt === null) return 'Never expires';
+  const distance = formatDistanceToNow(expiresAt, { addSuffix: true });
+  return isPast(expiresAt) ? `Expired ${distance}` : `Expires ${distance}`;
+};
+
+// Personal API tokens for scripts and CI jobs. Only a hash of each token is stored, so a token
+// can be copied only right after it is created
+export default function ApiTokensView() {
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read', 'write']);
+  const [expiry, setExpiry] = useState('30');
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const loadApiTokens = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setApiTokens(await trpc.getApiTokens.query());
+    } catch (error) {
+      notifyError('Failed to load API tokens', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApiTokens();
+  }, [loadApiTokens]);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((prev: ApiTokenScope[]) =>
+      checked ? SCOPES.map(option => option.scope).filter(s => s === scope || prev.includes(s)) : prev.filter(s => s !== scope)
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const { token, ...apiToken } = await trpc.createApiToken.mutate({
+        name,
+        scopes,
+        expires_in_days: expiry === NEVER ? null : Number(expiry)
+      });
+      setApiTokens((prev: ApiToken[]) => [apiToken, ...prev]);
+      setCreated({ ...apiToken, token });
+      setName('');
+    } catch (error) {
+      notifyError('Failed to create the API token', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiToken: ApiToken) => {
+    if (!window.confirm(`Scripts using "${apiToken.name}" will stop working. Revoke it?`)) {
+      return;
+    }
+    try {
+      await trpc.revokeApiToken.mutate({ id: apiToken.id });
+      setApiTokens((prev: ApiToken[]) => prev.filter((other: ApiToken) => other.id !== apiToken.id));
+      if (created?.id === apiToken.id) setCreated(null);
+      toast(`Revoked "${apiToken.name}"`);
+    } catch (error) {
+      notifyError('Failed to revoke the API token', error);
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast('API token copied');
+    } catch (error) {
+      notifyError('Failed to copy the token', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            New API token
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <p className="text-gray-600">
+            Scripts and CI jobs can use the REST API (described at <code>/api/openapi.json</code>) with a token
+            sent as <code>Authorization: Bearer &lt;token&gt;</code>.
+          </p>
+
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                placeholder="What the token is for, e.g. Nightly CI"
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="mb-2 text-sm font-medium">Scopes</legend>
+              {SCOPES.map(({ scope, label, description }) => (
+                <div key={scope} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`api-token-scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => toggleScope(scope, checked === true)}
+                  />
+                  <Label htmlFor={`api-token-scope-${scope}`}>{label}</Label>
+                  <span className="text-gray-500">{description}</span>
+                </div>
+              ))}
+            </fieldset>
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="api-token-expiry">Expires after</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger id="api-token-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={isCreating || scopes.length === 0 || !name.trim()}>
+                <KeyRound className="w-4 h-4" />
+                {isCreating ? 'Creating...' : 'Create token'}
+              </Button>
+            </div>
+          </form>
+
+          {created && (
+            <div className="space-y-2 rounded-md border border-green-200 bg-green-50 p-3">
+              <p className="font-medium text-green-800">Token "{created.name}" created</p>
+              <div className="flex gap-2">
+                <Input readOnly value={created.token} aria-label="API token" className="bg-white font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={() => handleCopy(created.token)} aria-label="Copy API token">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-600">Copy the token now; it is not shown again.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading && (
+        <div className="text-center py-8">
+          <div className="text-gray-500">Loading API tokens... ⏳</div>
+        </div>
+      )}
+
+      {!isLoading && apiTokens.length === 0 && (
+        <Card className="shadow-lg">
+          <CardContent className="py-12 text-center">
+            <div className="text-6xl mb-4">🔑</div>
+            <h3 className="text-xl font-semibold text-gray-700 mb-2">No API tokens yet</h3>
+            <p className="text-gray-500">Create one above to use the API from scripts.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && apiTokens.map((apiToken: ApiToken) => (
+        <Card key={apiToken.id} className="shadow-lg">
+          <CardContent className="flex items-start gap-4 p-6">
+            <div className="flex-1 min-w-0">
+              <h3 className="text-lg font-semibold text-gray-800">{apiToken.name}</h3>
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                <code className="text-xs">{apiToken.token_prefix}…</code>
+                {apiToken.scopes.map((scope: ApiTokenScope) => (
+                  <Badge key={scope} variant="secondary">{scope}</Badge>
+                ))}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-x-4 text-sm text-gray-500">
+                <span className={apiToken.expires_at && isPast(apiToken.expires_at) ? 'text-red-600' : undefined}>
+                  {expiryText(apiToken.expires_at)}
+                </span>
+                <span>
+                  {apiToken.last_used_at
+                    ? `Last used ${formatDistanceToNow(apiToken.last_used_at, { addSuffix: true })}`
+                    : 'Never used'}
+                </span>
+              </div>
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
+              onClick={() => handleRevoke(apiToken)}
+            >
+              <Trash2 className="w-4 h-4" />
+              Revoke
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
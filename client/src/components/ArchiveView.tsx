@@ -0,0 +1,199 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import LoadMoreTrigger from '@/components/LoadMoreTrigger';
+import { notifyError, notifyUndoable } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { formatDistanceToNow } from 'date-fns';
+import { useState, useEffect, useCallback } from 'react';
+import { ArchiveRestore, Search, Trash2 } from 'lucide-react';
+import type { ListWithCounts, SearchResult, Todo } from '../../../server/src/schema';
+
+interface ArchiveViewProps {
+  // To show which list each todo was in
+  lists: ListWithCounts[];
+  // Called after a todo leaves the archive (or that is undone), so the live views can refresh
+  onUnarchived: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+// How long typing has to pause before the archive is searched
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Archived todos, most recently changed first, with their own search box
+export default function ArchiveView({ lists, onUnarchived }: ArchiveViewProps) {
+  const [todos, setTodos] = useState<Todo[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  // null while the search box is empty
+  const [searchResults, setSearchResults] = useState<Todo[] | null>(null);
+
+  const loadArchive = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.getTodos.query({ archived: true, sortBy: 'updated_at', sortDirection: 'desc', limit: PAGE_SIZE });
+      setTodos(result.todos);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      notifyError('Failed to load the archive', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (nextCursor === null || isLoadingMore) return;
+    try {
+      setIsLoadingMore(true);
+      const result = await trpc.getTodos.query({
+        archived: true,
+        sortBy: 'updated_at',
+        sortDirection: 'desc',
+        limit: PAGE_SIZE,
+        cursor: nextCursor
+      });
+      setTodos((prev: Todo[]) => [...prev, ...result.todos]);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      notifyError('Failed to load more of the archive', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore]);
+
+  useEffect(() => {
+    loadArchive();
+  }, [loadArchive]);
+
+  // Searches once typing pauses; responses to superseded searches are dropped
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await trpc.searchTodos.query({ query, archived: true });
+        if (isCurrent) setSearchResults(results.map((result: SearchResult) => result.todo));
+      } catch (error) {
+        if (isCurrent) notifyError('Search failed', error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+
+  // Takes the todo out of the shown todos and the search results alike
+  const removeShown = (id: number) => {
+    setTodos((prev: Todo[]) => prev.filter((todo: Todo) => todo.id !== id));
+    setSearchResults((prev: Todo[] | null) => prev && prev.filter((todo: Todo) => todo.id !== id));
+  };
+
+  const handleUnarchive = async (todo: Todo) => {
+    try {
+      await trpc.unarchiveTodo.mutate({ id: todo.id });
+      removeShown(todo.id);
+      onUnarchived();
+    } catch (error) {
+      notifyError('Failed to unarchive todo', error);
+    }
+  };
+
+  const handleDelete = async (todo: Todo) => {
+    try {
+      await trpc.deleteTodo.mutate({ id: todo.id });
+      removeShown(todo.id);
+
+      notifyUndoable(`Moved "${todo.title}" to the trash`, async () => {
+        await trpc.restoreTodo.mutate({ id: todo.id });
+        loadArchive();
+      });
+    } catch (error) {
+      notifyError('Failed to delete todo', error);
+    }
+  };
+
+  const shown = searchResults ?? todos;
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-3 top-1/2 w-4 h-4 -translate-y-1/2 text-gray-400" />
+        <Input
+          type="search"
+          placeholder="Search the archive"
+          value={searchQuery}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
+          aria-label="Search the archive"
+          className="bg-white pl-9"
+        />
+      </div>
+
+      {isLoading && (
+        <div className="text-center py-8">
+          <div className="text-gray-500">Loading archive... ⏳</div>
+        </div>
+      )}
+
+      {!isLoading && shown.length === 0 && (
+        <Card className="shadow-lg">
+          <CardContent className="py-12 text-center">
+            <div className="text-6xl mb-4">🗄️</div>
+            <h3 className="text-xl font-semibold text-gray-700 mb-2">
+              {searchResults === null ? 'The archive is empty' : `No archived todos match "${searchQuery.trim()}"`}
+            </h3>
+            <p className="text-gray-500">Clearing completed todos moves them here, out of your lists.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && shown.map((todo: Todo) => {
+        const listName = lists.find((list: ListWithCounts) => list.id === todo.list_id)?.name ?? null;
+        return (
+          <Card key={todo.id} className="shadow-lg bg-white/70">
+            <CardContent className="flex items-start gap-4 p-6">
+              <div className="flex-1 min-w-0">
+                <h3 className="text-lg font-semibold text-gray-500 line-through">{todo.title}</h3>
+                {todo.description && <p className="mt-2 text-gray-400">{todo.description}</p>}
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-500">
+                  <Badge variant="outline">{listName ?? 'No list'}</Badge>
+                  {todo.archived_at && <span>Archived {formatDistanceToNow(todo.archived_at, { addSuffix: true })}</span>}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleUnarchive(todo)}>
+                  <ArchiveRestore className="w-4 h-4" />
+                  Unarchive
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
+                  onClick={() => handleDelete(todo)}
+                  aria-label={`Move "${todo.title}" to the trash`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {!isLoading && searchResults === null && nextCursor !== null && (
+        <LoadMoreTrigger isLoading={isLoadingMore} onLoadMore={loadMore} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import UserAvatar from '@/components/UserAvatar';
+import { formatDistanceToNow } from 'date-fns';
+import { useState } from 'react';
+import { Check, UserPlus, UserX } from 'lucide-react';
+import type { ListMember, Todo, TodoAssignment } from '../../../server/src/schema';
+
+export type AssigneeOption = Pick<ListMember, 'user_id' | 'name'>;
+
+interface AssigneePickerProps {
+  todo: Todo;
+  // People who may be assigned: whoever can edit the todo
+  options: AssigneeOption[];
+  // Only shows the assignee and the history
+  readOnly: boolean;
+  onAssign: (assigneeId: number | null) => Promise<void>;
+}
+
+const describeAssignment = (entry: TodoAssignment): string =>
+  entry.assignee_id === null
+    ? `${entry.assigned_by_name} unassigned it`
+    : `${entry.assigned_by_name} assigned ${entry.assignee_name ?? 'a former user'}`;
+
+// The assignee's avatar on a todo card; opens a picker to reassign the todo and see who assigned it when
+export default function AssigneePicker({ todo, options, readOnly, onAssign }: AssigneePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const assign = async (assigneeId: number | null) => {
+    setIsSubmitting(true);
+    try {
+      await onAssign(assigneeId);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to assign todo:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Newest first
+  const history = [...todo.assignments].reverse();
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        {todo.assignee_name ? (
+          <button
+            type="button"
+            className="flex items-center gap-1 rounded-full pr-1 hover:bg-gray-100"
+            aria-label={`Assigned to ${todo.assignee_name}`}
+          >
+            <UserAvatar name={todo.assignee_name} />
+            <span>{todo.assignee_name}</span>
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="flex items-center gap-1 rounded-sm hover:text-gray-700"
+            aria-label={readOnly ? 'Assignment history' : 'Assign'}
+          >
+            <UserPlus className="w-4 h-4" />
+            Unassigned
+          </button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-2" align="start">
+        {!readOnly && (
+          <>
+            <p className="text-xs font-medium text-gray-500">Assign to</p>
+            <div className="space-y-1">
+              {options.map((option: AssigneeOption) => (
+                <Button
+                  key={option.user_id}
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start"
+                  onClick={() => assign(option.user_id)}
+                  disabled={isSubmitting || option.user_id === todo.assignee_id}
+                >
+                  <UserAvatar name={option.name} />
+                  <span className="flex-1 truncate text-left">{option.name}</span>
+                  {option.user_id === todo.assignee_id && <Check className="w-4 h-4" />}
+                </Button>
+              ))}
+              {todo.assignee_id !== null && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start text-red-600 hover:text-red-700"
+                  onClick={() => assign(null)}
+                  disabled={isSubmitting}
+                >
+                  <UserX className="w-4 h-4" />
+                  Unassign
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {!readOnly && history.length > 0 && <Separator />}
+
+        {history.length > 0 ? (
+          <ul className="space-y-1 text-xs text-gray-600">
+            {history.map((entry: TodoAssignment) => (
+              <li key={entry.id}>
+                {describeAssignment(entry)}{' '}
+                <span className="text-gray-400">{formatDistanceToNow(entry.created_at, { addSuffix: true })}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          readOnly && <p className="text-xs text-gray-500">Nobody has been assigned yet</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,53 @@
+import LoginScreen from '@/components/LoginScreen';
+import { AuthContext } from '@/lib/auth';
+import { notifyError } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import type { User } from '../../../server/src/schema';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+// Shows the login screen until there is a session, then the app with the user in AuthContext
+export default function AuthGate({ children }: AuthGateProps) {
+  // undefined while the session cookie is being checked
+  const [user, setUser] = useState<User | null | undefined>(undefined);
+
+  useEffect(() => {
+    trpc.me.query()
+      .then(setUser)
+      .catch((error: unknown) => {
+        console.error('Failed to check session:', error);
+        setUser(null);
+      });
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await trpc.logout.mutate();
+      setUser(null);
+    } catch (error) {
+      notifyError('Failed to sign out', error);
+    }
+  }, []);
+
+  if (user === undefined) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 text-center">
+        <div className="text-gray-500">Loading... ⏳</div>
+      </div>
+    );
+  }
+
+  if (user === null) {
+    return <LoginScreen onSignedIn={setUser} />;
+  }
+
+  return (
+    // Keyed by user so nothing from a previous session survives signing in as someone else
+    <AuthContext.Provider key={user.id} value={{ user, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
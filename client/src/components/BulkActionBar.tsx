@@ -0,0 +1,122 @@
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import TagPicker from '@/components/TagPicker';
+import { PRIORITIES, PRIORITY_COLORS, PRIORITY_LABELS } from '@/lib/priorities';
+import { CheckCircle, Circle, Flag, FolderInput, Trash2, X } from 'lucide-react';
+import type { ListWithCounts, Priority, Tag } from '../../../server/src/schema';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // How many todos could be selected, for "Select all"
+  totalCount: number;
+  lists: ListWithCounts[];
+  allTags: Tag[];
+  isWorking: boolean;
+  onSelectAll: () => void;
+  onComplete: (completed: boolean) => void;
+  onMove: (listId: number | null) => void;
+  onSetPriority: (priority: Priority | null) => void;
+  onTag: (name: string) => Promise<void>;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+// Floats over the bottom of the page while todos are being selected; every action applies to
+// the whole selection at once
+export default function BulkActionBar({
+  selectedCount,
+  totalCount,
+  lists,
+  allTags,
+  isWorking,
+  onSelectAll,
+  onComplete,
+  onMove,
+  onSetPriority,
+  onTag,
+  onDelete,
+  onClose
+}: BulkActionBarProps) {
+  const disabled = isWorking || selectedCount === 0;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Selected todos"
+      className="fixed bottom-4 left-1/2 z-40 flex max-w-[calc(100vw-2rem)] -translate-x-1/2 flex-wrap items-center gap-2 rounded-xl border bg-white px-4 py-2 shadow-xl"
+    >
+      <span className="text-sm font-medium text-gray-700 tabular-nums">{selectedCount} selected</span>
+      {selectedCount < totalCount && (
+        <Button variant="link" size="sm" className="px-1" onClick={onSelectAll} disabled={isWorking}>
+          Select all {totalCount}
+        </Button>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => onComplete(true)} disabled={disabled}>
+        <CheckCircle className="w-4 h-4" />
+        Complete
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => onComplete(false)} disabled={disabled}>
+        <Circle className="w-4 h-4" />
+        Reopen
+      </Button>
+
+      {lists.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled}>
+              <FolderInput className="w-4 h-4" />
+              Move to
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="center">
+            <DropdownMenuItem onSelect={() => onMove(null)}>No list</DropdownMenuItem>
+            {lists.filter((list: ListWithCounts) => list.role !== 'viewer').map((list: ListWithCounts) => (
+              <DropdownMenuItem key={list.id} onSelect={() => onMove(list.id)}>
+                {list.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={disabled}>
+            <Flag className="w-4 h-4" />
+            Priority
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center">
+          <DropdownMenuItem onSelect={() => onSetPriority(null)}>
+            <Flag className="w-4 h-4 text-gray-300" />
+            No priority
+          </DropdownMenuItem>
+          {PRIORITIES.map((priority: Priority) => (
+            <DropdownMenuItem key={priority} onSelect={() => onSetPriority(priority)}>
+              <Flag className={`w-4 h-4 ${PRIORITY_COLORS[priority]}`} />
+              {PRIORITY_LABELS[priority]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {!disabled && <TagPicker allTags={allTags} attachedTags={[]} onAttach={onTag} />}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-red-600 hover:bg-red-50 hover:text-red-700"
+        onClick={onDelete}
+        disabled={disabled}
+      >
+        <Trash2 className="w-4 h-4" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="icon" className="size-8" onClick={onClose} aria-label="Stop selecting">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { notifyError } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { formatDistanceToNow } from 'date-fns';
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, Link2, Link2Off } from 'lucide-react';
+import { toast } from 'sonner';
+import type { CalendarFeed } from '../../../server/src/schema';
+
+// The feed is served next to the API, behind the same /api proxy
+const feedUrl = (token: string, events: boolean): string =>
+  `${window.location.origin}/api/calendar/${token}.ics${events ? '?events=1' : ''}`;
+
+// Creates, replaces and turns off the link calendar apps subscribe to. Only a hash of the link's
+// token is stored, so the link can be copied only right after it is created
+export default function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [includeEvents, setIncludeEvents] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadFeed = useCallback(async () => {
+    try {
+      setFeed(await trpc.getCalendarFeed.query());
+    } catch (error) {
+      notifyError('Failed to load the calendar feed', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  const handleCreate = async () => {
+    if (feed && !window.confirm('Calendars subscribed to the current link will stop updating. Create a new link?')) {
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const { token: created, ...rest } = await trpc.createCalendarFeed.mutate();
+      setFeed(rest);
+      setToken(created);
+    } catch (error) {
+      notifyError('Failed to create the calendar link', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsWorking(true);
+    try {
+      await trpc.revokeCalendarFeed.mutate();
+      setFeed(null);
+      setToken(null);
+      toast('Calendar link turned off');
+    } catch (error) {
+      notifyError('Failed to turn off the calendar link', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast('Calendar link copied');
+    } catch (error) {
+      notifyError('Failed to copy the link', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-gray-600">
+        Subscribe to your todos from a calendar app. The link is read-only: anyone who has it can see your
+        todos, but not change them.
+      </p>
+
+      {token ? (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input readOnly value={feedUrl(token, includeEvents)} aria-label="Calendar link" className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={() => handleCopy(feedUrl(token, includeEvents))} aria-label="Copy calendar link">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="calendar-include-events"
+              checked={includeEvents}
+              onCheckedChange={(checked: boolean | 'indeterminate') => setIncludeEvents(checked === true)}
+            />
+            <Label htmlFor="calendar-include-events">Also show dated todos as events</Label>
+          </div>
+          <p className="text-xs text-gray-500">Copy the link now; it is not shown again.</p>
+        </div>
+      ) : feed ? (
+        <p className="text-gray-600">
+          Link created {formatDistanceToNow(feed.created_at, { addSuffix: true })}
+          {feed.last_fetched_at
+            ? `, last read by a calendar ${formatDistanceToNow(feed.last_fetched_at, { addSuffix: true })}.`
+            : ', not read by a calendar yet.'}
+        </p>
+      ) : (
+        <p className="text-gray-500">No calendar link yet.</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button className="flex-1" onClick={handleCreate} disabled={isWorking}>
+          <Link2 className="w-4 h-4" />
+          {feed ? 'Create a new link' : 'Create link'}
+        </Button>
+        {feed && (
+          <Button variant="outline" onClick={handleRevoke} disabled={isWorking}>
+            <Link2Off className="w-4 h-4" />
+            Turn off
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
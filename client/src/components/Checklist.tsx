@@ -0,0 +1,142 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import type { ChecklistItem } from '../../../server/src/schema';
+
+interface ChecklistProps {
+  items: ChecklistItem[];
+  // Shows the items without the controls to change them
+  readOnly: boolean;
+  onAdd: (title: string) => Promise<void>;
+  onToggle: (itemId: number, completed: boolean) => void;
+  onDelete: (itemId: number) => void;
+  // Receives every item id in the new order
+  onReorder: (itemIds: number[]) => void;
+}
+
+export default function Checklist({ items, readOnly, onAdd, onToggle, onDelete, onReorder }: ChecklistProps) {
+  const [newItemTitle, setNewItemTitle] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const completedCount = items.filter((item: ChecklistItem) => item.completed).length;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newItemTitle.trim();
+    if (!title) return;
+
+    setIsAdding(true);
+    try {
+      await onAdd(title);
+      setNewItemTitle('');
+    } catch (error) {
+      console.error('Failed to add checklist item:', error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const itemIds = items.map((item: ChecklistItem) => item.id);
+    const [moved] = itemIds.splice(index, 1);
+    itemIds.splice(index + offset, 0, moved);
+    onReorder(itemIds);
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      {items.length > 0 && (
+        <>
+          <div className="flex items-center gap-3">
+            <Progress
+              value={(completedCount / items.length) * 100}
+              className="h-1.5"
+              aria-label="Checklist progress"
+            />
+            <span className="text-xs font-medium text-gray-500 tabular-nums">
+              {completedCount}/{items.length}
+            </span>
+          </div>
+
+          <ul className="space-y-1">
+            {items.map((item: ChecklistItem, index: number) => (
+              <li key={item.id} className="group/item flex items-center gap-2">
+                <Checkbox
+                  id={`checklist-item-${item.id}`}
+                  checked={item.completed}
+                  disabled={readOnly}
+                  onCheckedChange={(checked: boolean | 'indeterminate') => onToggle(item.id, checked === true)}
+                />
+                <label
+                  htmlFor={`checklist-item-${item.id}`}
+                  className={`flex-1 text-sm ${item.completed ? 'text-gray-400 line-through' : 'text-gray-700'}`}
+                >
+                  {item.title}
+                </label>
+                {!readOnly && (
+                  <div className="flex opacity-0 transition-opacity group-hover/item:opacity-100 focus-within:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move "${item.title}" up`}
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      onClick={() => move(index, 1)}
+                      disabled={index === items.length - 1}
+                      aria-label={`Move "${item.title}" down`}
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6 text-red-600 hover:text-red-700"
+                      onClick={() => onDelete(item.id)}
+                      aria-label={`Delete "${item.title}"`}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {!readOnly && (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            placeholder="Add a step"
+            value={newItemTitle}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewItemTitle(e.target.value)}
+            className="h-8"
+            disabled={isAdding}
+            aria-label="New checklist item"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            variant="outline"
+            className="size-8"
+            disabled={isAdding || !newItemTitle.trim()}
+            aria-label="Add checklist item"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
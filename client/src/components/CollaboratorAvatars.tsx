@@ -0,0 +1,27 @@
+import UserAvatar from '@/components/UserAvatar';
+import type { ListMember } from '../../../server/src/schema';
+
+interface CollaboratorAvatarsProps {
+  members: ListMember[];
+  // Avatars shown before the rest are summarized as "+N"
+  max?: number;
+}
+
+// Overlapping avatars of everyone with access to a list; pending invitations are left out
+export default function CollaboratorAvatars({ members, max = 3 }: CollaboratorAvatarsProps) {
+  const accepted = members.filter((member: ListMember) => member.accepted);
+  const hidden = accepted.length - max;
+
+  return (
+    <div className="flex -space-x-2">
+      {accepted.slice(0, max).map((member: ListMember) => (
+        <UserAvatar key={member.user_id} name={member.name} />
+      ))}
+      {hidden > 0 && (
+        <span className="flex size-6 items-center justify-center rounded-full bg-gray-100 text-[10px] font-semibold text-gray-600 ring-2 ring-white">
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import UserAvatar from '@/components/UserAvatar';
+import { useAuth } from '@/lib/auth';
+import { notifyError } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { formatDistanceToNow } from 'date-fns';
+import { useState, useEffect, useCallback } from 'react';
+import { Pencil, Send, Trash2 } from 'lucide-react';
+import type { Comment } from '../../../server/src/schema';
+
+interface CommentThreadProps {
+  todoId: number;
+  // Viewers can read the thread but not post to it
+  readOnly: boolean;
+  // Called with the new number of comments after one is added or deleted
+  onCountChange: (count: number) => void;
+}
+
+// Loads a todo's comments when mounted; authors can edit and delete their own
+export default function CommentThread({ todoId, readOnly, onCountChange }: CommentThreadProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [body, setBody] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editBody, setEditBody] = useState('');
+
+  const loadComments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.getComments.query({ todo_id: todoId });
+      setComments(result);
+    } catch (error) {
+      notifyError('Failed to load comments', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [todoId]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const post = async () => {
+    if (!body.trim()) return;
+
+    setIsPosting(true);
+    try {
+      const comment = await trpc.addComment.mutate({ todo_id: todoId, body });
+      setComments((prev: Comment[]) => [...prev, comment]);
+      onCountChange(comments.length + 1);
+      setBody('');
+    } catch (error) {
+      notifyError('Failed to post comment', error);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handlePost = (e: React.FormEvent) => {
+    e.preventDefault();
+    post();
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditBody(comment.body);
+  };
+
+  const handleSaveEdit = async (id: number) => {
+    if (!editBody.trim()) return;
+
+    try {
+      const updated = await trpc.updateComment.mutate({ id, body: editBody });
+      setComments((prev: Comment[]) => prev.map((comment: Comment) => (comment.id === id ? updated : comment)));
+      setEditingId(null);
+    } catch (error) {
+      notifyError('Failed to edit comment', error);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await trpc.deleteComment.mutate({ id });
+      setComments((prev: Comment[]) => prev.filter((comment: Comment) => comment.id !== id));
+      onCountChange(comments.length - 1);
+    } catch (error) {
+      notifyError('Failed to delete comment', error);
+    }
+  };
+
+  // Ctrl/Cmd+Enter submits, like the todo description editor
+  const submitOnCtrlEnter = (submit: () => void) => (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading && comments.length === 0 && <p className="text-sm text-gray-500">Loading comments... ⏳</p>}
+
+      {!isLoading && comments.length === 0 && (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      )}
+
+      <ul className="space-y-4">
+        {comments.map((comment: Comment) => (
+          <li key={comment.id} className="group/comment flex gap-3">
+            <UserAvatar name={comment.author_name} className="size-8" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium text-gray-800">{comment.author_name}</span>
+                <span className="text-xs text-gray-400" title={comment.created_at.toLocaleString()}>
+                  {formatDistanceToNow(comment.created_at, { addSuffix: true })}
+                  {comment.edited && ' (edited)'}
+                </span>
+                {comment.author_id === user.id && editingId !== comment.id && (
+                  <span className="ml-auto flex opacity-0 transition-opacity group-hover/comment:opacity-100 focus-within:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      onClick={() => startEditing(comment)}
+                      aria-label="Edit comment"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6 text-red-600 hover:text-red-700"
+                      onClick={() => handleDelete(comment.id)}
+                      aria-label="Delete comment"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </span>
+                )}
+              </div>
+
+              {editingId === comment.id ? (
+                <div className="mt-1 space-y-2">
+                  <Textarea
+                    value={editBody}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setEditBody(e.target.value)}
+                    onKeyDown={submitOnCtrlEnter(() => handleSaveEdit(comment.id))}
+                    aria-label="Comment"
+                    className="resize-none"
+                    rows={3}
+                    autoFocus
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleSaveEdit(comment.id)} disabled={!editBody.trim()}>
+                      Save
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="mt-1 whitespace-pre-wrap break-words text-sm text-gray-700">{comment.body}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {!readOnly && (
+        <form onSubmit={handlePost} className="space-y-2">
+          <Textarea
+            placeholder="Write a comment"
+            value={body}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setBody(e.target.value)}
+            onKeyDown={submitOnCtrlEnter(post)}
+            aria-label="New comment"
+            className="resize-none"
+            rows={3}
+            disabled={isPosting}
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">Ctrl+Enter to send</span>
+            <Button type="submit" size="sm" disabled={isPosting || !body.trim()}>
+              <Send className="w-4 h-4" />
+              {isPosting ? 'Sending...' : 'Comment'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatDue, toDueValue, type DueValue } from '@/lib/due-dates';
+import { format } from 'date-fns';
+import { CalendarDays, X } from 'lucide-react';
+
+interface DueDatePickerProps {
+  value: DueValue;
+  onChange: (value: DueValue) => void;
+  disabled?: boolean;
+}
+
+export default function DueDatePicker({ value, onChange, disabled = false }: DueDatePickerProps) {
+  const time = value.due_at && value.due_has_time ? format(value.due_at, 'HH:mm') : '';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={value.due_at ? '' : 'text-muted-foreground'}
+        >
+          <CalendarDays className="w-4 h-4" />
+          {value.due_at ? formatDue(value) : 'Due date'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value.due_at ?? undefined}
+          onSelect={(day: Date | undefined) => onChange(toDueValue(day ?? null, time || null))}
+          initialFocus
+        />
+        <div className="flex items-center gap-2 border-t p-3">
+          <Input
+            type="time"
+            value={time}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              // Picking a time without a day means today
+              onChange(toDueValue(value.due_at ?? new Date(), e.target.value || null))
+            }
+            aria-label="Due time (optional)"
+            className="w-32"
+          />
+          {value.due_at && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ due_at: null, due_has_time: false })}
+            >
+              <X className="w-4 h-4" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,308 @@
+import CalendarFeedSettings from '@/components/CalendarFeedSettings';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { notifyError } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import { ArrowDownUp, Download, Upload } from 'lucide-react';
+import type { ImportReport, ImportRow, ListWithCounts, TransferFormat } from '../../../server/src/schema';
+
+interface ImportExportDialogProps {
+  lists: ListWithCounts[];
+  // The open list, exported from and imported into unless another is picked; null = all todos
+  selectedListId: number | null;
+  // Called after todos were imported, so the views can be reloaded
+  onImported: () => void;
+}
+
+// todo.txt and iCalendar have procedures of their own, the other formats share exportTodos and
+// importTodos. iCalendar is exported through the calendar feed instead of as a download
+type FileFormat = TransferFormat | 'todotxt' | 'ics';
+
+const FORMAT_LABELS: Record<FileFormat, string> = {
+  json: 'JSON (everything)',
+  csv: 'CSV (spreadsheets)',
+  markdown: 'Markdown checklist',
+  todotxt: 'todo.txt',
+  ics: 'iCalendar (.ics)'
+};
+
+const EXPORT_FORMATS: Exclude<FileFormat, 'ics'>[] = ['json', 'csv', 'markdown', 'todotxt'];
+const IMPORT_FORMATS: FileFormat[] = [...EXPORT_FORMATS, 'ics'];
+
+// Select values must be strings, so "every list" and "no list" use sentinels
+const ALL_LISTS = 'all';
+const NO_LIST = 'none';
+
+// The format a file is in, going by its extension
+const formatOf = (filename: string): FileFormat | null => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'txt') return 'todotxt';
+  if (extension === 'ics') return 'ics';
+  return null;
+};
+
+const STATUS_LABELS: Record<ImportRow['status'], string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid'
+};
+
+function ImportReportView({ report, skipDuplicates }: { report: ImportReport; skipDuplicates: boolean }) {
+  const count = (status: ImportRow['status']) => report.rows.filter((row: ImportRow) => row.status === status).length;
+  // New todos need no explanation; the others are listed with the reason
+  const flagged = report.rows.filter((row: ImportRow) => row.status !== 'new');
+
+  return (
+    <div className="space-y-2 rounded-md border bg-gray-50 p-3 text-sm">
+      <p className="font-medium text-gray-800">
+        {report.dry_run
+          ? `${count('new') + (skipDuplicates ? 0 : count('duplicate'))} of ${report.rows.length} todos would be imported`
+          : `Imported ${report.imported} of ${report.rows.length} todos`}
+      </p>
+      <p className="text-gray-600">
+        {count('new')} new · {count('duplicate')} {skipDuplicates ? 'duplicates skipped' : 'duplicates'} · {count('invalid')} invalid
+      </p>
+      {flagged.length > 0 && (
+        <ul className="max-h-48 space-y-1 overflow-y-auto">
+          {flagged.map((row: ImportRow) => (
+            <li key={row.row} className={row.status === 'invalid' ? 'text-red-700' : 'text-gray-600'}>
+              <span className="font-medium">#{row.row} {row.title ?? '(no title)'}</span>: {STATUS_LABELS[row.status]}
+              {row.errors.length > 0 && ` - ${row.errors.join('; ')}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Downloads todos as a file, and previews and imports files exported from here or elsewhere
+export default function ImportExportDialog({ lists, selectedListId, onImported }: ImportExportDialogProps) {
+  const [exportFormat, setExportFormat] = useState<Exclude<FileFormat, 'ics'>>('json');
+  const [exportScope, setExportScope] = useState<string>(selectedListId === null ? ALL_LISTS : selectedListId.toString());
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [importFormat, setImportFormat] = useState<FileFormat>('json');
+  const [importTarget, setImportTarget] = useState<string>(
+    lists.some((list: ListWithCounts) => list.id === selectedListId && list.role !== 'viewer') ? String(selectedListId) : NO_LIST
+  );
+  const [content, setContent] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const editableLists = lists.filter((list: ListWithCounts) => list.role !== 'viewer');
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const options = {
+        listId: exportScope === ALL_LISTS ? undefined : exportScope === NO_LIST ? null : parseInt(exportScope),
+        includeArchived
+      };
+      const file = exportFormat === 'todotxt'
+        ? await trpc.exportTodoTxt.query(options)
+        : await trpc.exportTodos.query({ format: exportFormat, ...options });
+
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.mime_type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      notifyError('Failed to export todos', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportFormat(formatOf(file.name) ?? importFormat);
+    setContent(await file.text());
+    setReport(null);
+  };
+
+  // A dry run only fills in the report; a real import also refreshes the views
+  const handleImport = async (dryRun: boolean) => {
+    setIsImporting(true);
+    try {
+      const options = {
+        content,
+        list_id: importTarget === NO_LIST ? null : parseInt(importTarget),
+        dry_run: dryRun,
+        skip_duplicates: skipDuplicates
+      };
+      const result = importFormat === 'todotxt'
+        ? await trpc.importTodoTxt.mutate(options)
+        : importFormat === 'ics'
+          ? await trpc.importICalendar.mutate(options)
+          : await trpc.importTodos.mutate({ format: importFormat, ...options });
+      setReport(result);
+      if (!dryRun) {
+        setContent('');
+        onImported();
+      }
+    } catch (error) {
+      notifyError(dryRun ? 'Failed to read the file' : 'Failed to import todos', error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <ArrowDownUp className="w-4 h-4" />
+          Import / Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import and export</DialogTitle>
+          <DialogDescription>
+            Back up your todos or move them between apps. JSON keeps everything; CSV, Markdown and todo.txt are easier to edit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-3 pt-2">
+            <div className="flex gap-2">
+              <Select value={exportFormat} onValueChange={(value: string) => setExportFormat(value as Exclude<FileFormat, 'ics'>)}>
+                <SelectTrigger className="flex-1" aria-label="Export format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map((format: FileFormat) => (
+                    <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={exportScope} onValueChange={setExportScope}>
+                <SelectTrigger className="flex-1" aria-label="Todos to export">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LISTS}>All todos</SelectItem>
+                  <SelectItem value={NO_LIST}>No list</SelectItem>
+                  {lists.map((list: ListWithCounts) => (
+                    <SelectItem key={list.id} value={list.id.toString()}>{list.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-include-archived"
+                checked={includeArchived}
+                onCheckedChange={(checked: boolean | 'indeterminate') => setIncludeArchived(checked === true)}
+              />
+              <Label htmlFor="export-include-archived">Include archived todos</Label>
+            </div>
+            <Button onClick={handleExport} disabled={isExporting} className="w-full">
+              <Download className="w-4 h-4" />
+              {isExporting ? 'Exporting...' : 'Download'}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-3 pt-2">
+            <Input type="file" accept=".json,.csv,.md,.markdown,.txt,.ics" onChange={handleFile} aria-label="File to import" />
+            <Textarea
+              placeholder="...or paste the file here"
+              value={content}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
+                setContent(e.target.value);
+                setReport(null);
+              }}
+              rows={5}
+              className="font-mono text-xs"
+              aria-label="File contents"
+            />
+            <div className="flex gap-2">
+              <Select
+                value={importFormat}
+                onValueChange={(value: string) => {
+                  setImportFormat(value as FileFormat);
+                  setReport(null);
+                }}
+              >
+                <SelectTrigger className="flex-1" aria-label="Import format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_FORMATS.map((format: FileFormat) => (
+                    <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={importTarget}
+                onValueChange={(value: string) => {
+                  setImportTarget(value);
+                  setReport(null);
+                }}
+              >
+                <SelectTrigger className="flex-1" aria-label="List to import into">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LIST}>Lists named in the file</SelectItem>
+                  {editableLists.map((list: ListWithCounts) => (
+                    <SelectItem key={list.id} value={list.id.toString()}>{list.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="import-skip-duplicates"
+                checked={skipDuplicates}
+                onCheckedChange={(checked: boolean | 'indeterminate') => {
+                  setSkipDuplicates(checked === true);
+                  setReport(null);
+                }}
+              />
+              <Label htmlFor="import-skip-duplicates">Skip todos that are already in the list</Label>
+            </div>
+
+            {report && <ImportReportView report={report} skipDuplicates={skipDuplicates} />}
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => handleImport(true)} disabled={isImporting || !content.trim()}>
+                Preview
+              </Button>
+              <Button className="flex-1" onClick={() => handleImport(false)} disabled={isImporting || !content.trim()}>
+                <Upload className="w-4 h-4" />
+                {isImporting ? 'Importing...' : 'Import'}
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="calendar" className="pt-2">
+            <CalendarFeedSettings />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { notifyError } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Mail, X } from 'lucide-react';
+import type { Invitation } from '../../../server/src/schema';
+
+interface InvitationsBannerProps {
+  // Called after an invitation is accepted, so the new list and its todos show up
+  onAccepted: () => void;
+}
+
+// Pending invitations to shared lists; renders nothing when there are none
+export default function InvitationsBanner({ onAccepted }: InvitationsBannerProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      const result = await trpc.getInvitations.query();
+      setInvitations(result);
+    } catch (error) {
+      notifyError('Failed to load invitations', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const handleRespond = async (invitation: Invitation, accept: boolean) => {
+    try {
+      await trpc.respondToInvitation.mutate({ list_id: invitation.list_id, accept });
+      setInvitations((prev: Invitation[]) =>
+        prev.filter((other: Invitation) => other.list_id !== invitation.list_id)
+      );
+      if (accept) onAccepted();
+    } catch (error) {
+      notifyError(accept ? 'Failed to accept invitation' : 'Failed to decline invitation', error);
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-2">
+      {invitations.map((invitation: Invitation) => (
+        <Card key={invitation.list_id} className="border-indigo-200 bg-indigo-50 shadow-sm">
+          <CardContent className="flex flex-wrap items-center gap-3 p-4">
+            <Mail className="w-5 h-5 text-indigo-600" />
+            <p className="flex-1 text-sm text-gray-700">
+              <span className="font-medium">{invitation.invited_by_name}</span> invited you to{' '}
+              <span className="font-medium">{invitation.list_name}</span>
+              {invitation.role === 'viewer' ? ' as a viewer' : ' as an editor'}
+            </p>
+            <Button size="sm" onClick={() => handleRespond(invitation, true)}>
+              <Check className="w-4 h-4" />
+              Accept
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleRespond(invitation, false)}>
+              <X className="w-4 h-4" />
+              Decline
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { NavigationMenu, NavigationMenuItem, NavigationMenuLink, NavigationMenuList } from '@/components/ui/navigation-menu';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import CollaboratorAvatars from '@/components/CollaboratorAvatars';
+import ShareListDialog from '@/components/ShareListDialog';
+import { useState } from 'react';
+import { ListTodo, Inbox, Plus, Pencil, Trash2, UserCheck, Archive } from 'lucide-react';
+import type { ListWithCounts } from '../../../server/src/schema';
+
+interface ListSidebarProps {
+  lists: ListWithCounts[];
+  // null means "All todos"
+  selectedListId: number | null;
+  isTrashOpen: boolean;
+  isArchiveOpen: boolean;
+  isAssignedToMeOpen: boolean;
+  onSelect: (listId: number | null) => void;
+  onOpenAssignedToMe: () => void;
+  onOpenArchive: () => void;
+  onOpenTrash: () => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: number, name: string) => Promise<void>;
+  onDelete: (id: number) => void;
+  // Called after a list's collaborators change
+  onMembersChanged: () => void;
+  // Called after the user left a shared list
+  onLeft: (id: number) => void;
+}
+
+export default function ListSidebar({
+  lists,
+  selectedListId,
+  isTrashOpen,
+  isArchiveOpen,
+  isAssignedToMeOpen,
+  onSelect,
+  onOpenAssignedToMe,
+  onOpenArchive,
+  onOpenTrash,
+  onCreate,
+  onRename,
+  onDelete,
+  onMembersChanged,
+  onLeft
+}: ListSidebarProps) {
+  const [newListName, setNewListName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newListName.trim();
+    if (!name) return;
+
+    setIsCreating(true);
+    try {
+      await onCreate(name);
+      setNewListName('');
+    } catch (error) {
+      console.error('Failed to create list:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const startRenaming = (list: ListWithCounts) => {
+    setRenamingId(list.id);
+    setRenameValue(list.name);
+  };
+
+  const handleRename = async (list: ListWithCounts) => {
+    const name = renameValue.trim();
+    if (!name || name === list.name) {
+      setRenamingId(null);
+      return;
+    }
+
+    try {
+      await onRename(list.id, name);
+      setRenamingId(null);
+    } catch (error) {
+      console.error('Failed to rename list:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-800">
+        <ListTodo className="w-5 h-5" />
+        Lists
+      </h2>
+
+      <NavigationMenu orientation="vertical" viewport={false} className="max-w-none w-full items-stretch">
+        <NavigationMenuList className="flex-col items-stretch gap-1">
+          <NavigationMenuItem>
+            <NavigationMenuLink asChild active={!isTrashOpen && !isArchiveOpen && !isAssignedToMeOpen && selectedListId === null}>
+              <button type="button" onClick={() => onSelect(null)} className="w-full flex-row items-center text-left">
+                <Inbox className="w-4 h-4" />
+                <span className="flex-1">All todos</span>
+              </button>
+            </NavigationMenuLink>
+          </NavigationMenuItem>
+
+          <NavigationMenuItem>
+            <NavigationMenuLink asChild active={isAssignedToMeOpen}>
+              <button type="button" onClick={onOpenAssignedToMe} className="w-full flex-row items-center text-left">
+                <UserCheck className="w-4 h-4" />
+                <span className="flex-1">Assigned to me</span>
+              </button>
+            </NavigationMenuLink>
+          </NavigationMenuItem>
+
+          {lists.map((list: ListWithCounts) => (
+            <NavigationMenuItem key={list.id} className="group/list">
+              {renamingId === list.id ? (
+                <Input
+                  value={renameValue}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRenameValue(e.target.value)}
+                  onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                    if (e.key === 'Enter') handleRename(list);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onBlur={() => handleRename(list)}
+                  aria-label="List name"
+                  autoFocus
+                />
+              ) : (
+                <div className="flex items-center gap-1">
+                  <NavigationMenuLink asChild active={!isTrashOpen && !isArchiveOpen && selectedListId === list.id}>
+                    <button type="button" onClick={() => onSelect(list.id)} className="flex-1 min-w-0 text-left">
+                      <span className="flex items-center gap-2">
+                        <span className="flex-1 truncate font-medium">{list.name}</span>
+                        {/* Only shared lists show who is on them */}
+                        {list.members.length > 1 && <CollaboratorAvatars members={list.members} />}
+                      </span>
+                      <span className="flex gap-1">
+                        <Badge variant="secondary" className="bg-green-100 text-green-800">
+                          {list.completed_count} completed
+                        </Badge>
+                        <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+                          {list.total_count - list.completed_count} remaining
+                        </Badge>
+                      </span>
+                    </button>
+                  </NavigationMenuLink>
+                  <div className="flex flex-col opacity-0 transition-opacity group-hover/list:opacity-100 focus-within:opacity-100">
+                    <ShareListDialog list={list} onChanged={onMembersChanged} onLeft={() => onLeft(list.id)} />
+                    {list.role === 'owner' && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="size-7"
+                          onClick={() => startRenaming(list)}
+                          aria-label={`Rename "${list.name}"`}
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="size-7 text-red-600 hover:text-red-700"
+                              aria-label={`Delete "${list.name}"`}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete List</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{list.name}" and its {list.total_count} todo(s)? This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => onDelete(list.id)}
+                                className="bg-red-600 hover:bg-red-700"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </NavigationMenuItem>
+          ))}
+
+          <NavigationMenuItem>
+            <NavigationMenuLink asChild active={isArchiveOpen}>
+              <button type="button" onClick={onOpenArchive} className="w-full flex-row items-center text-left">
+                <Archive className="w-4 h-4" />
+                <span className="flex-1">Archive</span>
+              </button>
+            </NavigationMenuLink>
+          </NavigationMenuItem>
+
+          <NavigationMenuItem>
+            <NavigationMenuLink asChild active={isTrashOpen}>
+              <button type="button" onClick={onOpenTrash} className="w-full flex-row items-center text-left">
+                <Trash2 className="w-4 h-4" />
+                <span className="flex-1">Trash</span>
+              </button>
+            </NavigationMenuLink>
+          </NavigationMenuItem>
+        </NavigationMenuList>
+      </NavigationMenu>
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <Input
+          placeholder="New list"
+          value={newListName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewListName(e.target.value)}
+          disabled={isCreating}
+        />
+        <Button type="submit" size="icon" disabled={isCreating || !newListName.trim()} aria-label="Create list">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Button } from '@/components/ui/button';
+import { useEffect, useRef } from 'react';
+
+interface LoadMoreTriggerProps {
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Placed after the loaded todos: loads the next page once scrolled into view. The button is
+// there for keyboards and browsers without IntersectionObserver
+export default function LoadMoreTrigger({ isLoading, onLoadMore }: LoadMoreTriggerProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries: IntersectionObserverEntry[]) => {
+      if (entries.some((entry: IntersectionObserverEntry) => entry.isIntersecting)) onLoadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onLoadMore]);
+
+  return (
+    <div ref={ref} className="mt-6 flex justify-center">
+      <Button type="button" variant="outline" onClick={onLoadMore} disabled={isLoading}>
+        {isLoading ? 'Loading more... ⏳' : 'Load more'}
+      </Button>
+    </div>
+  );
+}
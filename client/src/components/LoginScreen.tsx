@@ -0,0 +1,149 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { User, LoginInput, RegisterInput } from '../../../server/src/schema';
+
+interface LoginScreenProps {
+  onSignedIn: (user: User) => void;
+}
+
+export default function LoginScreen({ onSignedIn }: LoginScreenProps) {
+  const [loginData, setLoginData] = useState<LoginInput>({ email: '', password: '' });
+  const [registerData, setRegisterData] = useState<RegisterInput>({ email: '', name: '', password: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Both forms sign in on success; the server sets the session cookie
+  const submit = async (e: React.FormEvent, signIn: () => Promise<User>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      onSignedIn(await signIn());
+    } catch (error) {
+      console.error('Sign in failed:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong, please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8">
+      <div className="container mx-auto max-w-md px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">📝 Todo App</h1>
+          <p className="text-gray-600">Sign in to see your todos</p>
+        </div>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="sr-only">Sign in</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="login" onValueChange={() => setError(null)}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login">Sign in</TabsTrigger>
+                <TabsTrigger value="register">Create account</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login">
+                <form
+                  onSubmit={(e: React.FormEvent) => submit(e, () => trpc.login.mutate(loginData))}
+                  className="space-y-4 pt-4"
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="login-email">Email</Label>
+                    <Input
+                      id="login-email"
+                      type="email"
+                      autoComplete="email"
+                      value={loginData.email}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setLoginData((prev: LoginInput) => ({ ...prev, email: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={loginData.password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setLoginData((prev: LoginInput) => ({ ...prev, password: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting ? 'Signing in...' : 'Sign in'}
+                  </Button>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="register">
+                <form
+                  onSubmit={(e: React.FormEvent) => submit(e, () => trpc.register.mutate(registerData))}
+                  className="space-y-4 pt-4"
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="register-name">Name</Label>
+                    <Input
+                      id="register-name"
+                      autoComplete="name"
+                      value={registerData.name}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setRegisterData((prev: RegisterInput) => ({ ...prev, name: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="register-email">Email</Label>
+                    <Input
+                      id="register-email"
+                      type="email"
+                      autoComplete="email"
+                      value={registerData.email}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setRegisterData((prev: RegisterInput) => ({ ...prev, email: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="register-password">Password</Label>
+                    <Input
+                      id="register-password"
+                      type="password"
+                      autoComplete="new-password"
+                      minLength={8}
+                      value={registerData.password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setRegisterData((prev: RegisterInput) => ({ ...prev, password: e.target.value }))
+                      }
+                      required
+                    />
+                    <p className="text-xs text-gray-500">At least 8 characters</p>
+                  </div>
+                  {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting ? 'Creating account...' : 'Create account'}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PRIORITIES, PRIORITY_COLORS, PRIORITY_LABELS } from '@/lib/priorities';
+import { Flag } from 'lucide-react';
+import type { Priority } from '../../../server/src/schema';
+
+interface PrioritySelectProps {
+  value: Priority | null;
+  onChange: (priority: Priority | null) => void;
+  disabled?: boolean;
+}
+
+// Select values must be strings, so "no priority" uses a sentinel
+const NO_PRIORITY = 'none';
+
+export default function PrioritySelect({ value, onChange, disabled = false }: PrioritySelectProps) {
+  return (
+    <Select
+      value={value ?? NO_PRIORITY}
+      onValueChange={(selected: string) =>
+        onChange(selected === NO_PRIORITY ? null : (selected as Priority))
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-44" aria-label="Priority">
+        <SelectValue placeholder="Priority" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PRIORITY}>
+          <Flag className="w-4 h-4 text-gray-300" />
+          No priority
+        </SelectItem>
+        {PRIORITIES.map((priority: Priority) => (
+          <SelectItem key={priority} value={priority}>
+            <Flag className={`w-4 h-4 ${PRIORITY_COLORS[priority]}`} />
+            {PRIORITY_LABELS[priority]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,157 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { FREQUENCIES, WEEKDAYS, WEEKDAY_LABELS, createRecurrence, formatRecurrence, unitLabel, type Frequency } from '@/lib/recurrence';
+import { addMonths, format } from 'date-fns';
+import { Repeat, X } from 'lucide-react';
+import type { Recurrence, Weekday } from '../../../server/src/schema';
+
+interface RecurrenceEditorProps {
+  value: Recurrence | null;
+  onChange: (value: Recurrence | null) => void;
+  disabled?: boolean;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+// Select values must be strings, so "does not repeat" uses a sentinel
+const NO_REPEAT = 'none';
+
+export default function RecurrenceEditor({ value, onChange, disabled = false }: RecurrenceEditorProps) {
+  const endMode: EndMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const update = (changes: Partial<Recurrence>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    // Start from a month out so the rule is always valid
+    if (mode === 'until') update({ until: format(addMonths(new Date(), 1), 'yyyy-MM-dd'), count: null });
+    else if (mode === 'count') update({ until: null, count: value?.count ?? 10 });
+    else update({ until: null, count: null });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={value ? '' : 'text-muted-foreground'}
+        >
+          <Repeat className="w-4 h-4" />
+          {value ? formatRecurrence(value) : 'Repeat'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="start">
+        <Select
+          value={value?.frequency ?? NO_REPEAT}
+          onValueChange={(selected: string) =>
+            onChange(selected === NO_REPEAT ? null : createRecurrence(selected as Frequency))
+          }
+        >
+          <SelectTrigger className="w-full" aria-label="Repeats">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+            {FREQUENCIES.map((frequency: Frequency) => (
+              <SelectItem key={frequency} value={frequency}>
+                {FREQUENCY_LABELS[frequency]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <span>Every</span>
+              <Input
+                type="number"
+                min={1}
+                max={999}
+                value={value.interval}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  update({ interval: Math.max(1, parseInt(e.target.value) || 1) })
+                }
+                className="w-20"
+                aria-label="Interval"
+              />
+              <span>{unitLabel(value.frequency, value.interval)}</span>
+            </div>
+
+            {value.frequency === 'weekly' && (
+              <ToggleGroup
+                type="multiple"
+                size="sm"
+                variant="outline"
+                value={value.weekdays}
+                onValueChange={(weekdays: string[]) => update({ weekdays: weekdays as Weekday[] })}
+                aria-label="Weekdays"
+              >
+                {WEEKDAYS.map((weekday: Weekday) => (
+                  <ToggleGroupItem key={weekday} value={weekday} aria-label={WEEKDAY_LABELS[weekday]}>
+                    {WEEKDAY_LABELS[weekday].charAt(0)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            )}
+
+            <RadioGroup value={endMode} onValueChange={handleEndModeChange} aria-label="Ends">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="never" id="recurrence-end-never" />
+                <Label htmlFor="recurrence-end-never">Never ends</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="until" id="recurrence-end-until" />
+                <Label htmlFor="recurrence-end-until">Until</Label>
+                <Input
+                  type="date"
+                  value={value.until ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    update({ until: e.target.value || null, count: null })
+                  }
+                  className="h-8 w-40"
+                  aria-label="End date"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="count" id="recurrence-end-count" />
+                <Label htmlFor="recurrence-end-count">After</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    update({ until: null, count: parseInt(e.target.value) || null })
+                  }
+                  className="h-8 w-20"
+                  aria-label="Occurrence count"
+                />
+                <span className="text-sm">times</span>
+              </div>
+            </RadioGroup>
+
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+              <X className="w-4 h-4" />
+              Stop repeating
+            </Button>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,80 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { formatDue } from '@/lib/due-dates';
+import type { ListWithCounts, SearchResult, SnippetPart, Todo } from '../../../server/src/schema';
+
+interface SearchResultsProps {
+  query: string;
+  results: SearchResult[];
+  // To show which list each todo is in
+  lists: ListWithCounts[];
+  // Called with the todo the user picked, to show it where it lives
+  onOpen: (todo: Todo) => void;
+}
+
+function Highlighted({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <>
+      {parts.map((part: SnippetPart, index: number) =>
+        part.match
+          ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">{part.text}</mark>
+          : <span key={index}>{part.text}</span>
+      )}
+    </>
+  );
+}
+
+// Todos matching the search box, best match first, with the matching words highlighted
+export default function SearchResults({ query, results, lists, onOpen }: SearchResultsProps) {
+  if (results.length === 0) {
+    return (
+      <Card className="shadow-lg">
+        <CardContent className="py-12 text-center">
+          <div className="text-6xl mb-4">🔍</div>
+          <h3 className="text-xl font-semibold text-gray-700 mb-2">No todos match "{query}"</h3>
+          <p className="text-gray-500">Titles and descriptions are searched; the trash is not.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {results.length} {results.length === 1 ? 'todo matches' : 'todos match'} "{query}"
+      </p>
+
+      {results.map(({ todo, title, description }: SearchResult) => {
+        const listName = lists.find((list: ListWithCounts) => list.id === todo.list_id)?.name ?? null;
+        return (
+          <Card key={todo.id} className="shadow-lg transition-shadow hover:shadow-xl">
+            <button
+              type="button"
+              className="w-full rounded-xl text-left"
+              onClick={() => onOpen(todo)}
+              aria-label={`Show "${todo.title}"`}
+            >
+              <CardContent className="p-6">
+                <h3 className={`text-lg font-semibold ${todo.completed ? 'line-through text-gray-500' : 'text-gray-800'}`}>
+                  <Highlighted parts={title} />
+                </h3>
+                {description && (
+                  <p className="mt-2 line-clamp-3 text-gray-600">
+                    <Highlighted parts={description} />
+                  </p>
+                )}
+                <div className="mt-3 flex flex-wrap gap-1">
+                  <Badge variant="outline">{listName ?? 'No list'}</Badge>
+                  {todo.due_at && <Badge variant="secondary">Due {formatDue(todo)}</Badge>}
+                  {todo.completed && (
+                    <Badge variant="secondary" className="bg-green-100 text-green-800">✅ Completed</Badge>
+                  )}
+                </div>
+              </CardContent>
+            </button>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
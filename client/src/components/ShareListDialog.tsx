@@ -0,0 +1,173 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import UserAvatar from '@/components/UserAvatar';
+import { useAuth } from '@/lib/auth';
+import { notifyError } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import { LogOut, UserPlus, Users, X } from 'lucide-react';
+import type { ListMember, ListMemberRole, ListWithCounts } from '../../../server/src/schema';
+
+interface ShareListDialogProps {
+  list: ListWithCounts;
+  // Called after the members change, so the lists can be reloaded
+  onChanged: () => void;
+  // Called after the current user left the list
+  onLeft: () => void;
+}
+
+const ROLE_LABELS: Record<ListMember['role'], string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view'
+};
+
+// Owners invite people and manage their roles here; collaborators see who else is on the list
+export default function ShareListDialog({ list, onChanged, onLeft }: ShareListDialogProps) {
+  const { user } = useAuth();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ListMemberRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+
+  const isOwner = list.role === 'owner';
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      await trpc.inviteToList.mutate({ list_id: list.id, email, role });
+      setEmail('');
+      onChanged();
+    } catch (error) {
+      notifyError('Failed to send invitation', error);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: ListMember, newRole: ListMemberRole) => {
+    try {
+      await trpc.updateListMember.mutate({ list_id: list.id, user_id: member.user_id, role: newRole });
+      onChanged();
+    } catch (error) {
+      notifyError('Failed to change role', error);
+    }
+  };
+
+  const handleRemove = async (member: ListMember) => {
+    try {
+      await trpc.removeListMember.mutate({ list_id: list.id, user_id: member.user_id });
+      if (member.user_id === user.id) {
+        onLeft();
+      } else {
+        onChanged();
+      }
+    } catch (error) {
+      notifyError(member.user_id === user.id ? 'Failed to leave list' : 'Failed to remove collaborator', error);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="size-7" aria-label={`Share "${list.name}"`}>
+          <Users className="w-3 h-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share "{list.name}"</DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? 'Editors can add and change todos in this list; viewers can only read them.'
+              : `You ${list.role === 'editor' ? 'can edit' : 'can view'} this list.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2">
+          {list.members.map((member: ListMember) => (
+            <li key={member.user_id} className="flex items-center gap-3">
+              <UserAvatar name={member.name} className="size-8" />
+              <div className="flex-1 min-w-0">
+                <p className="truncate text-sm font-medium text-gray-800">
+                  {member.name}
+                  {member.user_id === user.id && <span className="text-gray-500"> (you)</span>}
+                </p>
+                <p className="truncate text-xs text-gray-500">
+                  {member.email}
+                  {!member.accepted && ' · invitation pending'}
+                </p>
+              </div>
+
+              {isOwner && member.role !== 'owner' ? (
+                <>
+                  <Select
+                    value={member.role}
+                    onValueChange={(value: string) => handleRoleChange(member, value as ListMemberRole)}
+                  >
+                    <SelectTrigger size="sm" className="w-28" aria-label={`Role of ${member.name}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                      <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7 text-red-600 hover:text-red-700"
+                    onClick={() => handleRemove(member)}
+                    aria-label={member.accepted ? `Remove ${member.name}` : `Withdraw invitation to ${member.name}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : (
+                <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {isOwner ? (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="Email address"
+              value={email}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+              aria-label="Email address to invite"
+              required
+              disabled={isInviting}
+            />
+            <Select value={role} onValueChange={(value: string) => setRole(value as ListMemberRole)}>
+              <SelectTrigger className="w-28" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isInviting || !email.trim()}>
+              <UserPlus className="w-4 h-4" />
+              Invite
+            </Button>
+          </form>
+        ) : (
+          <Button
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => handleRemove(list.members.find((member: ListMember) => member.user_id === user.id)!)}
+          >
+            <LogOut className="w-4 h-4" />
+            Leave list
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
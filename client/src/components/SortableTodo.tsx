@@ -0,0 +1,128 @@
+import { Button } from '@/components/ui/button';
+import { useRef } from 'react';
+import { ArrowDown, ArrowUp, GripVertical } from 'lucide-react';
+
+export type Placement = 'before' | 'after';
+
+interface SortableTodoProps {
+  todoId: number;
+  title: string;
+  isFirst: boolean;
+  isLast: boolean;
+  isDragging: boolean;
+  // Where a dragged todo would land relative to this one, if it is the drop target
+  dropPlacement: Placement | null;
+  onDragStart: (todoId: number) => void;
+  onDragOver: (todoId: number, placement: Placement) => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  children: React.ReactNode;
+}
+
+// Wraps a todo card with a drag handle and move up/down buttons for manual ordering.
+// Only the handle is draggable, so text in the card stays selectable.
+export default function SortableTodo({
+  todoId,
+  title,
+  isFirst,
+  isLast,
+  isDragging,
+  dropPlacement,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+  onMoveUp,
+  onMoveDown,
+  children
+}: SortableTodoProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const handleDragStart = (e: React.DragEvent<HTMLButtonElement>) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', todoId.toString());
+    // Drag the whole card, not just the handle
+    if (containerRef.current) {
+      e.dataTransfer.setDragImage(containerRef.current, 16, 16);
+    }
+    onDragStart(todoId);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const { top, height } = e.currentTarget.getBoundingClientRect();
+    onDragOver(todoId, e.clientY < top + height / 2 ? 'before' : 'after');
+  };
+
+  // The arrow keys move the todo while the handle has focus
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === 'ArrowUp' && !isFirst) {
+      e.preventDefault();
+      onMoveUp();
+    }
+    if (e.key === 'ArrowDown' && !isLast) {
+      e.preventDefault();
+      onMoveDown();
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onDragOver={handleDragOver}
+      onDrop={(e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      className={`relative flex items-start gap-2 transition-opacity ${isDragging ? 'opacity-40' : ''}`}
+    >
+      {dropPlacement && (
+        <div
+          className={`absolute inset-x-0 h-1 rounded-full bg-blue-500 ${
+            dropPlacement === 'before' ? '-top-2.5' : '-bottom-2.5'
+          }`}
+        />
+      )}
+
+      <div className="flex flex-col items-center pt-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={onMoveUp}
+          disabled={isFirst}
+          aria-label={`Move "${title}" up`}
+        >
+          <ArrowUp className="w-4 h-4" />
+        </Button>
+        <Button
+          id={`move-handle-${todoId}`}
+          variant="ghost"
+          size="icon"
+          className="size-7 cursor-grab active:cursor-grabbing"
+          draggable
+          onDragStart={handleDragStart}
+          onDragEnd={onDragEnd}
+          onKeyDown={handleKeyDown}
+          aria-label={`Reorder "${title}" (drag, or use the arrow keys)`}
+        >
+          <GripVertical className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={onMoveDown}
+          disabled={isLast}
+          aria-label={`Move "${title}" down`}
+        >
+          <ArrowDown className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 min-w-0">{children}</div>
+    </div>
+  );
+}
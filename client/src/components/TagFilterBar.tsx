@@ -0,0 +1,152 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useState } from 'react';
+import { MoreHorizontal, X } from 'lucide-react';
+import type { Tag } from '../../../server/src/schema';
+
+export type TagMatch = 'any' | 'all';
+
+interface TagFilterBarProps {
+  tags: Tag[];
+  selectedTagIds: number[];
+  tagMatch: TagMatch;
+  onToggleTag: (tagId: number) => void;
+  onTagMatchChange: (tagMatch: TagMatch) => void;
+  onClear: () => void;
+  onRename: (id: number, name: string) => Promise<void>;
+  onMerge: (sourceId: number, targetId: number) => void;
+}
+
+export default function TagFilterBar({
+  tags,
+  selectedTagIds,
+  tagMatch,
+  onToggleTag,
+  onTagMatchChange,
+  onClear,
+  onRename,
+  onMerge
+}: TagFilterBarProps) {
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const handleRename = async (tag: Tag) => {
+    const name = renameValue.trim();
+    if (!name || name === tag.name) {
+      setRenamingId(null);
+      return;
+    }
+
+    try {
+      await onRename(tag.id, name);
+      setRenamingId(null);
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+    }
+  };
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-600">Filter by tag:</span>
+
+      {tags.map((tag: Tag) => {
+        const isSelected = selectedTagIds.includes(tag.id);
+
+        if (renamingId === tag.id) {
+          return (
+            <Input
+              key={tag.id}
+              value={renameValue}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRenameValue(e.target.value)}
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === 'Enter') handleRename(tag);
+                if (e.key === 'Escape') setRenamingId(null);
+              }}
+              onBlur={() => handleRename(tag)}
+              className="h-7 w-32"
+              aria-label="Tag name"
+              autoFocus
+            />
+          );
+        }
+
+        return (
+          <span key={tag.id} className="inline-flex items-center">
+            <Badge asChild variant={isSelected ? 'default' : 'outline'} className="cursor-pointer rounded-r-none">
+              <button type="button" onClick={() => onToggleTag(tag.id)} aria-pressed={isSelected}>
+                #{tag.name}
+              </button>
+            </Badge>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-[22px] w-5 rounded-l-none border-l-0"
+                  aria-label={`Manage #${tag.name}`}
+                >
+                  <MoreHorizontal className="w-3 h-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem
+                  onSelect={() => {
+                    setRenamingId(tag.id);
+                    setRenameValue(tag.name);
+                  }}
+                >
+                  Rename
+                </DropdownMenuItem>
+                {tags.length > 1 && (
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>Merge into</DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {tags
+                        .filter((target: Tag) => target.id !== tag.id)
+                        .map((target: Tag) => (
+                          <DropdownMenuItem key={target.id} onSelect={() => onMerge(tag.id, target.id)}>
+                            #{target.name}
+                          </DropdownMenuItem>
+                        ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </span>
+        );
+      })}
+
+      {selectedTagIds.length > 1 && (
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={tagMatch}
+          onValueChange={(value: string) => {
+            // Radix reports an empty string when the active item is clicked again
+            if (value === 'any' || value === 'all') onTagMatchChange(value);
+          }}
+          aria-label="Tag match mode"
+        >
+          <ToggleGroupItem value="any">Any</ToggleGroupItem>
+          <ToggleGroupItem value="all">All</ToggleGroupItem>
+        </ToggleGroup>
+      )}
+
+      {selectedTagIds.length > 0 && (
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="w-4 h-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useState } from 'react';
+import { Tag as TagIcon } from 'lucide-react';
+import type { Tag } from '../../../server/src/schema';
+
+interface TagPickerProps {
+  allTags: Tag[];
+  // Tags already on the todo are not suggested again
+  attachedTags: Tag[];
+  onAttach: (name: string) => Promise<void>;
+}
+
+export default function TagPicker({ allTags, attachedTags, onAttach }: TagPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const query = name.trim().toLowerCase().replace(/^#+/, '');
+  const attachedIds = new Set(attachedTags.map((tag: Tag) => tag.id));
+  const suggestions = allTags
+    .filter((tag: Tag) => !attachedIds.has(tag.id) && tag.name.includes(query))
+    .slice(0, 8);
+
+  const attach = async (tagName: string) => {
+    if (!tagName.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onAttach(tagName);
+      setName('');
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to attach tag:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="Add tag">
+          <TagIcon className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-2" align="end">
+        <form
+          onSubmit={(e: React.FormEvent) => {
+            e.preventDefault();
+            attach(name);
+          }}
+        >
+          <Input
+            placeholder="#tag"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            disabled={isSubmitting}
+            aria-label="Tag name"
+            autoFocus
+          />
+        </form>
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {suggestions.map((tag: Tag) => (
+              <Button
+                key={tag.id}
+                variant="secondary"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => attach(tag.name)}
+                disabled={isSubmitting}
+              >
+                #{tag.name}
+              </Button>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-gray-500">Press Enter to create a new tag</p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,455 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import TagPicker from '@/components/TagPicker';
+import DueDatePicker from '@/components/DueDatePicker';
+import PrioritySelect from '@/components/PrioritySelect';
+import Checklist from '@/components/Checklist';
+import RecurrenceEditor from '@/components/RecurrenceEditor';
+import AssigneePicker, { type AssigneeOption } from '@/components/AssigneePicker';
+import TodoDetailSheet from '@/components/TodoDetailSheet';
+import { useAuth } from '@/lib/auth';
+import { formatDue, type DueValue } from '@/lib/due-dates';
+import { PRIORITY_COLORS, PRIORITY_LABELS } from '@/lib/priorities';
+import { formatRecurrence } from '@/lib/recurrence';
+import { useState } from 'react';
+import { Trash2, CheckCircle, Circle, Pencil, Save, X, CalendarDays, Flag, ListChecks, Repeat } from 'lucide-react';
+import type { Todo, UpdateTodoInput, ListWithCounts, ListMember, Tag, Priority, Recurrence, ChecklistItem, UpdateChecklistItemInput } from '../../../server/src/schema';
+
+interface TodoCardProps {
+  todo: Todo;
+  lists: ListWithCounts[];
+  allTags: Tag[];
+  selectedTagIds: number[];
+  onToggleComplete: (id: number, completed: boolean, completeChecklist: boolean) => void;
+  onUpdate: (input: UpdateTodoInput) => Promise<void>;
+  onDelete: (id: number) => void;
+  onAttachTag: (todoId: number, name: string) => Promise<void>;
+  onDetachTag: (todoId: number, tagId: number) => void;
+  onTagClick: (tagId: number) => void;
+  onAddChecklistItem: (todoId: number, title: string) => Promise<void>;
+  onUpdateChecklistItem: (input: UpdateChecklistItemInput) => void;
+  onDeleteChecklistItem: (itemId: number) => void;
+  onReorderChecklist: (todoId: number, itemIds: number[]) => void;
+  // null unassigns the todo
+  onAssign: (todoId: number, assigneeId: number | null) => Promise<void>;
+  onCommentCountChange: (todoId: number, count: number) => void;
+}
+
+interface EditFormData extends DueValue {
+  title: string;
+  description: string | null;
+  list_id: number | null;
+  priority: Priority | null;
+  recurrence: Recurrence | null;
+}
+
+// Select values must be strings, so unfiled todos use a sentinel
+const NO_LIST = 'none';
+
+export default function TodoCard({
+  todo,
+  lists,
+  allTags,
+  selectedTagIds,
+  onToggleComplete,
+  onUpdate,
+  onDelete,
+  onAttachTag,
+  onDetachTag,
+  onTagClick,
+  onAddChecklistItem,
+  onUpdateChecklistItem,
+  onDeleteChecklistItem,
+  onReorderChecklist,
+  onAssign,
+  onCommentCountChange
+}: TodoCardProps) {
+  const { user } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isChecklistOpen, setIsChecklistOpen] = useState(false);
+  const [isConfirmingCompletion, setIsConfirmingCompletion] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editData, setEditData] = useState<EditFormData>({
+    title: todo.title,
+    description: todo.description,
+    list_id: todo.list_id,
+    due_at: todo.due_at,
+    due_has_time: todo.due_has_time,
+    priority: todo.priority,
+    recurrence: todo.recurrence
+  });
+
+  const list = lists.find((list: ListWithCounts) => list.id === todo.list_id);
+  // Viewers of a shared list can see its todos but not change them
+  const readOnly = list?.role === 'viewer';
+  // Only people who can edit the todo can work on it; a todo outside lists is only its owner's
+  const assigneeOptions: AssigneeOption[] = list
+    ? list.members.filter((member: ListMember) => member.accepted && member.role !== 'viewer')
+    : [{ user_id: user.id, name: user.name }];
+  const openItemCount = todo.checklist.filter((item: ChecklistItem) => !item.completed).length;
+
+  const handleToggleComplete = () => {
+    // Completing with open steps asks whether they are done too; recurring todos
+    // start their next occurrence with a fresh checklist, so there is nothing to ask
+    if (!todo.completed && !todo.recurrence && openItemCount > 0) {
+      setIsConfirmingCompletion(true);
+      return;
+    }
+    onToggleComplete(todo.id, !todo.completed, false);
+  };
+
+  const startEditing = () => {
+    // Always start from the latest saved values
+    setEditData({
+      title: todo.title,
+      description: todo.description,
+      list_id: todo.list_id,
+      due_at: todo.due_at,
+      due_has_time: todo.due_has_time,
+      priority: todo.priority,
+      recurrence: todo.recurrence
+    });
+    setIsEditing(true);
+  };
+
+  const cancelEditing = () => {
+    setIsEditing(false);
+  };
+
+  const handleSave = async () => {
+    const title = editData.title.trim();
+    if (!title) return;
+
+    // Nothing changed - just leave edit mode
+    const dueChanged = editData.due_at?.getTime() !== todo.due_at?.getTime()
+      || editData.due_has_time !== todo.due_has_time;
+    if (title === todo.title && editData.description === todo.description
+      && editData.list_id === todo.list_id && editData.priority === todo.priority && !dueChanged
+      && JSON.stringify(editData.recurrence) === JSON.stringify(todo.recurrence)) {
+      setIsEditing(false);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onUpdate({
+        id: todo.id,
+        title,
+        description: editData.description,
+        list_id: editData.list_id,
+        due_at: editData.due_at,
+        due_has_time: editData.due_has_time,
+        priority: editData.priority,
+        recurrence: editData.recurrence
+      });
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to save todo:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Enter saves from the title field, Ctrl/Cmd+Enter from the description, Escape cancels
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      cancelEditing();
+      return;
+    }
+    if (e.key === 'Enter' && (e.currentTarget.tagName === 'INPUT' || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  return (
+    <Card className={`shadow-lg transition-all duration-200 hover:shadow-xl ${
+      todo.completed ? 'bg-green-50 border-green-200' : 'bg-white'
+    }`}>
+      <CardContent className="p-6">
+        <div className="flex items-start gap-4">
+          <button
+            onClick={handleToggleComplete}
+            className="mt-1 transition-colors duration-200"
+            disabled={isEditing || readOnly}
+          >
+            {todo.completed ? (
+              <CheckCircle className="w-6 h-6 text-green-600" />
+            ) : (
+              <Circle className="w-6 h-6 text-gray-400 hover:text-gray-600" />
+            )}
+          </button>
+
+          {isEditing ? (
+            <div className="flex-1 min-w-0 space-y-3">
+              <Input
+                value={editData.title}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setEditData((prev: EditFormData) => ({ ...prev, title: e.target.value }))
+                }
+                onKeyDown={handleKeyDown}
+                aria-label="Todo title"
+                autoFocus
+                disabled={isSaving}
+              />
+              <Textarea
+                placeholder="Add a description (optional) 📝"
+                value={editData.description || ''}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                  setEditData((prev: EditFormData) => ({
+                    ...prev,
+                    description: e.target.value || null // Convert empty string back to null
+                  }))
+                }
+                onKeyDown={handleKeyDown}
+                aria-label="Todo description"
+                className="resize-none"
+                rows={3}
+                disabled={isSaving}
+              />
+              <div className="flex flex-wrap gap-2">
+                <DueDatePicker
+                  value={{ due_at: editData.due_at, due_has_time: editData.due_has_time }}
+                  onChange={(due: DueValue) => setEditData((prev: EditFormData) => ({ ...prev, ...due }))}
+                  disabled={isSaving}
+                />
+                <PrioritySelect
+                  value={editData.priority}
+                  onChange={(priority: Priority | null) => setEditData((prev: EditFormData) => ({ ...prev, priority }))}
+                  disabled={isSaving}
+                />
+                <RecurrenceEditor
+                  value={editData.recurrence}
+                  onChange={(recurrence: Recurrence | null) => setEditData((prev: EditFormData) => ({ ...prev, recurrence }))}
+                  disabled={isSaving}
+                />
+              </div>
+              {lists.length > 0 && (
+                <Select
+                  value={editData.list_id === null ? NO_LIST : editData.list_id.toString()}
+                  onValueChange={(value: string) =>
+                    setEditData((prev: EditFormData) => ({
+                      ...prev,
+                      list_id: value === NO_LIST ? null : parseInt(value)
+                    }))
+                  }
+                  disabled={isSaving}
+                >
+                  <SelectTrigger className="w-full" aria-label="List">
+                    <SelectValue placeholder="Choose a list" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LIST}>No list</SelectItem>
+                    {lists.filter((list: ListWithCounts) => list.role !== 'viewer').map((list: ListWithCounts) => (
+                      <SelectItem key={list.id} value={list.id.toString()}>
+                        {list.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={handleSave} disabled={isSaving || !editData.title.trim()}>
+                  <Save className="w-4 h-4" />
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={cancelEditing} disabled={isSaving}>
+                  <X className="w-4 h-4" />
+                  Cancel
+                </Button>
+                <span className="text-xs text-gray-500">Enter to save · Esc to cancel</span>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 min-w-0" onDoubleClick={readOnly ? undefined : startEditing}>
+              <h3 className={`flex items-center gap-2 text-lg font-semibold ${
+                todo.completed
+                  ? 'text-green-800 line-through'
+                  : 'text-gray-800'
+              }`}>
+                {todo.priority && (
+                  <Flag
+                    className={`w-4 h-4 shrink-0 fill-current ${PRIORITY_COLORS[todo.priority]}`}
+                    aria-label={PRIORITY_LABELS[todo.priority]}
+                  />
+                )}
+                {todo.title}
+              </h3>
+
+              {/* Handle nullable description */}
+              {todo.description && (
+                <p className={`mt-2 ${
+                  todo.completed
+                    ? 'text-green-600 line-through'
+                    : 'text-gray-600'
+                }`}>
+                  {todo.description}
+                </p>
+              )}
+
+              {todo.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {todo.tags.map((tag: Tag) => (
+                    <Badge
+                      key={tag.id}
+                      variant={selectedTagIds.includes(tag.id) ? 'default' : 'secondary'}
+                      className="gap-0.5 pr-0.5"
+                    >
+                      <button
+                        type="button"
+                        onClick={() => onTagClick(tag.id)}
+                        title={`Show todos tagged #${tag.name}`}
+                      >
+                        #{tag.name}
+                      </button>
+                      {!readOnly && (
+                        <button
+                          type="button"
+                          onClick={() => onDetachTag(todo.id, tag.id)}
+                          className="rounded-sm opacity-60 hover:opacity-100"
+                          aria-label={`Remove #${tag.name}`}
+                        >
+                          <X className="size-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {(todo.checklist.length > 0 || isChecklistOpen) && (
+                <Checklist
+                  items={todo.checklist}
+                  readOnly={readOnly}
+                  onAdd={(title: string) => onAddChecklistItem(todo.id, title)}
+                  onToggle={(itemId: number, completed: boolean) => onUpdateChecklistItem({ id: itemId, completed })}
+                  onDelete={onDeleteChecklistItem}
+                  onReorder={(itemIds: number[]) => onReorderChecklist(todo.id, itemIds)}
+                />
+              )}
+
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3 text-sm text-gray-500">
+                <span>Created: {todo.created_at.toLocaleDateString()}</span>
+                {todo.due_at && (
+                  <>
+                    <Separator orientation="vertical" className="h-4" />
+                    <span className={`flex items-center gap-1 ${todo.overdue ? 'font-medium text-red-600' : ''}`}>
+                      <CalendarDays className="w-4 h-4" />
+                      {todo.overdue ? 'Overdue: ' : 'Due: '}
+                      {formatDue(todo)}
+                    </span>
+                  </>
+                )}
+                {todo.recurrence && (
+                  <>
+                    <Separator orientation="vertical" className="h-4" />
+                    <span className="flex items-center gap-1" title={formatRecurrence(todo.recurrence)}>
+                      <Repeat className="w-4 h-4" />
+                      Repeats
+                    </span>
+                  </>
+                )}
+                {list && (
+                  <>
+                    <Separator orientation="vertical" className="h-4" />
+                    <Badge variant="outline">{list.name}</Badge>
+                    {readOnly && <Badge variant="secondary">View only</Badge>}
+                  </>
+                )}
+                <Separator orientation="vertical" className="h-4" />
+                <AssigneePicker
+                  todo={todo}
+                  options={assigneeOptions}
+                  readOnly={readOnly}
+                  onAssign={(assigneeId: number | null) => onAssign(todo.id, assigneeId)}
+                />
+                <Separator orientation="vertical" className="h-4" />
+                <TodoDetailSheet
+                  todo={todo}
+                  listName={list?.name ?? null}
+                  readOnly={readOnly}
+                  onCommentCountChange={(count: number) => onCommentCountChange(todo.id, count)}
+                />
+                {todo.completed && (
+                  <>
+                    <Separator orientation="vertical" className="h-4" />
+                    <Badge variant="secondary" className="bg-green-100 text-green-800">
+                      ✅ Completed
+                    </Badge>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!isEditing && !readOnly && (
+            <div className="flex gap-2">
+              <TagPicker
+                allTags={allTags}
+                attachedTags={todo.tags}
+                onAttach={(name: string) => onAttachTag(todo.id, name)}
+              />
+              <Button
+                variant={isChecklistOpen ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setIsChecklistOpen((prev: boolean) => !prev)}
+                aria-label="Add checklist steps"
+                aria-pressed={isChecklistOpen}
+              >
+                <ListChecks className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={startEditing}
+                aria-label={`Edit "${todo.title}"`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
+                onClick={() => onDelete(todo.id)}
+                aria-label={`Move "${todo.title}" to the trash`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <AlertDialog open={isConfirmingCompletion} onOpenChange={setIsConfirmingCompletion}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Complete Checklist?</AlertDialogTitle>
+              <AlertDialogDescription>
+                "{todo.title}" still has {openItemCount} open step(s). Mark them as done too?
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <Button variant="outline" onClick={() => {
+                setIsConfirmingCompletion(false);
+                onToggleComplete(todo.id, true, false);
+              }}>
+                Only this todo
+              </Button>
+              <AlertDialogAction onClick={() => onToggleComplete(todo.id, true, true)}>
+                Complete all steps
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
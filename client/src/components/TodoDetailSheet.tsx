@@ -0,0 +1,66 @@
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CommentThread from '@/components/CommentThread';
+import TodoTimeline from '@/components/TodoTimeline';
+import { formatDue } from '@/lib/due-dates';
+import { MessageSquare } from 'lucide-react';
+import type { Todo } from '../../../server/src/schema';
+
+interface TodoDetailSheetProps {
+  todo: Todo;
+  listName: string | null;
+  readOnly: boolean;
+  onCommentCountChange: (count: number) => void;
+}
+
+// Side panel with a todo's details, its comment thread and its activity log, opened from the comment count on the card
+export default function TodoDetailSheet({ todo, listName, readOnly, onCommentCountChange }: TodoDetailSheetProps) {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-1 rounded-sm hover:text-gray-700"
+          aria-label={`Comments on "${todo.title}"`}
+        >
+          <MessageSquare className="w-4 h-4" />
+          {todo.comment_count}
+        </button>
+      </SheetTrigger>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className={todo.completed ? 'line-through' : undefined}>{todo.title}</SheetTitle>
+          <SheetDescription className="whitespace-pre-wrap">
+            {todo.description || 'No description'}
+          </SheetDescription>
+          <div className="flex flex-wrap gap-1 pt-1">
+            {listName && <Badge variant="outline">{listName}</Badge>}
+            {todo.due_at && <Badge variant="secondary">Due {formatDue(todo)}</Badge>}
+            {todo.assignee_name && <Badge variant="secondary">Assigned to {todo.assignee_name}</Badge>}
+            {todo.completed && (
+              <Badge variant="secondary" className="bg-green-100 text-green-800">✅ Completed</Badge>
+            )}
+          </div>
+        </SheetHeader>
+
+        <Separator />
+
+        {/* Inactive tabs are unmounted, so the activity log is loaded fresh each time it is opened */}
+        <Tabs defaultValue="comments" className="px-4 pb-4">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="comments">Comments</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+          </TabsList>
+          <TabsContent value="comments" className="pt-2">
+            <CommentThread todoId={todo.id} readOnly={readOnly} onCountChange={onCommentCountChange} />
+          </TabsContent>
+          <TabsContent value="activity" className="pt-2">
+            <TodoTimeline todoId={todo.id} />
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,63 @@
+import UserAvatar from '@/components/UserAvatar';
+import { describeEvent } from '@/lib/history';
+import { notifyError } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { formatDistanceToNow } from 'date-fns';
+import { useState, useEffect, useCallback } from 'react';
+import type { TodoEvent } from '../../../server/src/schema';
+
+interface TodoTimelineProps {
+  todoId: number;
+}
+
+// A todo's activity log, newest first; loaded when mounted
+export default function TodoTimeline({ todoId }: TodoTimelineProps) {
+  const [events, setEvents] = useState<TodoEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.getTodoHistory.query({ todo_id: todoId });
+      setEvents(result);
+    } catch (error) {
+      notifyError('Failed to load activity', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [todoId]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  if (isLoading && events.length === 0) {
+    return <p className="text-sm text-gray-500">Loading activity... ⏳</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No activity yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-gray-200 pl-4">
+      {events.map((event: TodoEvent) => {
+        // Actors who deleted their account are kept anonymous
+        const actor = event.actor_name ?? 'Someone';
+        return (
+          <li key={event.id} className="flex gap-3">
+            <UserAvatar name={actor} className="-ml-7 size-6" />
+            <div className="flex-1 min-w-0 text-sm">
+              <p className="break-words text-gray-700">
+                <span className="font-medium text-gray-800">{actor}</span> {describeEvent(event)}
+              </p>
+              <p className="text-xs text-gray-400" title={event.created_at.toLocaleString()}>
+                {formatDistanceToNow(event.created_at, { addSuffix: true })}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
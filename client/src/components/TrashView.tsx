@@ -0,0 +1,141 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { notifyError, notifyUndoable } from '@/lib/notify';
+import { trpc } from '@/utils/trpc';
+import { formatDistanceToNow } from 'date-fns';
+import { useState, useEffect, useCallback } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import type { Todo } from '../../../server/src/schema';
+
+interface TrashViewProps {
+  // Called after a todo is restored (or its restore undone), so the live views can refresh
+  onRestored: () => void;
+}
+
+export default function TrashView({ onRestored }: TrashViewProps) {
+  const [todos, setTodos] = useState<Todo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const { todos: result } = await trpc.getTodos.query({ trashed: true });
+      setTodos(result);
+    } catch (error) {
+      notifyError('Failed to load trash', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (id: number) => {
+    try {
+      const restored = await trpc.restoreTodo.mutate({ id });
+      setTodos((prev: Todo[]) => prev.filter((todo: Todo) => todo.id !== id));
+      onRestored();
+
+      notifyUndoable(`Restored "${restored.title}"`, async () => {
+        await trpc.deleteTodo.mutate({ id });
+        loadTrash();
+        onRestored();
+      });
+    } catch (error) {
+      notifyError('Failed to restore todo', error);
+    }
+  };
+
+  const handlePurge = async (id: number) => {
+    try {
+      await trpc.purgeTodo.mutate({ id });
+      setTodos((prev: Todo[]) => prev.filter((todo: Todo) => todo.id !== id));
+    } catch (error) {
+      notifyError('Failed to delete todo permanently', error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="text-gray-500">Loading trash... ⏳</div>
+      </div>
+    );
+  }
+
+  if (todos.length === 0) {
+    return (
+      <Card className="shadow-lg">
+        <CardContent className="py-12 text-center">
+          <div className="text-6xl mb-4">🗑️</div>
+          <h3 className="text-xl font-semibold text-gray-700 mb-2">The trash is empty</h3>
+          <p className="text-gray-500">Deleted todos show up here until they are purged.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Todos in the trash are deleted permanently once they have been here longer than the retention period.
+      </p>
+
+      {todos.map((todo: Todo) => (
+        <Card key={todo.id} className="shadow-lg bg-white/70">
+          <CardContent className="flex items-start gap-4 p-6">
+            <div className="flex-1 min-w-0">
+              <h3 className="text-lg font-semibold text-gray-500">{todo.title}</h3>
+              {todo.description && <p className="mt-2 text-gray-400">{todo.description}</p>}
+              {todo.deleted_at && (
+                <p className="mt-3 text-sm text-gray-500">
+                  Deleted {formatDistanceToNow(todo.deleted_at, { addSuffix: true })}
+                </p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleRestore(todo.id)}>
+                <RotateCcw className="w-4 h-4" />
+                Restore
+              </Button>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
+                    aria-label={`Delete "${todo.title}" permanently`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Are you sure you want to permanently delete "{todo.title}"? This action cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => handlePurge(todo.id)}
+                      className="bg-red-600 hover:bg-red-700"
+                    >
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { initials } from '@/lib/users';
+import { cn } from '@/lib/utils';
+
+interface UserAvatarProps {
+  name: string;
+  className?: string;
+}
+
+// An initials avatar with the full name as tooltip and accessible label
+export default function UserAvatar({ name, className }: UserAvatarProps) {
+  return (
+    <Avatar className={cn('size-6 ring-2 ring-white', className)} title={name} aria-label={name}>
+      <AvatarFallback className="bg-indigo-100 text-[10px] font-semibold text-indigo-700">
+        {initials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import type { User } from '../../../server/src/schema';
+
+export interface AuthContextValue {
+  user: User;
+  logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+// The signed-in user; only usable below AuthGate, which renders nothing else while signed out
+export function useAuth(): AuthContextValue {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used inside AuthGate');
+  }
+  return auth;
+}
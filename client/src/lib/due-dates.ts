@@ -0,0 +1,62 @@
+import { format, isToday, isTomorrow, isYesterday } from 'date-fns';
+import type { Todo } from '../../../server/src/schema';
+
+export type DueGroup = 'overdue' | 'today' | 'upcoming' | 'none';
+
+export interface DueValue {
+  due_at: Date | null;
+  due_has_time: boolean;
+}
+
+export const DUE_GROUP_LABELS: Record<DueGroup, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  upcoming: 'Upcoming',
+  none: 'No date'
+};
+
+const DUE_GROUP_ORDER: DueGroup[] = ['overdue', 'today', 'upcoming', 'none'];
+
+// Overdue comes from the server; today/upcoming use the browser's local day
+export function getDueGroup(todo: Todo): DueGroup {
+  if (todo.due_at === null) return 'none';
+  if (todo.overdue) return 'overdue';
+  if (isToday(todo.due_at)) return 'today';
+  // Completed todos are never overdue but still belong with the other past-due items
+  if (todo.due_at.getTime() < Date.now()) return 'overdue';
+  return 'upcoming';
+}
+
+// Groups todos into sections, keeping the server's sort order inside each section
+export function groupTodosByDue(todos: Todo[]): { group: DueGroup; todos: Todo[] }[] {
+  return DUE_GROUP_ORDER
+    .map((group: DueGroup) => ({
+      group,
+      todos: todos.filter((todo: Todo) => getDueGroup(todo) === group)
+    }))
+    .filter((section) => section.todos.length > 0);
+}
+
+export function formatDue({ due_at, due_has_time }: DueValue): string {
+  if (due_at === null) return 'No due date';
+
+  let day: string;
+  if (isToday(due_at)) day = 'Today';
+  else if (isTomorrow(due_at)) day = 'Tomorrow';
+  else if (isYesterday(due_at)) day = 'Yesterday';
+  else day = format(due_at, 'EEE, MMM d, yyyy');
+
+  return due_has_time ? `${day} at ${format(due_at, 'HH:mm')}` : day;
+}
+
+// Combines a picked calendar day with an optional "HH:mm" time of day
+export function toDueValue(day: Date | null, time: string | null): DueValue {
+  if (day === null) return { due_at: null, due_has_time: false };
+
+  const dueAt = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  if (!time) return { due_at: dueAt, due_has_time: false };
+
+  const [hours, minutes] = time.split(':').map((part: string) => parseInt(part));
+  dueAt.setHours(hours, minutes);
+  return { due_at: dueAt, due_has_time: true };
+}
@@ -0,0 +1,91 @@
+import { formatDue } from '@/lib/due-dates';
+import { PRIORITY_LABELS } from '@/lib/priorities';
+import { formatRecurrence } from '@/lib/recurrence';
+import type { Priority, Recurrence, TodoEvent } from '../../../server/src/schema';
+
+// Due dates are logged as JSON, so the date arrives as an ISO string
+interface LoggedDue {
+  due_at: string;
+  due_has_time: boolean;
+}
+
+const formatLoggedDue = (value: unknown): string => {
+  const due = value as LoggedDue;
+  return formatDue({ due_at: new Date(due.due_at), due_has_time: due.due_has_time }).toLowerCase();
+};
+
+const quote = (value: unknown): string => `"${value as string}"`;
+
+function describeEdit(event: TodoEvent): string {
+  const { from_value: from, to_value: to } = event;
+
+  switch (event.field) {
+    case 'title':
+      return `renamed it from ${quote(from)} to ${quote(to)}`;
+    case 'description':
+      if (from === null) return 'added a description';
+      return to === null ? 'removed the description' : 'changed the description';
+    case 'list':
+      if (to === null) return from === null ? 'moved it out of its list' : `moved it out of ${from as string}`;
+      return `moved it to ${to as string}`;
+    case 'due':
+      if (to === null) return 'removed the due date';
+      return from === null
+        ? `set it due ${formatLoggedDue(to)}`
+        : `moved the due date from ${formatLoggedDue(from)} to ${formatLoggedDue(to)}`;
+    case 'priority':
+      return to === null ? 'removed the priority' : `set the priority to ${PRIORITY_LABELS[to as Priority]}`;
+    case 'recurrence':
+      return to === null ? 'stopped it from repeating' : `made it repeat ${formatRecurrence(to as Recurrence).toLowerCase()}`;
+    default:
+      return 'edited it';
+  }
+}
+
+// One line of the timeline, to follow the name of whoever made the change
+export function describeEvent(event: TodoEvent): string {
+  const { from_value: from, to_value: to } = event;
+
+  switch (event.type) {
+    case 'created':
+      return 'created it';
+    case 'edited':
+      return describeEdit(event);
+    case 'completed':
+      // Recurring todos log the occurrence that was completed
+      return to === null ? 'completed it' : `completed the occurrence due ${from === null ? 'today' : formatLoggedDue(from)}`;
+    case 'reopened':
+      return to === null && from === null ? 'reopened it' : 'undid completing the last occurrence';
+    case 'deleted':
+      return 'moved it to the trash';
+    case 'restored':
+      return 'restored it from the trash';
+    case 'archived':
+      return 'archived it';
+    case 'unarchived':
+      return 'took it out of the archive';
+    case 'reordered':
+      return 'moved it in the manual order';
+    case 'assigned':
+      if (to === null) return from === null ? 'unassigned it' : `unassigned ${from as string}`;
+      return from === null ? `assigned it to ${to as string}` : `reassigned it from ${from as string} to ${to as string}`;
+    case 'tagged':
+      return `added #${to as string}`;
+    case 'untagged':
+      return `removed #${from as string}`;
+    case 'tag_renamed':
+      return `renamed #${from as string} to #${to as string}`;
+    case 'checklist_item_added':
+      return `added the step ${quote(to)}`;
+    case 'checklist_item_edited':
+      return `renamed the step ${quote(from)} to ${quote(to)}`;
+    case 'checklist_item_completed':
+      return `ticked off ${quote(to)}`;
+    case 'checklist_item_reopened':
+      return `unticked ${quote(to)}`;
+    case 'checklist_item_deleted':
+      return `removed the step ${quote(from)}`;
+    case 'checklist_reordered':
+      return 'reordered the checklist';
+  }
+}
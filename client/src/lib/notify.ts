@@ -0,0 +1,37 @@
+import { toast } from 'sonner';
+import type { BulkResult } from '../../../server/src/schema';
+
+// Logs a failed call and tells the user about it, with the server's message as detail
+export function notifyError(message: string, error: unknown): void {
+  console.error(`${message}:`, error);
+  toast.error(message, {
+    description: error instanceof Error ? error.message : undefined
+  });
+}
+
+// Confirms a change with a toast whose Undo button runs the inverse operation
+export function notifyUndoable(message: string, undo: () => Promise<void>): void {
+  toast(message, {
+    action: {
+      label: 'Undo',
+      onClick: () => {
+        undo().catch((error: unknown) => notifyError('Failed to undo', error));
+      }
+    }
+  });
+}
+
+// Sums up a bulk operation: how many todos it changed, and why the first one that failed did not change
+export function notifyBulkResults(action: string, results: BulkResult[]): void {
+  const failed = results.filter((result: BulkResult) => !result.success);
+  const succeeded = results.length - failed.length;
+
+  if (failed.length === 0) {
+    toast(`${action} ${succeeded} ${succeeded === 1 ? 'todo' : 'todos'}`);
+    return;
+  }
+
+  toast.error(`${action} ${succeeded} of ${results.length} todos`, {
+    description: failed.length === 1 ? failed[0].error : `${failed[0].error} (and ${failed.length - 1} more)`
+  });
+}
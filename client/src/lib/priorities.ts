@@ -0,0 +1,18 @@
+import type { Priority } from '../../../server/src/schema';
+
+export const PRIORITIES: Priority[] = ['p1', 'p2', 'p3', 'p4'];
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  p1: 'P1 · Urgent',
+  p2: 'P2 · High',
+  p3: 'P3 · Medium',
+  p4: 'P4 · Low'
+};
+
+// Text colors for the flag icon shown on cards and in the picker
+export const PRIORITY_COLORS: Record<Priority, string> = {
+  p1: 'text-red-600',
+  p2: 'text-orange-500',
+  p3: 'text-blue-500',
+  p4: 'text-gray-400'
+};
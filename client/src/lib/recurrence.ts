@@ -0,0 +1,52 @@
+import { format, parseISO } from 'date-fns';
+import type { Recurrence, Weekday } from '../../../server/src/schema';
+
+export type Frequency = Recurrence['frequency'];
+
+export const FREQUENCIES: Frequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// Monday first, matching the server's week start
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun'
+};
+
+const UNITS: Record<Frequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+};
+
+export function unitLabel(frequency: Frequency, interval: number): string {
+  return interval === 1 ? UNITS[frequency] : `${UNITS[frequency]}s`;
+}
+
+export function createRecurrence(frequency: Frequency): Recurrence {
+  return { frequency, interval: 1, weekdays: [], until: null, count: null };
+}
+
+// e.g. "Every 2 weeks on Mon, Fri · until Mar 1, 2031"
+export function formatRecurrence(recurrence: Recurrence): string {
+  const { frequency, interval, weekdays, until, count } = recurrence;
+
+  let summary = interval === 1
+    ? `Every ${UNITS[frequency]}`
+    : `Every ${interval} ${unitLabel(frequency, interval)}`;
+
+  if (weekdays.length > 0) {
+    const ordered = WEEKDAYS.filter((weekday: Weekday) => weekdays.includes(weekday));
+    summary += ` on ${ordered.map((weekday: Weekday) => WEEKDAY_LABELS[weekday]).join(', ')}`;
+  }
+  if (until) summary += ` · until ${format(parseISO(until), 'MMM d, yyyy')}`;
+  if (count) summary += ` · ${count} times`;
+
+  return summary;
+}
@@ -0,0 +1,9 @@
+// Up to two initials for avatar fallbacks, e.g. "Ada Lovelace" -> "AL"
+export function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part: string) => part[0].toUpperCase())
+    .join('');
+}
@@ -1,14 +1,26 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, createWSClient, httpBatchLink, loggerLink, splitLink, wsLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// Subscriptions go over a WebSocket behind the same /api proxy; the browser sends the session
+// cookie with the upgrade request. Lazy mode opens the connection with the first subscription and closes
+// it with the last, so signing in as someone else starts a connection for the new session.
+const wsClient = createWSClient({
+  url: `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/api/ws`,
+  lazy: { enabled: true, closeMs: 0 },
+});
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
             (opts.direction === 'down' && opts.result instanceof Error),
         }),
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: wsLink({ client: wsClient, transformer: superjson }),
+      false: httpBatchLink({ url: '/api', transformer: superjson }),
+    }),
   ],
 });
@@ -14,6 +14,8 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:2022',
         changeOrigin: true,
+        // Also proxies the WebSocket used for subscriptions
+        ws: true,
         rewrite: (path) => path.replace(/^\/api/, ''),
       },
     },
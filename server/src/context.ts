@@ -0,0 +1,37 @@
+import { ServerResponse, type IncomingHttpHeaders } from 'node:http';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { type CreateWSSContextFnOptions } from '@trpc/server/adapters/ws';
+import { getApiTokenAuth, readBearerToken } from './helpers/api_tokens';
+import { SESSION_COOKIE, getSessionUser, readCookie } from './helpers/sessions';
+import { type ApiTokenScope } from './schema';
+
+// Resolves the signed-in user (if any) from the session cookie of each request. WebSocket
+// connections use the cookie of their upgrade request and have no response to set cookies on.
+// The REST endpoints create theirs from the request they serve.
+// Scripts send a personal API token as "Authorization: Bearer <token>" instead; the cookie is
+// then ignored, and scopes limits what the request may do. Sessions may do anything (null)
+type ContextOptions = Pick<CreateHTTPContextOptions, 'req' | 'res'> | Pick<CreateWSSContextFnOptions, 'req' | 'res'>;
+
+// The user and scopes the credentials in these headers stand for. Subscriptions outlive the
+// request that opened them, so they call this again to notice a logout or a revoked token
+export const authenticate = async (headers: IncomingHttpHeaders) => {
+  const bearer = readBearerToken(headers.authorization);
+  if (bearer) {
+    const auth = await getApiTokenAuth(bearer);
+    const scopes: ApiTokenScope[] | null = auth?.scopes ?? [];
+    return { user: auth?.user ?? null, scopes };
+  }
+
+  const token = readCookie(headers.cookie, SESSION_COOKIE);
+  const user = token ? await getSessionUser(token) : null;
+  const scopes: ApiTokenScope[] | null = null;
+
+  return { user, scopes };
+};
+
+export const createContext = async ({ req, res }: ContextOptions) => {
+  const response = res instanceof ServerResponse ? res : null;
+  return { req, res: response, ...await authenticate(req.headers) };
+};
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
@@ -1,17 +1,263 @@
-import { serial, text, pgTable, timestamp, boolean } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, boolean, integer, primaryKey, pgEnum, jsonb, pgSequence, unique, index, customType } from 'drizzle-orm/pg-core';
+import { type Recurrence, type TodoEventField } from '../schema';
+import { sql } from 'drizzle-orm';
+
+// Postgres full-text search document; drizzle has no built-in column type for it
+const tsvector = customType<{ data: string }>({
+  dataType: () => 'tsvector',
+});
+
+// Declaration order is the sort order: p1 is the most important
+export const priorityEnum = pgEnum('todo_priority', ['p1', 'p2', 'p3', 'p4']);
+
+// Roles a list can be shared with; the list's owner is recorded on the list itself
+export const listMemberRoleEnum = pgEnum('list_member_role', ['editor', 'viewer']);
+
+// What a personal API token may be used for: reading, changing (creating included) and deleting
+export const apiTokenScopeEnum = pgEnum('api_token_scope', ['read', 'write', 'delete']);
+
+// Kinds of changes recorded in a todo's activity log
+export const todoEventTypeEnum = pgEnum('todo_event_type', [
+  'created',
+  'edited',
+  'completed',
+  'reopened',
+  'deleted',
+  'restored',
+  'archived',
+  'unarchived',
+  'reordered',
+  'assigned',
+  'tagged',
+  'untagged',
+  'tag_renamed',
+  'checklist_item_added',
+  'checklist_item_edited',
+  'checklist_item_completed',
+  'checklist_item_reopened',
+  'checklist_item_deleted',
+  'checklist_reordered'
+]);
+
+// Feeds the default todo position, so new todos (and todos moved to the end) always sort last
+export const todoPositionSequence = pgSequence('todo_position_seq');
+
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull().unique(), // Stored normalized: trimmed and lowercase
+  name: text('name').notNull(),
+  password_hash: text('password_hash').notNull(), // Never returned to clients
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Login sessions; the cookie carries the token, only its SHA-256 hash is stored
+export const sessionsTable = pgTable('sessions', {
+  token_hash: text('token_hash').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Calendar feed links, at most one per user. Like sessions, the link carries the token and only
+// its SHA-256 hash is stored
+export const calendarFeedsTable = pgTable('calendar_feeds', {
+  user_id: integer('user_id').primaryKey().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  last_fetched_at: timestamp('last_fetched_at'), // null until a calendar app first reads the feed
+});
+
+// Personal API tokens for scripts, sent as a Bearer token. Like sessions, only the token's
+// SHA-256 hash is stored; its first characters are kept so the user can tell tokens apart
+export const apiTokensTable = pgTable('api_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  token_prefix: text('token_prefix').notNull(),
+  scopes: apiTokenScopeEnum('scopes').array().notNull(),
+  expires_at: timestamp('expires_at'), // null for tokens that never expire
+  last_used_at: timestamp('last_used_at'), // null until the token is first used
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('api_tokens_user_id_idx').on(table.user_id),
+]);
+
+export const listsTable = pgTable('lists', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
 
 export const todosTable = pgTable('todos', {
   id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   description: text('description'), // Nullable by default, matches Zod schema
   completed: boolean('completed').notNull().default(false),
+  // Nullable - todos without a list are unfiled; deleting a list deletes its todos
+  list_id: integer('list_id').references(() => listsTable.id, { onDelete: 'cascade' }),
+  // Nullable - todos without a due date; date-only due dates are stored at the start of the day
+  due_at: timestamp('due_at'),
+  due_has_time: boolean('due_has_time').notNull().default(false),
+  priority: priorityEnum('priority'), // Nullable - no priority
+  recurrence: jsonb('recurrence').$type<Recurrence>(), // Nullable - does not repeat
+  // Nullable - nobody is assigned; must be able to edit the todo when assigned
+  assignee_id: integer('assignee_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  // Manual order: a lexicographic rank compared byte-wise (COLLATE "C"); see helpers/positions.ts
+  position: text('position').notNull().default(sql`lpad(nextval('todo_position_seq')::text, 12, '0')`),
+  deleted_at: timestamp('deleted_at'), // Nullable - set while the todo is in the trash
+  archived_at: timestamp('archived_at'), // Nullable - set while the todo is in the archive
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+  // Maintained by Postgres for searchTodos; title words rank above description words.
+  // Internal only - hydrateTodos leaves it out of the todos sent to clients
+  search_vector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')`
+  ),
+}, (table) => [
+  index('todos_search_vector_idx').using('gin', table.search_vector),
+]);
+
+// One row per completed occurrence of a recurring todo
+export const todoCompletionsTable = pgTable('todo_completions', {
+  id: serial('id').primaryKey(),
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  due_at: timestamp('due_at'), // Due date of the occurrence that was completed
+  completed_at: timestamp('completed_at').defaultNow().notNull(),
+});
+
+// Append-only history of a todo's assignee; one row per (re)assignment or unassignment
+export const todoAssignmentsTable = pgTable('todo_assignments', {
+  id: serial('id').primaryKey(),
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  // Nullable - the todo was unassigned
+  assignee_id: integer('assignee_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  assigned_by: integer('assigned_by').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Append-only activity log of a todo, written in the same transaction as the change it records.
+// from_value/to_value hold what the change was about as it was at the time: the old and new value
+// of an edited field, a tag name, a checklist item title, an assignee's name
+export const todoEventsTable = pgTable('todo_events', {
+  id: serial('id').primaryKey(),
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  // Nullable - the user's account was deleted; the event stays in the log
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  type: todoEventTypeEnum('type').notNull(),
+  field: text('field').$type<TodoEventField>(), // Nullable - only set on 'edited' events
+  from_value: jsonb('from_value'),
+  to_value: jsonb('to_value'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Discussion thread on a todo, oldest first
+export const commentsTable = pgTable('comments', {
+  id: serial('id').primaryKey(),
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  author_id: integer('author_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  body: text('body').notNull(),
+  edited: boolean('edited').notNull().default(false), // Set once the body was changed after posting
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Ordered checklist steps nested under a todo
+export const checklistItemsTable = pgTable('checklist_items', {
+  id: serial('id').primaryKey(),
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  completed: boolean('completed').notNull().default(false),
+  position: integer('position').notNull(), // 0-based order within the todo
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
-// TypeScript type for the table schema
-export type Todo = typeof todosTable.$inferSelect; // For SELECT operations
-export type NewTodo = typeof todosTable.$inferInsert; // For INSERT operations
+// Every user has their own tag vocabulary
+export const tagsTable = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // Stored normalized: lowercase, without leading '#'
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('tags_owner_id_name_unique').on(table.owner_id, table.name),
+]);
+
+// Users a list is shared with. A row is an invitation until accepted_at is set;
+// declining an invitation deletes it
+export const listMembersTable = pgTable('list_members', {
+  list_id: integer('list_id').notNull().references(() => listsTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  role: listMemberRoleEnum('role').notNull(),
+  invited_by: integer('invited_by').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  accepted_at: timestamp('accepted_at'), // Nullable - invitation still pending
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.list_id, table.user_id] }),
+]);
+
+// Many-to-many join between todos and tags
+export const todoTagsTable = pgTable('todo_tags', {
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  tag_id: integer('tag_id').notNull().references(() => tagsTable.id, { onDelete: 'cascade' }),
+}, (table) => [
+  primaryKey({ columns: [table.todo_id, table.tag_id] }),
+]);
+
+// TypeScript types for the table schemas
+export type User = typeof usersTable.$inferSelect;
+export type NewUser = typeof usersTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type List = typeof listsTable.$inferSelect; // For SELECT operations
+export type NewList = typeof listsTable.$inferInsert; // For INSERT operations
+
+export type ListMember = typeof listMembersTable.$inferSelect;
+export type NewListMember = typeof listMembersTable.$inferInsert;
+
+export type Todo = typeof todosTable.$inferSelect;
+export type NewTodo = typeof todosTable.$inferInsert;
+
+export type TodoCompletion = typeof todoCompletionsTable.$inferSelect;
+export type NewTodoCompletion = typeof todoCompletionsTable.$inferInsert;
+
+export type TodoAssignment = typeof todoAssignmentsTable.$inferSelect;
+export type NewTodoAssignment = typeof todoAssignmentsTable.$inferInsert;
+
+export type TodoEvent = typeof todoEventsTable.$inferSelect;
+export type NewTodoEvent = typeof todoEventsTable.$inferInsert;
+
+export type Comment = typeof commentsTable.$inferSelect;
+export type NewComment = typeof commentsTable.$inferInsert;
+
+export type ChecklistItem = typeof checklistItemsTable.$inferSelect;
+export type NewChecklistItem = typeof checklistItemsTable.$inferInsert;
+
+export type Tag = typeof tagsTable.$inferSelect;
+export type NewTag = typeof tagsTable.$inferInsert;
+
+export type TodoTag = typeof todoTagsTable.$inferSelect;
+export type NewTodoTag = typeof todoTagsTable.$inferInsert;
 
 // Important: Export all tables for proper query building
-export const tables = { todos: todosTable };
\ No newline at end of file
+export const tables = {
+  users: usersTable,
+  sessions: sessionsTable,
+  calendarFeeds: calendarFeedsTable,
+  apiTokens: apiTokensTable,
+  lists: listsTable,
+  listMembers: listMembersTable,
+  todos: todosTable,
+  todoCompletions: todoCompletionsTable,
+  todoAssignments: todoAssignmentsTable,
+  todoEvents: todoEventsTable,
+  comments: commentsTable,
+  checklistItems: checklistItemsTable,
+  tags: tagsTable,
+  todoTags: todoTagsTable
+};
\ No newline at end of file
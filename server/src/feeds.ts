@@ -0,0 +1,40 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { renderCalendarFeed } from './handlers/render_calendar_feed';
+
+// Calendar feed links: /calendar/<token>.ics, with ?events=1 to add dated todos as events
+const CALENDAR_FEED_PATH = /^\/calendar\/([A-Za-z0-9_-]+)\.ics$/;
+
+// Serves calendar feeds next to the tRPC handler. Calendar apps fetch them without a session, so
+// the token in the link is all they have, and all it allows is reading the feed
+export const serveCalendarFeed = (req: IncomingMessage, res: ServerResponse, next: () => void): void => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const match = CALENDAR_FEED_PATH.exec(url.pathname);
+  if (!match) {
+    next();
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    return;
+  }
+
+  renderCalendarFeed(match[1], { events: url.searchParams.get('events') === '1' })
+    .then(calendar => {
+      if (calendar === null) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Unknown calendar feed');
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="todos.ics"',
+        // Calendar apps poll; every poll should see the latest todos
+        'Cache-Control': 'no-cache'
+      });
+      res.end(req.method === 'HEAD' ? undefined : calendar);
+    })
+    .catch(() => {
+      // Already logged by the handler
+      res.writeHead(500, { 'Content-Type': 'text/plain' }).end('Calendar feed unavailable');
+    });
+};
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { checklistItemsTable } from '../db/schema';
+import { sql } from 'drizzle-orm';
+import { hydrateTodo } from '../helpers/todos';
+import { findAccessibleTodo } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvent } from '../helpers/events';
+import { type AddChecklistItemInput, type Todo } from '../schema';
+
+export const addChecklistItem = async (input: AddChecklistItemInput, userId: number): Promise<Todo> => {
+  try {
+    const updated = await db.transaction(async (tx) => {
+      // Verify the parent todo exists and the user may change it before adding to its checklist
+      const todo = await findAccessibleTodo(tx, input.todo_id, userId, 'write');
+
+      // New items go to the end of the checklist
+      await tx.insert(checklistItemsTable)
+        .values({
+          todo_id: input.todo_id,
+          title: input.title,
+          position: sql`(select coalesce(max(${checklistItemsTable.position}) + 1, 0) from ${checklistItemsTable} where ${checklistItemsTable.todo_id} = ${input.todo_id})`
+        })
+        .execute();
+
+      await recordEvent(tx, { todo_id: input.todo_id, actor_id: userId, type: 'checklist_item_added', to_value: input.title });
+
+      return todo;
+    });
+
+    publishTodoChange({ type: 'updated', todo: updated });
+    return hydrateTodo(updated);
+  } catch (error) {
+    console.error('Checklist item creation failed:', error);
+    throw error;
+  }
+};
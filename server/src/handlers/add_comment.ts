@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { findAccessibleTodo } from '../helpers/access';
+import { selectComments } from '../helpers/comments';
+import { type AddCommentInput, type Comment } from '../schema';
+
+// Commenting counts as changing the todo, so viewers of a shared list cannot comment
+export const addComment = async (input: AddCommentInput, userId: number): Promise<Comment> => {
+  try {
+    await findAccessibleTodo(db, input.todo_id, userId, 'write');
+
+    const result = await db.insert(commentsTable)
+      .values({
+        todo_id: input.todo_id,
+        author_id: userId,
+        body: input.body
+      })
+      .returning()
+      .execute();
+
+    const [comment] = await selectComments(eq(commentsTable.id, result[0].id));
+    return comment;
+  } catch (error) {
+    console.error('Comment creation failed:', error);
+    throw error;
+  }
+};
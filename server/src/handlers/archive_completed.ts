@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { and, eq, isNull, lt, sql, type SQL } from 'drizzle-orm';
+import { requireListRole, todoAccess } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvents } from '../helpers/events';
+import { type ArchiveCompletedInput, type ArchivedTodos } from '../schema';
+
+// Moves completed todos out of the live views into the archive, where they stay until they
+// are taken back out with unarchiveTodo. Only todos the user may edit are archived
+export const archiveCompleted = async (input: ArchiveCompletedInput, userId: number): Promise<ArchivedTodos> => {
+  try {
+    const archived = await db.transaction(async (tx) => {
+      const conditions: SQL[] = [
+        todoAccess(userId, 'write'),
+        eq(todosTable.completed, true),
+        isNull(todosTable.deleted_at),
+        isNull(todosTable.archived_at)
+      ];
+
+      if (input?.listId !== undefined) {
+        if (input.listId !== null) {
+          await requireListRole(tx, input.listId, userId, ['owner', 'editor']);
+        }
+        conditions.push(input.listId === null
+          ? isNull(todosTable.list_id)
+          : eq(todosTable.list_id, input.listId));
+      }
+
+      if (input?.olderThanDays !== undefined) {
+        conditions.push(lt(todosTable.updated_at, sql`NOW() - make_interval(days => ${input.olderThanDays})`));
+      }
+
+      const rows = await tx.update(todosTable)
+        .set({ archived_at: sql`NOW()` })
+        .where(and(...conditions))
+        .returning()
+        .execute();
+
+      await recordEvents(tx, rows.map(row => ({ todo_id: row.id, actor_id: userId, type: 'archived' as const })));
+
+      return rows;
+    });
+
+    // Nothing else changed, so each todo was last seen as it is now but out of the archive
+    for (const todo of archived) {
+      publishTodoChange({ type: 'updated', todo, previous: { ...todo, archived_at: null } });
+    }
+
+    return { ids: archived.map(todo => todo.id) };
+  } catch (error) {
+    console.error('Archiving completed todos failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { TRPCError } from '@trpc/server';
+import { canEditTodo, findAccessibleTodo } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { setAssignee } from '../helpers/assignments';
+import { hydrateTodo } from '../helpers/todos';
+import { type AssignTodoInput, type Todo } from '../schema';
+
+// Assigns a todo to anyone who may edit it: its owner for todos outside lists,
+// otherwise the list's owner and editors. Assigning the current assignee again changes nothing.
+export const assignTodo = async (input: AssignTodoInput, userId: number): Promise<Todo> => {
+  try {
+    const updated = await db.transaction(async (tx) => {
+      const todo = await findAccessibleTodo(tx, input.id, userId, 'write');
+
+      if (todo.assignee_id === input.assignee_id) {
+        return todo;
+      }
+
+      if (input.assignee_id !== null && !(await canEditTodo(tx, todo, input.assignee_id))) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `User with id ${input.assignee_id} cannot be assigned to todo ${input.id}` });
+      }
+
+      return setAssignee(tx, todo, input.assignee_id, userId);
+    });
+
+    publishTodoChange({ type: 'updated', todo: updated });
+    return hydrateTodo(updated);
+  } catch (error) {
+    console.error('Todo assignment failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { hydrateTodo } from '../helpers/todos';
+import { findAccessibleTodo } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { tagTodo } from '../helpers/tags';
+import { type AttachTagInput, type Todo } from '../schema';
+
+export const attachTag = async (input: AttachTagInput, userId: number): Promise<Todo> => {
+  try {
+    const updated = await db.transaction(async (tx) => {
+      // Verify the todo exists and the user may change it before tagging it
+      const todo = await findAccessibleTodo(tx, input.todo_id, userId, 'write');
+      await tagTodo(tx, todo.id, input.name, userId);
+      return todo;
+    });
+
+    publishTodoChange({ type: 'updated', todo: updated });
+    return hydrateTodo(updated);
+  } catch (error) {
+    console.error('Tag attachment failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { type Todo as TodoRow } from '../db/schema';
+import { findAccessibleTodo } from '../helpers/access';
+import { trashTodo } from '../helpers/trash';
+import { publishTodoChange } from '../helpers/changes';
+import { type BulkDeleteTodosInput, type BulkResult } from '../schema';
+
+// Moves every todo to the trash in one transaction, reporting the ones that could not be
+// trashed instead of failing the whole batch
+export const bulkDeleteTodos = async (input: BulkDeleteTodosInput, userId: number): Promise<BulkResult[]> => {
+  try {
+    const { results, trashed } = await db.transaction(async (tx) => {
+      const results: BulkResult[] = [];
+      const trashed: TodoRow[] = [];
+
+      for (const id of input.ids) {
+        try {
+          const todo = await tx.transaction(async (sp) => {
+            const todo = await findAccessibleTodo(sp, id, userId, 'write');
+            if (todo.deleted_at !== null) {
+              throw new Error(`Todo with id ${id} is already in the trash`);
+            }
+
+            await trashTodo(sp, todo, userId);
+            return todo;
+          });
+
+          trashed.push(todo);
+          results.push({ id, success: true, error: null });
+        } catch (error) {
+          results.push({ id, success: false, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      return { results, trashed };
+    });
+
+    // Published as they were before they were trashed, which is where subscribers could see them
+    for (const todo of trashed) {
+      publishTodoChange({ type: 'deleted', todo });
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Bulk todo deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { type Todo as TodoRow } from '../db/schema';
+import { findAccessibleTodo } from '../helpers/access';
+import { setCompletion } from '../helpers/completion';
+import { editTodo } from '../helpers/edits';
+import { tagTodo, untagTodo } from '../helpers/tags';
+import { publishTodoChange } from '../helpers/changes';
+import { type BulkResult, type BulkUpdateTodosInput } from '../schema';
+
+// Applies the same changes to every todo in one transaction. Each todo runs in its own
+// savepoint, so one that fails is rolled back and reported without undoing the rest
+export const bulkUpdateTodos = async (input: BulkUpdateTodosInput, userId: number): Promise<BulkResult[]> => {
+  try {
+    const { results, updates } = await db.transaction(async (tx) => {
+      const results: BulkResult[] = [];
+      const updates: { previous: TodoRow; todo: TodoRow }[] = [];
+
+      for (const id of input.ids) {
+        try {
+          const update = await tx.transaction(async (sp) => {
+            const previous = await findAccessibleTodo(sp, id, userId, 'write');
+            // A selection can outlive the view it was made in; todos since trashed or archived are left alone
+            if (previous.deleted_at !== null) {
+              throw new Error(`Todo with id ${id} is in the trash`);
+            }
+            if (previous.archived_at !== null) {
+              throw new Error(`Todo with id ${id} is archived`);
+            }
+            let todo = previous;
+
+            if (input.list_id !== undefined || input.priority !== undefined) {
+              todo = await editTodo(sp, todo, { list_id: input.list_id, priority: input.priority }, userId);
+            }
+            if (input.completed !== undefined) {
+              todo = await setCompletion(sp, todo, { completed: input.completed, complete_checklist: false }, userId);
+            }
+            for (const name of input.add_tags) {
+              await tagTodo(sp, todo.id, name, userId);
+            }
+            for (const tagId of input.remove_tag_ids) {
+              await untagTodo(sp, todo.id, tagId, userId);
+            }
+
+            return { previous, todo };
+          });
+
+          updates.push(update);
+          results.push({ id, success: true, error: null });
+        } catch (error) {
+          results.push({ id, success: false, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      return { results, updates };
+    });
+
+    // Published once the whole batch is committed
+    for (const { previous, todo } of updates) {
+      publishTodoChange({ type: 'updated', todo, previous });
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Bulk todo update failed:', error);
+    throw error;
+  }
+};
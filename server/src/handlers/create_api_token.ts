@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { generateApiToken } from '../helpers/api_tokens';
+import { hashToken } from '../helpers/sessions';
+import { type CreateApiTokenInput, type CreatedApiToken } from '../schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Creates a personal API token. The token is only returned here: only its hash is stored
+export const createApiToken = async (input: CreateApiTokenInput, userId: number): Promise<CreatedApiToken> => {
+  try {
+    const { token, token_prefix } = generateApiToken();
+
+    const [apiToken] = await db.insert(apiTokensTable)
+      .values({
+        user_id: userId,
+        name: input.name,
+        token_hash: hashToken(token),
+        token_prefix,
+        scopes: input.scopes,
+        expires_at: input.expires_in_days === null ? null : new Date(Date.now() + input.expires_in_days * DAY_MS)
+      })
+      .returning()
+      .execute();
+
+    return {
+      id: apiToken.id,
+      name: apiToken.name,
+      token_prefix: apiToken.token_prefix,
+      scopes: apiToken.scopes,
+      expires_at: apiToken.expires_at,
+      last_used_at: apiToken.last_used_at,
+      created_at: apiToken.created_at,
+      token
+    };
+  } catch (error) {
+    console.error('API token creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { randomBytes } from 'node:crypto';
+import { hashToken } from '../helpers/sessions';
+import { type CreatedCalendarFeed } from '../schema';
+
+// Creates the user's calendar feed link, replacing the one they had: calendars subscribed to
+// the old link stop updating
+export const createCalendarFeed = async (userId: number): Promise<CreatedCalendarFeed> => {
+  try {
+    const token = randomBytes(32).toString('base64url');
+    const values = { token_hash: hashToken(token), created_at: new Date(), last_fetched_at: null };
+
+    const [feed] = await db.insert(calendarFeedsTable)
+      .values({ user_id: userId, ...values })
+      .onConflictDoUpdate({ target: calendarFeedsTable.user_id, set: values })
+      .returning()
+      .execute();
+
+    return { token, created_at: feed.created_at, last_fetched_at: feed.last_fetched_at };
+  } catch (error) {
+    console.error('Calendar feed creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { type CreateListInput, type List } from '../schema';
+
+export const createList = async (input: CreateListInput, userId: number): Promise<List> => {
+  try {
+    // Insert list record
+    const result = await db.insert(listsTable)
+      .values({
+        owner_id: userId,
+        name: input.name
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('List creation failed:', error);
+    throw error;
+  }
+};
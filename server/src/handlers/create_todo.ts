@@ -1,23 +1,47 @@
 import { db } from '../db';
 import { todosTable } from '../db/schema';
+import { requireListRole } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvent } from '../helpers/events';
+import { isOverdue } from '../helpers/todos';
 import { type CreateTodoInput, type Todo } from '../schema';
 
-export const createTodo = async (input: CreateTodoInput): Promise<Todo> => {
+export const createTodo = async (input: CreateTodoInput, userId: number): Promise<Todo> => {
   try {
-    // Insert todo record
-    const result = await db.insert(todosTable)
-      .values({
-        title: input.title,
-        description: input.description || null,
-        completed: false, // New todos start as incomplete
-        // created_at and updated_at will use database defaults (defaultNow())
-      })
-      .returning()
-      .execute();
+    const todo = await db.transaction(async (tx) => {
+      // Only owners and editors of the target list may add todos to it
+      if (input.list_id !== undefined && input.list_id !== null) {
+        await requireListRole(tx, input.list_id, userId, ['owner', 'editor']);
+      }
 
-    // Return the created todo
-    const todo = result[0];
-    return todo;
+      // Insert todo record
+      const result = await tx.insert(todosTable)
+        .values({
+          owner_id: userId,
+          title: input.title,
+          description: input.description || null,
+          list_id: input.list_id ?? null,
+          due_at: input.due_at ?? null,
+          // A time of day only makes sense together with a due date
+          due_has_time: input.due_at ? input.due_has_time ?? false : false,
+          priority: input.priority ?? null,
+          recurrence: input.recurrence ?? null,
+          completed: false, // New todos start as incomplete
+          // created_at and updated_at will use database defaults (defaultNow())
+        })
+        .returning()
+        .execute();
+
+      await recordEvent(tx, { todo_id: result[0].id, actor_id: userId, type: 'created' });
+
+      return result[0];
+    });
+
+    publishTodoChange({ type: 'created', todo });
+
+    // Return the created todo - new todos have no tags, checklist, assignee or comments yet
+    const { search_vector: _, ...row } = todo;
+    return { ...row, tags: [], checklist: [], assignee_name: null, assignments: [], comment_count: 0, overdue: isOverdue(todo) };
   } catch (error) {
     console.error('Todo creation failed:', error);
     throw error;
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { checklistItemsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { hydrateTodo } from '../helpers/todos';
+import { findAccessibleChecklistItem } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvent } from '../helpers/events';
+import { type DeleteChecklistItemInput, type Todo } from '../schema';
+
+export const deleteChecklistItem = async (input: DeleteChecklistItemInput, userId: number): Promise<Todo> => {
+  try {
+    const updated = await db.transaction(async (tx) => {
+      const { item, todo } = await findAccessibleChecklistItem(tx, input.id, userId, 'write');
+
+      await tx.delete(checklistItemsTable)
+        .where(eq(checklistItemsTable.id, input.id))
+        .execute();
+
+      await recordEvent(tx, { todo_id: todo.id, actor_id: userId, type: 'checklist_item_deleted', from_value: item.title });
+
+      return todo;
+    });
+
+    // Return the parent todo so the caller sees the remaining checklist
+    publishTodoChange({ type: 'updated', todo: updated });
+    return hydrateTodo(updated);
+  } catch (error) {
+    console.error('Checklist item deletion failed:', error);
+    throw error;
+  }
+};
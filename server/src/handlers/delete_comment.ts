@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { findOwnComment } from '../helpers/access';
+import { type DeleteCommentInput } from '../schema';
+
+export async function deleteComment(input: DeleteCommentInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    await findOwnComment(db, input.id, userId);
+
+    const result = await db.delete(commentsTable)
+      .where(eq(commentsTable.id, input.id))
+      .execute();
+
+    const success = (result.rowCount ?? 0) > 0;
+
+    return { success };
+  } catch (error) {
+    console.error('Comment deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { type DeleteListInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getListRole, listReaders } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { liveListTodos } from '../helpers/todos';
+
+export async function deleteList(input: DeleteListInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    // Only the owner may delete a list; collaborators leave it with removeListMember instead
+    const role = await getListRole(db, input.id, userId);
+    if (role !== null && role !== 'owner') {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `You need to be owner of list ${input.id} to do this` });
+    }
+
+    const deleted = await db.transaction(async (tx) => {
+      // Everyone who could see the list loses its todos
+      const todos = await liveListTodos(tx, input.id);
+      const userIds = await listReaders(tx, input.id);
+
+      // Todos in the list are removed by the ON DELETE CASCADE foreign key
+      const result = await tx.delete(listsTable)
+        .where(and(eq(listsTable.id, input.id), eq(listsTable.owner_id, userId)))
+        .execute();
+
+      return (result.rowCount ?? 0) > 0 ? { todos, userIds } : null;
+    });
+
+    if (deleted === null) {
+      return { success: false };
+    }
+
+    for (const todo of deleted.todos) {
+      publishTodoChange({ type: 'deleted', todo, userIds: deleted.userIds });
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('List deletion failed:', error);
+    throw error;
+  }
+}
@@ -1,21 +1,50 @@
 import { db } from '../db';
 import { todosTable } from '../db/schema';
 import { type DeleteTodoInput } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { canEditTodo, todoAccess } from '../helpers/access';
+import { trashTodo } from '../helpers/trash';
+import { publishTodoChange } from '../helpers/changes';
 
-export async function deleteTodo(input: DeleteTodoInput): Promise<{ success: boolean }> {
+// Moves the todo to the trash; its checklist, tags and position are kept so it can be
+// restored as it was. purgeTodo deletes it for good.
+export async function deleteTodo(input: DeleteTodoInput, userId: number): Promise<{ success: boolean }> {
   try {
-    // Delete the todo by ID
-    const result = await db.delete(todosTable)
-      .where(eq(todosTable.id, input.id))
-      .execute();
-
-    // Check if any rows were affected (todo existed and was deleted)
-    const success = (result.rowCount ?? 0) > 0;
-    
-    return { success };
+    const trashed = await db.transaction(async (tx) => {
+      const todos = await tx.select()
+        .from(todosTable)
+        .where(and(
+          eq(todosTable.id, input.id),
+          isNull(todosTable.deleted_at),
+          todoAccess(userId, 'read')
+        ))
+        .execute();
+
+      // Nothing to do when the todo does not exist or is already in the trash
+      if (todos.length === 0) {
+        return null;
+      }
+
+      if (!(await canEditTodo(tx, todos[0], userId))) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `Todo with id ${input.id} is read-only for you` });
+      }
+
+      await trashTodo(tx, todos[0], userId);
+
+      return todos[0];
+    });
+
+    if (trashed === null) {
+      return { success: false };
+    }
+
+    // Published as it was before it was trashed, which is where subscribers could see it
+    publishTodoChange({ type: 'deleted', todo: trashed });
+
+    return { success: true };
   } catch (error) {
     console.error('Todo deletion failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
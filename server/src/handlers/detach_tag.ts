@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { hydrateTodo } from '../helpers/todos';
+import { findAccessibleTodo } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { untagTodo } from '../helpers/tags';
+import { type DetachTagInput, type Todo } from '../schema';
+
+export const detachTag = async (input: DetachTagInput, userId: number): Promise<Todo> => {
+  try {
+    const updated = await db.transaction(async (tx) => {
+      const todo = await findAccessibleTodo(tx, input.todo_id, userId, 'write');
+      await untagTodo(tx, todo.id, input.tag_id, userId);
+      return todo;
+    });
+
+    publishTodoChange({ type: 'updated', todo: updated });
+    return hydrateTodo(updated);
+  } catch (error) {
+    console.error('Tag detachment failed:', error);
+    throw error;
+  }
+};
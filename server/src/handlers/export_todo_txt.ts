@@ -0,0 +1,20 @@
+import { selectExportedTodos } from '../helpers/exports';
+import { serializeTodoTxt, todoTxtTask } from '../helpers/todotxt';
+import { toDateKey } from '../helpers/recurrence';
+import { type ExportFile, type ExportTodoTxtInput } from '../schema';
+
+// Exports the todos the user can see as a todo.txt file, one task per line in the manual order
+export const exportTodoTxt = async (input: ExportTodoTxtInput, userId: number): Promise<ExportFile> => {
+  try {
+    const todos = await selectExportedTodos(input, userId);
+
+    return {
+      filename: `todo-${toDateKey(new Date())}.txt`,
+      mime_type: 'text/plain',
+      content: serializeTodoTxt(todos.map(todoTxtTask))
+    };
+  } catch (error) {
+    console.error('todo.txt export failed:', error);
+    throw error;
+  }
+};
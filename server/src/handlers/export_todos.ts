@@ -0,0 +1,20 @@
+import { selectExportedTodos } from '../helpers/exports';
+import { FILE_EXTENSIONS, MIME_TYPES, serializeTodos } from '../helpers/transfer';
+import { toDateKey } from '../helpers/recurrence';
+import { type ExportFile, type ExportTodosInput } from '../schema';
+
+// Exports the todos the user can see, in the manual order, as a file to download
+export const exportTodos = async (input: ExportTodosInput, userId: number): Promise<ExportFile> => {
+  try {
+    const todos = await selectExportedTodos(input, userId);
+
+    return {
+      filename: `todos-${toDateKey(new Date())}.${FILE_EXTENSIONS[input.format]}`,
+      mime_type: MIME_TYPES[input.format],
+      content: serializeTodos(input.format, todos)
+    };
+  } catch (error) {
+    console.error('Todo export failed:', error);
+    throw error;
+  }
+};
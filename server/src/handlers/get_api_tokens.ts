@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { type ApiToken } from '../schema';
+
+// The user's personal API tokens, newest first, without the tokens themselves. Expired
+// tokens are listed too, so they can be told apart and revoked
+export const getApiTokens = async (userId: number): Promise<ApiToken[]> => {
+  try {
+    return await db.select({
+      id: apiTokensTable.id,
+      name: apiTokensTable.name,
+      token_prefix: apiTokensTable.token_prefix,
+      scopes: apiTokensTable.scopes,
+      expires_at: apiTokensTable.expires_at,
+      last_used_at: apiTokensTable.last_used_at,
+      created_at: apiTokensTable.created_at
+    })
+      .from(apiTokensTable)
+      .where(eq(apiTokensTable.user_id, userId))
+      .orderBy(desc(apiTokensTable.created_at), desc(apiTokensTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch API tokens:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { type CalendarFeed } from '../schema';
+
+// The user's calendar feed link, without its token, or null when there is none
+export const getCalendarFeed = async (userId: number): Promise<CalendarFeed | null> => {
+  try {
+    const [feed] = await db.select({
+      created_at: calendarFeedsTable.created_at,
+      last_fetched_at: calendarFeedsTable.last_fetched_at
+    })
+      .from(calendarFeedsTable)
+      .where(eq(calendarFeedsTable.user_id, userId))
+      .execute();
+
+    return feed ?? null;
+  } catch (error) {
+    console.error('Failed to fetch calendar feed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { findAccessibleTodo } from '../helpers/access';
+import { selectComments } from '../helpers/comments';
+import { type Comment, type GetCommentsInput } from '../schema';
+
+// Everyone who can see a todo can read its comments
+export const getComments = async (input: GetCommentsInput, userId: number): Promise<Comment[]> => {
+  try {
+    await findAccessibleTodo(db, input.todo_id, userId, 'read');
+
+    return selectComments(eq(commentsTable.todo_id, input.todo_id));
+  } catch (error) {
+    console.error('Failed to fetch comments:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { listMembersTable, listsTable, usersTable } from '../db/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { type Invitation } from '../schema';
+
+// Pending invitations to other users' lists, newest first
+export const getInvitations = async (userId: number): Promise<Invitation[]> => {
+  try {
+    const results = await db.select({
+      list_id: listMembersTable.list_id,
+      list_name: listsTable.name,
+      role: listMembersTable.role,
+      invited_by_name: usersTable.name,
+      created_at: listMembersTable.created_at
+    })
+      .from(listMembersTable)
+      .innerJoin(listsTable, eq(listMembersTable.list_id, listsTable.id))
+      .innerJoin(usersTable, eq(listMembersTable.invited_by, usersTable.id))
+      .where(and(
+        eq(listMembersTable.user_id, userId),
+        isNull(listMembersTable.accepted_at)
+      ))
+      .orderBy(desc(listMembersTable.created_at), desc(listMembersTable.list_id))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch invitations:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { listMembersTable, listsTable, todosTable, usersTable } from '../db/schema';
+import { and, asc, count, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { accessibleListIds } from '../helpers/access';
+import { type ListMember, type ListWithCounts } from '../schema';
+
+// Lists the user owns or has joined, each with the user's role and everyone it is shared with
+export const getLists = async (userId: number): Promise<ListWithCounts[]> => {
+  try {
+    // Left join so that empty lists are returned with zero counts; trashed and archived todos are not counted
+    const results = await db.select({
+      id: listsTable.id,
+      owner_id: listsTable.owner_id,
+      name: listsTable.name,
+      created_at: listsTable.created_at,
+      updated_at: listsTable.updated_at,
+      total_count: count(todosTable.id),
+      completed_count: sql<number>`count(${todosTable.id}) filter (where ${todosTable.completed})`.mapWith(Number)
+    })
+      .from(listsTable)
+      .leftJoin(todosTable, and(
+        eq(todosTable.list_id, listsTable.id),
+        isNull(todosTable.deleted_at),
+        isNull(todosTable.archived_at)
+      ))
+      .where(inArray(listsTable.id, accessibleListIds(userId, 'read')))
+      .groupBy(listsTable.id)
+      .orderBy(asc(listsTable.created_at), asc(listsTable.id))
+      .execute();
+
+    if (results.length === 0) {
+      return [];
+    }
+
+    const listIds = results.map(list => list.id);
+
+    const owners = await db.select({ id: usersTable.id, name: usersTable.name, email: usersTable.email })
+      .from(usersTable)
+      .where(inArray(usersTable.id, results.map(list => list.owner_id)))
+      .execute();
+
+    const memberRows = await db.select({
+      list_id: listMembersTable.list_id,
+      user_id: listMembersTable.user_id,
+      name: usersTable.name,
+      email: usersTable.email,
+      role: listMembersTable.role,
+      accepted_at: listMembersTable.accepted_at
+    })
+      .from(listMembersTable)
+      .innerJoin(usersTable, eq(listMembersTable.user_id, usersTable.id))
+      .where(inArray(listMembersTable.list_id, listIds))
+      .orderBy(asc(listMembersTable.created_at), asc(listMembersTable.user_id))
+      .execute();
+
+    const membersByList = new Map<number, ListMember[]>();
+    for (const { list_id, accepted_at, ...member } of memberRows) {
+      const members = membersByList.get(list_id) ?? [];
+      members.push({ ...member, accepted: accepted_at !== null });
+      membersByList.set(list_id, members);
+    }
+
+    return results.map(list => {
+      const owner = owners.find(user => user.id === list.owner_id)!;
+      const members = membersByList.get(list.id) ?? [];
+      const role = list.owner_id === userId
+        ? 'owner'
+        : members.find(member => member.user_id === userId)!.role;
+
+      return {
+        ...list,
+        role,
+        members: [
+          { user_id: owner.id, name: owner.name, email: owner.email, role: 'owner', accepted: true },
+          ...members
+        ]
+      };
+    });
+  } catch (error) {
+    console.error('Failed to fetch lists:', error);
+    throw error;
+  }
+};
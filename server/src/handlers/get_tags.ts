@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { type Tag } from '../schema';
+
+export const getTags = async (userId: number): Promise<Tag[]> => {
+  try {
+    const results = await db.select()
+      .from(tagsTable)
+      .where(eq(tagsTable.owner_id, userId))
+      .orderBy(asc(tagsTable.name))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch tags:', error);
+    throw error;
+  }
+};
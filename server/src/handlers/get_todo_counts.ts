@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { and, count, sql } from 'drizzle-orm';
+import { todoFilters } from '../helpers/todos';
+import { type GetTodoCountsInput, type TodoCounts } from '../schema';
+
+// Counts the todos matching the same filters as getTodos, so totals stay right when only a page is loaded
+export const getTodoCounts = async (input: GetTodoCountsInput, userId: number): Promise<TodoCounts> => {
+  try {
+    const [result] = await db.select({
+      total: count(),
+      completed: sql<number>`count(*) filter (where ${todosTable.completed})`.mapWith(Number)
+    })
+      .from(todosTable)
+      .where(and(...todoFilters(input, userId)))
+      .execute();
+
+    return { total: result.total, active: result.total - result.completed, completed: result.completed };
+  } catch (error) {
+    console.error('Failed to count todos:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { todoEventsTable, usersTable } from '../db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { findAccessibleTodo } from '../helpers/access';
+import { type GetTodoHistoryInput, type TodoEvent } from '../schema';
+
+// Everyone who can see a todo can see its activity log, newest first
+export const getTodoHistory = async (input: GetTodoHistoryInput, userId: number): Promise<TodoEvent[]> => {
+  try {
+    await findAccessibleTodo(db, input.todo_id, userId, 'read');
+
+    // Left join: events of deleted accounts are kept without an actor
+    return await db.select({
+      id: todoEventsTable.id,
+      todo_id: todoEventsTable.todo_id,
+      actor_id: todoEventsTable.actor_id,
+      actor_name: usersTable.name,
+      type: todoEventsTable.type,
+      field: todoEventsTable.field,
+      from_value: todoEventsTable.from_value,
+      to_value: todoEventsTable.to_value,
+      created_at: todoEventsTable.created_at
+    })
+      .from(todoEventsTable)
+      .leftJoin(usersTable, eq(todoEventsTable.actor_id, usersTable.id))
+      .where(eq(todoEventsTable.todo_id, input.todo_id))
+      .orderBy(desc(todoEventsTable.created_at), desc(todoEventsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch todo history:', error);
+    throw error;
+  }
+};
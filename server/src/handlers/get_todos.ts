@@ -1,18 +1,87 @@
 import { db } from '../db';
 import { todosTable } from '../db/schema';
-import { type Todo } from '../schema';
+import { and, asc, desc, eq, sql, type SQL } from 'drizzle-orm';
+import { hydrateTodos, todoFilters } from '../helpers/todos';
+import { todoPositionOrder } from '../helpers/positions';
+import { type GetTodosInput, type TodoPage, type TodoSortBy } from '../schema';
 
-export const getTodos = async (): Promise<Todo[]> => {
+type SortDirection = 'asc' | 'desc';
+
+// Expressions to sort by, before the id that breaks ties. None of them is ever null, so a page
+// can continue after the cursor with a single row comparison: todos without a due date or
+// priority get a sentinel that sorts them last in either direction.
+const sortKeys = (sortBy: TodoSortBy, direction: SortDirection): SQL[] => {
+  const dueKey = direction === 'asc'
+    ? sql`coalesce(${todosTable.due_at}, 'infinity'::timestamp)`
+    : sql`coalesce(${todosTable.due_at}, '-infinity'::timestamp)`;
+
+  switch (sortBy) {
+    case 'priority':
+      // Declaration order of the enum is its rank: p1 = 1
+      return [
+        sql`coalesce(array_position(enum_range(null::todo_priority), ${todosTable.priority}), ${direction === 'asc' ? 5 : 0})`,
+        dueKey
+      ];
+    case 'due_at':
+      return [dueKey];
+    case 'created_at':
+      return [sql`${todosTable.created_at}`];
+    case 'updated_at':
+      return [sql`${todosTable.updated_at}`];
+    default:
+      return [todoPositionOrder];
+  }
+};
+
+export const getTodos = async (input: GetTodosInput, userId: number): Promise<TodoPage> => {
   try {
-    // Fetch all todos from database
-    const results = await db.select()
+    const conditions = todoFilters(input, userId);
+
+    if (input?.status === 'active') {
+      conditions.push(eq(todosTable.completed, false));
+    } else if (input?.status === 'completed') {
+      conditions.push(eq(todosTable.completed, true));
+    }
+
+    // The trash is always most recently deleted first
+    const direction: SortDirection = input?.trashed ? 'desc' : input?.sortDirection ?? 'asc';
+    const keys = input?.trashed
+      ? [sql`${todosTable.deleted_at}`]
+      : sortKeys(input?.sortBy ?? 'position', direction);
+    const order = direction === 'asc' ? asc : desc;
+
+    // Continue strictly after the cursor's todo. The keys are evaluated on the cursor's row in
+    // a subquery, where the column references resolve to that row
+    if (input?.cursor !== undefined) {
+      const row = sql.join([...keys, sql`${todosTable.id}`], sql`, `);
+      conditions.push(sql`(${row}) ${sql.raw(direction === 'asc' ? '>' : '<')} (
+        select ${row} from ${todosTable} where ${todosTable.id} = ${input.cursor}
+      )`);
+    }
+
+    let query = db.select()
       .from(todosTable)
-      .execute();
+      .where(and(...conditions))
+      .orderBy(...keys.map(key => order(key)), order(todosTable.id))
+      .$dynamic();
+
+    // One more than asked for tells whether there is another page
+    if (input?.limit !== undefined) {
+      query = query.limit(input.limit + 1);
+    }
+
+    const results = await query.execute();
+
+    const hasMore = input?.limit !== undefined && results.length > input.limit;
+    const page = hasMore ? results.slice(0, input.limit) : results;
 
-    // Return results (no numeric conversions needed for this table)
-    return results;
+    return {
+      // Attach tags, checklists, assignments and overdue status
+      todos: await hydrateTodos(page),
+      nextCursor: hasMore ? page[page.length - 1].id : null
+    };
   } catch (error) {
     console.error('Failed to fetch todos:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,13 @@
+import { parseCalendar } from '../helpers/icalendar';
+import { importTodoRecords } from '../helpers/imports';
+import { type ImportICalendarInput, type ImportReport } from '../schema';
+
+// Imports the VTODOs of an iCalendar (.ics) file as todos, or previews the import on a dry run
+export const importICalendar = async (input: ImportICalendarInput, userId: number): Promise<ImportReport> => {
+  try {
+    return await importTodoRecords(parseCalendar(input.content), input, userId);
+  } catch (error) {
+    console.error('iCalendar import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,13 @@
+import { importTodoRecords } from '../helpers/imports';
+import { parseTodoTxt, todoTxtRecord } from '../helpers/todotxt';
+import { type ImportReport, type ImportTodoTxtInput } from '../schema';
+
+// Imports the tasks of a todo.txt file as todos, or previews the import on a dry run
+export const importTodoTxt = async (input: ImportTodoTxtInput, userId: number): Promise<ImportReport> => {
+  try {
+    return await importTodoRecords(parseTodoTxt(input.content).map(todoTxtRecord), input, userId);
+  } catch (error) {
+    console.error('todo.txt import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,13 @@
+import { importTodoRecords } from '../helpers/imports';
+import { parseTodos } from '../helpers/transfer';
+import { type ImportReport, type ImportTodosInput } from '../schema';
+
+// Imports todos from a JSON, CSV or Markdown file, or previews the import on a dry run
+export const importTodos = async (input: ImportTodosInput, userId: number): Promise<ImportReport> => {
+  try {
+    return await importTodoRecords(parseTodos(input.format, input.content), input, userId);
+  } catch (error) {
+    console.error('Todo import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { listMembersTable, usersTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { requireListRole } from '../helpers/access';
+import { type InviteToListInput, type ListMember } from '../schema';
+
+// Invites a registered user to a list; they get access once they accept
+export const inviteToList = async (input: InviteToListInput, userId: number): Promise<ListMember> => {
+  try {
+    await requireListRole(db, input.list_id, userId, ['owner']);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (users.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `No user with email ${input.email}` });
+    }
+
+    const invitee = users[0];
+
+    if (invitee.id === userId) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'You already own this list' });
+    }
+
+    const existing = await db.select()
+      .from(listMembersTable)
+      .where(and(
+        eq(listMembersTable.list_id, input.list_id),
+        eq(listMembersTable.user_id, invitee.id)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: `${input.email} has already been invited to this list` });
+    }
+
+    await db.insert(listMembersTable)
+      .values({
+        list_id: input.list_id,
+        user_id: invitee.id,
+        role: input.role,
+        invited_by: userId
+      })
+      .execute();
+
+    return {
+      user_id: invitee.id,
+      name: invitee.name,
+      email: invitee.email,
+      role: input.role,
+      accepted: false
+    };
+  } catch (error) {
+    console.error('List invitation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { UNUSABLE_PASSWORD_HASH, verifyPassword } from '../helpers/passwords';
+import { type LoginInput, type User } from '../schema';
+
+export const loginUser = async (input: LoginInput): Promise<User> => {
+  try {
+    const result = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // The same error, after the same work, for unknown emails and wrong passwords, so neither
+    // can be probed
+    const valid = await verifyPassword(input.password, result[0]?.password_hash ?? UNUSABLE_PASSWORD_HASH);
+    if (result.length === 0 || !valid) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid email or password' });
+    }
+
+    const { password_hash: _, ...user } = result[0];
+    return user;
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
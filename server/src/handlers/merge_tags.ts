@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { tagsTable, todoTagsTable } from '../db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvents } from '../helpers/events';
+import { taggedTodos } from '../helpers/tags';
+import { type MergeTagsInput, type Tag } from '../schema';
+
+export const mergeTags = async (input: MergeTagsInput, userId: number): Promise<Tag> => {
+  try {
+    const { tag, todos } = await db.transaction(async (tx) => {
+      const targets = await tx.select()
+        .from(tagsTable)
+        .where(and(eq(tagsTable.id, input.target_id), eq(tagsTable.owner_id, userId)))
+        .execute();
+
+      if (targets.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Tag with id ${input.target_id} not found` });
+      }
+
+      const sources = await tx.select()
+        .from(tagsTable)
+        .where(and(eq(tagsTable.id, input.source_id), eq(tagsTable.owner_id, userId)))
+        .execute();
+
+      if (sources.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Tag with id ${input.source_id} not found` });
+      }
+
+      const todos = await taggedTodos(tx, input.source_id);
+
+      // Retag every todo carrying the source tag; todos that already have both keep one link
+      const retagged = await tx.insert(todoTagsTable)
+        .select(
+          tx.select({
+            todo_id: todoTagsTable.todo_id,
+            tag_id: sql<number>`${input.target_id}`.as('tag_id')
+          })
+            .from(todoTagsTable)
+            .where(eq(todoTagsTable.tag_id, input.source_id))
+        )
+        .onConflictDoNothing()
+        .returning({ todo_id: todoTagsTable.todo_id })
+        .execute();
+
+      // On todos that only had the source tag, the tag was renamed; the others just lose it
+      const renamed = new Set(retagged.map(link => link.todo_id));
+      await recordEvents(tx, todos.map(todo => renamed.has(todo.id)
+        ? { todo_id: todo.id, actor_id: userId, type: 'tag_renamed' as const, from_value: sources[0].name, to_value: targets[0].name }
+        : { todo_id: todo.id, actor_id: userId, type: 'untagged' as const, from_value: sources[0].name }));
+
+      // Deleting the source tag cascades to its remaining links
+      await tx.delete(tagsTable)
+        .where(eq(tagsTable.id, input.source_id))
+        .execute();
+
+      return { tag: targets[0], todos };
+    });
+
+    for (const todo of todos) {
+      publishTodoChange({ type: 'updated', todo });
+    }
+    return tag;
+  } catch (error) {
+    console.error('Tag merge failed:', error);
+    throw error;
+  }
+};
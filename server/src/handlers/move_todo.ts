@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { and, asc, desc, eq, ne, sql } from 'drizzle-orm';
+import { hydrateTodo } from '../helpers/todos';
+import { rankBetween, todoPositionOrder } from '../helpers/positions';
+import { findAccessibleTodo } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvent } from '../helpers/events';
+import { type MoveTodoInput, type Todo } from '../schema';
+
+export const moveTodo = async (input: MoveTodoInput, userId: number): Promise<Todo> => {
+  try {
+    const todo = await db.transaction(async (tx) => {
+      await findAccessibleTodo(tx, input.id, userId, 'write');
+      const target = await findAccessibleTodo(tx, input.target_id, userId, 'read');
+
+      // The todo currently on the other side of the target, ignoring the one being moved. Every
+      // todo shares one key space, so this includes todos the user cannot read: a key picked
+      // between two visible todos could otherwise match a hidden one in the same list
+      const before = input.placement === 'before';
+      const neighbours = await tx.select({ position: todosTable.position })
+        .from(todosTable)
+        .where(and(
+          ne(todosTable.id, input.id),
+          before
+            ? sql`${todoPositionOrder} < ${target.position}`
+            : sql`${todoPositionOrder} > ${target.position}`
+        ))
+        .orderBy(before ? desc(todoPositionOrder) : asc(todoPositionOrder))
+        .limit(1)
+        .execute();
+
+      const neighbour = neighbours[0]?.position ?? null;
+
+      let position;
+      if (before) {
+        position = rankBetween(neighbour, target.position);
+      } else if (neighbour !== null) {
+        position = rankBetween(target.position, neighbour);
+      } else {
+        // Moving to the very end takes a fresh key from the sequence, like a new todo
+        position = sql`DEFAULT`;
+      }
+
+      const result = await tx.update(todosTable)
+        .set({
+          position,
+          updated_at: sql`NOW()` // Use SQL NOW() for accurate server timestamp
+        })
+        .where(eq(todosTable.id, input.id))
+        .returning()
+        .execute();
+
+      await recordEvent(tx, { todo_id: input.id, actor_id: userId, type: 'reordered' });
+
+      return result[0];
+    });
+
+    publishTodoChange({ type: 'updated', todo: todo });
+    return hydrateTodo(todo);
+  } catch (error) {
+    console.error('Todo move failed:', error);
+    throw error;
+  }
+};
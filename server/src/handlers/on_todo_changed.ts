@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { TRPCError } from '@trpc/server';
+import { type Todo as TodoRow } from '../db/schema';
+import { canReadTodo } from '../helpers/access';
+import { todoChanges, type TodoRowChange } from '../helpers/changes';
+import { hydrateTodo } from '../helpers/todos';
+import { type TodoChange } from '../schema';
+
+// A todo is in view while it is out of the trash and the archive and the user can read it
+const isVisible = async (row: TodoRow | undefined, userId: number): Promise<boolean> =>
+  row !== undefined && row.deleted_at === null && row.archived_at === null && canReadTodo(db, row, userId);
+
+// What the user is sent about a change, or null when it does not concern them
+const deliveryFor = async (change: TodoRowChange, userId: number): Promise<TodoChange | null> => {
+  switch (change.type) {
+    case 'created':
+      return await isVisible(change.todo, userId) ? { type: 'created', todo: await hydrateTodo(change.todo) } : null;
+    case 'updated':
+      if (change.userIds && !change.userIds.includes(userId)) {
+        return null;
+      }
+      if (await isVisible(change.todo, userId)) {
+        return { type: 'updated', todo: await hydrateTodo(change.todo) };
+      }
+      return await isVisible(change.previous, userId) ? { type: 'deleted', id: change.todo.id } : null;
+    case 'deleted':
+      // Published with the todo as it was before it was trashed, or for the users who lost access to it
+      return (change.userIds ? change.userIds.includes(userId) : await isVisible(change.todo, userId))
+        ? { type: 'deleted', id: change.todo.id }
+        : null;
+  }
+};
+
+// Streams the changes to todos the user can see, including their own changes made elsewhere.
+// isSignedIn is checked before each delivery, so the stream ends once the session or API token
+// it was opened with is gone
+export async function* onTodoChanged(
+  userId: number,
+  isSignedIn: () => Promise<boolean>,
+  signal?: AbortSignal
+): AsyncGenerator<TodoChange> {
+  for await (const change of todoChanges(signal)) {
+    let delivery: TodoChange | null;
+    try {
+      delivery = await deliveryFor(change, userId);
+    } catch (error) {
+      // Skip the change rather than end the subscription
+      console.error('Todo change delivery failed:', error);
+      continue;
+    }
+
+    if (delivery === null) {
+      continue;
+    }
+    if (!(await isSignedIn())) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Signed out' });
+    }
+    yield delivery;
+  }
+}
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { inArray, lt, sql } from 'drizzle-orm';
+
+// Permanently deletes todos that have been in the trash for longer than the retention window.
+// Runs on a timer rather than through the API; returns how many todos were purged.
+export async function purgeExpiredTodos(retentionDays: number): Promise<number> {
+  try {
+    return await db.transaction(async (tx) => {
+      const expired = tx.select({ id: todosTable.id })
+        .from(todosTable)
+        .where(lt(todosTable.deleted_at, sql`NOW() - make_interval(days => ${retentionDays})`));
+
+      // Checklist items, comments, tags and history go with them (ON DELETE CASCADE)
+      const result = await tx.delete(todosTable)
+        .where(inArray(todosTable.id, expired))
+        .execute();
+
+      return result.rowCount ?? 0;
+    });
+  } catch (error) {
+    console.error('Trash purge failed:', error);
+    throw error;
+  }
+}
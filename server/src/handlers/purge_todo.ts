@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { canEditTodo, todoAccess } from '../helpers/access';
+import { type PurgeTodoInput } from '../schema';
+
+// Permanently deletes a todo; only todos already in the trash can be purged
+export async function purgeTodo(input: PurgeTodoInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    const success = await db.transaction(async (tx) => {
+      const trashed = await tx.select()
+        .from(todosTable)
+        .where(and(
+          eq(todosTable.id, input.id),
+          isNotNull(todosTable.deleted_at),
+          todoAccess(userId, 'read')
+        ))
+        .execute();
+
+      if (trashed.length === 0) {
+        return false;
+      }
+
+      if (!(await canEditTodo(tx, trashed[0], userId))) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `Todo with id ${input.id} is read-only for you` });
+      }
+
+      // Checklist items, comments, tags and history go with it (ON DELETE CASCADE)
+      await tx.delete(todosTable)
+        .where(eq(todosTable.id, input.id))
+        .execute();
+
+      return true;
+    });
+
+    return { success };
+  } catch (error) {
+    console.error('Todo purge failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hashPassword } from '../helpers/passwords';
+import { type RegisterInput, type User } from '../schema';
+
+export const registerUser = async (input: RegisterInput): Promise<User> => {
+  try {
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'An account with this email already exists' });
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        email: input.email,
+        name: input.name,
+        password_hash: await hashPassword(input.password)
+      })
+      .returning()
+      .execute();
+
+    const { password_hash: _, ...user } = result[0];
+    return user;
+  } catch (error) {
+    console.error('User registration failed:', error);
+    throw error;
+  }
+};
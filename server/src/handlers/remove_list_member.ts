@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { listMembersTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { getListRole, requireListRole } from '../helpers/access';
+import { unassignFromList } from '../helpers/assignments';
+import { publishTodoChange } from '../helpers/changes';
+import { liveListTodos } from '../helpers/todos';
+import { type RemoveListMemberInput } from '../schema';
+
+// Owners can remove anyone they shared the list with; members can remove themselves to leave.
+// Todos a member added stay in the list; todos assigned to them are unassigned, and the member's
+// open views drop the list's todos.
+export async function removeListMember(input: RemoveListMemberInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    if (input.user_id !== userId) {
+      await requireListRole(db, input.list_id, userId, ['owner']);
+    }
+
+    const { success, unassigned, lost } = await db.transaction(async (tx) => {
+      // Pending invitations never gave access, so there is nothing to take away from them
+      const lost = (await getListRole(tx, input.list_id, input.user_id)) === null
+        ? []
+        : await liveListTodos(tx, input.list_id);
+
+      const result = await tx.delete(listMembersTable)
+        .where(and(
+          eq(listMembersTable.list_id, input.list_id),
+          eq(listMembersTable.user_id, input.user_id)
+        ))
+        .execute();
+
+      const unassigned = await unassignFromList(tx, input.list_id, input.user_id, userId);
+
+      return { success: (result.rowCount ?? 0) > 0, unassigned, lost };
+    });
+
+    for (const todo of unassigned) {
+      publishTodoChange({ type: 'updated', todo });
+    }
+    for (const todo of lost) {
+      publishTodoChange({ type: 'deleted', todo, userIds: [input.user_id] });
+    }
+    return { success };
+  } catch (error) {
+    console.error('List member removal failed:', error);
+    throw error;
+  }
+}
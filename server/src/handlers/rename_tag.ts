@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvents } from '../helpers/events';
+import { taggedTodos } from '../helpers/tags';
+import { type RenameTagInput, type Tag } from '../schema';
+
+export const renameTag = async (input: RenameTagInput, userId: number): Promise<Tag> => {
+  try {
+    const { tag, todos } = await db.transaction(async (tx) => {
+      // Tag names are unique per user - combining two tags is what mergeTags is for
+      const conflicts = await tx.select()
+        .from(tagsTable)
+        .where(and(
+          eq(tagsTable.owner_id, userId),
+          eq(tagsTable.name, input.name),
+          ne(tagsTable.id, input.id)
+        ))
+        .execute();
+
+      if (conflicts.length > 0) {
+        throw new TRPCError({ code: 'CONFLICT', message: `Tag "${input.name}" already exists; merge the tags instead` });
+      }
+
+      const [previous] = await tx.select()
+        .from(tagsTable)
+        .where(and(eq(tagsTable.id, input.id), eq(tagsTable.owner_id, userId)))
+        .execute();
+
+      if (!previous) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Tag with id ${input.id} not found` });
+      }
+
+      const [renamed] = await tx.update(tagsTable)
+        .set({ name: input.name })
+        .where(eq(tagsTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (renamed.name === previous.name) {
+        return { tag: renamed, todos: [] };
+      }
+
+      // Every todo carrying the tag shows the new name
+      const todos = await taggedTodos(tx, renamed.id);
+      await recordEvents(tx, todos.map(todo => ({
+        todo_id: todo.id,
+        actor_id: userId,
+        type: 'tag_renamed' as const,
+        from_value: previous.name,
+        to_value: renamed.name
+      })));
+
+      return { tag: renamed, todos };
+    });
+
+    for (const todo of todos) {
+      publishTodoChange({ type: 'updated', todo });
+    }
+    return tag;
+  } catch (error) {
+    console.error('Tag rename failed:', error);
+    throw error;
+  }
+};
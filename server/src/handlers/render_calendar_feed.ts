@@ -0,0 +1,63 @@
+import { db } from '../db';
+import { calendarFeedsTable, todoCompletionsTable, todosTable, usersTable } from '../db/schema';
+import { and, asc, count, eq, inArray, isNull, lt } from 'drizzle-orm';
+import { todoAccess } from '../helpers/access';
+import { serializeCalendar } from '../helpers/icalendar';
+import { todoPositionOrder } from '../helpers/positions';
+import { hashToken } from '../helpers/sessions';
+import { hydrateTodos } from '../helpers/todos';
+
+// The iCalendar document behind a calendar feed link: the todos its owner can see, outside
+// the trash and the archive. Null for unknown or revoked tokens
+export const renderCalendarFeed = async (token: string, options: { events: boolean }): Promise<string | null> => {
+  try {
+    const [feed] = await db.update(calendarFeedsTable)
+      .set({ last_fetched_at: new Date() })
+      .where(eq(calendarFeedsTable.token_hash, hashToken(token)))
+      .returning({ user_id: calendarFeedsTable.user_id })
+      .execute();
+    if (!feed) {
+      return null;
+    }
+
+    const [user] = await db.select({ name: usersTable.name })
+      .from(usersTable)
+      .where(eq(usersTable.id, feed.user_id))
+      .execute();
+
+    const rows = await db.select()
+      .from(todosTable)
+      .where(and(
+        todoAccess(feed.user_id, 'read'),
+        isNull(todosTable.deleted_at),
+        isNull(todosTable.archived_at)
+      ))
+      .orderBy(todoPositionOrder, asc(todosTable.id))
+      .execute();
+
+    // A rule with an occurrence count is written from the current occurrence, so the feed
+    // needs the occurrences already completed before it
+    const counted = rows.filter(row => row.recurrence?.count != null && row.due_at !== null).map(row => row.id);
+    const completions = counted.length === 0 ? [] : await db.select({
+      todo_id: todoCompletionsTable.todo_id,
+      occurrences: count()
+    })
+      .from(todoCompletionsTable)
+      .innerJoin(todosTable, eq(todoCompletionsTable.todo_id, todosTable.id))
+      .where(and(
+        inArray(todoCompletionsTable.todo_id, counted),
+        lt(todoCompletionsTable.due_at, todosTable.due_at)
+      ))
+      .groupBy(todoCompletionsTable.todo_id)
+      .execute();
+
+    return serializeCalendar(await hydrateTodos(rows), {
+      name: `${user.name}'s todos`,
+      events: options.events,
+      completedOccurrences: new Map(completions.map(row => [row.todo_id, row.occurrences]))
+    });
+  } catch (error) {
+    console.error('Calendar feed rendering failed:', error);
+    throw error;
+  }
+};
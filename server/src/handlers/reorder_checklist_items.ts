@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { checklistItemsTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hydrateTodo } from '../helpers/todos';
+import { findAccessibleTodo } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvent } from '../helpers/events';
+import { type ReorderChecklistItemsInput, type Todo } from '../schema';
+
+export const reorderChecklistItems = async (input: ReorderChecklistItemsInput, userId: number): Promise<Todo> => {
+  try {
+    const updated = await db.transaction(async (tx) => {
+      const todo = await findAccessibleTodo(tx, input.todo_id, userId, 'write');
+
+      const items = await tx.select()
+        .from(checklistItemsTable)
+        .where(eq(checklistItemsTable.todo_id, input.todo_id))
+        .execute();
+
+      // The new order must mention every item of this todo exactly once
+      const currentIds = items.map(item => item.id).sort((a, b) => a - b);
+      const requestedIds = [...input.item_ids].sort((a, b) => a - b);
+      if (currentIds.length !== requestedIds.length || currentIds.some((id, index) => id !== requestedIds[index])) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Item ids must list every checklist item of todo ${input.todo_id} exactly once` });
+      }
+
+      for (const [position, id] of input.item_ids.entries()) {
+        await tx.update(checklistItemsTable)
+          .set({ position })
+          .where(and(eq(checklistItemsTable.id, id), eq(checklistItemsTable.todo_id, input.todo_id)))
+          .execute();
+      }
+
+      await recordEvent(tx, { todo_id: input.todo_id, actor_id: userId, type: 'checklist_reordered' });
+
+      return todo;
+    });
+
+    publishTodoChange({ type: 'updated', todo: updated });
+    return hydrateTodo(updated);
+  } catch (error) {
+    console.error('Checklist reorder failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { listMembersTable } from '../db/schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { type RespondToInvitationInput } from '../schema';
+
+// Accepting gives access to the list; declining removes the invitation
+export async function respondToInvitation(input: RespondToInvitationInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    const pending = and(
+      eq(listMembersTable.list_id, input.list_id),
+      eq(listMembersTable.user_id, userId),
+      isNull(listMembersTable.accepted_at)
+    );
+
+    const result = input.accept
+      ? await db.update(listMembersTable)
+        .set({ accepted_at: sql`NOW()` })
+        .where(pending)
+        .execute()
+      : await db.delete(listMembersTable)
+        .where(pending)
+        .execute();
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `No pending invitation to list ${input.list_id}` });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Invitation response failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hydrateTodo } from '../helpers/todos';
+import { canEditTodo, todoAccess } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvent } from '../helpers/events';
+import { type RestoreTodoInput, type Todo } from '../schema';
+
+export const restoreTodo = async (input: RestoreTodoInput, userId: number): Promise<Todo> => {
+  try {
+    const todo = await db.transaction(async (tx) => {
+      const trashed = await tx.select()
+        .from(todosTable)
+        .where(and(
+          eq(todosTable.id, input.id),
+          isNotNull(todosTable.deleted_at),
+          todoAccess(userId, 'read')
+        ))
+        .execute();
+
+      if (trashed.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Todo with id ${input.id} not found in the trash` });
+      }
+
+      if (!(await canEditTodo(tx, trashed[0], userId))) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `Todo with id ${input.id} is read-only for you` });
+      }
+
+      const result = await tx.update(todosTable)
+        .set({ deleted_at: null })
+        .where(eq(todosTable.id, input.id))
+        .returning()
+        .execute();
+
+      await recordEvent(tx, { todo_id: input.id, actor_id: userId, type: 'restored' });
+
+      return result[0];
+    });
+
+    publishTodoChange({ type: 'updated', todo: todo });
+    return hydrateTodo(todo);
+  } catch (error) {
+    console.error('Todo restore failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { type RevokeApiTokenInput } from '../schema';
+
+// Revokes one of the user's personal API tokens; scripts using it are turned away from then on
+export async function revokeApiToken(input: RevokeApiTokenInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(apiTokensTable)
+      .where(and(
+        eq(apiTokensTable.id, input.id),
+        eq(apiTokensTable.user_id, userId)
+      ))
+      .execute();
+
+    return { success: (result.rowCount ?? 0) > 0 };
+  } catch (error) {
+    console.error('API token revocation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Turns off the user's calendar feed link
+export async function revokeCalendarFeed(userId: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(calendarFeedsTable)
+      .where(eq(calendarFeedsTable.user_id, userId))
+      .execute();
+
+    return { success: (result.rowCount ?? 0) > 0 };
+  } catch (error) {
+    console.error('Calendar feed revocation failed:', error);
+    throw error;
+  }
+}
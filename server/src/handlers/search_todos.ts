@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { and, asc, desc, isNotNull, isNull, sql } from 'drizzle-orm';
+import { todoAccess } from '../helpers/access';
+import { DESCRIPTION_HEADLINE_OPTIONS, TITLE_HEADLINE_OPTIONS, parseHeadline, prefixQuery } from '../helpers/search';
+import { hydrateTodos } from '../helpers/todos';
+import { type SearchResult, type SearchTodosInput } from '../schema';
+
+// Searches the todos the user can see, leaving out the trash; the archive is searched on its own
+export const searchTodos = async (input: SearchTodosInput, userId: number): Promise<SearchResult[]> => {
+  try {
+    const query = prefixQuery(input.query);
+
+    if (query === null) {
+      return [];
+    }
+
+    const rank = sql<number>`ts_rank(${todosTable.search_vector}, ${query})`;
+
+    const rows = await db.select({
+      todo: todosTable,
+      rank,
+      title: sql<string>`ts_headline('english', ${todosTable.title}, ${query}, ${TITLE_HEADLINE_OPTIONS})`,
+      description: sql<string | null>`ts_headline('english', ${todosTable.description}, ${query}, ${DESCRIPTION_HEADLINE_OPTIONS})`
+    })
+      .from(todosTable)
+      .where(and(
+        todoAccess(userId, 'read'),
+        isNull(todosTable.deleted_at),
+        input.archived ? isNotNull(todosTable.archived_at) : isNull(todosTable.archived_at),
+        sql`${todosTable.search_vector} @@ ${query}`
+      ))
+      // Equally good matches show the most recently changed first
+      .orderBy(desc(rank), desc(todosTable.updated_at), asc(todosTable.id))
+      .limit(input.limit)
+      .execute();
+
+    const todos = await hydrateTodos(rows.map(row => row.todo));
+
+    return rows.map((row, index) => ({
+      todo: todos[index],
+      rank: row.rank,
+      title: parseHeadline(row.title),
+      description: row.description === null ? null : parseHeadline(row.description)
+    }));
+  } catch (error) {
+    console.error('Todo search failed:', error);
+    throw error;
+  }
+};
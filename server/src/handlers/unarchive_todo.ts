@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { and, eq, isNotNull, isNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hydrateTodo } from '../helpers/todos';
+import { canEditTodo, todoAccess } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvent } from '../helpers/events';
+import { type UnarchiveTodoInput, type Todo } from '../schema';
+
+export const unarchiveTodo = async (input: UnarchiveTodoInput, userId: number): Promise<Todo> => {
+  try {
+    const todo = await db.transaction(async (tx) => {
+      const archived = await tx.select()
+        .from(todosTable)
+        .where(and(
+          eq(todosTable.id, input.id),
+          isNotNull(todosTable.archived_at),
+          isNull(todosTable.deleted_at),
+          todoAccess(userId, 'read')
+        ))
+        .execute();
+
+      if (archived.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Todo with id ${input.id} not found in the archive` });
+      }
+
+      if (!(await canEditTodo(tx, archived[0], userId))) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `Todo with id ${input.id} is read-only for you` });
+      }
+
+      const result = await tx.update(todosTable)
+        .set({ archived_at: null })
+        .where(eq(todosTable.id, input.id))
+        .returning()
+        .execute();
+
+      await recordEvent(tx, { todo_id: input.id, actor_id: userId, type: 'unarchived' });
+
+      return result[0];
+    });
+
+    publishTodoChange({ type: 'updated', todo: todo });
+    return hydrateTodo(todo);
+  } catch (error) {
+    console.error('Todo unarchive failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,79 @@
+import { db } from '../db';
+import { checklistItemsTable, todoCompletionsTable, todosTable } from '../db/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { hydrateTodo } from '../helpers/todos';
+import { findAccessibleTodo } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { changeEvents, dueValue, recordEvent, recordEvents } from '../helpers/events';
+import { type UndoTodoCompletionInput, type Todo } from '../schema';
+
+// Inverse of completing a todo. For recurring todos this also drops the recorded completion
+// and moves the todo back to the occurrence that was completed.
+export const undoTodoCompletion = async (input: UndoTodoCompletionInput, userId: number): Promise<Todo> => {
+  try {
+    const todo = await db.transaction(async (tx) => {
+      const current = await findAccessibleTodo(tx, input.id, userId, 'write');
+
+      const updateData: Partial<typeof todosTable.$inferInsert> = { completed: false };
+      let reopenedOccurrence = false;
+
+      if (current.recurrence) {
+        const completions = await tx.delete(todoCompletionsTable)
+          .where(eq(todoCompletionsTable.id, tx.select({ id: todoCompletionsTable.id })
+            .from(todoCompletionsTable)
+            .where(eq(todoCompletionsTable.todo_id, input.id))
+            .orderBy(desc(todoCompletionsTable.completed_at), desc(todoCompletionsTable.id))
+            .limit(1)))
+          .returning()
+          .execute();
+
+        if (completions.length > 0) {
+          updateData.due_at = completions[0].due_at;
+          // An occurrence scheduled from "today" had no due date of its own
+          if (completions[0].due_at === null) updateData.due_has_time = false;
+          reopenedOccurrence = true;
+        }
+      }
+
+      const result = await tx.update(todosTable)
+        .set({
+          ...updateData,
+          updated_at: sql`NOW()` // Use SQL NOW() for accurate server timestamp
+        })
+        .where(eq(todosTable.id, input.id))
+        .returning()
+        .execute();
+
+      // Mirrors the 'completed' event of a recurring todo: back from the next occurrence to the completed one
+      if (reopenedOccurrence) {
+        await recordEvent(tx, {
+          todo_id: current.id,
+          actor_id: userId,
+          type: 'reopened',
+          from_value: dueValue(current),
+          to_value: dueValue(result[0])
+        });
+      } else {
+        await recordEvents(tx, await changeEvents(tx, current, result[0], userId));
+      }
+
+      for (const item of input.checklist) {
+        await tx.update(checklistItemsTable)
+          .set({ completed: item.completed, updated_at: sql`NOW()` })
+          .where(and(
+            eq(checklistItemsTable.id, item.id),
+            eq(checklistItemsTable.todo_id, input.id)
+          ))
+          .execute();
+      }
+
+      return result[0];
+    });
+
+    publishTodoChange({ type: 'updated', todo: todo });
+    return hydrateTodo(todo);
+  } catch (error) {
+    console.error('Todo completion undo failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { checklistItemsTable } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { hydrateTodo } from '../helpers/todos';
+import { findAccessibleChecklistItem } from '../helpers/access';
+import { publishTodoChange } from '../helpers/changes';
+import { recordEvents } from '../helpers/events';
+import { type NewTodoEvent } from '../db/schema';
+import { type UpdateChecklistItemInput, type Todo } from '../schema';
+
+export const updateChecklistItem = async (input: UpdateChecklistItemInput, userId: number): Promise<Todo> => {
+  try {
+    const updated = await db.transaction(async (tx) => {
+      const { item, todo } = await findAccessibleChecklistItem(tx, input.id, userId, 'write');
+
+      // Only touch the fields that were supplied; updated_at is always bumped
+      const updateData: Partial<typeof checklistItemsTable.$inferInsert> = {};
+
+      if (input.title !== undefined) updateData.title = input.title;
+      if (input.completed !== undefined) updateData.completed = input.completed;
+
+      await tx.update(checklistItemsTable)
+        .set({
+          ...updateData,
+          updated_at: sql`NOW()`
+        })
+        .where(eq(checklistItemsTable.id, input.id))
+        .execute();
+
+      // Renaming an item and ticking it off are logged as separate events
+      const events: NewTodoEvent[] = [];
+      if (input.title !== undefined && input.title !== item.title) {
+        events.push({ todo_id: todo.id, actor_id: userId, type: 'checklist_item_edited', from_value: item.title, to_value: input.title });
+      }
+      if (input.completed !== undefined && input.completed !== item.completed) {
+        events.push({
+          todo_id: todo.id,
+          actor_id: userId,
+          type: input.completed ? 'checklist_item_completed' : 'checklist_item_reopened',
+          to_value: input.title ?? item.title
+        });
+      }
+      await recordEvents(tx, events);
+
+      return todo;
+    });
+
+    // Return the parent todo so the caller sees the whole checklist
+    publishTodoChange({ type: 'updated', todo: updated });
+    return hydrateTodo(updated);
+  } catch (error) {
+    console.error('Checklist item update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { findOwnComment } from '../helpers/access';
+import { selectComments } from '../helpers/comments';
+import { type Comment, type UpdateCommentInput } from '../schema';
+
+// Edited comments are flagged as such; saving an unchanged body leaves the comment alone
+export const updateComment = async (input: UpdateCommentInput, userId: number): Promise<Comment> => {
+  try {
+    const comment = await findOwnComment(db, input.id, userId);
+
+    if (comment.body !== input.body) {
+      await db.update(commentsTable)
+        .set({
+          body: input.body,
+          edited: true,
+          updated_at: sql`NOW()`
+        })
+        .where(eq(commentsTable.id, input.id))
+        .execute();
+    }
+
+    const [updated] = await selectComments(eq(commentsTable.id, input.id));
+    return updated;
+  } catch (error) {
+    console.error('Comment update failed:', error);
+    throw error;
+  }
+};
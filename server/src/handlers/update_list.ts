@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { requireListRole } from '../helpers/access';
+import { type UpdateListInput, type List } from '../schema';
+
+export const updateList = async (input: UpdateListInput, userId: number): Promise<List> => {
+  try {
+    // Only the owner may rename a shared list
+    await requireListRole(db, input.id, userId, ['owner']);
+
+    const result = await db.update(listsTable)
+      .set({
+        name: input.name,
+        updated_at: sql`NOW()`
+      })
+      .where(eq(listsTable.id, input.id))
+      .returning()
+      .execute();
+
+    // Check if list was found and updated
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `List with id ${input.id} not found` });
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('List update failed:', error);
+    throw error;
+  }
+};
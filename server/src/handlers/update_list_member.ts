@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { listMembersTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getListRole, requireListRole } from '../helpers/access';
+import { unassignFromList } from '../helpers/assignments';
+import { publishTodoChange } from '../helpers/changes';
+import { liveListTodos } from '../helpers/todos';
+import { type UpdateListMemberInput } from '../schema';
+
+// Changes the role of a collaborator or of a pending invitation.
+// Viewers cannot work on todos, so a collaborator made a viewer is unassigned from the list's todos
+// and their open views are sent the list's todos again, now read-only.
+export async function updateListMember(input: UpdateListMemberInput, userId: number): Promise<{ success: boolean }> {
+  try {
+    await requireListRole(db, input.list_id, userId, ['owner']);
+
+    const { unassigned, demoted } = await db.transaction(async (tx) => {
+      const previousRole = await getListRole(tx, input.list_id, input.user_id);
+
+      const result = await tx.update(listMembersTable)
+        .set({ role: input.role })
+        .where(and(
+          eq(listMembersTable.list_id, input.list_id),
+          eq(listMembersTable.user_id, input.user_id)
+        ))
+        .execute();
+
+      if ((result.rowCount ?? 0) === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `User ${input.user_id} is not a member of list ${input.list_id}` });
+      }
+
+      if (input.role !== 'viewer') {
+        return { unassigned: [], demoted: [] };
+      }
+
+      const unassigned = await unassignFromList(tx, input.list_id, input.user_id, userId);
+      const demoted = previousRole === 'editor' ? await liveListTodos(tx, input.list_id) : [];
+      return { unassigned, demoted };
+    });
+
+    for (const todo of unassigned) {
+      publishTodoChange({ type: 'updated', todo });
+    }
+    // Unassigned todos already went out to everyone
+    for (const todo of demoted.filter(todo => !unassigned.some(other => other.id === todo.id))) {
+      publishTodoChange({ type: 'updated', todo, userIds: [input.user_id] });
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('List member update failed:', error);
+    throw error;
+  }
+}
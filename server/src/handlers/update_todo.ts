@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { findAccessibleTodo } from '../helpers/access';
+import { editTodo } from '../helpers/edits';
+import { publishTodoChange } from '../helpers/changes';
+import { hydrateTodo } from '../helpers/todos';
+import { type UpdateTodoInput, type Todo } from '../schema';
+
+export const updateTodo = async (input: UpdateTodoInput, userId: number): Promise<Todo> => {
+  try {
+    const { previous, updated } = await db.transaction(async (tx) => {
+      const current = await findAccessibleTodo(tx, input.id, userId, 'write');
+      return { previous: current, updated: await editTodo(tx, current, input, userId) };
+    });
+
+    // The todo may have moved lists, so subscribers need to know where it was before
+    publishTodoChange({ type: 'updated', todo: updated, previous });
+
+    return hydrateTodo(updated);
+  } catch (error) {
+    console.error('Todo update failed:', error);
+    throw error;
+  }
+};
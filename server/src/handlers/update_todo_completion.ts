@@ -1,28 +1,21 @@
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { hydrateTodo } from '../helpers/todos';
+import { findAccessibleTodo } from '../helpers/access';
+import { setCompletion } from '../helpers/completion';
+import { publishTodoChange } from '../helpers/changes';
 import { type UpdateTodoCompletionInput, type Todo } from '../schema';
 
-export const updateTodoCompletion = async (input: UpdateTodoCompletionInput): Promise<Todo> => {
+export const updateTodoCompletion = async (input: UpdateTodoCompletionInput, userId: number): Promise<Todo> => {
   try {
-    // Update the todo with new completion status and updated timestamp
-    const result = await db.update(todosTable)
-      .set({ 
-        completed: input.completed,
-        updated_at: sql`NOW()` // Use SQL NOW() for accurate server timestamp
-      })
-      .where(eq(todosTable.id, input.id))
-      .returning()
-      .execute();
+    const todo = await db.transaction(async (tx) => {
+      const current = await findAccessibleTodo(tx, input.id, userId, 'write');
+      return setCompletion(tx, current, input, userId);
+    });
 
-    // Check if todo was found and updated
-    if (result.length === 0) {
-      throw new Error(`Todo with id ${input.id} not found`);
-    }
-
-    return result[0];
+    publishTodoChange({ type: 'updated', todo: todo });
+    return hydrateTodo(todo);
   } catch (error) {
     console.error('Todo completion update failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,181 @@
+import { db } from '../db';
+import { checklistItemsTable, commentsTable, listMembersTable, listsTable, todosTable, type ChecklistItem, type Comment, type Todo as TodoRow } from '../db/schema';
+import { and, eq, inArray, isNotNull, isNull, or, type SQL } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { type ListRole } from '../schema';
+
+// Queries run either directly or inside a transaction
+export type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type Access = 'read' | 'write';
+
+// Subquery of the lists the user owns or has joined; with 'write', only those they may edit
+export const accessibleListIds = (userId: number, access: Access) => {
+  const memberships = db.select({ list_id: listMembersTable.list_id })
+    .from(listMembersTable)
+    .where(and(
+      eq(listMembersTable.user_id, userId),
+      isNotNull(listMembersTable.accepted_at),
+      access === 'write' ? eq(listMembersTable.role, 'editor') : undefined
+    ));
+
+  return db.select({ id: listsTable.id })
+    .from(listsTable)
+    .where(or(
+      eq(listsTable.owner_id, userId),
+      inArray(listsTable.id, memberships)
+    ));
+};
+
+// Todos in a list follow the user's role on the list; todos outside lists are private to their owner
+export const todoAccess = (userId: number, access: Access): SQL =>
+  or(
+    and(isNull(todosTable.list_id), eq(todosTable.owner_id, userId)),
+    inArray(todosTable.list_id, accessibleListIds(userId, access))
+  )!;
+
+// The user's role on a list, or null when the list does not exist or is not shared with them
+export const getListRole = async (executor: Executor, listId: number, userId: number): Promise<ListRole | null> => {
+  const rows = await executor.select({
+    owner_id: listsTable.owner_id,
+    role: listMembersTable.role
+  })
+    .from(listsTable)
+    .leftJoin(listMembersTable, and(
+      eq(listMembersTable.list_id, listsTable.id),
+      eq(listMembersTable.user_id, userId),
+      isNotNull(listMembersTable.accepted_at)
+    ))
+    .where(eq(listsTable.id, listId))
+    .execute();
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return rows[0].owner_id === userId ? 'owner' : rows[0].role;
+};
+
+// The users who can see a list's todos: its owner and the members who accepted
+export const listReaders = async (executor: Executor, listId: number): Promise<number[]> => {
+  const lists = await executor.select({ owner_id: listsTable.owner_id })
+    .from(listsTable)
+    .where(eq(listsTable.id, listId))
+    .execute();
+  const members = await executor.select({ user_id: listMembersTable.user_id })
+    .from(listMembersTable)
+    .where(and(eq(listMembersTable.list_id, listId), isNotNull(listMembersTable.accepted_at)))
+    .execute();
+
+  return [...lists.map(list => list.owner_id), ...members.map(member => member.user_id)];
+};
+
+// Throws unless the user holds one of the roles on the list; lists they cannot see are "not found"
+export const requireListRole = async (
+  executor: Executor,
+  listId: number,
+  userId: number,
+  roles: ListRole[]
+): Promise<ListRole> => {
+  const role = await getListRole(executor, listId, userId);
+
+  if (role === null) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `List with id ${listId} not found` });
+  }
+
+  if (!roles.includes(role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `You need to be ${roles.join(' or ')} of list ${listId} to do this` });
+  }
+
+  return role;
+};
+
+// Whether the user can see a todo, with the same rules as todoAccess(userId, 'read')
+export const canReadTodo = async (executor: Executor, todo: TodoRow, userId: number): Promise<boolean> => {
+  if (todo.list_id === null) {
+    return todo.owner_id === userId;
+  }
+
+  return (await getListRole(executor, todo.list_id, userId)) !== null;
+};
+
+// Whether the user may change a todo they can already see
+export const canEditTodo = async (executor: Executor, todo: TodoRow, userId: number): Promise<boolean> => {
+  if (todo.list_id === null) {
+    return todo.owner_id === userId;
+  }
+
+  const role = await getListRole(executor, todo.list_id, userId);
+  return role === 'owner' || role === 'editor';
+};
+
+// Loads a todo (trashed or not) the user can see, checking they may change it for 'write'
+export const findAccessibleTodo = async (
+  executor: Executor,
+  todoId: number,
+  userId: number,
+  access: Access
+): Promise<TodoRow> => {
+  const rows = await executor.select()
+    .from(todosTable)
+    .where(and(eq(todosTable.id, todoId), todoAccess(userId, 'read')))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Todo with id ${todoId} not found` });
+  }
+
+  if (access === 'write' && !(await canEditTodo(executor, rows[0], userId))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Todo with id ${todoId} is read-only for you` });
+  }
+
+  return rows[0];
+};
+
+// Loads a checklist item together with its todo, with the same checks as findAccessibleTodo
+export const findAccessibleChecklistItem = async (
+  executor: Executor,
+  itemId: number,
+  userId: number,
+  access: Access
+): Promise<{ item: ChecklistItem; todo: TodoRow }> => {
+  const items = await executor.select()
+    .from(checklistItemsTable)
+    .where(and(
+      eq(checklistItemsTable.id, itemId),
+      inArray(checklistItemsTable.todo_id, executor.select({ id: todosTable.id })
+        .from(todosTable)
+        .where(todoAccess(userId, 'read')))
+    ))
+    .execute();
+
+  if (items.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Checklist item with id ${itemId} not found` });
+  }
+
+  const todo = await findAccessibleTodo(executor, items[0].todo_id, userId, access);
+  return { item: items[0], todo };
+};
+
+// Loads a comment the user wrote on a todo they can still see
+export const findOwnComment = async (executor: Executor, commentId: number, userId: number): Promise<Comment> => {
+  const comments = await executor.select()
+    .from(commentsTable)
+    .where(and(
+      eq(commentsTable.id, commentId),
+      inArray(commentsTable.todo_id, executor.select({ id: todosTable.id })
+        .from(todosTable)
+        .where(todoAccess(userId, 'read')))
+    ))
+    .execute();
+
+  if (comments.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Comment with id ${commentId} not found` });
+  }
+
+  if (comments[0].author_id !== userId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only change your own comments' });
+  }
+
+  return comments[0];
+};
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { apiTokensTable, usersTable } from '../db/schema';
+import { and, eq, gt, isNull, or } from 'drizzle-orm';
+import { randomBytes } from 'node:crypto';
+import { hashToken } from './sessions';
+import { type ApiTokenScope, type User } from '../schema';
+
+// Tokens start with a fixed prefix so they are easy to spot in scripts and secret scanners
+const TOKEN_PREFIX = 'tdo_';
+// How much of a token is kept in the clear to tell tokens apart
+const DISPLAYED_LENGTH = TOKEN_PREFIX.length + 6;
+
+export const generateApiToken = (): { token: string; token_prefix: string } => {
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  return { token, token_prefix: token.slice(0, DISPLAYED_LENGTH) };
+};
+
+// Reads the token from an "Authorization: Bearer <token>" header; null for other headers
+export const readBearerToken = (header: string | undefined): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(header?.trim() ?? '');
+  return match ? match[1] : null;
+};
+
+// The user an API token belongs to and what it may be used for, or null for unknown, revoked
+// or expired tokens. Each use is recorded as the token's last use
+export const getApiTokenAuth = async (token: string): Promise<{ user: User; scopes: ApiTokenScope[] } | null> => {
+  const now = new Date();
+  const [apiToken] = await db.update(apiTokensTable)
+    .set({ last_used_at: now })
+    .where(and(
+      eq(apiTokensTable.token_hash, hashToken(token)),
+      or(isNull(apiTokensTable.expires_at), gt(apiTokensTable.expires_at, now))
+    ))
+    .returning({ user_id: apiTokensTable.user_id, scopes: apiTokensTable.scopes })
+    .execute();
+  if (!apiToken) {
+    return null;
+  }
+
+  const [user] = await db.select({
+    id: usersTable.id,
+    email: usersTable.email,
+    name: usersTable.name,
+    created_at: usersTable.created_at
+  })
+    .from(usersTable)
+    .where(eq(usersTable.id, apiToken.user_id))
+    .execute();
+
+  return { user, scopes: apiToken.scopes };
+};
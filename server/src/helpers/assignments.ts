@@ -0,0 +1,67 @@
+import { todoAssignmentsTable, todosTable, type Todo as TodoRow } from '../db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { type Executor } from './access';
+import { recordEvent, recordEvents, userName } from './events';
+
+// Changes a todo's assignee and records who made the change in its assignment history
+export const setAssignee = async (
+  executor: Executor,
+  todo: TodoRow,
+  assigneeId: number | null,
+  byUserId: number
+): Promise<TodoRow> => {
+  const result = await executor.update(todosTable)
+    .set({ assignee_id: assigneeId, updated_at: sql`NOW()` })
+    .where(eq(todosTable.id, todo.id))
+    .returning()
+    .execute();
+
+  await executor.insert(todoAssignmentsTable)
+    .values({ todo_id: todo.id, assignee_id: assigneeId, assigned_by: byUserId })
+    .execute();
+
+  await recordEvent(executor, {
+    todo_id: todo.id,
+    actor_id: byUserId,
+    type: 'assigned',
+    from_value: todo.assignee_id === null ? null : await userName(executor, todo.assignee_id),
+    to_value: assigneeId === null ? null : await userName(executor, assigneeId)
+  });
+
+  return result[0];
+};
+
+// Unassigns a user from every todo in a list, once they may no longer edit its todos.
+// Returns the todos it changed, for the caller to publish once the transaction commits
+export const unassignFromList = async (
+  executor: Executor,
+  listId: number,
+  assigneeId: number,
+  byUserId: number
+): Promise<TodoRow[]> => {
+  const unassigned = await executor.update(todosTable)
+    .set({ assignee_id: null, updated_at: sql`NOW()` })
+    .where(and(
+      eq(todosTable.list_id, listId),
+      eq(todosTable.assignee_id, assigneeId)
+    ))
+    .returning()
+    .execute();
+
+  if (unassigned.length > 0) {
+    await executor.insert(todoAssignmentsTable)
+      .values(unassigned.map(({ id }) => ({ todo_id: id, assignee_id: null, assigned_by: byUserId })))
+      .execute();
+
+    const name = await userName(executor, assigneeId);
+    await recordEvents(executor, unassigned.map(({ id }) => ({
+      todo_id: id,
+      actor_id: byUserId,
+      type: 'assigned' as const,
+      from_value: name,
+      to_value: null
+    })));
+  }
+
+  return unassigned;
+};
@@ -0,0 +1,35 @@
+import { EventEmitter, on } from 'node:events';
+import { type Todo as TodoRow } from '../db/schema';
+
+// A committed change to a todo. Updates that can move a todo between lists carry the todo as it
+// was before, so subscribers who could see it there learn that it left their view. Changes to who
+// can see a list name the users they are for: those users get a deletion even though they can no
+// longer see the todo, and only they get an update
+export type TodoRowChange =
+  | { type: 'created'; todo: TodoRow }
+  | { type: 'deleted'; todo: TodoRow; userIds?: number[] }
+  | { type: 'updated'; todo: TodoRow; previous?: TodoRow; userIds?: number[] };
+
+// In-process only: every subscriber is connected to this server
+const emitter = new EventEmitter();
+// One listener per open subscription
+emitter.setMaxListeners(0);
+
+// Call once the transaction making the change has committed, so subscribers read the new state
+export const publishTodoChange = (change: TodoRowChange): void => {
+  emitter.emit('change', change);
+};
+
+// Yields the changes published after it was first awaited, until the signal aborts
+export async function* todoChanges(signal?: AbortSignal): AsyncGenerator<TodoRowChange> {
+  try {
+    for await (const [change] of on(emitter, 'change', { signal })) {
+      yield change as TodoRowChange;
+    }
+  } catch (error) {
+    // Aborting is how subscriptions end
+    if (!signal?.aborted) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { commentsTable, usersTable } from '../db/schema';
+import { asc, eq, type SQL } from 'drizzle-orm';
+import { type Comment } from '../schema';
+
+// Comments matching the condition with their authors' names, oldest first
+export const selectComments = async (where: SQL): Promise<Comment[]> => {
+  return db.select({
+    id: commentsTable.id,
+    todo_id: commentsTable.todo_id,
+    author_id: commentsTable.author_id,
+    author_name: usersTable.name,
+    body: commentsTable.body,
+    edited: commentsTable.edited,
+    created_at: commentsTable.created_at,
+    updated_at: commentsTable.updated_at
+  })
+    .from(commentsTable)
+    .innerJoin(usersTable, eq(commentsTable.author_id, usersTable.id))
+    .where(where)
+    .orderBy(asc(commentsTable.created_at), asc(commentsTable.id))
+    .execute();
+};
@@ -0,0 +1,101 @@
+import { checklistItemsTable, todoCompletionsTable, todosTable, type Todo as TodoRow } from '../db/schema';
+import { and, count, eq, isNull, sql } from 'drizzle-orm';
+import { type Executor } from './access';
+import { nextOccurrence } from './recurrence';
+import { changeEvents, dueValue, recordEvent, recordEvents } from './events';
+import { type UpdateTodoCompletionInput } from '../schema';
+
+// Completes or reopens a todo the user may edit. Completing an open recurring todo finishes
+// the current occurrence only and moves the todo on to the next one
+export const setCompletion = async (
+  executor: Executor,
+  current: TodoRow,
+  input: Omit<UpdateTodoCompletionInput, 'id'>,
+  userId: number
+): Promise<TodoRow> => {
+  if (input.completed && !current.completed && current.recurrence) {
+    // A finished series that was reopened already has its last occurrence recorded
+    const recorded = await executor.select({ id: todoCompletionsTable.id })
+      .from(todoCompletionsTable)
+      .where(and(
+        eq(todoCompletionsTable.todo_id, current.id),
+        current.due_at === null ? isNull(todoCompletionsTable.due_at) : eq(todoCompletionsTable.due_at, current.due_at)
+      ))
+      .limit(1)
+      .execute();
+
+    if (recorded.length === 0) {
+      await executor.insert(todoCompletionsTable)
+        .values({ todo_id: current.id, due_at: current.due_at })
+        .execute();
+    }
+
+    const [{ occurrences }] = await executor.select({ occurrences: count() })
+      .from(todoCompletionsTable)
+      .where(eq(todoCompletionsTable.todo_id, current.id))
+      .execute();
+
+    // Todos repeating without a due date count from today
+    const from = current.due_at ?? new Date(new Date().setHours(0, 0, 0, 0));
+    const countReached = current.recurrence.count !== null && occurrences >= current.recurrence.count;
+    const next = countReached ? null : nextOccurrence(current.recurrence, from);
+
+    if (next) {
+      // The next occurrence starts with a fresh checklist
+      await executor.update(checklistItemsTable)
+        .set({ completed: false, updated_at: sql`NOW()` })
+        .where(and(
+          eq(checklistItemsTable.todo_id, current.id),
+          eq(checklistItemsTable.completed, true)
+        ))
+        .execute();
+
+      const advanced = await executor.update(todosTable)
+        .set({
+          due_at: next,
+          due_has_time: current.due_at ? current.due_has_time : false,
+          updated_at: sql`NOW()`
+        })
+        .where(eq(todosTable.id, current.id))
+        .returning()
+        .execute();
+
+      // Recorded with the occurrence that was completed and the one that is now due
+      await recordEvent(executor, {
+        todo_id: current.id,
+        actor_id: userId,
+        type: 'completed',
+        from_value: dueValue(current),
+        to_value: dueValue(advanced[0])
+      });
+
+      return advanced[0];
+    }
+    // That was the last occurrence - complete the todo like any other
+  }
+
+  // Update the todo with new completion status and updated timestamp
+  const result = await executor.update(todosTable)
+    .set({
+      completed: input.completed,
+      updated_at: sql`NOW()` // Use SQL NOW() for accurate server timestamp
+    })
+    .where(eq(todosTable.id, current.id))
+    .returning()
+    .execute();
+
+  await recordEvents(executor, await changeEvents(executor, current, result[0], userId));
+
+  // Optionally finish the remaining checklist items along with the todo
+  if (input.completed && input.complete_checklist) {
+    await executor.update(checklistItemsTable)
+      .set({ completed: true, updated_at: sql`NOW()` })
+      .where(and(
+        eq(checklistItemsTable.todo_id, current.id),
+        eq(checklistItemsTable.completed, false)
+      ))
+      .execute();
+  }
+
+  return result[0];
+};
@@ -0,0 +1,70 @@
+import { TRPCError } from '@trpc/server';
+
+// Reading and writing CSV as described in RFC 4180: fields are separated by commas and
+// quoted with double quotes when they contain commas, quotes or line breaks
+
+const quote = (field: string): string =>
+  /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+// Spreadsheets run fields starting with these as formulas. Such fields are written with a
+// leading apostrophe, which spreadsheets show as text; fields already starting with
+// apostrophes before one of these get one more, so reading strips exactly one back off
+const FORMULA = /^'*[=+\-@\t\r]/;
+
+export const escapeFormula = (field: string): string => (FORMULA.test(field) ? `'${field}` : field);
+
+export const unescapeFormula = (field: string): string =>
+  field.startsWith("'") && FORMULA.test(field) ? field.slice(1) : field;
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(quote).join(',')).join('\r\n') + '\r\n';
+
+// Splits CSV text into rows of fields. Quoted fields may span lines; blank lines are skipped
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  // A byte order mark from spreadsheet exports is not part of the first field
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid CSV: a quoted field is never closed' });
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
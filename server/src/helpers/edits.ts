@@ -0,0 +1,60 @@
+import { todosTable, type Todo as TodoRow } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { canEditTodo, requireListRole, type Executor } from './access';
+import { setAssignee } from './assignments';
+import { setCompletion } from './completion';
+import { changeEvents, recordEvents } from './events';
+import { type UpdateTodoInput } from '../schema';
+
+// Changes the supplied fields of a todo the user may edit and records the changes
+export const editTodo = async (
+  executor: Executor,
+  current: TodoRow,
+  input: Omit<UpdateTodoInput, 'id'>,
+  userId: number
+): Promise<TodoRow> => {
+  // Todos can only be moved into lists the user may edit
+  if (input.list_id !== undefined && input.list_id !== null) {
+    await requireListRole(executor, input.list_id, userId, ['owner', 'editor']);
+  }
+
+  // Only touch the fields that were supplied; updated_at is always bumped
+  const updateData: Partial<typeof todosTable.$inferInsert> = {};
+
+  if (input.title !== undefined) updateData.title = input.title;
+  if (input.description !== undefined) updateData.description = input.description || null;
+  if (input.list_id !== undefined) updateData.list_id = input.list_id;
+  // A todo taken out of a shared list becomes a private todo of whoever took it out
+  if (input.list_id === null) updateData.owner_id = userId;
+  if (input.due_at !== undefined) updateData.due_at = input.due_at;
+  if (input.due_has_time !== undefined) updateData.due_has_time = input.due_has_time;
+  if (input.priority !== undefined) updateData.priority = input.priority;
+  if (input.recurrence !== undefined) updateData.recurrence = input.recurrence;
+  // Clearing the due date also clears its time of day
+  if (input.due_at === null) updateData.due_has_time = false;
+
+  const result = await executor.update(todosTable)
+    .set({
+      ...updateData,
+      updated_at: sql`NOW()` // Use SQL NOW() for accurate server timestamp
+    })
+    .where(eq(todosTable.id, current.id))
+    .returning()
+    .execute();
+
+  await recordEvents(executor, await changeEvents(executor, current, result[0], userId));
+
+  // Completion goes through setCompletion, after the other fields, so a recurring todo records
+  // the completion and moves on to its next occurrence under the rule it was just given
+  let edited = result[0];
+  if (input.completed !== undefined && input.completed !== edited.completed) {
+    edited = await setCompletion(executor, edited, { completed: input.completed, complete_checklist: false }, userId);
+  }
+
+  // Moving the todo can take it away from its assignee, who then no longer works on it
+  if (current.assignee_id !== null && !(await canEditTodo(executor, edited, current.assignee_id))) {
+    return setAssignee(executor, edited, null, userId);
+  }
+
+  return edited;
+};
@@ -0,0 +1,96 @@
+import { listsTable, todoEventsTable, usersTable, type NewTodoEvent, type Todo as TodoRow } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { type Executor } from './access';
+import { type TodoEventField } from '../schema';
+
+// Appends events to the activity log; call it with the transaction making the change
+export const recordEvents = async (executor: Executor, events: NewTodoEvent[]): Promise<void> => {
+  if (events.length === 0) {
+    return;
+  }
+
+  await executor.insert(todoEventsTable)
+    .values(events)
+    .execute();
+};
+
+export const recordEvent = (executor: Executor, event: NewTodoEvent): Promise<void> =>
+  recordEvents(executor, [event]);
+
+// A todo's due date as recorded in the log
+export const dueValue = (row: TodoRow): { due_at: Date; due_has_time: boolean } | null =>
+  row.due_at === null ? null : { due_at: row.due_at, due_has_time: row.due_has_time };
+
+// The value of a field as recorded in the log; lists are recorded by name
+const fieldValue = async (executor: Executor, row: TodoRow, field: TodoEventField): Promise<unknown> => {
+  switch (field) {
+    case 'list':
+      return row.list_id === null ? null : listName(executor, row.list_id);
+    case 'due':
+      return dueValue(row);
+    default:
+      return row[field];
+  }
+};
+
+const EDITED_FIELDS: TodoEventField[] = ['title', 'description', 'list', 'due', 'priority', 'recurrence'];
+
+// The columns behind a field, compared as JSON so dates and recurrence rules compare by value
+const rawValue = (row: TodoRow, field: TodoEventField): unknown => {
+  switch (field) {
+    case 'list':
+      return row.list_id;
+    case 'due':
+      return [row.due_at, row.due_has_time];
+    default:
+      return row[field];
+  }
+};
+
+// One 'edited' event per field that differs between the two versions of a todo,
+// plus 'completed' or 'reopened' when its completion changed
+export const changeEvents = async (
+  executor: Executor,
+  before: TodoRow,
+  after: TodoRow,
+  actorId: number
+): Promise<NewTodoEvent[]> => {
+  const events: NewTodoEvent[] = [];
+
+  for (const field of EDITED_FIELDS) {
+    if (JSON.stringify(rawValue(before, field)) !== JSON.stringify(rawValue(after, field))) {
+      events.push({
+        todo_id: after.id,
+        actor_id: actorId,
+        type: 'edited',
+        field,
+        from_value: await fieldValue(executor, before, field),
+        to_value: await fieldValue(executor, after, field)
+      });
+    }
+  }
+
+  if (before.completed !== after.completed) {
+    events.push({ todo_id: after.id, actor_id: actorId, type: after.completed ? 'completed' : 'reopened' });
+  }
+
+  return events;
+};
+
+export const listName = async (executor: Executor, listId: number): Promise<string | null> => {
+  const rows = await executor.select({ name: listsTable.name })
+    .from(listsTable)
+    .where(eq(listsTable.id, listId))
+    .execute();
+
+  return rows[0]?.name ?? null;
+};
+
+export const userName = async (executor: Executor, userId: number): Promise<string | null> => {
+  const rows = await executor.select({ name: usersTable.name })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  return rows[0]?.name ?? null;
+};
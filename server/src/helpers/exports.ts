@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { listsTable, todosTable } from '../db/schema';
+import { and, asc, eq, inArray, isNull, type SQL } from 'drizzle-orm';
+import { todoAccess } from './access';
+import { todoPositionOrder } from './positions';
+import { hydrateTodos } from './todos';
+import { type ExportedTodo } from './transfer';
+import { type ExportTodosInput } from '../schema';
+
+type ExportOptions = Pick<ExportTodosInput, 'listId' | 'includeArchived'>;
+
+// The todos the user can see, in the manual order, as they are written to an export file.
+// Shared by every export format
+export const selectExportedTodos = async (options: ExportOptions, userId: number): Promise<ExportedTodo[]> => {
+  const conditions: SQL[] = [todoAccess(userId, 'read'), isNull(todosTable.deleted_at)];
+
+  if (!options.includeArchived) {
+    conditions.push(isNull(todosTable.archived_at));
+  }
+  if (options.listId !== undefined) {
+    conditions.push(options.listId === null
+      ? isNull(todosTable.list_id)
+      : eq(todosTable.list_id, options.listId));
+  }
+
+  const rows = await db.select()
+    .from(todosTable)
+    .where(and(...conditions))
+    .orderBy(todoPositionOrder, asc(todosTable.id))
+    .execute();
+
+  const todos = await hydrateTodos(rows);
+
+  const listIds = [...new Set(rows.map(row => row.list_id).filter((id): id is number => id !== null))];
+  const lists = listIds.length === 0
+    ? []
+    : await db.select({ id: listsTable.id, name: listsTable.name })
+      .from(listsTable)
+      .where(inArray(listsTable.id, listIds))
+      .execute();
+  const listNames = new Map(lists.map(list => [list.id, list.name]));
+
+  return todos.map(todo => ({
+    title: todo.title,
+    description: todo.description,
+    completed: todo.completed,
+    due_at: todo.due_at,
+    due_has_time: todo.due_has_time,
+    priority: todo.priority,
+    recurrence: todo.recurrence,
+    tags: todo.tags.map(tag => tag.name),
+    checklist: todo.checklist.map(item => ({ title: item.title, completed: item.completed })),
+    list: todo.list_id === null ? null : listNames.get(todo.list_id) ?? null,
+    archived: todo.archived_at !== null,
+    created_at: todo.created_at,
+    updated_at: todo.updated_at
+  }));
+};
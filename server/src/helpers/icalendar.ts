@@ -0,0 +1,325 @@
+import { TRPCError } from '@trpc/server';
+import { toDateKey } from './recurrence';
+import { type Priority, type Recurrence, type Todo } from '../schema';
+
+// Writes and reads iCalendar (RFC 5545) files. Todos are written as VTODOs, and dated todos
+// optionally as all-day or timed VEVENTs too, for calendar apps that do not show VTODOs
+
+const CRLF = '\r\n';
+const PRODUCT_ID = '-//Todo App//Todos//EN';
+const UID_DOMAIN = 'todo-app';
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest), 0 meaning none; calendar apps
+// offer high (1), medium (5) and low (9)
+const ICAL_PRIORITIES: Record<Priority, number> = { p1: 1, p2: 3, p3: 5, p4: 9 };
+
+const toPriority = (value: number): Priority | null => {
+  if (value === 0) return null;
+  if (value <= 1) return 'p1';
+  if (value <= 4) return 'p2';
+  if (value === 5) return 'p3';
+  return 'p4';
+};
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Lines longer than 75 octets continue on lines starting with a space, never splitting a character
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(CRLF);
+};
+
+// 20250301T093000Z
+const formatDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// 20250301, the day in server local time
+const formatDate = (date: Date): string => toDateKey(date).replace(/-/g, '');
+
+// A date-only due date is a whole day; one with a time of day is an instant, written in UTC
+const dateProperty = (name: string, date: Date, hasTime: boolean): string =>
+  hasTime ? `${name}:${formatDateTime(date)}` : `${name};VALUE=DATE:${formatDate(date)}`;
+
+// UNTIL has to match the kind of date the rule repeats: the last day, or the end of it
+const formatUntil = (until: string, hasTime: boolean): string => {
+  if (!hasTime) return until.replace(/-/g, '');
+  const [year, month, day] = until.split('-').map(Number);
+  return formatDateTime(new Date(year, month - 1, day, 23, 59, 59));
+};
+
+// The rule starts at the current occurrence, so COUNT is the occurrences left, counting that one
+const formatRule = (rule: Recurrence, hasTime: boolean, completedOccurrences: number): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.weekdays.length > 0) parts.push(`BYDAY=${rule.weekdays.join(',')}`);
+  if (rule.until !== null) parts.push(`UNTIL=${formatUntil(rule.until, hasTime)}`);
+  if (rule.count !== null) parts.push(`COUNT=${Math.max(rule.count - completedOccurrences, 1)}`);
+  return `RRULE:${parts.join(';')}`;
+};
+
+// Properties every component of a todo shares. A rule needs a date to repeat from, so todos
+// without a due date are written without theirs
+const sharedProperties = (todo: Todo, options: CalendarOptions): (string | null)[] => [
+  `DTSTAMP:${formatDateTime(todo.updated_at)}`,
+  `SUMMARY:${escapeText(todo.title)}`,
+  todo.description ? `DESCRIPTION:${escapeText(todo.description)}` : null,
+  todo.recurrence && todo.due_at
+    ? formatRule(todo.recurrence, todo.due_has_time, options.completedOccurrences.get(todo.id) ?? 0)
+    : null,
+  todo.tags.length > 0 ? `CATEGORIES:${todo.tags.map(tag => escapeText(tag.name)).join(',')}` : null
+];
+
+const vtodo = (todo: Todo, options: CalendarOptions): (string | null)[] => [
+  'BEGIN:VTODO',
+  `UID:todo-${todo.id}@${UID_DOMAIN}`,
+  `CREATED:${formatDateTime(todo.created_at)}`,
+  `LAST-MODIFIED:${formatDateTime(todo.updated_at)}`,
+  ...sharedProperties(todo, options),
+  // A repeating todo starts at its current occurrence
+  todo.due_at && todo.recurrence ? dateProperty('DTSTART', todo.due_at, todo.due_has_time) : null,
+  todo.due_at ? dateProperty('DUE', todo.due_at, todo.due_has_time) : null,
+  todo.priority ? `PRIORITY:${ICAL_PRIORITIES[todo.priority]}` : null,
+  `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+  'END:VTODO'
+];
+
+// An all-day event on the due date, or a moment at the due time; either way it does not
+// mark the time as busy
+const vevent = (todo: Todo & { due_at: Date }, options: CalendarOptions): (string | null)[] => [
+  'BEGIN:VEVENT',
+  `UID:event-${todo.id}@${UID_DOMAIN}`,
+  ...sharedProperties(todo, options),
+  dateProperty('DTSTART', todo.due_at, todo.due_has_time),
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT'
+];
+
+export interface CalendarOptions {
+  name: string; // Shown by calendar apps as the calendar's name
+  events: boolean; // Also write a VEVENT for each todo with a due date
+  // Occurrences of each repeating todo completed before its current one, by todo id
+  completedOccurrences: Map<number, number>;
+}
+
+export const serializeCalendar = (todos: Todo[], options: CalendarOptions): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...todos.flatMap(todo => [
+      ...vtodo(todo, options),
+      ...(options.events && todo.due_at ? vevent({ ...todo, due_at: todo.due_at }, options) : [])
+    ]),
+    'END:VCALENDAR'
+  ];
+
+  return lines
+    .filter((line): line is string => line !== null)
+    .map(line => foldLine(line) + CRLF)
+    .join('');
+};
+
+// One property of a component: NAME;PARAM=value:VALUE
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const CONTENT_LINE = /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:]*))*)*):(.*)$/;
+const PARAM = /;([A-Za-z0-9-]+)=((?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:]*))*)/g;
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+const parseContentLine = (line: string): ContentLine | null => {
+  const match = CONTENT_LINE.exec(line);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const [, name, value] of match[2].matchAll(PARAM)) {
+    params[name.toUpperCase()] = value.replace(/^"(.*)"$/, '$1');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+};
+
+// The instant a wall-clock time in an IANA time zone stands for. Zones the runtime does not
+// know (Windows names, custom VTIMEZONEs) are read as server local time
+const zonedTime = (parts: number[], timeZone: string): Date => {
+  const [year, month, day, hours, minutes, seconds] = parts;
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+  } catch {
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+  }
+
+  // How far the zone's clock is ahead of UTC at an instant
+  const offsetAt = (instant: number): number => {
+    const fields = Object.fromEntries(formatter.formatToParts(new Date(instant)).map(part => [part.type, Number(part.value)]));
+    return Date.UTC(fields['year'], fields['month'] - 1, fields['day'], fields['hour'], fields['minute'], fields['second']) - instant;
+  };
+
+  // Corrects the guess twice, so times next to a daylight saving change come out right
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+// A DATE or DATE-TIME value: in UTC, in the zone named by TZID, or floating (server local time)
+const parseDate = (line: ContentLine): { date: Date; hasTime: boolean } | null => {
+  const match = DATE_VALUE.exec(line.value.trim());
+  if (!match) return null;
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+  if (match[4] === undefined) {
+    return { date: new Date(year, month - 1, day), hasTime: false };
+  }
+
+  if (match[7] === 'Z') {
+    return { date: new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)), hasTime: true };
+  }
+  const parts = [year, month, day, hours, minutes, seconds];
+  return {
+    date: line.params['TZID'] ? zonedTime(parts, line.params['TZID']) : new Date(year, month - 1, day, hours, minutes, seconds),
+    hasTime: true
+  };
+};
+
+// A repeat rule, for validation: frequencies and weekdays a todo cannot repeat by (HOURLY,
+// "2TU") are rejected there. Other BY* parts narrow a rule further than a todo can and are
+// left out
+const parseRule = (value: string): Record<string, unknown> => {
+  const parts = new Map(value.split(';').map(part => {
+    const [name, ...rest] = part.split('=');
+    return [name.trim().toUpperCase(), rest.join('=').trim()] as const;
+  }));
+
+  const rule: Record<string, unknown> = { frequency: parts.get('FREQ')?.toLowerCase() };
+  const interval = parts.get('INTERVAL');
+  const byDay = parts.get('BYDAY');
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL');
+
+  if (interval) rule['interval'] = Number(interval);
+  if (byDay) rule['weekdays'] = byDay.split(',').map(day => day.trim().toUpperCase());
+  if (count) rule['count'] = Number(count);
+  if (until) {
+    const end = parseDate({ name: 'UNTIL', params: {}, value: until });
+    rule['until'] = end ? toDateKey(end.date) : until;
+  }
+
+  return rule;
+};
+
+// Splits a list value on the commas that are not escaped
+const splitList = (value: string): string[] =>
+  value.split(/(?<!\\),/).map(unescapeText).map(item => item.trim()).filter(item => item !== '');
+
+// The todo a VTODO becomes, for validation. Values that cannot be read are left to validation
+// to reject
+const todoRecord = (properties: ContentLine[]): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+  const tags: string[] = [];
+  let status: string | null = null;
+  let hasCompletedAt = false;
+
+  for (const property of properties) {
+    switch (property.name) {
+      case 'SUMMARY':
+        record['title'] = unescapeText(property.value);
+        break;
+      case 'DESCRIPTION':
+        if (property.value !== '') record['description'] = unescapeText(property.value);
+        break;
+      case 'STATUS':
+        status = property.value.trim().toUpperCase();
+        break;
+      case 'COMPLETED':
+        hasCompletedAt = true;
+        break;
+      case 'DUE': {
+        const due = parseDate(property);
+        record['due_at'] = due?.date ?? property.value;
+        record['due_has_time'] = due?.hasTime ?? false;
+        break;
+      }
+      case 'PRIORITY': {
+        const value = Number(property.value);
+        record['priority'] = Number.isInteger(value) && value >= 0 && value <= 9 ? toPriority(value) : property.value;
+        break;
+      }
+      case 'RRULE':
+        record['recurrence'] = parseRule(property.value);
+        break;
+      case 'CATEGORIES':
+        tags.push(...splitList(property.value));
+        break;
+    }
+  }
+
+  // Some apps only set the completion time
+  record['completed'] = status === null ? hasCompletedAt : status === 'COMPLETED';
+  record['tags'] = [...new Set(tags.map(tag => tag.toLowerCase()))];
+  return record;
+};
+
+// Reads the VTODOs out of an iCalendar file, unvalidated; events, alarms and time zone
+// definitions are skipped. Throws when the file is not an iCalendar file
+export const parseCalendar = (content: string): unknown[] => {
+  // Continuation lines start with a space or tab
+  const lines = content.replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '');
+
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid iCalendar file: it must start with BEGIN:VCALENDAR' });
+  }
+
+  const todos: Record<string, unknown>[] = [];
+  const components: string[] = [];
+  let properties: ContentLine[] = [];
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue; // Lines that are not properties carry nothing a todo needs
+
+    if (line.name === 'BEGIN') {
+      components.push(line.value.trim().toUpperCase());
+      if (components[components.length - 1] === 'VTODO') properties = [];
+    } else if (line.name === 'END') {
+      if (components.pop() === 'VTODO') todos.push(todoRecord(properties));
+    } else if (components[components.length - 1] === 'VTODO') {
+      // Properties of an alarm inside the VTODO are not the todo's
+      properties.push(line);
+    }
+  }
+
+  return todos;
+};
@@ -0,0 +1,148 @@
+import { db } from '../db';
+import { checklistItemsTable, listsTable, todosTable, type Todo as TodoRow } from '../db/schema';
+import { and, desc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { accessibleListIds, requireListRole } from './access';
+import { publishTodoChange } from './changes';
+import { recordEvent } from './events';
+import { tagTodo } from './tags';
+import { importedTodoSchema, type ImportedTodo, type ImportReport, type ImportRow, type ImportTodosInput } from '../schema';
+
+type ImportOptions = Pick<ImportTodosInput, 'list_id' | 'dry_run' | 'skip_duplicates'>;
+
+// Todos count as duplicates when they go into the same list and their titles (ignoring case)
+// and due dates match
+const duplicateKey = (list: string | null, todo: Pick<ImportedTodo, 'title' | 'due_at'>): string =>
+  `${list?.toLowerCase() ?? ''}|${todo.title.trim().toLowerCase()}|${todo.due_at?.toISOString() ?? ''}`;
+
+// The title to report for a todo that failed validation, when it has one
+const rawTitle = (record: unknown): string | null => {
+  const title = typeof record === 'object' && record !== null ? (record as { title?: unknown }).title : undefined;
+  return typeof title === 'string' && title.trim() !== '' ? title.trim() : null;
+};
+
+// Validates todos read from an import file, reports duplicates and invalid todos, and creates
+// the rest in one transaction: in the target list, or without one in the lists the file names.
+// Shared by every import format
+export const importTodoRecords = async (records: unknown[], options: ImportOptions, userId: number): Promise<ImportReport> => {
+  const { report, created } = await db.transaction(async (tx) => {
+    // Only owners and editors of the target list may add todos to it
+    if (options.list_id !== null) {
+      await requireListRole(tx, options.list_id, userId, ['owner', 'editor']);
+    }
+
+    // Lists named in the file are the lists of that name the user may edit, their own first
+    const editableLists = options.list_id === null
+      ? await tx.select({ id: listsTable.id, name: listsTable.name })
+        .from(listsTable)
+        .where(inArray(listsTable.id, accessibleListIds(userId, 'write')))
+        .orderBy(desc(sql`${listsTable.owner_id} = ${userId}`), listsTable.id)
+        .execute()
+      : [];
+    const listIds = new Map<string, number>();
+    for (const list of editableLists) {
+      if (!listIds.has(list.name.toLowerCase())) listIds.set(list.name.toLowerCase(), list.id);
+    }
+    const listNames = new Map(editableLists.map(list => [list.id, list.name]));
+    // Where a todo goes, by the name of its list; everything goes together into a target list
+    const destination = (todo: ImportedTodo): string | null => (options.list_id === null ? todo.list : null);
+
+    // Archived todos count too, so importing a backup twice does not bring them back
+    const existing = await tx.select({ title: todosTable.title, due_at: todosTable.due_at, list_id: todosTable.list_id })
+      .from(todosTable)
+      .where(and(
+        isNull(todosTable.deleted_at),
+        options.list_id === null
+          ? or(
+            and(isNull(todosTable.list_id), eq(todosTable.owner_id, userId)),
+            inArray(todosTable.list_id, [...listNames.keys()])
+          )
+          : eq(todosTable.list_id, options.list_id)
+      ))
+      .execute();
+    const seen = new Set(existing.map(todo =>
+      duplicateKey(options.list_id === null && todo.list_id !== null ? listNames.get(todo.list_id) ?? null : null, todo)
+    ));
+
+    const rows: ImportRow[] = [];
+    const toCreate: ImportedTodo[] = [];
+
+    records.forEach((record, index) => {
+      const parsed = importedTodoSchema.safeParse(record);
+      if (!parsed.success) {
+        rows.push({
+          row: index + 1,
+          title: rawTitle(record),
+          status: 'invalid',
+          errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'todo'}: ${issue.message}`)
+        });
+        return;
+      }
+
+      const key = duplicateKey(destination(parsed.data), parsed.data);
+      const isDuplicate = seen.has(key);
+      seen.add(key);
+
+      rows.push({ row: index + 1, title: parsed.data.title, status: isDuplicate ? 'duplicate' : 'new', errors: [] });
+      if (!isDuplicate || !options.skip_duplicates) {
+        toCreate.push(parsed.data);
+      }
+    });
+
+    if (options.dry_run) {
+      return { report: { dry_run: true, imported: 0, rows }, created: [] };
+    }
+
+    // Lists named in the file that the user has none of are created
+    const listFor = async (name: string | null): Promise<number | null> => {
+      if (name === null) return null;
+      const known = listIds.get(name.toLowerCase());
+      if (known !== undefined) return known;
+
+      const [list] = await tx.insert(listsTable).values({ owner_id: userId, name }).returning().execute();
+      listIds.set(name.toLowerCase(), list.id);
+      return list.id;
+    };
+
+    const created: TodoRow[] = [];
+    for (const todo of toCreate) {
+      const [row] = await tx.insert(todosTable)
+        .values({
+          owner_id: userId,
+          list_id: options.list_id ?? await listFor(todo.list),
+          title: todo.title,
+          description: todo.description || null,
+          completed: todo.completed,
+          due_at: todo.due_at,
+          // A time of day only makes sense together with a due date
+          due_has_time: todo.due_at ? todo.due_has_time : false,
+          priority: todo.priority,
+          recurrence: todo.recurrence,
+          archived_at: todo.archived ? new Date() : null
+        })
+        .returning()
+        .execute();
+
+      await recordEvent(tx, { todo_id: row.id, actor_id: userId, type: 'created' });
+
+      for (const name of todo.tags) {
+        await tagTodo(tx, row.id, name, userId);
+      }
+
+      if (todo.checklist.length > 0) {
+        await tx.insert(checklistItemsTable)
+          .values(todo.checklist.map((step, position) => ({ todo_id: row.id, title: step.title, completed: step.completed, position })))
+          .execute();
+      }
+
+      created.push(row);
+    }
+
+    return { report: { dry_run: false, imported: created.length, rows }, created };
+  });
+
+  for (const todo of created) {
+    publishTodoChange({ type: 'created', todo });
+  }
+
+  return report;
+};
@@ -2,6 +2,7 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { type User } from '../schema';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -16,3 +17,13 @@ export const createDB = async () => {
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+// Inserts a user to own the rows a test creates; pass an email to create a second user
+export const createTestUser = async (email: string = 'test@example.com'): Promise<User> => {
+  const [{ password_hash: _, ...user }] = await db.insert(schema.usersTable)
+    .values({ email, name: email.split('@')[0], password_hash: 'unused' })
+    .returning()
+    .execute();
+
+  return user;
+};
@@ -0,0 +1,83 @@
+import { z, type ZodTypeAny } from 'zod';
+
+// An OpenAPI 3.0 schema object
+export type JsonSchema = Record<string, unknown>;
+
+// Strips the wrappers that only change whether a value may be left out, to get at the type
+export const baseType = (schema: ZodTypeAny): ZodTypeAny => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return baseType(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return baseType(schema.removeDefault());
+  if (schema instanceof z.ZodEffects) return baseType(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return baseType(schema._def.in);
+  return schema;
+};
+
+const stringSchema = (schema: z.ZodString): JsonSchema => {
+  const result: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') result['minLength'] = check.value;
+    if (check.kind === 'max') result['maxLength'] = check.value;
+    if (check.kind === 'email') result['format'] = 'email';
+    if (check.kind === 'regex') result['pattern'] = check.regex.source;
+  }
+  return result;
+};
+
+const numberSchema = (schema: z.ZodNumber): JsonSchema => {
+  const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') {
+      result['minimum'] = check.value;
+      if (!check.inclusive) result['exclusiveMinimum'] = true;
+    }
+    if (check.kind === 'max') {
+      result['maximum'] = check.value;
+      if (!check.inclusive) result['exclusiveMaximum'] = true;
+    }
+  }
+  return result;
+};
+
+// The JSON a zod schema accepts, as an OpenAPI 3.0 schema. Refinements and transforms cannot
+// be described and are left out: the schema describes their input. Dates are ISO 8601 strings
+export const toJsonSchema = (schema: ZodTypeAny): JsonSchema => {
+  if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodNullable) return { ...toJsonSchema(schema.unwrap()), nullable: true };
+  if (schema instanceof z.ZodDefault) return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  if (schema instanceof z.ZodEffects) return toJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return toJsonSchema(schema._def.in);
+
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+  if (schema instanceof z.ZodLiteral) return { type: typeof schema.value, enum: [schema.value] };
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: toJsonSchema(schema.element) };
+    if (schema._def.minLength) result['minItems'] = schema._def.minLength.value;
+    if (schema._def.maxLength) result['maxItems'] = schema._def.maxLength.value;
+    return result;
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return { oneOf: (schema.options as ZodTypeAny[]).map(toJsonSchema) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) };
+  }
+
+  // unknown and any: every value
+  return {};
+};
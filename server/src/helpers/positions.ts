@@ -0,0 +1,35 @@
+import { sql } from 'drizzle-orm';
+import { todosTable } from '../db/schema';
+
+// Positions are base-36 digit strings read as fractions ("i" = 0.5), so there is always room
+// for a new key between two others and a move only ever rewrites the moved row
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// Positions must be compared byte-wise, whatever the database's default collation
+export const todoPositionOrder = sql`${todosTable.position} COLLATE "C"`;
+
+// A key strictly between `before` and `after`; null means no bound on that side
+export const rankBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Cannot rank between "${before}" and "${after}"`);
+  }
+
+  let rank = '';
+  // Whether the key built so far still equals a prefix of `after`
+  let boundedAbove = after !== null;
+
+  for (let i = 0; ; i++) {
+    const low = before !== null && i < before.length ? DIGITS.indexOf(before[i]) : 0;
+    const high = boundedAbove && after !== null && i < after.length ? DIGITS.indexOf(after[i]) : DIGITS.length;
+
+    if (high - low > 1) {
+      return rank + DIGITS[Math.floor((low + high) / 2)];
+    }
+
+    rank += DIGITS[low];
+    // Once a digit is below `after`'s, later digits can go all the way up
+    if (high > low) {
+      boundedAbove = false;
+    }
+  }
+};
@@ -0,0 +1,96 @@
+import { type Recurrence, type Weekday } from '../schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Indexed like Date.getDay()
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Calendar arithmetic in server local time, so the time of day survives DST changes
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Monday-based, like RRULE's default week start
+const startOfWeek = (date: Date): Date => {
+  const result = addDays(date, -((date.getDay() + 6) % 7));
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+// The same day of the month `months` later, or null when that month is too short for it
+const addMonths = (date: Date, months: number): Date | null => {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+
+  const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  if (date.getDate() > daysInMonth) {
+    return null;
+  }
+
+  result.setDate(date.getDate());
+  return result;
+};
+
+// Like RRULE, months without the day (e.g. the 31st) are skipped rather than clamped
+const nextMonthly = (from: Date, months: number): Date => {
+  for (let step = 1; ; step++) {
+    const candidate = addMonths(from, months * step);
+    if (candidate) {
+      return candidate;
+    }
+  }
+};
+
+const nextWeekly = (from: Date, rule: Recurrence): Date => {
+  if (rule.weekdays.length === 0) {
+    return addDays(from, 7 * rule.interval);
+  }
+
+  const days = new Set(rule.weekdays.map(weekday => WEEKDAYS.indexOf(weekday)));
+  const fromWeek = startOfWeek(from).getTime();
+
+  // Only weeks a multiple of `interval` away from the current occurrence's week qualify
+  for (let offset = 1; ; offset++) {
+    const candidate = addDays(from, offset);
+    const weeks = Math.round((startOfWeek(candidate).getTime() - fromWeek) / (7 * DAY_MS));
+    if (weeks % rule.interval === 0 && days.has(candidate.getDay())) {
+      return candidate;
+    }
+  }
+};
+
+// Formats a date as "YYYY-MM-DD" in server local time
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// The first occurrence strictly after `from`, keeping its time of day, or null once the
+// rule's end date has passed. Occurrence counts are tracked by the caller.
+export const nextOccurrence = (rule: Recurrence, from: Date): Date | null => {
+  let next: Date;
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(from, rule.interval);
+      break;
+    case 'weekly':
+      next = nextWeekly(from, rule);
+      break;
+    case 'monthly':
+      next = nextMonthly(from, rule.interval);
+      break;
+    case 'yearly':
+      next = nextMonthly(from, 12 * rule.interval);
+      break;
+  }
+
+  if (rule.until !== null && toDateKey(next) > rule.until) {
+    return null;
+  }
+
+  return next;
+};
@@ -0,0 +1,41 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { type SnippetPart } from '../schema';
+
+// Marks matched words in ts_headline output; control characters do not occur in typed text
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+// The whole title, with the matches marked
+export const TITLE_HEADLINE_OPTIONS = `HighlightAll=true, StartSel=${MATCH_START}, StopSel=${MATCH_END}`;
+
+// Up to two excerpts of the description around the matches
+export const DESCRIPTION_HEADLINE_OPTIONS =
+  `MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … ", StartSel=${MATCH_START}, StopSel=${MATCH_END}`;
+
+// A tsquery matching todos that contain every word of the search, each as a prefix so results
+// show up while the last word is still being typed. Only letters and digits are kept, which also
+// keeps tsquery operators out. Null when nothing searchable is left.
+export const prefixQuery = (search: string): SQL | null => {
+  const words = search.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+
+  if (!words) {
+    return null;
+  }
+
+  const terms = words.map(word => `${word}:*`).join(' & ');
+  // Must use the same configuration as the search_vector column
+  return sql`to_tsquery('english', ${terms})`;
+};
+
+// Splits ts_headline output into plain and matched parts
+export const parseHeadline = (headline: string): SnippetPart[] => {
+  const [before, ...marked] = headline.split(MATCH_START);
+  const parts: SnippetPart[] = [{ text: before, match: false }];
+
+  for (const piece of marked) {
+    const [match, after = ''] = piece.split(MATCH_END);
+    parts.push({ text: match, match: true }, { text: after, match: false });
+  }
+
+  return parts.filter(part => part.text !== '');
+};
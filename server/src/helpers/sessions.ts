@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { and, eq, gt } from 'drizzle-orm';
+import { createHash, randomBytes } from 'node:crypto';
+import { type User } from '../schema';
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+// Starts a session for the user and returns the token to hand out in the cookie
+export const createSession = async (userId: number): Promise<string> => {
+  const token = randomBytes(32).toString('base64url');
+
+  await db.insert(sessionsTable)
+    .values({
+      token_hash: hashToken(token),
+      user_id: userId,
+      expires_at: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000)
+    })
+    .execute();
+
+  return token;
+};
+
+// The user a session token belongs to, or null for unknown or expired tokens
+export const getSessionUser = async (token: string): Promise<User | null> => {
+  const rows = await db.select({
+    id: usersTable.id,
+    email: usersTable.email,
+    name: usersTable.name,
+    created_at: usersTable.created_at
+  })
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(
+      eq(sessionsTable.token_hash, hashToken(token)),
+      gt(sessionsTable.expires_at, new Date())
+    ))
+    .execute();
+
+  return rows[0] ?? null;
+};
+
+export const deleteSession = async (token: string): Promise<void> => {
+  await db.delete(sessionsTable)
+    .where(eq(sessionsTable.token_hash, hashToken(token)))
+    .execute();
+};
+
+// Reads a cookie from a raw Cookie request header
+export const readCookie = (header: string | undefined, name: string): string | null => {
+  for (const part of (header ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+};
+
+// Set-Cookie value for the session cookie; a null token clears it
+export const sessionCookie = (token: string | null): string => {
+  const maxAge = token === null ? 0 : SESSION_MAX_AGE_SECONDS;
+  return `${SESSION_COOKIE}=${token ?? ''}; HttpOnly; Path=/; SameSite=Lax; Max-Age=${maxAge}`;
+};
@@ -0,0 +1,58 @@
+import { tagsTable, todosTable, todoTagsTable, type Todo as TodoRow } from '../db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { type Executor } from './access';
+import { recordEvent } from './events';
+
+// Tags a todo with the user's tag of this name, creating the tag on first use.
+// Attaching an already attached tag is a no-op
+export const tagTodo = async (executor: Executor, todoId: number, name: string, userId: number): Promise<void> => {
+  const inserted = await executor.insert(tagsTable)
+    .values({ owner_id: userId, name })
+    .onConflictDoNothing({ target: [tagsTable.owner_id, tagsTable.name] })
+    .returning()
+    .execute();
+
+  const tag = inserted.length > 0
+    ? inserted[0]
+    : (await executor.select().from(tagsTable).where(and(eq(tagsTable.owner_id, userId), eq(tagsTable.name, name))).execute())[0];
+
+  const attached = await executor.insert(todoTagsTable)
+    .values({ todo_id: todoId, tag_id: tag.id })
+    .onConflictDoNothing()
+    .returning()
+    .execute();
+
+  if (attached.length > 0) {
+    await recordEvent(executor, { todo_id: todoId, actor_id: userId, type: 'tagged', to_value: tag.name });
+  }
+};
+
+// Takes a tag off a todo. The tag itself is kept so it can still be used on other todos
+export const untagTodo = async (executor: Executor, todoId: number, tagId: number, userId: number): Promise<void> => {
+  const detached = await executor.delete(todoTagsTable)
+    .where(and(
+      eq(todoTagsTable.todo_id, todoId),
+      eq(todoTagsTable.tag_id, tagId)
+    ))
+    .returning()
+    .execute();
+
+  if (detached.length > 0) {
+    const [tag] = await executor.select({ name: tagsTable.name })
+      .from(tagsTable)
+      .where(eq(tagsTable.id, tagId))
+      .execute();
+
+    await recordEvent(executor, { todo_id: todoId, actor_id: userId, type: 'untagged', from_value: tag.name });
+  }
+};
+
+// The todos carrying a tag, to publish once a change to the tag itself is committed
+export const taggedTodos = async (executor: Executor, tagId: number): Promise<TodoRow[]> =>
+  executor.select()
+    .from(todosTable)
+    .where(inArray(
+      todosTable.id,
+      executor.select({ todo_id: todoTagsTable.todo_id }).from(todoTagsTable).where(eq(todoTagsTable.tag_id, tagId))
+    ))
+    .execute();
@@ -0,0 +1,193 @@
+import { db } from '../db';
+import { checklistItemsTable, commentsTable, tagsTable, todoAssignmentsTable, todosTable, todoTagsTable, usersTable, type Todo as TodoRow } from '../db/schema';
+import { and, asc, count, eq, gte, inArray, isNotNull, isNull, lte, sql, type SQL } from 'drizzle-orm';
+import { todoAccess, type Executor } from './access';
+import { type ChecklistItem, type GetTodoCountsInput, type Tag, type Todo, type TodoAssignment } from '../schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A date-only due date stays on time until its whole day has passed
+export const isOverdue = (row: Pick<TodoRow, 'completed' | 'due_at' | 'due_has_time'>, now: Date = new Date()): boolean => {
+  if (row.completed || row.due_at === null) {
+    return false;
+  }
+
+  const deadline = row.due_has_time ? row.due_at.getTime() : row.due_at.getTime() + DAY_MS;
+  return deadline <= now.getTime();
+};
+
+// Conditions selecting the todos that match the filters among those the user can see
+// (their own and those in lists shared with them)
+export const todoFilters = (input: GetTodoCountsInput, userId: number): SQL[] => {
+  // Trashed and archived todos only show up when the trash or the archive is asked for
+  const conditions: SQL[] = [todoAccess(userId, 'read')];
+  if (input?.trashed) {
+    conditions.push(isNotNull(todosTable.deleted_at));
+  } else {
+    conditions.push(
+      isNull(todosTable.deleted_at),
+      input?.archived ? isNotNull(todosTable.archived_at) : isNull(todosTable.archived_at)
+    );
+  }
+
+  if (input?.listId !== undefined) {
+    conditions.push(input.listId === null
+      ? isNull(todosTable.list_id)
+      : eq(todosTable.list_id, input.listId));
+  }
+
+  if (input?.tagIds && input.tagIds.length > 0) {
+    const tagIds = [...new Set(input.tagIds)];
+    let taggedTodos = db.select({ todo_id: todoTagsTable.todo_id })
+      .from(todoTagsTable)
+      .where(inArray(todoTagsTable.tag_id, tagIds))
+      .groupBy(todoTagsTable.todo_id)
+      .$dynamic();
+
+    // 'all' keeps only todos that carry every requested tag
+    if (input.tagMatch === 'all') {
+      taggedTodos = taggedTodos.having(sql`count(*) = ${tagIds.length}`);
+    }
+
+    conditions.push(inArray(todosTable.id, taggedTodos));
+  }
+
+  const ranges = [
+    [todosTable.due_at, input?.dueFrom, input?.dueTo],
+    [todosTable.created_at, input?.createdFrom, input?.createdTo],
+    [todosTable.updated_at, input?.updatedFrom, input?.updatedTo]
+  ] as const;
+
+  for (const [column, from, to] of ranges) {
+    if (from) {
+      conditions.push(gte(column, from));
+    }
+
+    if (to) {
+      conditions.push(lte(column, to));
+    }
+  }
+
+  if (input?.assigneeId !== undefined) {
+    conditions.push(input.assigneeId === null
+      ? isNull(todosTable.assignee_id)
+      : eq(todosTable.assignee_id, input.assigneeId));
+  }
+
+  return conditions;
+};
+
+// The todos of a list that are in view: out of the trash and the archive
+export const liveListTodos = (executor: Executor, listId: number): Promise<TodoRow[]> =>
+  executor.select()
+    .from(todosTable)
+    .where(and(
+      eq(todosTable.list_id, listId),
+      isNull(todosTable.deleted_at),
+      isNull(todosTable.archived_at)
+    ))
+    .execute();
+
+// Loads the related data returned alongside each todo (tags, checklist, assignments, comment counts)
+// with one query per relation and fills in computed fields
+export const hydrateTodos = async (rows: TodoRow[]): Promise<Todo[]> => {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+
+  const todoIds = rows.map(row => row.id);
+
+  const tagRows = await db.select({
+    todo_id: todoTagsTable.todo_id,
+    tag: tagsTable
+  })
+    .from(todoTagsTable)
+    .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+    .where(inArray(todoTagsTable.todo_id, todoIds))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+
+  const tagsByTodo = new Map<number, Tag[]>();
+  for (const { todo_id, tag } of tagRows) {
+    const tags = tagsByTodo.get(todo_id) ?? [];
+    tags.push(tag);
+    tagsByTodo.set(todo_id, tags);
+  }
+
+  const checklistRows = await db.select()
+    .from(checklistItemsTable)
+    .where(inArray(checklistItemsTable.todo_id, todoIds))
+    .orderBy(asc(checklistItemsTable.position), asc(checklistItemsTable.id))
+    .execute();
+
+  const checklistByTodo = new Map<number, ChecklistItem[]>();
+  for (const item of checklistRows) {
+    const items = checklistByTodo.get(item.todo_id) ?? [];
+    items.push(item);
+    checklistByTodo.set(item.todo_id, items);
+  }
+
+  const assignmentRows = await db.select()
+    .from(todoAssignmentsTable)
+    .where(inArray(todoAssignmentsTable.todo_id, todoIds))
+    .orderBy(asc(todoAssignmentsTable.created_at), asc(todoAssignmentsTable.id))
+    .execute();
+
+  // Names of everyone assigned to or assigning any of the todos, looked up once
+  const userIds = new Set<number>();
+  for (const id of [...rows.map(row => row.assignee_id), ...assignmentRows.flatMap(entry => [entry.assignee_id, entry.assigned_by])]) {
+    if (id !== null) {
+      userIds.add(id);
+    }
+  }
+
+  const names = new Map<number, string>();
+  if (userIds.size > 0) {
+    const users = await db.select({ id: usersTable.id, name: usersTable.name })
+      .from(usersTable)
+      .where(inArray(usersTable.id, [...userIds]))
+      .execute();
+
+    for (const user of users) {
+      names.set(user.id, user.name);
+    }
+  }
+
+  const nameOf = (id: number | null): string | null => id === null ? null : names.get(id) ?? null;
+
+  const assignmentsByTodo = new Map<number, TodoAssignment[]>();
+  for (const { todo_id, ...entry } of assignmentRows) {
+    const assignments = assignmentsByTodo.get(todo_id) ?? [];
+    assignments.push({
+      ...entry,
+      assignee_name: nameOf(entry.assignee_id),
+      assigned_by_name: nameOf(entry.assigned_by)!
+    });
+    assignmentsByTodo.set(todo_id, assignments);
+  }
+
+  const commentCounts = await db.select({ todo_id: commentsTable.todo_id, count: count() })
+    .from(commentsTable)
+    .where(inArray(commentsTable.todo_id, todoIds))
+    .groupBy(commentsTable.todo_id)
+    .execute();
+
+  const commentCountByTodo = new Map(commentCounts.map(row => [row.todo_id, row.count]));
+
+  return rows.map(({ search_vector: _, ...row }) => ({
+    ...row,
+    tags: tagsByTodo.get(row.id) ?? [],
+    checklist: checklistByTodo.get(row.id) ?? [],
+    assignee_name: nameOf(row.assignee_id),
+    assignments: assignmentsByTodo.get(row.id) ?? [],
+    comment_count: commentCountByTodo.get(row.id) ?? 0,
+    overdue: isOverdue(row, now)
+  }));
+};
+
+export const hydrateTodo = async (row: TodoRow): Promise<Todo> => {
+  const [todo] = await hydrateTodos([row]);
+  return todo;
+};
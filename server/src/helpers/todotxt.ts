@@ -0,0 +1,245 @@
+import { toDateKey } from './recurrence';
+import { type ExportedTodo } from './transfer';
+import { type Priority, type Recurrence, type Weekday } from '../schema';
+
+// One line of a todo.txt file (https://github.com/todotxt/todo.txt), split into the parts that
+// come before the text. The text is kept as written, with its +projects, @contexts and
+// key:value extensions, so a line reads back exactly as it was
+export interface TodoTxtTask {
+  completed: boolean;
+  priority: string | null; // 'A' to 'Z'; completed tasks carry theirs as a pri: extension
+  completed_on: string | null; // YYYY-MM-DD
+  created_on: string | null; // YYYY-MM-DD
+  text: string;
+}
+
+const DATE = /^(\d{4}-\d{2}-\d{2})(?: |$)/;
+const PROJECT_OR_CONTEXT = /^[+@](\S+)$/;
+const EXTENSION = /^([^\s:]+):(\S+)$/;
+// due:2025-03-01, or due:2025-03-01T09:30 for a time of day (server local time)
+const DUE = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/;
+// rec:1w, every week from the due date; todo.txt clients write rec:+1w for the same thing.
+// b stands for business days. What rec: cannot say is written next to it as rec-days:MO,FR,
+// rec-until:2025-12-31 and rec-count:10
+const RECURRENCE = /^\+?(\d*)([dwmyb])$/;
+// The extensions read back into todo fields; a title word that looks like one is escaped
+const FIELD_EXTENSIONS = new Set(['due', 'rec', 'rec-days', 'rec-until', 'rec-count', 'tag', 'pri']);
+
+const FREQUENCIES: Record<string, Recurrence['frequency']> = { d: 'daily', w: 'weekly', m: 'monthly', y: 'yearly' };
+const FREQUENCY_UNITS: Record<Recurrence['frequency'], string> = { daily: 'd', weekly: 'w', monthly: 'm', yearly: 'y' };
+const BUSINESS_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+// Tags a title does not mention are written as tag: extensions, which cannot be confused with
+// +projects the title was written with. Only the characters a word cannot hold are escaped
+const encodeTag = (tag: string): string => tag.replace(/[%\s]/g, char => encodeURIComponent(char));
+
+const decodeTag = (value: string): string | null => {
+  try {
+    return decodeURIComponent(value).toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+// A title is written on one line, with its line breaks as \n and \r and its backslashes doubled.
+// Words that would read back as something else get a backslash: field extensions before their
+// colon (due\:soon) and +projects or @contexts the todo has no tag for before their sign
+const escapeTitle = (title: string, tags: Set<string>): string =>
+  title.replace(/[\\\r\n]/g, char => ({ '\\': '\\\\', '\r': '\\r', '\n': '\\n' })[char] ?? char)
+    .split(' ')
+    .map(word => {
+      const tag = PROJECT_OR_CONTEXT.exec(word);
+      if (tag) return tags.has(tag[1].toLowerCase()) ? word : `\\${word}`;
+      const extension = EXTENSION.exec(word);
+      return extension && FIELD_EXTENSIONS.has(extension[1]) ? word.replace(':', '\\:') : word;
+    })
+    .join(' ');
+
+// Only the escapes escapeTitle writes are read, so backslashes other tools leave in a title
+// (C:\temp) stay as they are
+const unescapeTitle = (title: string): string =>
+  title.replace(/\\([\\rn:+@])/g, (_, char: string) => ({ r: '\r', n: '\n' })[char] ?? char);
+
+// (A) to (D) are p1 to p4; todo.txt has 26 priorities, so the lower ones all count as p4
+const PRIORITY_LETTERS: Record<Priority, string> = { p1: 'A', p2: 'B', p3: 'C', p4: 'D' };
+
+const toPriority = (letter: string): Priority => {
+  const index = letter.charCodeAt(0) - 'A'.charCodeAt(0);
+  return (['p1', 'p2', 'p3'] as const)[index] ?? 'p4';
+};
+
+export const parseTodoTxtLine = (line: string): TodoTxtTask => {
+  let rest = line;
+  const take = (pattern: RegExp): string | null => {
+    const match = pattern.exec(rest);
+    if (!match) return null;
+    rest = rest.slice(match[0].length);
+    return match[1];
+  };
+
+  // A completed task starts with "x", its completion date and then its creation date; an open
+  // one with its priority and creation date. Each part is optional
+  const completed = take(/^(x)(?: |$)/) !== null;
+  const priority = completed ? null : take(/^\(([A-Z])\)(?: |$)/);
+  const completed_on = completed ? take(DATE) : null;
+  // A completed task's only date is its completion date
+  const created_on = completed && completed_on === null ? null : take(DATE);
+
+  return { completed, priority, completed_on, created_on, text: rest };
+};
+
+export const serializeTodoTxtLine = (task: TodoTxtTask): string =>
+  [
+    task.completed ? 'x' : null,
+    task.priority === null ? null : `(${task.priority})`,
+    task.completed_on,
+    task.created_on,
+    task.text
+  ]
+    .filter((part): part is string => part !== null)
+    .join(' ');
+
+// Blank lines separate nothing in todo.txt and are left out
+export const parseTodoTxt = (content: string): TodoTxtTask[] =>
+  content.replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(parseTodoTxtLine);
+
+export const serializeTodoTxt = (tasks: TodoTxtTask[]): string =>
+  tasks.map(task => serializeTodoTxtLine(task) + '\n').join('');
+
+const parseDue = (value: string): { due_at: Date; due_has_time: boolean } | null => {
+  const match = DUE.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes] = match;
+  return {
+    due_at: new Date(Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0)),
+    due_has_time: hours !== undefined
+  };
+};
+
+const formatDue = (due_at: Date, due_has_time: boolean): string => {
+  if (!due_has_time) return toDateKey(due_at);
+  const hours = String(due_at.getHours()).padStart(2, '0');
+  const minutes = String(due_at.getMinutes()).padStart(2, '0');
+  return `${toDateKey(due_at)}T${hours}:${minutes}`;
+};
+
+const parseRecurrence = (value: string): Partial<Recurrence> | null => {
+  const match = RECURRENCE.exec(value);
+  if (!match) return null;
+  const interval = match[1] === '' ? 1 : Number(match[1]);
+  if (match[2] === 'b') {
+    // Only every business day has a rule to match
+    return interval === 1 ? { frequency: 'weekly', interval: 1, weekdays: BUSINESS_DAYS } : null;
+  }
+  return { frequency: FREQUENCIES[match[2]], interval };
+};
+
+const formatRecurrence = (rule: Recurrence): string[] => {
+  if (rule.frequency === 'weekly' && rule.interval === 1 && rule.weekdays.join() === BUSINESS_DAYS.join()) {
+    return ['rec:1b', ...formatRecurrenceEnd(rule)];
+  }
+  return [
+    `rec:${rule.interval}${FREQUENCY_UNITS[rule.frequency]}`,
+    ...(rule.weekdays.length === 0 ? [] : [`rec-days:${rule.weekdays.join(',')}`]),
+    ...formatRecurrenceEnd(rule)
+  ];
+};
+
+const formatRecurrenceEnd = (rule: Recurrence): string[] => [
+  ...(rule.until === null ? [] : [`rec-until:${rule.until}`]),
+  ...(rule.count === null ? [] : [`rec-count:${rule.count}`])
+];
+
+// The todo a task becomes, for validation. The title is the task's text without the
+// extensions a todo has a field for (due:, rec: and the rec- ones, tag: and a completed task's
+// pri:); +projects and @contexts stay in the title and are also added as tags. Extensions that
+// cannot be read are left to validation to reject
+export const todoTxtRecord = (task: TodoTxtTask): Record<string, unknown> => {
+  const record: Record<string, unknown> = {
+    completed: task.completed,
+    priority: task.priority === null ? null : toPriority(task.priority)
+  };
+  const tags = new Set<string>();
+  const rule: Record<string, unknown> = {};
+
+  const words = task.text.split(' ').filter(word => {
+    const tag = PROJECT_OR_CONTEXT.exec(word);
+    if (tag) {
+      tags.add(tag[1].toLowerCase());
+      return true;
+    }
+
+    const extension = EXTENSION.exec(word);
+    switch (extension?.[1]) {
+      case 'due':
+        Object.assign(record, parseDue(extension[2]) ?? { due_at: extension[2] });
+        return false;
+      case 'rec':
+        record['recurrence'] = parseRecurrence(extension[2]) ?? extension[2];
+        return false;
+      case 'rec-days':
+        rule['weekdays'] = extension[2].toUpperCase().split(',');
+        return false;
+      case 'rec-until':
+        rule['until'] = extension[2];
+        return false;
+      case 'rec-count':
+        rule['count'] = Number(extension[2]);
+        return false;
+      case 'tag': {
+        const tag = decodeTag(extension[2]);
+        if (tag === null) return true;
+        tags.add(tag);
+        return false;
+      }
+      case 'pri':
+        if (!task.completed || !/^[A-Z]$/.test(extension[2])) return true;
+        record['priority'] = toPriority(extension[2]);
+        return false;
+      default:
+        // Other extensions (t:, id:, ...) mean nothing here and are kept as text
+        return true;
+    }
+  });
+
+  // Without a rec: that can be read, the rest of the rule is rejected along with it
+  if (Object.keys(rule).length > 0) {
+    const recurrence = record['recurrence'];
+    record['recurrence'] = typeof recurrence === 'string' ? recurrence : { ...(recurrence ?? {}), ...rule };
+  }
+  record['title'] = unescapeTitle(words.join(' '));
+  record['tags'] = [...tags];
+  return record;
+};
+
+// The task a todo is written as. Tags the title does not already mention are added as tag:
+// extensions; descriptions, checklists and lists have no place in todo.txt and are left out.
+// A completed todo's completion date is when it was last changed
+export const todoTxtTask = (todo: ExportedTodo): TodoTxtTask => {
+  const title = escapeTitle(todo.title, new Set(todo.tags));
+  const mentioned = new Set(
+    title.split(' ')
+      .map(word => PROJECT_OR_CONTEXT.exec(word)?.[1].toLowerCase())
+      .filter((tag): tag is string => tag !== undefined)
+  );
+  const priority = todo.priority === null ? null : PRIORITY_LETTERS[todo.priority];
+
+  const words = [
+    title,
+    ...todo.tags.filter(tag => !mentioned.has(tag)).map(tag => `tag:${encodeTag(tag)}`),
+    todo.due_at === null ? null : `due:${formatDue(todo.due_at, todo.due_has_time)}`,
+    ...(todo.recurrence === null ? [] : formatRecurrence(todo.recurrence)),
+    todo.completed && priority !== null ? `pri:${priority}` : null
+  ];
+
+  return {
+    completed: todo.completed,
+    priority: todo.completed ? null : priority,
+    completed_on: todo.completed ? toDateKey(todo.updated_at) : null,
+    created_on: toDateKey(todo.created_at),
+    text: words.filter((word): word is string => word !== null).join(' ')
+  };
+};
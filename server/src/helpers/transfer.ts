@@ -0,0 +1,193 @@
+import { TRPCError } from '@trpc/server';
+import { escapeFormula, parseCsv, toCsv, unescapeFormula } from './csv';
+import { type ImportedTodo, type TransferFormat } from '../schema';
+
+// A todo as it is exported: everything an import reads back, plus when it was made and changed
+export interface ExportedTodo extends ImportedTodo {
+  created_at: Date;
+  updated_at: Date;
+}
+
+export const FILE_EXTENSIONS: Record<TransferFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  markdown: 'md'
+};
+
+export const MIME_TYPES: Record<TransferFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  markdown: 'text/markdown'
+};
+
+const CSV_COLUMNS = [
+  'title', 'description', 'completed', 'due_at', 'due_has_time', 'priority', 'recurrence',
+  'tags', 'checklist', 'list', 'archived', 'created_at', 'updated_at'
+] as const;
+
+// Checklist steps are written "[x] Step" / "[ ] Step", in CSV one per line of the field
+const CHECKLIST_STEP = /^\[( |x|X)\]\s*(.*)$/;
+// A Markdown task list item; indented ones are checklist steps of the todo above them
+const MARKDOWN_TASK = /^(\s*)[-*+] \[( |x|X)\]\s*(.*)$/;
+
+const checkbox = (completed: boolean): string => (completed ? '[x]' : '[ ]');
+
+const csvRow = (todo: ExportedTodo): string[] => [
+  todo.title,
+  todo.description ?? '',
+  String(todo.completed),
+  todo.due_at?.toISOString() ?? '',
+  String(todo.due_has_time),
+  todo.priority ?? '',
+  todo.recurrence ? JSON.stringify(todo.recurrence) : '',
+  todo.tags.join(', '),
+  todo.checklist.map(step => `${checkbox(step.completed)} ${step.title}`).join('\n'),
+  todo.list ?? '',
+  String(todo.archived),
+  todo.created_at.toISOString(),
+  todo.updated_at.toISOString()
+];
+
+// Todos grouped under a heading per list, once there is more than one list to tell apart
+const toMarkdown = (todos: ExportedTodo[]): string => {
+  const groups = new Map<string | null, ExportedTodo[]>();
+  for (const todo of todos) {
+    groups.set(todo.list, [...(groups.get(todo.list) ?? []), todo]);
+  }
+
+  const sections = [...groups].map(([list, group]) => {
+    const lines = group.flatMap(todo => [
+      `- ${checkbox(todo.completed)} ${todo.title}`,
+      ...todo.checklist.map(step => `  - ${checkbox(step.completed)} ${step.title}`)
+    ]);
+    return groups.size > 1 ? [`## ${list ?? 'No list'}`, '', ...lines].join('\n') : lines.join('\n');
+  });
+
+  return sections.join('\n\n') + '\n';
+};
+
+export const serializeTodos = (format: TransferFormat, todos: ExportedTodo[]): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ version: 1, exported_at: new Date(), todos }, null, 2) + '\n';
+    case 'csv':
+      // Titles, descriptions and tags are user text, which must not turn into spreadsheet formulas
+      return toCsv([[...CSV_COLUMNS], ...todos.map(todo => csvRow(todo).map(escapeFormula))]);
+    case 'markdown':
+      return toMarkdown(todos);
+  }
+};
+
+const parseBoolean = (value: string): boolean | string => {
+  if (/^(true|yes|x|1)$/i.test(value)) return true;
+  if (/^(false|no|0)$/i.test(value)) return false;
+  return value; // Left for validation to reject
+};
+
+const parseChecklist = (value: string) =>
+  value.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => {
+      const match = CHECKLIST_STEP.exec(line);
+      return match ? { title: match[2], completed: match[1] !== ' ' } : { title: line, completed: false };
+    });
+
+// Turns a CSV row into a todo for validation. Empty fields are left out so they get their defaults
+const fromCsvRow = (header: string[], row: string[]): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+
+  header.forEach((column, index) => {
+    const value = unescapeFormula(row[index] ?? '');
+    if (value === '' && column !== 'title') return;
+
+    switch (column) {
+      case 'title':
+      case 'description':
+      case 'due_at':
+      case 'list':
+        record[column] = value;
+        break;
+      case 'completed':
+      case 'due_has_time':
+      case 'archived':
+        record[column] = parseBoolean(value);
+        break;
+      case 'priority':
+        record[column] = value.toLowerCase();
+        break;
+      case 'recurrence':
+        try {
+          record[column] = JSON.parse(value);
+        } catch {
+          record[column] = value;
+        }
+        break;
+      case 'tags':
+        record[column] = value.split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+        break;
+      case 'checklist':
+        record[column] = parseChecklist(value);
+        break;
+      // Other columns (timestamps) are only exported
+    }
+  });
+
+  return record;
+};
+
+const parseJson = (content: string): unknown[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+  }
+
+  // Either a plain list of todos or a whole export
+  if (Array.isArray(data)) return data;
+  if (typeof data === 'object' && data !== null && Array.isArray((data as { todos?: unknown }).todos)) {
+    return (data as { todos: unknown[] }).todos;
+  }
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid JSON: expected a list of todos or an export with a "todos" list' });
+};
+
+const parseCsvTodos = (content: string): unknown[] => {
+  const [header, ...rows] = parseCsv(content);
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+  if (!columns.includes('title')) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid CSV: the first row must name the columns, including "title"' });
+  }
+  return rows.map(row => fromCsvRow(columns, row));
+};
+
+const parseMarkdown = (content: string): unknown[] => {
+  const todos: { title: string; completed: boolean; checklist: { title: string; completed: boolean }[] }[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = MARKDOWN_TASK.exec(line);
+    if (!match) continue; // Headings and other text are not todos
+
+    const item = { title: match[3].trim(), completed: match[2] !== ' ' };
+    const parent = todos[todos.length - 1];
+    if (match[1].length > 0 && parent) {
+      parent.checklist.push(item);
+    } else {
+      todos.push({ ...item, checklist: [] });
+    }
+  }
+
+  return todos;
+};
+
+// Reads the todos out of a file, unvalidated. Throws when the file as a whole cannot be read
+export const parseTodos = (format: TransferFormat, content: string): unknown[] => {
+  switch (format) {
+    case 'json':
+      return parseJson(content);
+    case 'csv':
+      return parseCsvTodos(content);
+    case 'markdown':
+      return parseMarkdown(content);
+  }
+};
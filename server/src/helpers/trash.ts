@@ -0,0 +1,15 @@
+import { todosTable, type Todo as TodoRow } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { type Executor } from './access';
+import { recordEvent } from './events';
+
+// Moves a todo the user may edit to the trash; its checklist, tags and position are kept so
+// it can be restored as it was
+export const trashTodo = async (executor: Executor, todo: TodoRow, userId: number): Promise<void> => {
+  await executor.update(todosTable)
+    .set({ deleted_at: sql`NOW()` })
+    .where(eq(todosTable.id, todo.id))
+    .execute();
+
+  await recordEvent(executor, { todo_id: todo.id, actor_id: userId, type: 'deleted' });
+};
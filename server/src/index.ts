@@ -1,69 +1,46 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { applyWSSHandler } from '@trpc/server/adapters/ws';
+import { WebSocketServer } from 'ws';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
+import { createContext } from './context';
+import { serveCalendarFeed } from './feeds';
+import { createRestHandler } from './rest';
+import { appRouter } from './router';
+import { purgeExpiredTodos } from './handlers/purge_expired_todos';
 
-// Import schemas
-import { 
-  createTodoInputSchema, 
-  updateTodoCompletionInputSchema,
-  deleteTodoInputSchema 
-} from './schema';
-
-// Import handlers
-import { createTodo } from './handlers/create_todo';
-import { getTodos } from './handlers/get_todos';
-import { updateTodoCompletion } from './handlers/update_todo_completion';
-import { deleteTodo } from './handlers/delete_todo';
-
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
-  healthcheck: publicProcedure.query(() => {
-    return { status: 'ok', timestamp: new Date().toISOString() };
-  }),
-  
-  // Create a new todo item
-  createTodo: publicProcedure
-    .input(createTodoInputSchema)
-    .mutation(({ input }) => createTodo(input)),
-    
-  // Get all todo items
-  getTodos: publicProcedure
-    .query(() => getTodos()),
-    
-  // Update todo completion status
-  updateTodoCompletion: publicProcedure
-    .input(updateTodoCompletionInputSchema)
-    .mutation(({ input }) => updateTodoCompletion(input)),
-    
-  // Delete a todo item
-  deleteTodo: publicProcedure
-    .input(deleteTodoInputSchema)
-    .mutation(({ input }) => deleteTodo(input)),
-});
-
-export type AppRouter = typeof appRouter;
+export type { AppRouter } from './router';
 
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
+  const serveRest = createRestHandler(appRouter);
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      // Calendar feeds and the REST endpoints are served before tRPC sees the request
+      cors()(req, res, () => serveCalendarFeed(req, res, () => serveRest(req, res, next)));
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
+  });
+  // Subscriptions are served over WebSocket connections to /ws on the same port
+  const wss = new WebSocketServer({ server, path: '/ws' });
+  applyWSSHandler({
+    wss,
+    router: appRouter,
+    createContext,
+    // Pings idle connections so proxies do not close them
+    keepAlive: { enabled: true },
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Empty the trash of todos deleted longer ago than the retention window, hourly
+  const retentionDays = Number(process.env['TRASH_RETENTION_DAYS'] || 30);
+  const purgeTrash = () => purgeExpiredTodos(retentionDays).catch(() => {
+    // Already logged by the handler; the next run tries again
+  });
+  purgeTrash();
+  setInterval(purgeTrash, 60 * 60 * 1000);
 }
 
 start();
\ No newline at end of file
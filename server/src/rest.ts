@@ -0,0 +1,357 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { z, ZodError, type ZodTypeAny } from 'zod';
+import { createContext } from './context';
+import { baseType, toJsonSchema, type JsonSchema } from './helpers/openapi';
+import {
+  createTodoInputSchema,
+  deleteTodoInputSchema,
+  getTodoCountsInputSchema,
+  getTodosInputSchema,
+  listWithCountsSchema,
+  tagSchema,
+  todoCountsSchema,
+  todoPageSchema,
+  todoSchema,
+  updateTodoCompletionInputSchema,
+  updateTodoInputSchema
+} from './schema';
+import { type AppRouter } from './router';
+
+type Method = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+// A REST endpoint and the procedure it calls. Path parameters (":id") are numbers and join the
+// input; the rest of it comes from the query string on GET and DELETE, and the JSON body otherwise
+interface RestRoute {
+  method: Method;
+  path: string;
+  procedure: keyof AppRouter['_def']['record'];
+  summary: string;
+  input: ZodTypeAny | null; // The procedure's input schema; null when it takes none
+  output: ZodTypeAny;
+  status: number;
+}
+
+const successSchema = z.object({ success: z.boolean() });
+
+// New procedures are exposed by adding them here; the OpenAPI document follows
+export const REST_ROUTES: RestRoute[] = [
+  {
+    method: 'GET',
+    path: '/todos',
+    procedure: 'getTodos',
+    summary: 'List todos, a page at a time when a limit is given',
+    input: getTodosInputSchema,
+    output: todoPageSchema,
+    status: 200
+  },
+  {
+    method: 'POST',
+    path: '/todos',
+    procedure: 'createTodo',
+    summary: 'Create a todo',
+    input: createTodoInputSchema,
+    output: todoSchema,
+    status: 201
+  },
+  {
+    method: 'GET',
+    path: '/todos/counts',
+    procedure: 'getTodoCounts',
+    summary: 'Count todos by status',
+    input: getTodoCountsInputSchema,
+    output: todoCountsSchema,
+    status: 200
+  },
+  {
+    method: 'PATCH',
+    path: '/todos/:id',
+    procedure: 'updateTodo',
+    summary: 'Edit a todo; only the fields given are changed',
+    input: updateTodoInputSchema,
+    output: todoSchema,
+    status: 200
+  },
+  {
+    method: 'DELETE',
+    path: '/todos/:id',
+    procedure: 'deleteTodo',
+    summary: 'Move a todo to the trash',
+    input: deleteTodoInputSchema,
+    output: successSchema,
+    status: 200
+  },
+  {
+    method: 'POST',
+    path: '/todos/:id/completion',
+    procedure: 'updateTodoCompletion',
+    summary: 'Complete or reopen a todo; completing a repeating todo moves it to its next occurrence',
+    input: updateTodoCompletionInputSchema,
+    output: todoSchema,
+    status: 200
+  },
+  {
+    method: 'GET',
+    path: '/lists',
+    procedure: 'getLists',
+    summary: 'List the lists the user owns or is a member of',
+    input: null,
+    output: z.array(listWithCountsSchema),
+    status: 200
+  },
+  {
+    method: 'GET',
+    path: '/tags',
+    procedure: 'getTags',
+    summary: 'List the user\'s tags',
+    input: null,
+    output: z.array(tagSchema),
+    status: 200
+  }
+];
+
+export const OPENAPI_PATH = '/openapi.json';
+
+const MAX_BODY_BYTES = 1_000_000;
+
+const pathParams = (path: string): string[] => [...path.matchAll(/:(\w+)/g)].map(match => match[1]);
+
+const pathPattern = (path: string): RegExp =>
+  new RegExp(`^${path.replace(/:(\w+)/g, '(?<$1>\\d+)')}$`);
+
+// The shape of an object input, wherever it is wrapped
+const inputShape = (input: ZodTypeAny | null): Record<string, ZodTypeAny> => {
+  const base = input === null ? null : baseType(input);
+  return base instanceof z.ZodObject ? base.shape as Record<string, ZodTypeAny> : {};
+};
+
+// Query strings only carry strings, so values are converted by the type the input expects:
+// numbers, booleans, "null" for nullable fields, and repeated keys (or commas) for arrays
+const queryValue = (schema: ZodTypeAny, values: string[]): unknown => {
+  const base = baseType(schema);
+  if (base instanceof z.ZodArray) {
+    return values.flatMap(value => value.split(',')).map(value => queryValue(base.element, [value]));
+  }
+
+  const value = values[values.length - 1];
+  if (value === 'null' && schema.isNullable()) return null;
+  if (base instanceof z.ZodNumber) return value.trim() === '' ? value : Number(value);
+  if (base instanceof z.ZodBoolean) return value === 'true' ? true : value === 'false' ? false : value;
+  return value;
+};
+
+const queryInput = (route: RestRoute, url: URL): Record<string, unknown> => {
+  const shape = inputShape(route.input);
+  const input: Record<string, unknown> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    input[key] = key in shape ? queryValue(shape[key], url.searchParams.getAll(key)) : url.searchParams.get(key);
+  }
+  return input;
+};
+
+// A request the REST layer rejects before it gets to a procedure
+class RestError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+const readBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new RestError(400, 'BAD_REQUEST', 'The request body is over 1 MB');
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (text.trim() === '') return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RestError(400, 'BAD_REQUEST', 'The request body is not valid JSON');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown): void => {
+  if (error instanceof RestError) {
+    sendJson(res, error.status, { error: { code: error.code, message: error.message } });
+    return;
+  }
+
+  const trpcError = error instanceof TRPCError
+    ? error
+    : new TRPCError({ code: 'INTERNAL_SERVER_ERROR', cause: error });
+  // Invalid input is reported field by field, like the import report
+  const issues = trpcError.cause instanceof ZodError
+    ? trpcError.cause.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    : undefined;
+  sendJson(res, getHTTPStatusCodeFromError(trpcError), {
+    error: {
+      code: trpcError.code,
+      message: issues ? 'Invalid input' : trpcError.message,
+      ...(issues ? { issues } : {})
+    }
+  });
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+});
+
+const operation = (route: RestRoute): JsonSchema => {
+  const params = pathParams(route.path);
+  const shape = inputShape(route.input);
+  const rest = Object.entries(shape).filter(([key]) => !params.includes(key));
+  const inQuery = route.method === 'GET' || route.method === 'DELETE';
+
+  const parameters = [
+    ...params.map(name => ({ name, in: 'path', required: true, schema: { type: 'integer' } })),
+    ...(inQuery
+      ? rest.map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: !schema.isOptional(),
+        schema: toJsonSchema(schema),
+        ...(baseType(schema) instanceof z.ZodArray ? { style: 'form', explode: true } : {})
+      }))
+      : [])
+  ];
+
+  const body = route.input !== null && !inQuery && rest.length > 0
+    ? {
+      requestBody: {
+        required: rest.some(([, schema]) => !schema.isOptional()),
+        content: { 'application/json': { schema: toJsonSchema(z.object(Object.fromEntries(rest))) } }
+      }
+    }
+    : {};
+
+  return {
+    operationId: route.procedure,
+    summary: route.summary,
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...body,
+    responses: {
+      [route.status]: {
+        description: 'Success',
+        content: { 'application/json': { schema: toJsonSchema(route.output) } }
+      },
+      400: errorResponse('Invalid input'),
+      401: errorResponse('Not signed in, or the API token is invalid or has expired'),
+      403: errorResponse('Not allowed for this user, or the API token does not have the scope'),
+      404: errorResponse('Not found')
+    }
+  };
+};
+
+// The OpenAPI 3 document describing REST_ROUTES, generated from their zod schemas
+export const openApiDocument = (): JsonSchema => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of REST_ROUTES) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(route) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Todo API',
+      version: '1.0.0',
+      description: 'REST endpoints over the tRPC procedures of the same names. Dates are ISO 8601 strings.'
+    },
+    paths,
+    components: {
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: 'session' },
+        bearer: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A personal API token. GET needs its read scope, DELETE its delete scope, and the rest its write scope'
+        }
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: {
+              type: 'object',
+              properties: {
+                code: { type: 'string' },
+                message: { type: 'string' },
+                issues: {
+                  type: 'array',
+                  items: { type: 'object', properties: { path: { type: 'string' }, message: { type: 'string' } } }
+                }
+              },
+              required: ['code', 'message']
+            }
+          },
+          required: ['error']
+        }
+      }
+    },
+    security: [{ session: [] }, { bearer: [] }]
+  };
+};
+
+const routeMatchers = REST_ROUTES.map(route => ({ route, pattern: pathPattern(route.path) }));
+
+// Serves the REST endpoints and their OpenAPI document next to the tRPC handler. Each endpoint
+// calls its procedure through a server-side caller, so input validation, sign-in and API token
+// scopes work as they do over tRPC
+export const createRestHandler = (router: AppRouter) => {
+  const document = JSON.stringify(openApiDocument());
+
+  return (req: IncomingMessage, res: ServerResponse, next: () => void): void => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === OPENAPI_PATH && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' }).end(document);
+      return;
+    }
+
+    const matches = routeMatchers
+      .map(({ route, pattern }) => ({ route, match: pattern.exec(url.pathname) }))
+      .filter(({ match }) => match !== null);
+    if (matches.length === 0) {
+      next();
+      return;
+    }
+
+    const found = matches.find(({ route }) => route.method === req.method);
+    if (!found) {
+      res.writeHead(405, { Allow: matches.map(({ route }) => route.method).join(', ') }).end();
+      return;
+    }
+
+    const { route, match } = found;
+    const run = async () => {
+      const params = Object.fromEntries(Object.entries(match!.groups ?? {}).map(([key, value]) => [key, Number(value)]));
+      const fields = route.method === 'GET' || route.method === 'DELETE' ? queryInput(route, url) : await readBody(req);
+      if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+        throw new RestError(400, 'BAD_REQUEST', 'The request body must be a JSON object');
+      }
+
+      const caller = router.createCaller(await createContext({ req, res }));
+      const call = caller[route.procedure] as (input?: unknown) => Promise<unknown>;
+      const input = route.input === null ? undefined : { ...fields, ...params };
+      const output = await call(input);
+      // Deleting reports { success: false } when there was nothing to delete, which REST calls a 404
+      if (route.method === 'DELETE' && (output as { success?: boolean }).success === false) {
+        throw new RestError(404, 'NOT_FOUND', `Nothing to delete at ${url.pathname}`);
+      }
+      sendJson(res, route.status, output);
+    };
+
+    run().catch(error => sendError(res, error));
+  };
+};
@@ -0,0 +1,449 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import superjson from 'superjson';
+import { authenticate, type Context } from './context';
+import { createSession, deleteSession, readCookie, sessionCookie, SESSION_COOKIE } from './helpers/sessions';
+
+// Import schemas
+import { 
+  registerInputSchema,
+  loginInputSchema,
+  createTodoInputSchema, 
+  getTodosInputSchema,
+  getTodoCountsInputSchema,
+  searchTodosInputSchema,
+  exportTodosInputSchema,
+  importTodosInputSchema,
+  exportTodoTxtInputSchema,
+  importTodoTxtInputSchema,
+  importICalendarInputSchema,
+  updateTodoCompletionInputSchema,
+  undoTodoCompletionInputSchema,
+  updateTodoInputSchema,
+  moveTodoInputSchema,
+  assignTodoInputSchema,
+  deleteTodoInputSchema,
+  restoreTodoInputSchema,
+  purgeTodoInputSchema,
+  archiveCompletedInputSchema,
+  unarchiveTodoInputSchema,
+  bulkUpdateTodosInputSchema,
+  bulkDeleteTodosInputSchema,
+  getCommentsInputSchema,
+  addCommentInputSchema,
+  updateCommentInputSchema,
+  deleteCommentInputSchema,
+  getTodoHistoryInputSchema,
+  createListInputSchema,
+  updateListInputSchema,
+  deleteListInputSchema,
+  inviteToListInputSchema,
+  respondToInvitationInputSchema,
+  updateListMemberInputSchema,
+  removeListMemberInputSchema,
+  attachTagInputSchema,
+  detachTagInputSchema,
+  renameTagInputSchema,
+  mergeTagsInputSchema,
+  addChecklistItemInputSchema,
+  updateChecklistItemInputSchema,
+  deleteChecklistItemInputSchema,
+  reorderChecklistItemsInputSchema,
+  createApiTokenInputSchema,
+  revokeApiTokenInputSchema,
+  type ApiTokenScope
+} from './schema';
+
+// Import handlers
+import { registerUser } from './handlers/register_user';
+import { loginUser } from './handlers/login_user';
+import { createTodo } from './handlers/create_todo';
+import { getTodos } from './handlers/get_todos';
+import { getTodoCounts } from './handlers/get_todo_counts';
+import { searchTodos } from './handlers/search_todos';
+import { exportTodos } from './handlers/export_todos';
+import { importTodos } from './handlers/import_todos';
+import { exportTodoTxt } from './handlers/export_todo_txt';
+import { importTodoTxt } from './handlers/import_todo_txt';
+import { importICalendar } from './handlers/import_icalendar';
+import { getCalendarFeed } from './handlers/get_calendar_feed';
+import { createCalendarFeed } from './handlers/create_calendar_feed';
+import { revokeCalendarFeed } from './handlers/revoke_calendar_feed';
+import { getApiTokens } from './handlers/get_api_tokens';
+import { createApiToken } from './handlers/create_api_token';
+import { revokeApiToken } from './handlers/revoke_api_token';
+import { updateTodoCompletion } from './handlers/update_todo_completion';
+import { undoTodoCompletion } from './handlers/undo_todo_completion';
+import { updateTodo } from './handlers/update_todo';
+import { moveTodo } from './handlers/move_todo';
+import { assignTodo } from './handlers/assign_todo';
+import { deleteTodo } from './handlers/delete_todo';
+import { restoreTodo } from './handlers/restore_todo';
+import { purgeTodo } from './handlers/purge_todo';
+import { archiveCompleted } from './handlers/archive_completed';
+import { unarchiveTodo } from './handlers/unarchive_todo';
+import { bulkUpdateTodos } from './handlers/bulk_update_todos';
+import { bulkDeleteTodos } from './handlers/bulk_delete_todos';
+import { getComments } from './handlers/get_comments';
+import { addComment } from './handlers/add_comment';
+import { updateComment } from './handlers/update_comment';
+import { deleteComment } from './handlers/delete_comment';
+import { getTodoHistory } from './handlers/get_todo_history';
+import { onTodoChanged } from './handlers/on_todo_changed';
+import { createList } from './handlers/create_list';
+import { getLists } from './handlers/get_lists';
+import { updateList } from './handlers/update_list';
+import { deleteList } from './handlers/delete_list';
+import { inviteToList } from './handlers/invite_to_list';
+import { getInvitations } from './handlers/get_invitations';
+import { respondToInvitation } from './handlers/respond_to_invitation';
+import { updateListMember } from './handlers/update_list_member';
+import { removeListMember } from './handlers/remove_list_member';
+import { getTags } from './handlers/get_tags';
+import { attachTag } from './handlers/attach_tag';
+import { detachTag } from './handlers/detach_tag';
+import { renameTag } from './handlers/rename_tag';
+import { mergeTags } from './handlers/merge_tags';
+import { addChecklistItem } from './handlers/add_checklist_item';
+import { updateChecklistItem } from './handlers/update_checklist_item';
+import { deleteChecklistItem } from './handlers/delete_checklist_item';
+import { reorderChecklistItems } from './handlers/reorder_checklist_items';
+
+// scope overrides the API token scope a procedure needs, which is read for queries and
+// subscriptions and write for mutations
+interface ProcedureMeta {
+  scope?: ApiTokenScope;
+}
+
+const t = initTRPC.context<Context>().meta<ProcedureMeta>().create({
+  transformer: superjson,
+});
+
+const publicProcedure = t.procedure;
+const router = t.router;
+
+// Procedures that need a signed-in user; the user is available as ctx.user. Requests made
+// with an API token also need the token to have the procedure's scope
+const protectedProcedure = t.procedure.use(({ ctx, meta, type, next }) => {
+  if (!ctx.user) {
+    const message = ctx.scopes === null ? 'Sign in to continue' : 'The API token is invalid or has expired';
+    throw new TRPCError({ code: 'UNAUTHORIZED', message });
+  }
+
+  const scope = meta?.scope ?? (type === 'mutation' ? 'write' : 'read');
+  if (ctx.scopes !== null && !ctx.scopes.includes(scope)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `This API token does not have the ${scope} scope` });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Turns away requests made with an API token
+const sessionOnly = t.middleware(({ ctx, next }) => {
+  if (ctx.scopes !== null) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Sign in to the app to do this' });
+  }
+  return next();
+});
+
+// Procedures that manage the user's credentials, which API tokens cannot be used for
+const sessionProcedure = protectedProcedure.use(sessionOnly);
+
+export const appRouter = router({
+  healthcheck: publicProcedure.query(() => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }),
+
+  // Create an account and sign in to it. Like login and logout, this is called over HTTP:
+  // WebSocket connections have no response to set the session cookie on
+  register: publicProcedure
+    .input(registerInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const user = await registerUser(input);
+      ctx.res?.setHeader('Set-Cookie', sessionCookie(await createSession(user.id)));
+      return user;
+    }),
+
+  // Sign in, starting a session cookie
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const user = await loginUser(input);
+      ctx.res?.setHeader('Set-Cookie', sessionCookie(await createSession(user.id)));
+      return user;
+    }),
+
+  // End the current session
+  logout: publicProcedure
+    .use(sessionOnly)
+    .mutation(async ({ ctx }) => {
+      const token = readCookie(ctx.req.headers.cookie, SESSION_COOKIE);
+      if (token) {
+        await deleteSession(token);
+      }
+      ctx.res?.setHeader('Set-Cookie', sessionCookie(null));
+      return { success: true };
+    }),
+
+  // The signed-in user, or null
+  me: publicProcedure
+    .query(({ ctx }) => ctx.user),
+  
+  // Create a new todo item
+  createTodo: protectedProcedure
+    .input(createTodoInputSchema)
+    .mutation(({ input, ctx }) => createTodo(input, ctx.user.id)),
+    
+  // Get a page of todo items, filtered, sorted and continued from a cursor
+  getTodos: protectedProcedure
+    .input(getTodosInputSchema)
+    .query(({ input, ctx }) => getTodos(input, ctx.user.id)),
+
+  // Count todos matching the getTodos filters, in total and by status
+  getTodoCounts: protectedProcedure
+    .input(getTodoCountsInputSchema)
+    .query(({ input, ctx }) => getTodoCounts(input, ctx.user.id)),
+
+  // Full-text search of todo titles and descriptions, best match first
+  searchTodos: protectedProcedure
+    .input(searchTodosInputSchema)
+    .query(({ input, ctx }) => searchTodos(input, ctx.user.id)),
+
+  // Export todos as a JSON, CSV or Markdown file
+  exportTodos: protectedProcedure
+    .input(exportTodosInputSchema)
+    .query(({ input, ctx }) => exportTodos(input, ctx.user.id)),
+
+  // Import todos from a JSON, CSV or Markdown file, with a validation report (or only the report on a dry run)
+  importTodos: protectedProcedure
+    .input(importTodosInputSchema)
+    .mutation(({ input, ctx }) => importTodos(input, ctx.user.id)),
+
+  // Export todos as a todo.txt file
+  exportTodoTxt: protectedProcedure
+    .input(exportTodoTxtInputSchema)
+    .query(({ input, ctx }) => exportTodoTxt(input, ctx.user.id)),
+
+  // Import the tasks of a todo.txt file, with a validation report (or only the report on a dry run)
+  importTodoTxt: protectedProcedure
+    .input(importTodoTxtInputSchema)
+    .mutation(({ input, ctx }) => importTodoTxt(input, ctx.user.id)),
+
+  // Import the VTODOs of an iCalendar (.ics) file, with a validation report (or only the report on a dry run)
+  importICalendar: protectedProcedure
+    .input(importICalendarInputSchema)
+    .mutation(({ input, ctx }) => importICalendar(input, ctx.user.id)),
+
+  // The user's calendar feed link (without its token), or null
+  getCalendarFeed: sessionProcedure
+    .query(({ ctx }) => getCalendarFeed(ctx.user.id)),
+
+  // Create a calendar feed link, replacing the previous one; the token is only returned here
+  createCalendarFeed: sessionProcedure
+    .mutation(({ ctx }) => createCalendarFeed(ctx.user.id)),
+
+  // Turn off the calendar feed link
+  revokeCalendarFeed: sessionProcedure
+    .mutation(({ ctx }) => revokeCalendarFeed(ctx.user.id)),
+
+  // The user's personal API tokens, without the tokens themselves
+  getApiTokens: sessionProcedure
+    .query(({ ctx }) => getApiTokens(ctx.user.id)),
+
+  // Create a personal API token for scripts; the token is only returned here
+  createApiToken: sessionProcedure
+    .input(createApiTokenInputSchema)
+    .mutation(({ input, ctx }) => createApiToken(input, ctx.user.id)),
+
+  // Revoke a personal API token
+  revokeApiToken: sessionProcedure
+    .input(revokeApiTokenInputSchema)
+    .mutation(({ input, ctx }) => revokeApiToken(input, ctx.user.id)),
+    
+  // Update todo completion status, optionally completing its checklist too
+  updateTodoCompletion: protectedProcedure
+    .input(updateTodoCompletionInputSchema)
+    .mutation(({ input, ctx }) => updateTodoCompletion(input, ctx.user.id)),
+
+  // Reverse a completion, including a recurring todo's move to its next occurrence
+  undoTodoCompletion: protectedProcedure
+    .input(undoTodoCompletionInputSchema)
+    .mutation(({ input, ctx }) => undoTodoCompletion(input, ctx.user.id)),
+
+  // Edit todo fields (title, description, completion)
+  updateTodo: protectedProcedure
+    .input(updateTodoInputSchema)
+    .mutation(({ input, ctx }) => updateTodo(input, ctx.user.id)),
+
+  // Place a todo before or after another one in the manual order
+  moveTodo: protectedProcedure
+    .input(moveTodoInputSchema)
+    .mutation(({ input, ctx }) => moveTodo(input, ctx.user.id)),
+
+  // Assign a todo to someone who can edit it, or unassign it with a null assignee
+  assignTodo: protectedProcedure
+    .input(assignTodoInputSchema)
+    .mutation(({ input, ctx }) => assignTodo(input, ctx.user.id)),
+    
+  // Move a todo item to the trash
+  deleteTodo: protectedProcedure
+    .meta({ scope: 'delete' })
+    .input(deleteTodoInputSchema)
+    .mutation(({ input, ctx }) => deleteTodo(input, ctx.user.id)),
+
+  // Take a todo back out of the trash
+  restoreTodo: protectedProcedure
+    .input(restoreTodoInputSchema)
+    .mutation(({ input, ctx }) => restoreTodo(input, ctx.user.id)),
+
+  // Permanently delete a trashed todo
+  purgeTodo: protectedProcedure
+    .meta({ scope: 'delete' })
+    .input(purgeTodoInputSchema)
+    .mutation(({ input, ctx }) => purgeTodo(input, ctx.user.id)),
+
+  // Move completed todos into the archive, optionally only from one list or untouched for a while
+  archiveCompleted: protectedProcedure
+    .input(archiveCompletedInputSchema)
+    .mutation(({ input, ctx }) => archiveCompleted(input, ctx.user.id)),
+
+  // Take a todo back out of the archive
+  unarchiveTodo: protectedProcedure
+    .input(unarchiveTodoInputSchema)
+    .mutation(({ input, ctx }) => unarchiveTodo(input, ctx.user.id)),
+
+  // Complete, move, prioritize or tag many todos at once, with a result for each
+  bulkUpdateTodos: protectedProcedure
+    .input(bulkUpdateTodosInputSchema)
+    .mutation(({ input, ctx }) => bulkUpdateTodos(input, ctx.user.id)),
+
+  // Move many todos to the trash at once, with a result for each
+  bulkDeleteTodos: protectedProcedure
+    .meta({ scope: 'delete' })
+    .input(bulkDeleteTodosInputSchema)
+    .mutation(({ input, ctx }) => bulkDeleteTodos(input, ctx.user.id)),
+
+  // Get a todo's comments, oldest first
+  getComments: protectedProcedure
+    .input(getCommentsInputSchema)
+    .query(({ input, ctx }) => getComments(input, ctx.user.id)),
+
+  // Comment on a todo
+  addComment: protectedProcedure
+    .input(addCommentInputSchema)
+    .mutation(({ input, ctx }) => addComment(input, ctx.user.id)),
+
+  // Edit one of your own comments
+  updateComment: protectedProcedure
+    .input(updateCommentInputSchema)
+    .mutation(({ input, ctx }) => updateComment(input, ctx.user.id)),
+
+  // Delete one of your own comments
+  deleteComment: protectedProcedure
+    .meta({ scope: 'delete' })
+    .input(deleteCommentInputSchema)
+    .mutation(({ input, ctx }) => deleteComment(input, ctx.user.id)),
+
+  // Get a todo's activity log, newest first
+  getTodoHistory: protectedProcedure
+    .input(getTodoHistoryInputSchema)
+    .query(({ input, ctx }) => getTodoHistory(input, ctx.user.id)),
+
+  // Live changes to the todos the user can see, over the WebSocket connection
+  onTodoChanged: protectedProcedure
+    .subscription(({ ctx, signal }) => onTodoChanged(
+      ctx.user.id,
+      async () => (await authenticate(ctx.req.headers)).user?.id === ctx.user.id,
+      signal
+    )),
+
+  // Create a new list
+  createList: protectedProcedure
+    .input(createListInputSchema)
+    .mutation(({ input, ctx }) => createList(input, ctx.user.id)),
+
+  // Get the user's own and shared lists with completed/total todo counts and collaborators
+  getLists: protectedProcedure
+    .query(({ ctx }) => getLists(ctx.user.id)),
+
+  // Rename a list
+  updateList: protectedProcedure
+    .input(updateListInputSchema)
+    .mutation(({ input, ctx }) => updateList(input, ctx.user.id)),
+
+  // Delete a list together with its todos
+  deleteList: protectedProcedure
+    .meta({ scope: 'delete' })
+    .input(deleteListInputSchema)
+    .mutation(({ input, ctx }) => deleteList(input, ctx.user.id)),
+
+  // Share a list by inviting another user as editor or viewer
+  inviteToList: protectedProcedure
+    .input(inviteToListInputSchema)
+    .mutation(({ input, ctx }) => inviteToList(input, ctx.user.id)),
+
+  // Get the user's pending invitations
+  getInvitations: protectedProcedure
+    .query(({ ctx }) => getInvitations(ctx.user.id)),
+
+  // Accept or decline an invitation
+  respondToInvitation: protectedProcedure
+    .input(respondToInvitationInputSchema)
+    .mutation(({ input, ctx }) => respondToInvitation(input, ctx.user.id)),
+
+  // Change a collaborator's role
+  updateListMember: protectedProcedure
+    .input(updateListMemberInputSchema)
+    .mutation(({ input, ctx }) => updateListMember(input, ctx.user.id)),
+
+  // Remove a collaborator, or leave a shared list
+  removeListMember: protectedProcedure
+    .meta({ scope: 'delete' })
+    .input(removeListMemberInputSchema)
+    .mutation(({ input, ctx }) => removeListMember(input, ctx.user.id)),
+
+  // Get all tags
+  getTags: protectedProcedure
+    .query(({ ctx }) => getTags(ctx.user.id)),
+
+  // Tag a todo, creating the tag if it does not exist yet
+  attachTag: protectedProcedure
+    .input(attachTagInputSchema)
+    .mutation(({ input, ctx }) => attachTag(input, ctx.user.id)),
+
+  // Remove a tag from a todo
+  detachTag: protectedProcedure
+    .input(detachTagInputSchema)
+    .mutation(({ input, ctx }) => detachTag(input, ctx.user.id)),
+
+  // Rename a tag everywhere it is used
+  renameTag: protectedProcedure
+    .input(renameTagInputSchema)
+    .mutation(({ input, ctx }) => renameTag(input, ctx.user.id)),
+
+  // Fold one tag into another
+  mergeTags: protectedProcedure
+    .input(mergeTagsInputSchema)
+    .mutation(({ input, ctx }) => mergeTags(input, ctx.user.id)),
+
+  // Append a checklist item to a todo
+  addChecklistItem: protectedProcedure
+    .input(addChecklistItemInputSchema)
+    .mutation(({ input, ctx }) => addChecklistItem(input, ctx.user.id)),
+
+  // Edit or check off a checklist item
+  updateChecklistItem: protectedProcedure
+    .input(updateChecklistItemInputSchema)
+    .mutation(({ input, ctx }) => updateChecklistItem(input, ctx.user.id)),
+
+  // Remove a checklist item
+  deleteChecklistItem: protectedProcedure
+    .meta({ scope: 'delete' })
+    .input(deleteChecklistItemInputSchema)
+    .mutation(({ input, ctx }) => deleteChecklistItem(input, ctx.user.id)),
+
+  // Reorder a todo's checklist
+  reorderChecklistItems: protectedProcedure
+    .input(reorderChecklistItemsInputSchema)
+    .mutation(({ input, ctx }) => reorderChecklistItems(input, ctx.user.id)),
+});
+
+export type AppRouter = typeof appRouter;
@@ -1,36 +1,829 @@
 import { z } from 'zod';
 
+// User schema (the password hash never leaves the server)
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  name: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// Emails are compared case-insensitively
+const emailSchema = z.string().trim().toLowerCase().email("Enter a valid email address");
+
+// Input schema for creating an account
+export const registerInputSchema = z.object({
+  email: emailSchema,
+  name: z.string().trim().min(1, "Name is required"),
+  password: z.string().min(8, "Password must be at least 8 characters")
+});
+
+export type RegisterInput = z.infer<typeof registerInputSchema>;
+
+// Input schema for signing in
+export const loginInputSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, "Password is required")
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+// List schema
+export const listSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type List = z.infer<typeof listSchema>;
+
+// Roles on a list: owners share and manage it, editors change its todos, viewers only read them
+export const listRoleSchema = z.enum(['owner', 'editor', 'viewer']);
+
+export type ListRole = z.infer<typeof listRoleSchema>;
+
+// Roles an owner can give the users they share a list with
+export const listMemberRoleSchema = z.enum(['editor', 'viewer']);
+
+export type ListMemberRole = z.infer<typeof listMemberRoleSchema>;
+
+// A user with access to a list; accepted is false while their invitation is pending
+export const listMemberSchema = z.object({
+  user_id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: listRoleSchema,
+  accepted: z.boolean()
+});
+
+export type ListMember = z.infer<typeof listMemberSchema>;
+
+// List with todo counts, as shown in the sidebar
+// role: the current user's role; members: the owner first, then everyone the list is shared with
+export const listWithCountsSchema = listSchema.extend({
+  total_count: z.number().int(),
+  completed_count: z.number().int(),
+  role: listRoleSchema,
+  members: z.array(listMemberSchema)
+});
+
+export type ListWithCounts = z.infer<typeof listWithCountsSchema>;
+
+// Input schema for creating lists
+export const createListInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required")
+});
+
+export type CreateListInput = z.infer<typeof createListInputSchema>;
+
+// Input schema for renaming lists
+export const updateListInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Name is required")
+});
+
+export type UpdateListInput = z.infer<typeof updateListInputSchema>;
+
+// Input schema for deleting a list (its todos are deleted with it)
+export const deleteListInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteListInput = z.infer<typeof deleteListInputSchema>;
+
+// Input schema for sharing a list with another registered user
+export const inviteToListInputSchema = z.object({
+  list_id: z.number(),
+  email: emailSchema,
+  role: listMemberRoleSchema
+});
+
+export type InviteToListInput = z.infer<typeof inviteToListInputSchema>;
+
+// A pending invitation to someone else's list
+export const invitationSchema = z.object({
+  list_id: z.number(),
+  list_name: z.string(),
+  role: listMemberRoleSchema,
+  invited_by_name: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Invitation = z.infer<typeof invitationSchema>;
+
+// Input schema for accepting or declining an invitation
+export const respondToInvitationInputSchema = z.object({
+  list_id: z.number(),
+  accept: z.boolean()
+});
+
+export type RespondToInvitationInput = z.infer<typeof respondToInvitationInputSchema>;
+
+// Input schema for changing a collaborator's role
+export const updateListMemberInputSchema = z.object({
+  list_id: z.number(),
+  user_id: z.number(),
+  role: listMemberRoleSchema
+});
+
+export type UpdateListMemberInput = z.infer<typeof updateListMemberInputSchema>;
+
+// Input schema for removing a collaborator (or withdrawing their invitation);
+// members may also remove themselves to leave a list
+export const removeListMemberInputSchema = z.object({
+  list_id: z.number(),
+  user_id: z.number()
+});
+
+export type RemoveListMemberInput = z.infer<typeof removeListMemberInputSchema>;
+
+// Tag schema
+export const tagSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Tag = z.infer<typeof tagSchema>;
+
+// Tag names are case-insensitive and typed with or without a leading '#'
+const tagNameSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .transform(name => name.replace(/^#+/, ''))
+  .pipe(z.string().min(1, "Tag name is required").max(50, "Tag name is too long"));
+
+// Input schema for attaching a tag by name (the tag is created if needed)
+export const attachTagInputSchema = z.object({
+  todo_id: z.number(),
+  name: tagNameSchema
+});
+
+export type AttachTagInput = z.infer<typeof attachTagInputSchema>;
+
+// Input schema for detaching a tag from a todo
+export const detachTagInputSchema = z.object({
+  todo_id: z.number(),
+  tag_id: z.number()
+});
+
+export type DetachTagInput = z.infer<typeof detachTagInputSchema>;
+
+// Input schema for renaming a tag
+export const renameTagInputSchema = z.object({
+  id: z.number(),
+  name: tagNameSchema
+});
+
+export type RenameTagInput = z.infer<typeof renameTagInputSchema>;
+
+// Input schema for merging one tag into another; the source tag is removed
+export const mergeTagsInputSchema = z.object({
+  source_id: z.number(),
+  target_id: z.number()
+}).refine(input => input.source_id !== input.target_id, {
+  message: "Cannot merge a tag into itself",
+  path: ['target_id']
+});
+
+export type MergeTagsInput = z.infer<typeof mergeTagsInputSchema>;
+
+// Checklist item schema
+export const checklistItemSchema = z.object({
+  id: z.number(),
+  todo_id: z.number(),
+  title: z.string(),
+  completed: z.boolean(),
+  position: z.number().int(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ChecklistItem = z.infer<typeof checklistItemSchema>;
+
+// Input schema for appending a checklist item to a todo
+export const addChecklistItemInputSchema = z.object({
+  todo_id: z.number(),
+  title: z.string().trim().min(1, "Title is required")
+});
+
+export type AddChecklistItemInput = z.infer<typeof addChecklistItemInputSchema>;
+
+// Input schema for editing a checklist item - only supplied fields are changed
+export const updateChecklistItemInputSchema = z.object({
+  id: z.number(),
+  title: z.string().trim().min(1, "Title is required").optional(),
+  completed: z.boolean().optional()
+});
+
+export type UpdateChecklistItemInput = z.infer<typeof updateChecklistItemInputSchema>;
+
+// Input schema for deleting a checklist item
+export const deleteChecklistItemInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteChecklistItemInput = z.infer<typeof deleteChecklistItemInputSchema>;
+
+// Input schema for reordering a todo's checklist; item_ids lists every item in the new order
+export const reorderChecklistItemsInputSchema = z.object({
+  todo_id: z.number(),
+  item_ids: z.array(z.number())
+});
+
+export type ReorderChecklistItemsInput = z.infer<typeof reorderChecklistItemsInputSchema>;
+
+// Priority levels, p1 being the most important; null means no priority
+export const prioritySchema = z.enum(['p1', 'p2', 'p3', 'p4']);
+
+export type Priority = z.infer<typeof prioritySchema>;
+
+// RRULE-style weekday codes
+export const weekdaySchema = z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']);
+
+export type Weekday = z.infer<typeof weekdaySchema>;
+
+// Recurrence rule for repeating todos, modelled on iCalendar RRULE
+// interval: repeat every N days/weeks/months/years
+// weekdays: weekly rules only; empty repeats on the weekday of the due date
+// until: last day ("YYYY-MM-DD", inclusive) an occurrence may fall on
+// count: total number of occurrences, including the first
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.number().int().min(1).max(999).default(1),
+  weekdays: z.array(weekdaySchema).default([]),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format").nullable().default(null),
+  count: z.number().int().min(1).nullable().default(null)
+})
+  .refine(rule => rule.weekdays.length === 0 || rule.frequency === 'weekly', {
+    message: "Weekdays can only be set on weekly rules",
+    path: ['weekdays']
+  })
+  .refine(rule => rule.until === null || rule.count === null, {
+    message: "Set either an end date or an occurrence count, not both",
+    path: ['count']
+  });
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+// One entry of a todo's assignment history; a null assignee means the todo was unassigned
+export const todoAssignmentSchema = z.object({
+  id: z.number(),
+  assignee_id: z.number().nullable(),
+  assignee_name: z.string().nullable(),
+  assigned_by: z.number(),
+  assigned_by_name: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type TodoAssignment = z.infer<typeof todoAssignmentSchema>;
+
 // Todo schema
 export const todoSchema = z.object({
   id: z.number(),
+  owner_id: z.number(),
   title: z.string(),
   description: z.string().nullable(),
   completed: z.boolean(),
+  list_id: z.number().nullable(),
+  due_at: z.coerce.date().nullable(),
+  due_has_time: z.boolean(), // false = due any time on the day of due_at
+  priority: prioritySchema.nullable(),
+  recurrence: recurrenceSchema.nullable(), // null = does not repeat
+  assignee_id: z.number().nullable(), // null = nobody is assigned
+  position: z.string(), // Manual order rank; compare byte-wise, not with localeCompare
+  deleted_at: z.coerce.date().nullable(), // Set while the todo is in the trash
+  archived_at: z.coerce.date().nullable(), // Set while the todo is in the archive
   created_at: z.coerce.date(),
-  updated_at: z.coerce.date()
+  updated_at: z.coerce.date(),
+  tags: z.array(tagSchema),
+  checklist: z.array(checklistItemSchema), // Ordered by position
+  assignee_name: z.string().nullable(),
+  assignments: z.array(todoAssignmentSchema), // Oldest first
+  comment_count: z.number().int(),
+  overdue: z.boolean() // Computed: incomplete and past its due date/time
 });
 
 export type Todo = z.infer<typeof todoSchema>;
 
+// Input schema for fetching todos
+// Filters shared by getTodos and getTodoCounts
+// listId: omitted = every todo, null = todos without a list, number = todos in that list
+// tagIds: todos carrying any (or, with tagMatch 'all', every one) of the given tags
+// dueFrom/dueTo: inclusive due date range; todos without a due date are excluded when either is set
+// createdFrom/createdTo, updatedFrom/updatedTo: inclusive ranges of when todos were created and last changed
+// trashed: true returns only todos in the trash instead of live ones
+// archived: true returns only archived todos instead of live ones (the trash ignores it)
+const todoFiltersSchema = z.object({
+  listId: z.number().nullable().optional(),
+  tagIds: z.array(z.number()).optional(),
+  tagMatch: z.enum(['any', 'all']).default('any'),
+  dueFrom: z.coerce.date().optional(),
+  dueTo: z.coerce.date().optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  updatedFrom: z.coerce.date().optional(),
+  updatedTo: z.coerce.date().optional(),
+  assigneeId: z.number().nullable().optional(), // null = todos nobody is assigned to
+  trashed: z.boolean().default(false),
+  archived: z.boolean().default(false)
+});
+
+export const todoSortBySchema = z.enum(['position', 'created_at', 'updated_at', 'due_at', 'priority']);
+
+export type TodoSortBy = z.infer<typeof todoSortBySchema>;
+
+// Input schema for loading a page of todos
+// status: 'active' = not completed yet
+// sortBy: 'position' (manual order), 'created_at', 'updated_at', 'due_at' or 'priority'
+// (then due date); sortDirection 'asc' is oldest / soonest / most important first, and todos
+// without a due date or priority come last either way. The trash is always most recently deleted first.
+// limit: page size, every todo when omitted; cursor: nextCursor of the previous page
+export const getTodosInputSchema = todoFiltersSchema.extend({
+  status: z.enum(['all', 'active', 'completed']).default('all'),
+  sortBy: todoSortBySchema.default('position'),
+  sortDirection: z.enum(['asc', 'desc']).default('asc'),
+  limit: z.number().int().min(1).max(200).optional(),
+  cursor: z.number().optional()
+}).optional();
+
+export type GetTodosInput = z.infer<typeof getTodosInputSchema>;
+
+// A page of todos; nextCursor is null on the last page
+export const todoPageSchema = z.object({
+  todos: z.array(todoSchema),
+  nextCursor: z.number().nullable()
+});
+
+export type TodoPage = z.infer<typeof todoPageSchema>;
+
+// Input schema for counting todos; same filters as getTodos, counted regardless of status
+export const getTodoCountsInputSchema = todoFiltersSchema.optional();
+
+export type GetTodoCountsInput = z.infer<typeof getTodoCountsInputSchema>;
+
+// How many todos match the filters, in total and by status
+export const todoCountsSchema = z.object({
+  total: z.number(),
+  active: z.number(),
+  completed: z.number()
+});
+
+export type TodoCounts = z.infer<typeof todoCountsSchema>;
+
 // Input schema for creating todos
 export const createTodoInputSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  description: z.string().nullable().optional()
+  description: z.string().nullable().optional(),
+  list_id: z.number().nullable().optional(),
+  due_at: z.coerce.date().nullable().optional(),
+  due_has_time: z.boolean().optional(),
+  priority: prioritySchema.nullable().optional(),
+  recurrence: recurrenceSchema.nullable().optional()
 });
 
 export type CreateTodoInput = z.infer<typeof createTodoInputSchema>;
 
 // Input schema for updating todo completion status
+// complete_checklist: when completing, also complete every checklist item (reopening never touches items)
+// Completing a recurring todo records the completion and moves it to its next occurrence instead;
+// only the last occurrence of a series actually completes the todo
 export const updateTodoCompletionInputSchema = z.object({
   id: z.number(),
-  completed: z.boolean()
+  completed: z.boolean(),
+  complete_checklist: z.boolean().default(false)
 });
 
 export type UpdateTodoCompletionInput = z.infer<typeof updateTodoCompletionInputSchema>;
 
-// Input schema for deleting a todo
+// Input schema for undoing a completion made with updateTodoCompletion
+// checklist: the checklist item states from before the completion, put back as they were
+export const undoTodoCompletionInputSchema = z.object({
+  id: z.number(),
+  checklist: z.array(z.object({
+    id: z.number(),
+    completed: z.boolean()
+  })).default([])
+});
+
+export type UndoTodoCompletionInput = z.infer<typeof undoTodoCompletionInputSchema>;
+
+// Input schema for editing a todo - only supplied fields are changed
+export const updateTodoInputSchema = z.object({
+  id: z.number(),
+  title: z.string().trim().min(1, "Title is required").optional(),
+  description: z.string().nullable().optional(),
+  completed: z.boolean().optional(), // Completing a recurring todo moves it on to its next occurrence
+  list_id: z.number().nullable().optional(), // null moves the todo out of its list
+  due_at: z.coerce.date().nullable().optional(), // null clears the due date
+  due_has_time: z.boolean().optional(),
+  priority: prioritySchema.nullable().optional(), // null clears the priority
+  recurrence: recurrenceSchema.nullable().optional() // null stops the todo from repeating
+});
+
+export type UpdateTodoInput = z.infer<typeof updateTodoInputSchema>;
+
+// Input schema for moving a todo directly before or after another one in the manual order
+export const moveTodoInputSchema = z.object({
+  id: z.number(),
+  target_id: z.number(),
+  placement: z.enum(['before', 'after'])
+}).refine(input => input.id !== input.target_id, {
+  message: "A todo cannot be moved relative to itself",
+  path: ['target_id']
+});
+
+export type MoveTodoInput = z.infer<typeof moveTodoInputSchema>;
+
+// Input schema for assigning a todo to someone who can edit it; null unassigns it
+export const assignTodoInputSchema = z.object({
+  id: z.number(),
+  assignee_id: z.number().nullable()
+});
+
+export type AssignTodoInput = z.infer<typeof assignTodoInputSchema>;
+
+// Input schema for deleting a todo (moves it to the trash)
 export const deleteTodoInputSchema = z.object({
   id: z.number()
 });
 
-export type DeleteTodoInput = z.infer<typeof deleteTodoInputSchema>;
\ No newline at end of file
+export type DeleteTodoInput = z.infer<typeof deleteTodoInputSchema>;
+
+// Input schema for taking a todo back out of the trash
+export const restoreTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type RestoreTodoInput = z.infer<typeof restoreTodoInputSchema>;
+
+// Input schema for permanently deleting a trashed todo
+export const purgeTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type PurgeTodoInput = z.infer<typeof purgeTodoInputSchema>;
+
+// Input schema for moving completed todos the user may edit into the archive
+// listId: omitted = every list and unfiled todos, null = unfiled todos only, number = that list
+// olderThanDays: only todos that have not changed for at least this many days
+export const archiveCompletedInputSchema = z.object({
+  listId: z.number().nullable().optional(),
+  olderThanDays: z.number().int().min(1).optional()
+}).optional();
+
+export type ArchiveCompletedInput = z.infer<typeof archiveCompletedInputSchema>;
+
+// The todos archiveCompleted moved into the archive
+export const archivedTodosSchema = z.object({
+  ids: z.array(z.number())
+});
+
+export type ArchivedTodos = z.infer<typeof archivedTodosSchema>;
+
+// Input schema for taking a todo back out of the archive
+export const unarchiveTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type UnarchiveTodoInput = z.infer<typeof unarchiveTodoInputSchema>;
+
+// The todos a bulk operation applies to; each is handled on its own, see bulkResultSchema
+const bulkTodoIdsSchema = z.array(z.number()).min(1, "Select at least one todo").max(500)
+  .transform(ids => [...new Set(ids)]);
+
+// Input schema for changing many todos at once, all in one transaction
+// completed: completes or reopens them, like updateTodoCompletion
+// list_id: moves them into a list (null moves them out of their lists)
+// add_tags / remove_tag_ids: tags to attach by name and to detach by id
+export const bulkUpdateTodosInputSchema = z.object({
+  ids: bulkTodoIdsSchema,
+  completed: z.boolean().optional(),
+  list_id: z.number().nullable().optional(),
+  priority: prioritySchema.nullable().optional(),
+  add_tags: z.array(tagNameSchema).default([]),
+  remove_tag_ids: z.array(z.number()).default([])
+}).refine(input =>
+  input.completed !== undefined || input.list_id !== undefined || input.priority !== undefined ||
+  input.add_tags.length > 0 || input.remove_tag_ids.length > 0, {
+  message: "Nothing to change"
+});
+
+export type BulkUpdateTodosInput = z.infer<typeof bulkUpdateTodosInputSchema>;
+
+// Input schema for moving many todos to the trash at once
+export const bulkDeleteTodosInputSchema = z.object({
+  ids: bulkTodoIdsSchema
+});
+
+export type BulkDeleteTodosInput = z.infer<typeof bulkDeleteTodosInputSchema>;
+
+// What happened to one todo of a bulk operation. A todo that fails (not found, read-only,
+// a list the user may not move it to) is left unchanged without affecting the others
+export const bulkResultSchema = z.object({
+  id: z.number(),
+  success: z.boolean(),
+  error: z.string().nullable()
+});
+
+export type BulkResult = z.infer<typeof bulkResultSchema>;
+
+// Comment schema
+export const commentSchema = z.object({
+  id: z.number(),
+  todo_id: z.number(),
+  author_id: z.number(),
+  author_name: z.string(),
+  body: z.string(),
+  edited: z.boolean(), // true once the body was changed after posting
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Comment = z.infer<typeof commentSchema>;
+
+// Input schema for loading a todo's comments, oldest first
+export const getCommentsInputSchema = z.object({
+  todo_id: z.number()
+});
+
+export type GetCommentsInput = z.infer<typeof getCommentsInputSchema>;
+
+// Input schema for commenting on a todo
+export const addCommentInputSchema = z.object({
+  todo_id: z.number(),
+  body: z.string().trim().min(1, "Comment cannot be empty")
+});
+
+export type AddCommentInput = z.infer<typeof addCommentInputSchema>;
+
+// Input schema for editing a comment; only its author can
+export const updateCommentInputSchema = z.object({
+  id: z.number(),
+  body: z.string().trim().min(1, "Comment cannot be empty")
+});
+
+export type UpdateCommentInput = z.infer<typeof updateCommentInputSchema>;
+
+// Input schema for deleting a comment; only its author can
+export const deleteCommentInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteCommentInput = z.infer<typeof deleteCommentInputSchema>;
+
+// Kinds of changes recorded in a todo's activity log
+export const todoEventTypeSchema = z.enum([
+  'created',
+  'edited',
+  'completed',
+  'reopened',
+  'deleted',
+  'restored',
+  'archived',
+  'unarchived',
+  'reordered',
+  'assigned',
+  'tagged',
+  'untagged',
+  'tag_renamed',
+  'checklist_item_added',
+  'checklist_item_edited',
+  'checklist_item_completed',
+  'checklist_item_reopened',
+  'checklist_item_deleted',
+  'checklist_reordered'
+]);
+
+export type TodoEventType = z.infer<typeof todoEventTypeSchema>;
+
+// Fields of a todo whose edits are recorded; 'due' covers both due_at and due_has_time
+export const todoEventFieldSchema = z.enum(['title', 'description', 'list', 'due', 'priority', 'recurrence']);
+
+export type TodoEventField = z.infer<typeof todoEventFieldSchema>;
+
+// One entry of a todo's activity log
+// field: which field an 'edited' event changed, null for other events
+// from_value/to_value: the old and new value of the field, or what the event was about
+// (tag name, checklist item title, assignee name) as it was at the time
+// A due date is recorded as { due_at, due_has_time } and a list by its name
+export const todoEventSchema = z.object({
+  id: z.number(),
+  todo_id: z.number(),
+  actor_id: z.number().nullable(),
+  actor_name: z.string().nullable(), // null once the actor's account is deleted
+  type: todoEventTypeSchema,
+  field: todoEventFieldSchema.nullable(),
+  from_value: z.unknown(),
+  to_value: z.unknown(),
+  created_at: z.coerce.date()
+});
+
+export type TodoEvent = z.infer<typeof todoEventSchema>;
+
+// Input schema for loading a todo's activity log, newest first
+export const getTodoHistoryInputSchema = z.object({
+  todo_id: z.number()
+});
+
+export type GetTodoHistoryInput = z.infer<typeof getTodoHistoryInputSchema>;
+
+// A change to a todo pushed to subscribers who can see it. 'deleted' also covers todos that
+// left the subscriber's view, e.g. by moving to a list they cannot read, so it only carries the id
+export const todoChangeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('created'), todo: todoSchema }),
+  z.object({ type: z.literal('updated'), todo: todoSchema }),
+  z.object({ type: z.literal('deleted'), id: z.number() })
+]);
+
+export type TodoChange = z.infer<typeof todoChangeSchema>;
+
+// Input schema for full-text search over the title and description of live (or archived) todos
+// Every word must match, as a prefix; results are ranked best match first
+export const searchTodosInputSchema = z.object({
+  query: z.string().trim().min(1, "Search cannot be empty").max(200),
+  archived: z.boolean().default(false), // Searches the archive instead of the live todos
+  limit: z.number().int().min(1).max(100).default(50)
+});
+
+export type SearchTodosInput = z.infer<typeof searchTodosInputSchema>;
+
+// A run of text in a search result; match marks the words that matched the search
+export const snippetPartSchema = z.object({
+  text: z.string(),
+  match: z.boolean()
+});
+
+export type SnippetPart = z.infer<typeof snippetPartSchema>;
+
+// A todo found by searchTodos, with its title highlighted and excerpts of its description
+export const searchResultSchema = z.object({
+  todo: todoSchema,
+  rank: z.number(),
+  title: z.array(snippetPartSchema),
+  description: z.array(snippetPartSchema).nullable() // null when the todo has no description
+});
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
+// Formats todos are exported to and imported from
+// json: every field, for backups and moving data between servers
+// csv: one row per todo, for spreadsheets
+// markdown: GitHub-flavored "- [ ]" / "- [x]" checklists, with checklist steps nested under their todo
+export const transferFormatSchema = z.enum(['json', 'csv', 'markdown']);
+
+export type TransferFormat = z.infer<typeof transferFormatSchema>;
+
+// Input schema for exporting the todos the user can see
+// listId: omitted = every list and unfiled todos, null = unfiled todos only, number = that list
+// includeArchived: also export the archive; the trash is never exported
+export const exportTodosInputSchema = z.object({
+  format: transferFormatSchema,
+  listId: z.number().nullable().optional(),
+  includeArchived: z.boolean().default(false)
+});
+
+export type ExportTodosInput = z.infer<typeof exportTodosInputSchema>;
+
+// An exported file, for the client to offer as a download
+export const exportFileSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  content: z.string()
+});
+
+export type ExportFile = z.infer<typeof exportFileSchema>;
+
+// A todo read from an import file. Each field is validated like the todo it becomes, so the
+// rules come from todoSchema; tags and checklist steps are carried by name and title.
+// Ids, lists, assignees and timestamps are not imported
+export const importedTodoSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  description: todoSchema.shape.description.default(null),
+  completed: todoSchema.shape.completed.default(false),
+  due_at: todoSchema.shape.due_at.default(null),
+  due_has_time: todoSchema.shape.due_has_time.default(false),
+  priority: todoSchema.shape.priority.default(null),
+  recurrence: todoSchema.shape.recurrence.default(null),
+  tags: z.array(tagNameSchema).default([]),
+  checklist: z.array(checklistItemSchema.pick({ title: true, completed: true })).default([]),
+  list: z.string().trim().min(1).nullable().default(null), // The name of the list it was in
+  archived: z.boolean().default(false)
+});
+
+export type ImportedTodo = z.infer<typeof importedTodoSchema>;
+
+// Input schema for importing todos into a list the user may edit (null = back into the lists
+// the file names, found by name among the lists the user may edit or created, or unfiled)
+// dry_run: validates and checks for duplicates without creating anything, for a preview
+// skip_duplicates: leaves out todos with the same title and due date as one already in their
+// list, or earlier in the file
+export const importTodosInputSchema = z.object({
+  format: transferFormatSchema,
+  content: z.string().min(1, "The file is empty").max(5_000_000, "The file is too large"),
+  list_id: z.number().nullable().default(null),
+  dry_run: z.boolean().default(false),
+  skip_duplicates: z.boolean().default(true)
+});
+
+export type ImportTodosInput = z.infer<typeof importTodosInputSchema>;
+
+// What became of one todo in an import file
+// row: the todo's 1-based position among the todos in the file
+// title: null when the file did not give the todo a usable title
+// errors: why an invalid todo was rejected, one message per field
+export const importRowSchema = z.object({
+  row: z.number().int(),
+  title: z.string().nullable(),
+  status: z.enum(['new', 'duplicate', 'invalid']),
+  errors: z.array(z.string())
+});
+
+export type ImportRow = z.infer<typeof importRowSchema>;
+
+// The validation report of an import; imported is 0 on a dry run
+export const importReportSchema = z.object({
+  dry_run: z.boolean(),
+  imported: z.number().int(),
+  rows: z.array(importRowSchema)
+});
+
+export type ImportReport = z.infer<typeof importReportSchema>;
+
+// Input schema for exporting todos as a todo.txt file; the same choices as exportTodos
+export const exportTodoTxtInputSchema = exportTodosInputSchema.omit({ format: true });
+
+export type ExportTodoTxtInput = z.infer<typeof exportTodoTxtInputSchema>;
+
+// Input schema for importing a todo.txt file; the same options as importTodos
+export const importTodoTxtInputSchema = importTodosInputSchema.omit({ format: true });
+
+export type ImportTodoTxtInput = z.infer<typeof importTodoTxtInputSchema>;
+
+// The user's calendar feed link; the token in it is only returned when the link is created
+export const calendarFeedSchema = z.object({
+  created_at: z.coerce.date(),
+  last_fetched_at: z.coerce.date().nullable()
+});
+
+export type CalendarFeed = z.infer<typeof calendarFeedSchema>;
+
+// A newly created calendar feed link, with the token that goes into its URL
+export const createdCalendarFeedSchema = calendarFeedSchema.extend({
+  token: z.string()
+});
+
+export type CreatedCalendarFeed = z.infer<typeof createdCalendarFeedSchema>;
+
+// Input schema for importing the VTODOs of an iCalendar (.ics) file; the same options as importTodos
+export const importICalendarInputSchema = importTodosInputSchema.omit({ format: true });
+
+export type ImportICalendarInput = z.infer<typeof importICalendarInputSchema>;
+
+// What a personal API token may be used for. Queries need read and mutations need write;
+// deleting (and removing) things needs delete
+export const apiTokenScopeSchema = z.enum(['read', 'write', 'delete']);
+
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
+// A personal API token; the token itself is only returned when it is created
+export const apiTokenSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  token_prefix: z.string(), // The start of the token, to tell tokens apart
+  scopes: z.array(apiTokenScopeSchema),
+  expires_at: z.coerce.date().nullable(), // null for tokens that never expire
+  last_used_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+
+// A newly created personal API token, with the token to send as "Authorization: Bearer <token>"
+export const createdApiTokenSchema = apiTokenSchema.extend({
+  token: z.string()
+});
+
+export type CreatedApiToken = z.infer<typeof createdApiTokenSchema>;
+
+// Input schema for creating a personal API token; it expires after 30 days unless told otherwise
+export const createApiTokenInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  scopes: z.array(apiTokenScopeSchema).min(1, "Pick at least one scope")
+    .transform(scopes => [...new Set(scopes)]),
+  expires_in_days: z.number().int().min(1).max(365).nullable().default(30) // null for no expiry
+});
+
+export type CreateApiTokenInput = z.infer<typeof createApiTokenInputSchema>;
+
+// Input schema for revoking a personal API token
+export const revokeApiTokenInputSchema = z.object({
+  id: z.number()
+});
+
+export type RevokeApiTokenInput = z.infer<typeof revokeApiTokenInputSchema>;
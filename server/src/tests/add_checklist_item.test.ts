@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, todosTable } from '../db/schema';
+import { type AddChecklistItemInput, type User } from '../schema';
+import { addChecklistItem } from '../handlers/add_checklist_item';
+import { eq } from 'drizzle-orm';
+
+describe('addChecklistItem', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestTodo = async () => {
+    const result = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Release 1.2', completed: false })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
+  it('should add a checklist item to a todo', async () => {
+    const todo = await createTestTodo();
+
+    const input: AddChecklistItemInput = { todo_id: todo.id, title: 'Tag the release' };
+    const result = await addChecklistItem(input, user.id);
+
+    expect(result.id).toEqual(todo.id);
+    expect(result.checklist).toHaveLength(1);
+    expect(result.checklist[0].title).toEqual('Tag the release');
+    expect(result.checklist[0].completed).toBe(false);
+    expect(result.checklist[0].position).toEqual(0);
+    expect(result.checklist[0].todo_id).toEqual(todo.id);
+    expect(result.checklist[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should append items in order', async () => {
+    const todo = await createTestTodo();
+
+    await addChecklistItem({ todo_id: todo.id, title: 'First' }, user.id);
+    await addChecklistItem({ todo_id: todo.id, title: 'Second' }, user.id);
+    const result = await addChecklistItem({ todo_id: todo.id, title: 'Third' }, user.id);
+
+    expect(result.checklist.map(item => item.title)).toEqual(['First', 'Second', 'Third']);
+    expect(result.checklist.map(item => item.position)).toEqual([0, 1, 2]);
+  });
+
+  it('should number positions per todo', async () => {
+    const first = await createTestTodo();
+    const second = await createTestTodo();
+
+    await addChecklistItem({ todo_id: first.id, title: 'First todo item' }, user.id);
+    const result = await addChecklistItem({ todo_id: second.id, title: 'Second todo item' }, user.id);
+
+    expect(result.checklist[0].position).toEqual(0);
+
+    const items = await db.select()
+      .from(checklistItemsTable)
+      .where(eq(checklistItemsTable.todo_id, first.id))
+      .execute();
+    expect(items).toHaveLength(1);
+  });
+
+  it('should throw error when todo does not exist', async () => {
+    await expect(addChecklistItem({ todo_id: 999, title: 'Nope' }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/i);
+  });
+});
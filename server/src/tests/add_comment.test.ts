@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { commentsTable, listMembersTable, listsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { addComment } from '../handlers/add_comment';
+
+describe('addComment', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestTodo = async (listId: number | null = null) => {
+    const result = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Plan the offsite', list_id: listId })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
+  it('should add a comment with its author', async () => {
+    const todo = await createTestTodo();
+
+    const result = await addComment({ todo_id: todo.id, body: 'Booked the venue' }, user.id);
+
+    expect(result.todo_id).toEqual(todo.id);
+    expect(result.author_id).toEqual(user.id);
+    expect(result.author_name).toEqual('test');
+    expect(result.body).toEqual('Booked the venue');
+    expect(result.edited).toBe(false);
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const comments = await db.select().from(commentsTable).execute();
+    expect(comments).toHaveLength(1);
+  });
+
+  it('should let editors of a shared list comment', async () => {
+    const editor = await createTestUser('editor@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Team' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: lists[0].id, user_id: editor.id, role: 'editor', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+    const todo = await createTestTodo(lists[0].id);
+
+    const result = await addComment({ todo_id: todo.id, body: 'On it' }, editor.id);
+
+    expect(result.author_name).toEqual('editor');
+  });
+
+  it('should not let viewers of a shared list comment', async () => {
+    const viewer = await createTestUser('viewer@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Team' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: lists[0].id, user_id: viewer.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+    const todo = await createTestTodo(lists[0].id);
+
+    await expect(addComment({ todo_id: todo.id, body: 'Hi' }, viewer.id))
+      .rejects.toThrow(/read-only for you/);
+  });
+
+  it('should not comment on another user\'s todo', async () => {
+    const other = await createTestUser('other@example.com');
+    const todo = await createTestTodo();
+
+    await expect(addComment({ todo_id: todo.id, body: 'Hi' }, other.id))
+      .rejects.toThrow(new RegExp(`Todo with id ${todo.id} not found`));
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todoEventsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { archiveCompleted } from '../handlers/archive_completed';
+import { asc, isNotNull } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('archiveCompleted', () => {
+  let user: User;
+  let other: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    other = await createTestUser('other@example.com');
+  });
+  afterEach(resetDB);
+
+  const archivedTitles = async () => {
+    const rows = await db.select()
+      .from(todosTable)
+      .where(isNotNull(todosTable.archived_at))
+      .orderBy(asc(todosTable.id))
+      .execute();
+    return rows.map(todo => todo.title);
+  };
+
+  it('should archive every completed todo and nothing else', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Done', completed: true },
+        { owner_id: user.id, title: 'Open', completed: false },
+        { owner_id: user.id, title: 'Trashed', completed: true, deleted_at: new Date() }
+      ])
+      .returning()
+      .execute();
+
+    const result = await archiveCompleted(undefined, user.id);
+
+    expect(result).toEqual({ ids: [todos[0].id] });
+    expect(await archivedTitles()).toEqual(['Done']);
+
+    // Recorded in the todo's history
+    const events = await db.select().from(todoEventsTable).execute();
+    expect(events.map(event => [event.todo_id, event.type])).toEqual([[todos[0].id, 'archived']]);
+
+    // Archiving again finds nothing left to archive
+    expect(await archiveCompleted(undefined, user.id)).toEqual({ ids: [] });
+  });
+
+  it('should only archive todos in the given list', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: user.id, name: 'Work' }).returning().execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'In list', completed: true, list_id: list.id },
+        { owner_id: user.id, title: 'Unfiled', completed: true }
+      ])
+      .execute();
+
+    await archiveCompleted({ listId: list.id }, user.id);
+    expect(await archivedTitles()).toEqual(['In list']);
+
+    await archiveCompleted({ listId: null }, user.id);
+    expect(await archivedTitles()).toEqual(['In list', 'Unfiled']);
+  });
+
+  it('should only archive todos untouched for the given number of days', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Long done', completed: true, updated_at: new Date(Date.now() - 10 * DAY_MS) },
+        { owner_id: user.id, title: 'Just done', completed: true }
+      ])
+      .execute();
+
+    await archiveCompleted({ olderThanDays: 7 }, user.id);
+
+    expect(await archivedTitles()).toEqual(['Long done']);
+  });
+
+  it('should leave todos the user cannot edit alone', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: other.id, name: 'Team' }).returning().execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: list.id, user_id: user.id, role: 'viewer', invited_by: other.id, accepted_at: new Date() })
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: other.id, title: 'Shared', completed: true, list_id: list.id },
+        { owner_id: other.id, title: 'Private', completed: true }
+      ])
+      .execute();
+
+    expect(await archiveCompleted(undefined, user.id)).toEqual({ ids: [] });
+    // Asking for a list the user may not edit is an error
+    await expect(archiveCompleted({ listId: list.id }, user.id)).rejects.toThrow();
+  });
+});
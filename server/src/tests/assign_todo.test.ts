@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todoAssignmentsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { assignTodo } from '../handlers/assign_todo';
+import { eq } from 'drizzle-orm';
+
+describe('assignTodo', () => {
+  let user: User;
+  let editor: User;
+  let viewer: User;
+  let listId: number;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    editor = await createTestUser('editor@example.com');
+    viewer = await createTestUser('viewer@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Team' })
+      .returning()
+      .execute();
+    listId = lists[0].id;
+    await db.insert(listMembersTable)
+      .values([
+        { list_id: listId, user_id: editor.id, role: 'editor', invited_by: user.id, accepted_at: new Date() },
+        { list_id: listId, user_id: viewer.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  const createTodo = async (list: number | null = listId) => {
+    const result = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Write release notes', list_id: list })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
+  it('should assign a todo to an editor of its list', async () => {
+    const todo = await createTodo();
+
+    const result = await assignTodo({ id: todo.id, assignee_id: editor.id }, user.id);
+
+    expect(result.assignee_id).toEqual(editor.id);
+    expect(result.assignee_name).toEqual('editor');
+    expect(result.assignments).toHaveLength(1);
+    expect(result.assignments[0].assignee_id).toEqual(editor.id);
+    expect(result.assignments[0].assigned_by).toEqual(user.id);
+    expect(result.assignments[0].assigned_by_name).toEqual('test');
+    expect(result.assignments[0].created_at).toBeInstanceOf(Date);
+
+    const rows = await db.select().from(todosTable).where(eq(todosTable.id, todo.id)).execute();
+    expect(rows[0].assignee_id).toEqual(editor.id);
+  });
+
+  it('should record every reassignment in order', async () => {
+    const todo = await createTodo();
+
+    await assignTodo({ id: todo.id, assignee_id: editor.id }, user.id);
+    await assignTodo({ id: todo.id, assignee_id: user.id }, editor.id);
+    const result = await assignTodo({ id: todo.id, assignee_id: null }, user.id);
+
+    expect(result.assignee_id).toBeNull();
+    expect(result.assignee_name).toBeNull();
+    expect(result.assignments.map(entry => [entry.assignee_name, entry.assigned_by_name])).toEqual([
+      ['editor', 'test'],
+      ['test', 'editor'],
+      [null, 'test']
+    ]);
+  });
+
+  it('should not record anything when the assignee does not change', async () => {
+    const todo = await createTodo();
+
+    await assignTodo({ id: todo.id, assignee_id: editor.id }, user.id);
+    const result = await assignTodo({ id: todo.id, assignee_id: editor.id }, user.id);
+
+    expect(result.assignments).toHaveLength(1);
+
+    const history = await db.select().from(todoAssignmentsTable).execute();
+    expect(history).toHaveLength(1);
+  });
+
+  it('should not assign a todo to a viewer of its list', async () => {
+    const todo = await createTodo();
+
+    await expect(assignTodo({ id: todo.id, assignee_id: viewer.id }, user.id))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: `User with id ${viewer.id} cannot be assigned to todo ${todo.id}` });
+  });
+
+  it('should only assign a todo outside lists to its owner', async () => {
+    const todo = await createTodo(null);
+
+    const result = await assignTodo({ id: todo.id, assignee_id: user.id }, user.id);
+    expect(result.assignee_id).toEqual(user.id);
+
+    await expect(assignTodo({ id: todo.id, assignee_id: editor.id }, user.id))
+      .rejects.toThrow(/cannot be assigned/);
+  });
+
+  it('should not let viewers assign todos', async () => {
+    const todo = await createTodo();
+
+    await expect(assignTodo({ id: todo.id, assignee_id: viewer.id }, viewer.id))
+      .rejects.toThrow(/read-only for you/);
+  });
+
+  it('should throw error when todo does not exist', async () => {
+    await expect(assignTodo({ id: 999, assignee_id: user.id }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/);
+  });
+});
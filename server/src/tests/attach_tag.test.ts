@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { attachTagInputSchema, type AttachTagInput, type User } from '../schema';
+import { attachTag } from '../handlers/attach_tag';
+import { eq } from 'drizzle-orm';
+
+describe('attachTag', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestTodo = async () => {
+    const result = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Fix login', completed: false })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
+  it('should create the tag and attach it to the todo', async () => {
+    const todo = await createTestTodo();
+
+    const input: AttachTagInput = { todo_id: todo.id, name: 'bug' };
+    const result = await attachTag(input, user.id);
+
+    expect(result.id).toEqual(todo.id);
+    expect(result.tags).toHaveLength(1);
+    expect(result.tags[0].name).toEqual('bug');
+    expect(result.tags[0].created_at).toBeInstanceOf(Date);
+
+    const tags = await db.select().from(tagsTable).execute();
+    expect(tags).toHaveLength(1);
+  });
+
+  it('should reuse an existing tag with the same name', async () => {
+    const todo = await createTestTodo();
+    const existing = await db.insert(tagsTable)
+      .values({ owner_id: user.id, name: 'errand' })
+      .returning()
+      .execute();
+
+    const result = await attachTag({ todo_id: todo.id, name: 'errand' }, user.id);
+
+    expect(result.tags.map(tag => tag.id)).toEqual([existing[0].id]);
+
+    const tags = await db.select().from(tagsTable).execute();
+    expect(tags).toHaveLength(1);
+  });
+
+  it('should not duplicate a tag attached twice', async () => {
+    const todo = await createTestTodo();
+
+    await attachTag({ todo_id: todo.id, name: 'bug' }, user.id);
+    const result = await attachTag({ todo_id: todo.id, name: 'bug' }, user.id);
+
+    expect(result.tags).toHaveLength(1);
+
+    const links = await db.select()
+      .from(todoTagsTable)
+      .where(eq(todoTagsTable.todo_id, todo.id))
+      .execute();
+    expect(links).toHaveLength(1);
+  });
+
+  it('should return tags sorted by name', async () => {
+    const todo = await createTestTodo();
+
+    await attachTag({ todo_id: todo.id, name: 'urgent' }, user.id);
+    const result = await attachTag({ todo_id: todo.id, name: 'bug' }, user.id);
+
+    expect(result.tags.map(tag => tag.name)).toEqual(['bug', 'urgent']);
+  });
+
+  it('should normalize tag names in the input schema', async () => {
+    const input = attachTagInputSchema.parse({ todo_id: 1, name: '  #Bug ' });
+
+    expect(input.name).toEqual('bug');
+    expect(() => attachTagInputSchema.parse({ todo_id: 1, name: '#' })).toThrow();
+  });
+
+  it('should throw error when todo does not exist', async () => {
+    await expect(attachTag({ todo_id: 999, name: 'bug' }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/i);
+  });
+
+  it('should keep tag names separate per user', async () => {
+    const todo = await createTestTodo();
+    const other = await createTestUser('other@example.com');
+    const theirs = await db.insert(tagsTable)
+      .values({ owner_id: other.id, name: 'bug' })
+      .returning()
+      .execute();
+
+    const result = await attachTag({ todo_id: todo.id, name: 'bug' }, user.id);
+
+    expect(result.tags[0].id).not.toEqual(theirs[0].id);
+    expect(result.tags[0].owner_id).toEqual(user.id);
+  });
+
+  it('should not tag a todo owned by another user', async () => {
+    const todo = await createTestTodo();
+    const other = await createTestUser('other@example.com');
+
+    await expect(attachTag({ todo_id: todo.id, name: 'bug' }, other.id))
+      .rejects.toThrow(new RegExp(`Todo with id ${todo.id} not found`));
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { bulkDeleteTodos } from '../handlers/bulk_delete_todos';
+import { asc, isNotNull } from 'drizzle-orm';
+
+describe('bulkDeleteTodos', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should move every todo to the trash', async () => {
+    const todos = await db.insert(todosTable)
+      .values([{ owner_id: user.id, title: 'Write report' }, { owner_id: user.id, title: 'Send invoice' }])
+      .returning()
+      .execute();
+    const ids = todos.map(todo => todo.id);
+
+    const results = await bulkDeleteTodos({ ids }, user.id);
+
+    expect(results).toEqual(ids.map(id => ({ id, success: true, error: null })));
+    const trashed = await db.select().from(todosTable).where(isNotNull(todosTable.deleted_at)).orderBy(asc(todosTable.id)).execute();
+    expect(trashed.map(todo => todo.id)).toEqual(ids);
+  });
+
+  it('should report todos that are missing or already trashed', async () => {
+    const [todo, trashed] = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Write report' },
+        { owner_id: user.id, title: 'Old task', deleted_at: new Date() }
+      ])
+      .returning()
+      .execute();
+
+    const results = await bulkDeleteTodos({ ids: [todo.id, trashed.id, 99999] }, user.id);
+
+    expect(results).toEqual([
+      { id: todo.id, success: true, error: null },
+      { id: trashed.id, success: false, error: `Todo with id ${trashed.id} is already in the trash` },
+      { id: 99999, success: false, error: 'Todo with id 99999 not found' }
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, tagsTable, todoEventsTable, todosTable, todoTagsTable } from '../db/schema';
+import { bulkUpdateTodosInputSchema, type BulkUpdateTodosInput, type User } from '../schema';
+import { bulkUpdateTodos } from '../handlers/bulk_update_todos';
+import { asc, eq, inArray } from 'drizzle-orm';
+
+describe('bulkUpdateTodos', () => {
+  let user: User;
+  let other: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    other = await createTestUser('other@example.com');
+  });
+  afterEach(resetDB);
+
+  const createTodos = async (ownerId: number, ...titles: string[]) =>
+    db.insert(todosTable)
+      .values(titles.map(title => ({ owner_id: ownerId, title })))
+      .returning()
+      .execute();
+
+  const update = (input: Omit<BulkUpdateTodosInput, 'add_tags' | 'remove_tag_ids'> & Partial<BulkUpdateTodosInput>) =>
+    bulkUpdateTodos({ add_tags: [], remove_tag_ids: [], ...input }, user.id);
+
+  const load = (ids: number[]) =>
+    db.select().from(todosTable).where(inArray(todosTable.id, ids)).orderBy(asc(todosTable.id)).execute();
+
+  it('should complete every todo and report each one', async () => {
+    const todos = await createTodos(user.id, 'Write report', 'Send invoice');
+    const ids = todos.map(todo => todo.id);
+
+    const results = await update({ ids, completed: true });
+
+    expect(results).toEqual(ids.map(id => ({ id, success: true, error: null })));
+    expect((await load(ids)).map(todo => todo.completed)).toEqual([true, true]);
+  });
+
+  it('should move todos into a list and set their priority', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: user.id, name: 'Work' }).returning().execute();
+    const todos = await createTodos(user.id, 'Write report', 'Send invoice');
+    const ids = todos.map(todo => todo.id);
+
+    await update({ ids, list_id: list.id, priority: 'p1' });
+
+    const updated = await load(ids);
+    expect(updated.map(todo => todo.list_id)).toEqual([list.id, list.id]);
+    expect(updated.map(todo => todo.priority)).toEqual(['p1', 'p1']);
+
+    // Each change is in the todo's history
+    const events = await db.select().from(todoEventsTable).where(eq(todoEventsTable.field, 'list')).execute();
+    expect(events).toHaveLength(2);
+  });
+
+  it('should add and remove tags', async () => {
+    const todos = await createTodos(user.id, 'Write report', 'Send invoice');
+    const ids = todos.map(todo => todo.id);
+    const [old] = await db.insert(tagsTable).values({ owner_id: user.id, name: 'later' }).returning().execute();
+    await db.insert(todoTagsTable).values({ todo_id: ids[0], tag_id: old.id }).execute();
+
+    await update({ ids, add_tags: ['work'], remove_tag_ids: [old.id] });
+
+    const links = await db.select({ todo_id: todoTagsTable.todo_id, name: tagsTable.name })
+      .from(todoTagsTable)
+      .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+      .orderBy(asc(todoTagsTable.todo_id))
+      .execute();
+    expect(links).toEqual([{ todo_id: ids[0], name: 'work' }, { todo_id: ids[1], name: 'work' }]);
+  });
+
+  it('should report todos that fail without undoing the others', async () => {
+    const [own] = await createTodos(user.id, 'Write report');
+    const [foreign] = await createTodos(other.id, 'Private task');
+    const [list] = await db.insert(listsTable).values({ owner_id: other.id, name: 'Team' }).returning().execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: list.id, user_id: user.id, role: 'viewer', invited_by: other.id, accepted_at: new Date() })
+      .execute();
+    const [readOnly] = await db.insert(todosTable)
+      .values({ owner_id: other.id, list_id: list.id, title: 'Shared task' })
+      .returning()
+      .execute();
+
+    const results = await update({ ids: [own.id, foreign.id, readOnly.id, 99999], completed: true });
+
+    expect(results).toEqual([
+      { id: own.id, success: true, error: null },
+      { id: foreign.id, success: false, error: `Todo with id ${foreign.id} not found` },
+      { id: readOnly.id, success: false, error: `Todo with id ${readOnly.id} is read-only for you` },
+      { id: 99999, success: false, error: 'Todo with id 99999 not found' }
+    ]);
+    expect((await load([own.id, foreign.id, readOnly.id])).map(todo => todo.completed)).toEqual([true, false, false]);
+  });
+
+  it('should leave trashed and archived todos alone', async () => {
+    const [live, trashed, archived] = await createTodos(user.id, 'Write report', 'Old draft', 'Done last year');
+    await db.update(todosTable).set({ deleted_at: new Date() }).where(eq(todosTable.id, trashed.id)).execute();
+    await db.update(todosTable).set({ completed: true, archived_at: new Date() }).where(eq(todosTable.id, archived.id)).execute();
+
+    const results = await update({ ids: [live.id, trashed.id, archived.id], priority: 'p2' });
+
+    expect(results).toEqual([
+      { id: live.id, success: true, error: null },
+      { id: trashed.id, success: false, error: `Todo with id ${trashed.id} is in the trash` },
+      { id: archived.id, success: false, error: `Todo with id ${archived.id} is archived` }
+    ]);
+    expect((await load([live.id, trashed.id, archived.id])).map(todo => todo.priority)).toEqual(['p2', null, null]);
+  });
+
+  it('should roll back a todo whose later change fails', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: other.id, name: 'Not mine' }).returning().execute();
+    const [todo] = await createTodos(user.id, 'Write report');
+
+    // Tagging would succeed, but the todo cannot be moved into someone else's list
+    const results = await update({ ids: [todo.id], list_id: list.id, add_tags: ['work'] });
+
+    expect(results[0].success).toBe(false);
+    expect(await db.select().from(todoTagsTable).execute()).toHaveLength(0);
+    expect((await load([todo.id]))[0].list_id).toBeNull();
+  });
+
+  it('should reject a request without changes', () => {
+    expect(bulkUpdateTodosInputSchema.safeParse({ ids: [1] }).success).toBe(false);
+    expect(bulkUpdateTodosInputSchema.safeParse({ ids: [], completed: true }).success).toBe(false);
+    // Repeated ids are handled once
+    expect(bulkUpdateTodosInputSchema.parse({ ids: [1, 1, 2], completed: true }).ids).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { createApiTokenInputSchema, type User } from '../schema';
+import { createApiToken } from '../handlers/create_api_token';
+import { getApiTokenAuth, readBearerToken } from '../helpers/api_tokens';
+
+describe('createApiToken', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create a token and store only its hash', async () => {
+    const apiToken = await createApiToken({ name: 'CI', scopes: ['read', 'write'], expires_in_days: 30 }, user.id);
+
+    expect(apiToken.token).toMatch(/^tdo_[A-Za-z0-9_-]{43}$/);
+    expect(apiToken.token.startsWith(apiToken.token_prefix)).toBe(true);
+    expect(apiToken.scopes).toEqual(['read', 'write']);
+    expect(apiToken.last_used_at).toBeNull();
+    const days = (apiToken.expires_at!.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(days).toBeCloseTo(30, 1);
+
+    const rows = await db.select().from(apiTokensTable).execute();
+    expect(rows[0].token_hash).not.toEqual(apiToken.token);
+    expect(rows[0].token_hash).not.toContain(apiToken.token);
+  });
+
+  it('should authenticate with the token and record its use', async () => {
+    const apiToken = await createApiToken({ name: 'CI', scopes: ['read'], expires_in_days: null }, user.id);
+    expect(apiToken.expires_at).toBeNull();
+
+    const auth = await getApiTokenAuth(apiToken.token);
+
+    expect(auth).toEqual({ user, scopes: ['read'] });
+    const [row] = await db.select().from(apiTokensTable).execute();
+    expect(row.last_used_at).toBeInstanceOf(Date);
+    expect(await getApiTokenAuth('tdo_unknown')).toBeNull();
+  });
+
+  it('should turn away expired tokens', async () => {
+    const apiToken = await createApiToken({ name: 'CI', scopes: ['read'], expires_in_days: 1 }, user.id);
+    await db.update(apiTokensTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(apiTokensTable.id, apiToken.id))
+      .execute();
+
+    expect(await getApiTokenAuth(apiToken.token)).toBeNull();
+    const [row] = await db.select().from(apiTokensTable).execute();
+    expect(row.last_used_at).toBeNull();
+  });
+
+  it('should validate the input', () => {
+    expect(createApiTokenInputSchema.parse({ name: ' CI ', scopes: ['read', 'read'] }))
+      .toEqual({ name: 'CI', scopes: ['read'], expires_in_days: 30 });
+    expect(createApiTokenInputSchema.safeParse({ name: 'CI', scopes: [] }).success).toBe(false);
+    expect(createApiTokenInputSchema.safeParse({ name: ' ', scopes: ['read'] }).success).toBe(false);
+    expect(createApiTokenInputSchema.safeParse({ name: 'CI', scopes: ['admin'] }).success).toBe(false);
+  });
+
+  it('should read bearer tokens from Authorization headers', () => {
+    expect(readBearerToken('Bearer tdo_abc')).toEqual('tdo_abc');
+    expect(readBearerToken('bearer  tdo_abc')).toEqual('tdo_abc');
+    expect(readBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(readBearerToken(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { type User } from '../schema';
+import { createCalendarFeed } from '../handlers/create_calendar_feed';
+import { getCalendarFeed } from '../handlers/get_calendar_feed';
+import { renderCalendarFeed } from '../handlers/render_calendar_feed';
+
+describe('createCalendarFeed', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create a feed link and store only the hash of its token', async () => {
+    expect(await getCalendarFeed(user.id)).toBeNull();
+
+    const feed = await createCalendarFeed(user.id);
+
+    expect(feed.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(feed.last_fetched_at).toBeNull();
+    expect(await getCalendarFeed(user.id)).toEqual({ created_at: feed.created_at, last_fetched_at: null });
+    const rows = await db.select().from(calendarFeedsTable).execute();
+    expect(rows[0].token_hash).not.toEqual(feed.token);
+  });
+
+  it('should replace the previous link', async () => {
+    const first = await createCalendarFeed(user.id);
+    await renderCalendarFeed(first.token, { events: false });
+
+    const second = await createCalendarFeed(user.id);
+
+    expect(second.token).not.toEqual(first.token);
+    expect(await renderCalendarFeed(first.token, { events: false })).toBeNull();
+    expect(await renderCalendarFeed(second.token, { events: false })).toStartWith('BEGIN:VCALENDAR');
+    // The new link has not been read yet
+    expect(second.last_fetched_at).toBeNull();
+  });
+});
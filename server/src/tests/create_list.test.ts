@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { type CreateListInput, type User } from '../schema';
+import { createList } from '../handlers/create_list';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateListInput = {
+  name: 'Sprint 42'
+};
+
+describe('createList', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create a list', async () => {
+    const result = await createList(testInput, user.id);
+
+    expect(result.name).toEqual('Sprint 42');
+    expect(result.id).toBeDefined();
+    expect(typeof result.id).toBe('number');
+    expect(result.created_at).toBeInstanceOf(Date);
+    expect(result.updated_at).toBeInstanceOf(Date);
+  });
+
+  it('should save list to database', async () => {
+    const result = await createList(testInput, user.id);
+
+    const lists = await db.select()
+      .from(listsTable)
+      .where(eq(listsTable.id, result.id))
+      .execute();
+
+    expect(lists).toHaveLength(1);
+    expect(lists[0].name).toEqual('Sprint 42');
+  });
+
+  it('should allow lists with the same name', async () => {
+    const first = await createList({ name: 'Home' }, user.id);
+    const second = await createList({ name: 'Home' }, user.id);
+
+    expect(first.id).not.toEqual(second.id);
+  });
+});
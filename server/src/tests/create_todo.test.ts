@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { type CreateTodoInput } from '../schema';
+import { listMembersTable, listsTable, todosTable } from '../db/schema';
+import { type CreateTodoInput, type User } from '../schema';
 import { createTodo } from '../handlers/create_todo';
 import { eq } from 'drizzle-orm';
 
@@ -23,11 +23,16 @@ const testInputWithNullDescription: CreateTodoInput = {
 };
 
 describe('createTodo', () => {
+  let user: User;
+
   beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
   afterEach(resetDB);
 
   it('should create a todo with description', async () => {
-    const result = await createTodo(testInputWithDescription);
+    const result = await createTodo(testInputWithDescription, user.id);
 
     // Basic field validation
     expect(result.title).toEqual('Test Todo with Description');
@@ -40,7 +45,7 @@ describe('createTodo', () => {
   });
 
   it('should create a todo without description', async () => {
-    const result = await createTodo(testInputWithoutDescription);
+    const result = await createTodo(testInputWithoutDescription, user.id);
 
     // Basic field validation
     expect(result.title).toEqual('Test Todo without Description');
@@ -53,7 +58,7 @@ describe('createTodo', () => {
   });
 
   it('should create a todo with explicit null description', async () => {
-    const result = await createTodo(testInputWithNullDescription);
+    const result = await createTodo(testInputWithNullDescription, user.id);
 
     // Basic field validation
     expect(result.title).toEqual('Test Todo with Null Description');
@@ -66,7 +71,7 @@ describe('createTodo', () => {
   });
 
   it('should save todo to database', async () => {
-    const result = await createTodo(testInputWithDescription);
+    const result = await createTodo(testInputWithDescription, user.id);
 
     // Query using proper drizzle syntax
     const todos = await db.select()
@@ -83,7 +88,7 @@ describe('createTodo', () => {
   });
 
   it('should set default values correctly', async () => {
-    const result = await createTodo(testInputWithDescription);
+    const result = await createTodo(testInputWithDescription, user.id);
 
     // Verify default values
     expect(result.completed).toEqual(false); // Default value from schema
@@ -97,8 +102,8 @@ describe('createTodo', () => {
   });
 
   it('should create multiple todos with unique IDs', async () => {
-    const result1 = await createTodo({ title: 'First Todo' });
-    const result2 = await createTodo({ title: 'Second Todo' });
+    const result1 = await createTodo({ title: 'First Todo' }, user.id);
+    const result2 = await createTodo({ title: 'Second Todo' }, user.id);
 
     expect(result1.id).not.toEqual(result2.id);
     expect(result1.title).toEqual('First Todo');
@@ -121,9 +126,131 @@ describe('createTodo', () => {
       description: 'Test with long title'
     };
 
-    const result = await createTodo(input);
+    const result = await createTodo(input, user.id);
 
     expect(result.title).toEqual(longTitle);
     expect(result.description).toEqual('Test with long title');
   });
-});
\ No newline at end of file
+
+  it('should create a todo in a list', async () => {
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Inbox' })
+      .returning()
+      .execute();
+
+    const result = await createTodo({ title: 'Filed Todo', list_id: lists[0].id }, user.id);
+
+    expect(result.list_id).toEqual(lists[0].id);
+  });
+
+  it('should create an unfiled todo when no list is given', async () => {
+    const result = await createTodo(testInputWithoutDescription, user.id);
+
+    expect(result.list_id).toBeNull();
+  });
+
+  it('should create a todo without tags', async () => {
+    const result = await createTodo(testInputWithDescription, user.id);
+
+    expect(result.tags).toEqual([]);
+  });
+
+  it('should throw error when list does not exist', async () => {
+    await expect(createTodo({ title: 'Orphan', list_id: 999 }, user.id))
+      .rejects.toThrow(/List with id 999 not found/i);
+  });
+
+  it('should create a todo with a due date', async () => {
+    const dueAt = new Date('2030-05-01T00:00:00');
+    const result = await createTodo({ title: 'Due later', due_at: dueAt, due_has_time: false }, user.id);
+
+    expect(result.due_at).toBeInstanceOf(Date);
+    expect(result.due_at!.getTime()).toEqual(dueAt.getTime());
+    expect(result.due_has_time).toBe(false);
+    expect(result.overdue).toBe(false);
+  });
+
+  it('should create a todo with a due date and time of day', async () => {
+    const dueAt = new Date('2030-05-01T14:30:00');
+    const result = await createTodo({ title: 'Meeting', due_at: dueAt, due_has_time: true }, user.id);
+
+    expect(result.due_at!.getTime()).toEqual(dueAt.getTime());
+    expect(result.due_has_time).toBe(true);
+  });
+
+  it('should mark a todo created with a past due date as overdue', async () => {
+    const result = await createTodo({ title: 'Late', due_at: new Date('2020-01-01T09:00:00'), due_has_time: true }, user.id);
+
+    expect(result.overdue).toBe(true);
+  });
+
+  it('should ignore a time of day without a due date', async () => {
+    const result = await createTodo({ title: 'No date', due_at: null, due_has_time: true }, user.id);
+
+    expect(result.due_at).toBeNull();
+    expect(result.due_has_time).toBe(false);
+    expect(result.overdue).toBe(false);
+  });
+
+  it('should create a todo with a priority', async () => {
+    const result = await createTodo({ title: 'Important', priority: 'p1' }, user.id);
+
+    expect(result.priority).toEqual('p1');
+  });
+
+  it('should create a todo without a priority by default', async () => {
+    const result = await createTodo(testInputWithoutDescription, user.id);
+
+    expect(result.priority).toBeNull();
+  });
+
+  it('should create a recurring todo', async () => {
+    const result = await createTodo({
+      title: 'Submit timesheet',
+      due_at: new Date(2030, 0, 18),
+      recurrence: { frequency: 'weekly', interval: 1, weekdays: ['FR'], until: null, count: null }
+    }, user.id);
+
+    expect(result.recurrence).toEqual({ frequency: 'weekly', interval: 1, weekdays: ['FR'], until: null, count: null });
+    expect(result.completed).toBe(false);
+  });
+
+  it('should create a todo that does not repeat by default', async () => {
+    const result = await createTodo(testInputWithoutDescription, user.id);
+
+    expect(result.recurrence).toBeNull();
+  });
+
+  it('should not add a todo to a list owned by another user', async () => {
+    const other = await createTestUser('other@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: other.id, name: 'Private' })
+      .returning()
+      .execute();
+
+    await expect(createTodo({ title: 'Intruder', list_id: lists[0].id }, user.id))
+      .rejects.toThrow(new RegExp(`List with id ${lists[0].id} not found`));
+  });
+
+  it('should let editors but not viewers add todos to a shared list', async () => {
+    const editor = await createTestUser('editor@example.com');
+    const viewer = await createTestUser('viewer@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Release steps' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values([
+        { list_id: lists[0].id, user_id: editor.id, role: 'editor', invited_by: user.id, accepted_at: new Date() },
+        { list_id: lists[0].id, user_id: viewer.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() }
+      ])
+      .execute();
+
+    const result = await createTodo({ title: 'Tag the release', list_id: lists[0].id }, editor.id);
+    expect(result.owner_id).toEqual(editor.id);
+    expect(result.list_id).toEqual(lists[0].id);
+
+    await expect(createTodo({ title: 'Sneaky', list_id: lists[0].id }, viewer.id))
+      .rejects.toThrow(/You need to be owner or editor of list/);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { deleteChecklistItem } from '../handlers/delete_checklist_item';
+
+describe('deleteChecklistItem', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should delete an item and return the remaining checklist', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Packing', completed: false })
+      .returning()
+      .execute();
+    const items = await db.insert(checklistItemsTable)
+      .values([
+        { todo_id: todos[0].id, title: 'Passport', position: 0 },
+        { todo_id: todos[0].id, title: 'Charger', position: 1 }
+      ])
+      .returning()
+      .execute();
+
+    const result = await deleteChecklistItem({ id: items[0].id }, user.id);
+
+    expect(result.id).toEqual(todos[0].id);
+    expect(result.checklist.map(item => item.title)).toEqual(['Charger']);
+
+    const remaining = await db.select().from(checklistItemsTable).execute();
+    expect(remaining).toHaveLength(1);
+  });
+
+  it('should throw error when item does not exist', async () => {
+    await expect(deleteChecklistItem({ id: 999 }, user.id))
+      .rejects.toThrow(/Checklist item with id 999 not found/i);
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { commentsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { deleteComment } from '../handlers/delete_comment';
+
+describe('deleteComment', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestComment = async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Plan the offsite' })
+      .returning()
+      .execute();
+    const result = await db.insert(commentsTable)
+      .values({ todo_id: todos[0].id, author_id: user.id, body: 'Booked the venue' })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
+  it('should delete a comment', async () => {
+    const comment = await createTestComment();
+
+    const result = await deleteComment({ id: comment.id }, user.id);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(commentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should not find comments on todos the user cannot see', async () => {
+    const other = await createTestUser('other@example.com');
+    const comment = await createTestComment();
+
+    await expect(deleteComment({ id: comment.id }, other.id))
+      .rejects.toThrow(new RegExp(`Comment with id ${comment.id} not found`));
+    expect(await db.select().from(commentsTable).execute()).toHaveLength(1);
+  });
+});
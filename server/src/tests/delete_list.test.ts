@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { deleteList } from '../handlers/delete_list';
+import { eq } from 'drizzle-orm';
+
+describe('deleteList', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should delete a list and its todos', async () => {
+    const lists = await db.insert(listsTable)
+      .values([{ owner_id: user.id, name: 'Doomed' }, { owner_id: user.id, name: 'Kept' }])
+      .returning()
+      .execute();
+
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Doomed todo', list_id: lists[0].id },
+        { owner_id: user.id, title: 'Kept todo', list_id: lists[1].id },
+        { owner_id: user.id, title: 'Unfiled todo', list_id: null }
+      ])
+      .execute();
+
+    const result = await deleteList({ id: lists[0].id }, user.id);
+
+    expect(result.success).toBe(true);
+
+    const remainingLists = await db.select()
+      .from(listsTable)
+      .where(eq(listsTable.id, lists[0].id))
+      .execute();
+    expect(remainingLists).toHaveLength(0);
+
+    // Only the deleted list's todos are gone
+    const remainingTodos = await db.select().from(todosTable).execute();
+    expect(remainingTodos.map(todo => todo.title).sort()).toEqual(['Kept todo', 'Unfiled todo']);
+  });
+
+  it('should return false when list does not exist', async () => {
+    const result = await deleteList({ id: 99999 }, user.id);
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -1,19 +1,25 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { type DeleteTodoInput } from '../schema';
+import { checklistItemsTable, listMembersTable, listsTable, todosTable } from '../db/schema';
+import { type DeleteTodoInput, type User } from '../schema';
 import { deleteTodo } from '../handlers/delete_todo';
-import { eq } from 'drizzle-orm';
+import { eq, isNull } from 'drizzle-orm';
 
 describe('deleteTodo', () => {
+  let user: User;
+
   beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
   afterEach(resetDB);
 
-  it('should delete an existing todo', async () => {
+  it('should move an existing todo to the trash', async () => {
     // Create a test todo first
     const insertResult = await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'Test Todo',
         description: 'A todo to be deleted',
         completed: false
@@ -28,18 +34,20 @@ describe('deleteTodo', () => {
     };
 
     // Delete the todo
-    const result = await deleteTodo(deleteInput);
+    const result = await deleteTodo(deleteInput, user.id);
 
     // Should indicate success
     expect(result.success).toBe(true);
 
-    // Verify todo was actually deleted from database
+    // Verify todo was kept but marked as trashed
     const todos = await db.select()
       .from(todosTable)
       .where(eq(todosTable.id, createdTodo.id))
       .execute();
 
-    expect(todos).toHaveLength(0);
+    expect(todos).toHaveLength(1);
+    expect(todos[0].deleted_at).toBeInstanceOf(Date);
+    expect(todos[0].title).toEqual('Test Todo');
   });
 
   it('should return false when todo does not exist', async () => {
@@ -47,27 +55,48 @@ describe('deleteTodo', () => {
       id: 99999 // Non-existent ID
     };
 
-    const result = await deleteTodo(deleteInput);
+    const result = await deleteTodo(deleteInput, user.id);
 
     // Should indicate failure when todo doesn't exist
     expect(result.success).toBe(false);
   });
 
+  it('should return false when todo is already in the trash', async () => {
+    const insertResult = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Trashed Todo', deleted_at: new Date('2030-01-01T00:00:00Z') })
+      .returning()
+      .execute();
+
+    const result = await deleteTodo({ id: insertResult[0].id }, user.id);
+
+    expect(result.success).toBe(false);
+
+    // The original deletion time is kept
+    const todos = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, insertResult[0].id))
+      .execute();
+    expect(todos[0].deleted_at).toEqual(new Date('2030-01-01T00:00:00Z'));
+  });
+
   it('should not affect other todos when deleting', async () => {
     // Create multiple test todos
     const insertResults = await db.insert(todosTable)
       .values([
         {
+          owner_id: user.id,
           title: 'Todo 1',
           description: 'First todo',
           completed: false
         },
         {
+          owner_id: user.id,
           title: 'Todo 2', 
           description: 'Second todo',
           completed: true
         },
         {
+          owner_id: user.id,
           title: 'Todo 3',
           description: 'Third todo',
           completed: false
@@ -83,13 +112,14 @@ describe('deleteTodo', () => {
     };
 
     // Delete one specific todo
-    const result = await deleteTodo(deleteInput);
+    const result = await deleteTodo(deleteInput, user.id);
 
     expect(result.success).toBe(true);
 
-    // Verify only the targeted todo was deleted
+    // Verify only the targeted todo was trashed
     const remainingTodos = await db.select()
       .from(todosTable)
+      .where(isNull(todosTable.deleted_at))
       .execute();
 
     expect(remainingTodos).toHaveLength(2);
@@ -105,6 +135,7 @@ describe('deleteTodo', () => {
     // Create a completed todo
     const insertResult = await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'Completed Todo',
         description: 'This todo is done',
         completed: true
@@ -119,16 +150,85 @@ describe('deleteTodo', () => {
     };
 
     // Delete the completed todo
-    const result = await deleteTodo(deleteInput);
+    const result = await deleteTodo(deleteInput, user.id);
 
     expect(result.success).toBe(true);
 
-    // Verify it was deleted
+    // Verify it was trashed
     const todos = await db.select()
       .from(todosTable)
       .where(eq(todosTable.id, completedTodo.id))
       .execute();
 
-    expect(todos).toHaveLength(0);
+    expect(todos[0].deleted_at).toBeInstanceOf(Date);
+    expect(todos[0].completed).toBe(true);
+  });
+
+  it('should keep the checklist items of the trashed todo', async () => {
+    const insertResult = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Parent', completed: false },
+        { owner_id: user.id, title: 'Other', completed: false }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(checklistItemsTable)
+      .values([
+        { todo_id: insertResult[0].id, title: 'Step 1', position: 0 },
+        { todo_id: insertResult[0].id, title: 'Step 2', position: 1 },
+        { todo_id: insertResult[1].id, title: 'Unrelated step', position: 0 }
+      ])
+      .execute();
+
+    const result = await deleteTodo({ id: insertResult[0].id }, user.id);
+
+    expect(result.success).toBe(true);
+
+    const remainingItems = await db.select()
+      .from(checklistItemsTable)
+      .execute();
+
+    // They come back when the todo is restored
+    expect(remainingItems).toHaveLength(3);
+  });
+
+  it('should let editors but not viewers trash todos in a shared list', async () => {
+    const editor = await createTestUser('editor@example.com');
+    const viewer = await createTestUser('viewer@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Release steps' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values([
+        { list_id: lists[0].id, user_id: editor.id, role: 'editor', invited_by: user.id, accepted_at: new Date() },
+        { list_id: lists[0].id, user_id: viewer.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() }
+      ])
+      .execute();
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Publish notes', list_id: lists[0].id })
+      .returning()
+      .execute();
+
+    await expect(deleteTodo({ id: todos[0].id }, viewer.id))
+      .rejects.toThrow(/read-only/);
+
+    const result = await deleteTodo({ id: todos[0].id }, editor.id);
+    expect(result.success).toBe(true);
+  });
+
+  it('should not trash todos of other users', async () => {
+    const other = await createTestUser('other@example.com');
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: other.id, title: 'Private' })
+      .returning()
+      .execute();
+
+    const result = await deleteTodo({ id: todos[0].id }, user.id);
+
+    expect(result.success).toBe(false);
+    const rows = await db.select().from(todosTable).where(isNull(todosTable.deleted_at)).execute();
+    expect(rows).toHaveLength(1);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type User } from '../schema';
+import { detachTag } from '../handlers/detach_tag';
+
+describe('detachTag', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should remove the tag from the todo but keep the tag', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Buy milk', completed: false })
+      .returning()
+      .execute();
+    const tags = await db.insert(tagsTable)
+      .values([{ owner_id: user.id, name: 'errand' }, { owner_id: user.id, name: 'home' }])
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable)
+      .values([
+        { todo_id: todos[0].id, tag_id: tags[0].id },
+        { todo_id: todos[0].id, tag_id: tags[1].id }
+      ])
+      .execute();
+
+    const result = await detachTag({ todo_id: todos[0].id, tag_id: tags[0].id }, user.id);
+
+    expect(result.tags.map(tag => tag.name)).toEqual(['home']);
+
+    const remainingTags = await db.select().from(tagsTable).execute();
+    expect(remainingTags).toHaveLength(2);
+  });
+
+  it('should be a no-op when the tag is not attached', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Untagged', completed: false })
+      .returning()
+      .execute();
+
+    const result = await detachTag({ todo_id: todos[0].id, tag_id: 999 }, user.id);
+
+    expect(result.tags).toEqual([]);
+  });
+
+  it('should throw error when todo does not exist', async () => {
+    await expect(detachTag({ todo_id: 999, tag_id: 1 }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/i);
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type Recurrence, type Todo, type User } from '../schema';
+import { exportTodoTxt } from '../handlers/export_todo_txt';
+import { importTodoTxt } from '../handlers/import_todo_txt';
+import { getTodos } from '../handlers/get_todos';
+import { attachTag } from '../handlers/attach_tag';
+import { toDateKey } from '../helpers/recurrence';
+
+describe('exportTodoTxt', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should write a task per todo', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values([
+        {
+          owner_id: user.id,
+          title: 'Call Mom @phone',
+          description: 'Not exported',
+          priority: 'p1',
+          due_at: new Date(2025, 2, 1, 9, 30),
+          due_has_time: true,
+          recurrence: { frequency: 'weekly', interval: 1, weekdays: ['MO', 'TU', 'WE', 'TH', 'FR'], until: null, count: null }
+        },
+        { owner_id: user.id, title: 'File taxes', completed: true, priority: 'p3', due_at: new Date(2025, 3, 15) }
+      ])
+      .returning()
+      .execute();
+    for (const name of ['phone', 'family']) {
+      const [tag] = await db.insert(tagsTable).values({ owner_id: user.id, name }).returning().execute();
+      await db.insert(todoTagsTable).values({ todo_id: todo.id, tag_id: tag.id }).execute();
+    }
+
+    const file = await exportTodoTxt({ includeArchived: false }, user.id);
+
+    const today = toDateKey(new Date());
+    expect(file.filename).toEqual(`todo-${today}.txt`);
+    expect(file.mime_type).toEqual('text/plain');
+    // Tags already in the title are not repeated
+    expect(file.content).toEqual([
+      `(A) ${today} Call Mom @phone tag:family due:2025-03-01T09:30 rec:1b`,
+      `x ${today} ${today} File taxes due:2025-04-15 pri:C`,
+      ''
+    ].join('\n'));
+  });
+
+  it('should export and import todos without losing anything todo.txt can hold', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: user.id, name: 'Copy' }).returning().execute();
+    const today = toDateKey(new Date());
+    const content = [
+      `(A) ${today} Call Mom +Family @phone due:2025-01-05T18:30 rec:2w`,
+      `(D) ${today} Water plants due:2025-01-06 rec:1b`,
+      `x ${today} ${today} File taxes +admin due:2025-01-31 pri:B`,
+      `${today} Read https://example.com/a:b t:2025-01-01`,
+      ''
+    ].join('\n');
+
+    await importTodoTxt({ content, list_id: null, dry_run: false, skip_duplicates: true }, user.id);
+    const exported = await exportTodoTxt({ listId: null, includeArchived: false }, user.id);
+    expect(exported.content).toEqual(content);
+
+    // And once more through another list
+    await importTodoTxt({ content: exported.content, list_id: list.id, dry_run: false, skip_duplicates: true }, user.id);
+    const copied = await exportTodoTxt({ listId: list.id, includeArchived: false }, user.id);
+    expect(copied.content).toEqual(content);
+  });
+
+  it('should bring todos back unchanged when they were not written in todo.txt', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: user.id, name: 'Copy' }).returning().execute();
+    const [milk, report] = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Buy milk', priority: 'p2', due_at: new Date(2025, 0, 5) },
+        { owner_id: user.id, title: 'Write +Quarterly report', completed: true }
+      ])
+      .returning()
+      .execute();
+    await attachTag({ todo_id: milk.id, name: 'shop' }, user.id);
+    await attachTag({ todo_id: milk.id, name: 'work stuff' }, user.id);
+    await attachTag({ todo_id: milk.id, name: '100%' }, user.id);
+    await attachTag({ todo_id: report.id, name: 'quarterly' }, user.id);
+
+    const model = (todos: Todo[]) => todos.map(todo => ({
+      title: todo.title,
+      completed: todo.completed,
+      priority: todo.priority,
+      due_at: todo.due_at,
+      tags: todo.tags.map(tag => tag.name).sort()
+    }));
+    const load = async (listId: number | null) =>
+      model((await getTodos({ listId, tagMatch: 'any', status: 'all', sortBy: 'position', sortDirection: 'asc', trashed: false, archived: false }, user.id)).todos);
+
+    const exported = await exportTodoTxt({ listId: null, includeArchived: false }, user.id);
+    await importTodoTxt({ content: exported.content, list_id: list.id, dry_run: false, skip_duplicates: true }, user.id);
+
+    expect(await load(list.id)).toEqual(await load(null));
+    expect((await load(list.id))[0]).toEqual({
+      title: 'Buy milk',
+      completed: false,
+      priority: 'p2',
+      due_at: new Date(2025, 0, 5),
+      tags: ['100%', 'shop', 'work stuff']
+    });
+  });
+
+  it('should bring back titles that look like todo.txt syntax and whole recurrence rules', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: user.id, name: 'Copy' }).returning().execute();
+    const weekly: Recurrence = { frequency: 'weekly', interval: 2, weekdays: ['MO', 'FR'], until: '2025-12-31', count: null };
+    const workdays: Recurrence = { frequency: 'weekly', interval: 1, weekdays: ['MO', 'TU', 'WE', 'TH', 'FR'], until: null, count: 10 };
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Ask about due:friday and rec:1w tag:x pri:A', due_at: new Date(2025, 0, 3), recurrence: weekly },
+        { owner_id: user.id, title: 'First line\nsecond line\r\nC:\\temp \\n', due_at: new Date(2025, 0, 6), recurrence: workdays },
+        { owner_id: user.id, title: 'Email +Team @home due\\:soon', completed: true, priority: 'p2' }
+      ])
+      .execute();
+
+    const model = (todos: Todo[]) => todos.map(todo => ({
+      title: todo.title,
+      completed: todo.completed,
+      priority: todo.priority,
+      due_at: todo.due_at,
+      recurrence: todo.recurrence,
+      tags: todo.tags.map(tag => tag.name).sort()
+    }));
+    const load = async (listId: number | null) =>
+      model((await getTodos({ listId, tagMatch: 'any', status: 'all', sortBy: 'position', sortDirection: 'asc', trashed: false, archived: false }, user.id)).todos);
+
+    const exported = await exportTodoTxt({ listId: null, includeArchived: false }, user.id);
+    const today = toDateKey(new Date());
+    expect(exported.content).toEqual([
+      `${today} Ask about due\\:friday and rec\\:1w tag\\:x pri\\:A due:2025-01-03 rec:2w rec-days:MO,FR rec-until:2025-12-31`,
+      `${today} First line\\nsecond line\\r\\nC:\\\\temp \\\\n due:2025-01-06 rec:1b rec-count:10`,
+      `x ${today} ${today} Email \\+Team \\@home due\\\\:soon pri:B`,
+      ''
+    ].join('\n'));
+
+    const report = await importTodoTxt({ content: exported.content, list_id: list.id, dry_run: false, skip_duplicates: true }, user.id);
+    expect(report.rows.map(row => row.status)).toEqual(['new', 'new', 'new']);
+    expect(await load(list.id)).toEqual(await load(null));
+    expect((await load(list.id)).map(todo => todo.title)).toEqual([
+      'Ask about due:friday and rec:1w tag:x pri:A',
+      'First line\nsecond line\r\nC:\\temp \\n',
+      'Email +Team @home due\\:soon'
+    ]);
+  });
+});
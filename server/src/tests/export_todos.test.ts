@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type User } from '../schema';
+import { exportTodos } from '../handlers/export_todos';
+import { parseCsv } from '../helpers/csv';
+
+describe('exportTodos', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createExampleTodo = async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: user.id, name: 'Work' }).returning().execute();
+    const [todo] = await db.insert(todosTable)
+      .values({
+        owner_id: user.id,
+        list_id: list.id,
+        title: 'Write "the" report, finally',
+        description: 'First line\nSecond line',
+        due_at: new Date('2025-03-01T09:30:00Z'),
+        due_has_time: true,
+        priority: 'p2',
+        recurrence: { frequency: 'weekly', interval: 1, weekdays: ['MO'], until: null, count: null }
+      })
+      .returning()
+      .execute();
+    const [tag] = await db.insert(tagsTable).values({ owner_id: user.id, name: 'work' }).returning().execute();
+    await db.insert(todoTagsTable).values({ todo_id: todo.id, tag_id: tag.id }).execute();
+    await db.insert(checklistItemsTable)
+      .values([
+        { todo_id: todo.id, title: 'Outline', completed: true, position: 0 },
+        { todo_id: todo.id, title: 'Draft', position: 1 }
+      ])
+      .execute();
+    return todo;
+  };
+
+  it('should export every field as JSON', async () => {
+    await createExampleTodo();
+
+    const file = await exportTodos({ format: 'json', includeArchived: false }, user.id);
+
+    expect(file.filename).toMatch(/^todos-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(file.mime_type).toEqual('application/json');
+    const { todos } = JSON.parse(file.content);
+    expect(todos).toHaveLength(1);
+    expect(todos[0]).toMatchObject({
+      title: 'Write "the" report, finally',
+      description: 'First line\nSecond line',
+      completed: false,
+      due_at: '2025-03-01T09:30:00.000Z',
+      due_has_time: true,
+      priority: 'p2',
+      recurrence: { frequency: 'weekly', weekdays: ['MO'] },
+      tags: ['work'],
+      checklist: [{ title: 'Outline', completed: true }, { title: 'Draft', completed: false }],
+      list: 'Work',
+      archived: false
+    });
+  });
+
+  it('should export a CSV row per todo, quoting where needed', async () => {
+    await createExampleTodo();
+
+    const file = await exportTodos({ format: 'csv', includeArchived: false }, user.id);
+    const [header, row] = parseCsv(file.content);
+
+    expect(header.slice(0, 3)).toEqual(['title', 'description', 'completed']);
+    const record = Object.fromEntries(header.map((column, index) => [column, row[index]]));
+    expect(record).toMatchObject({
+      title: 'Write "the" report, finally',
+      description: 'First line\nSecond line',
+      tags: 'work',
+      checklist: '[x] Outline\n[ ] Draft'
+    });
+  });
+
+  it('should keep CSV fields from being read as spreadsheet formulas', async () => {
+    await db.insert(todosTable)
+      .values({ owner_id: user.id, title: '=HYPERLINK("http://example.com","Click")', description: '-2+3', completed: false })
+      .execute();
+
+    const file = await exportTodos({ format: 'csv', includeArchived: false }, user.id);
+    const [header, row] = parseCsv(file.content);
+
+    const record = Object.fromEntries(header.map((column, index) => [column, row[index]]));
+    expect(record['title']).toEqual('\'=HYPERLINK("http://example.com","Click")');
+    expect(record['description']).toEqual('\'-2+3');
+    expect(record['completed']).toEqual('false');
+  });
+
+  it('should export Markdown checklists grouped by list', async () => {
+    await createExampleTodo();
+    await db.insert(todosTable).values({ owner_id: user.id, title: 'Call mum', completed: true }).execute();
+
+    const file = await exportTodos({ format: 'markdown', includeArchived: false }, user.id);
+
+    expect(file.content).toEqual([
+      '## Work',
+      '',
+      '- [ ] Write "the" report, finally',
+      '  - [x] Outline',
+      '  - [ ] Draft',
+      '',
+      '## No list',
+      '',
+      '- [x] Call mum',
+      ''
+    ].join('\n'));
+  });
+
+  it('should leave out the trash, and the archive unless asked for', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Live' },
+        { owner_id: user.id, title: 'Archived', completed: true, archived_at: new Date() },
+        { owner_id: user.id, title: 'Trashed', deleted_at: new Date() }
+      ])
+      .execute();
+
+    const live = await exportTodos({ format: 'markdown', includeArchived: false }, user.id);
+    expect(live.content).toEqual('- [ ] Live\n');
+
+    const all = await exportTodos({ format: 'markdown', includeArchived: true }, user.id);
+    expect(all.content).toEqual('- [ ] Live\n- [x] Archived\n');
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { type User } from '../schema';
+import { createApiToken } from '../handlers/create_api_token';
+import { getApiTokens } from '../handlers/get_api_tokens';
+
+describe('getApiTokens', () => {
+  let user: User;
+  let other: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    other = await createTestUser('other@example.com');
+  });
+  afterEach(resetDB);
+
+  it('should list the user\'s tokens, newest first, without the tokens themselves', async () => {
+    const first = await createApiToken({ name: 'CI', scopes: ['read'], expires_in_days: 30 }, user.id);
+    const second = await createApiToken({ name: 'Backup script', scopes: ['read', 'write'], expires_in_days: null }, user.id);
+    await createApiToken({ name: 'Someone else', scopes: ['read'], expires_in_days: 30 }, other.id);
+
+    const apiTokens = await getApiTokens(user.id);
+
+    expect(apiTokens.map(apiToken => apiToken.id)).toEqual([second.id, first.id]);
+    expect(apiTokens[1]).toEqual({
+      id: first.id,
+      name: 'CI',
+      token_prefix: first.token_prefix,
+      scopes: ['read'],
+      expires_at: first.expires_at,
+      last_used_at: null,
+      created_at: first.created_at
+    });
+    expect(apiTokens[0]).not.toHaveProperty('token');
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { commentsTable, listMembersTable, listsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { getComments } from '../handlers/get_comments';
+
+describe('getComments', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should return a todo\'s comments oldest first with their authors', async () => {
+    const other = await createTestUser('other@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Team' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: lists[0].id, user_id: other.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Commented', list_id: lists[0].id },
+        { owner_id: user.id, title: 'Other todo', list_id: lists[0].id }
+      ])
+      .returning()
+      .execute();
+    await db.insert(commentsTable)
+      .values([
+        { todo_id: todos[0].id, author_id: user.id, body: 'First', created_at: new Date('2024-01-01T10:00:00Z') },
+        { todo_id: todos[1].id, author_id: user.id, body: 'Elsewhere' },
+        { todo_id: todos[0].id, author_id: other.id, body: 'Second', created_at: new Date('2024-01-01T11:00:00Z') }
+      ])
+      .execute();
+
+    // Viewers can read the thread too
+    const result = await getComments({ todo_id: todos[0].id }, other.id);
+
+    expect(result.map(comment => [comment.body, comment.author_name])).toEqual([
+      ['First', 'test'],
+      ['Second', 'other']
+    ]);
+  });
+
+  it('should return an empty thread for todos without comments', async () => {
+    const todo = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Quiet' })
+      .returning()
+      .execute();
+
+    expect(await getComments({ todo_id: todo[0].id }, user.id)).toEqual([]);
+  });
+
+  it('should not return comments on another user\'s todo', async () => {
+    const other = await createTestUser('other@example.com');
+    const todo = await db.insert(todosTable)
+      .values({ owner_id: other.id, title: 'Theirs' })
+      .returning()
+      .execute();
+
+    await expect(getComments({ todo_id: todo[0].id }, user.id))
+      .rejects.toThrow(new RegExp(`Todo with id ${todo[0].id} not found`));
+  });
+});
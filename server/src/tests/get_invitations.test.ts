@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable } from '../db/schema';
+import { type User } from '../schema';
+import { getInvitations } from '../handlers/get_invitations';
+
+describe('getInvitations', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should return empty array without invitations', async () => {
+    expect(await getInvitations(user.id)).toEqual([]);
+  });
+
+  it('should return only pending invitations with list and inviter names', async () => {
+    const owner = await createTestUser('owner@example.com');
+    const lists = await db.insert(listsTable)
+      .values([{ owner_id: owner.id, name: 'On-call' }, { owner_id: owner.id, name: 'Joined' }])
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values([
+        { list_id: lists[0].id, user_id: user.id, role: 'viewer', invited_by: owner.id },
+        { list_id: lists[1].id, user_id: user.id, role: 'editor', invited_by: owner.id, accepted_at: new Date() }
+      ])
+      .execute();
+
+    const result = await getInvitations(user.id);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].list_id).toEqual(lists[0].id);
+    expect(result[0].list_name).toEqual('On-call');
+    expect(result[0].role).toEqual('viewer');
+    expect(result[0].invited_by_name).toEqual('owner');
+    expect(result[0].created_at).toBeInstanceOf(Date);
+
+    expect(await getInvitations(owner.id)).toEqual([]);
+  });
+});
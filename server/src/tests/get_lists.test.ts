@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { getLists } from '../handlers/get_lists';
+
+describe('getLists', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should return empty array when no lists exist', async () => {
+    const result = await getLists(user.id);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return lists with completed and total counts', async () => {
+    const lists = await db.insert(listsTable)
+      .values([{ owner_id: user.id, name: 'Inbox' }, { owner_id: user.id, name: 'Home' }])
+      .returning()
+      .execute();
+
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Inbox 1', completed: true, list_id: lists[0].id },
+        { owner_id: user.id, title: 'Inbox 2', completed: false, list_id: lists[0].id },
+        { owner_id: user.id, title: 'Inbox 3', completed: true, list_id: lists[0].id },
+        { owner_id: user.id, title: 'Unfiled', completed: true, list_id: null }
+      ])
+      .execute();
+
+    const result = await getLists(user.id);
+
+    expect(result).toHaveLength(2);
+
+    const inbox = result.find(list => list.id === lists[0].id)!;
+    expect(inbox.name).toEqual('Inbox');
+    expect(inbox.total_count).toEqual(3);
+    expect(inbox.completed_count).toEqual(2);
+    expect(typeof inbox.total_count).toBe('number');
+    expect(typeof inbox.completed_count).toBe('number');
+
+    // Empty lists are still returned with zero counts
+    const home = result.find(list => list.id === lists[1].id)!;
+    expect(home.total_count).toEqual(0);
+    expect(home.completed_count).toEqual(0);
+  });
+
+  it('should return lists in creation order', async () => {
+    await db.insert(listsTable).values({ owner_id: user.id, name: 'First' }).execute();
+    await db.insert(listsTable).values({ owner_id: user.id, name: 'Second' }).execute();
+
+    const result = await getLists(user.id);
+
+    expect(result.map(list => list.name)).toEqual(['First', 'Second']);
+  });
+
+  it('should not count trashed todos', async () => {
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Chores' })
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Vacuum', list_id: lists[0].id },
+        { owner_id: user.id, title: 'Dust', list_id: lists[0].id, completed: true, deleted_at: new Date() }
+      ])
+      .execute();
+
+    const result = await getLists(user.id);
+
+    expect(result[0].total_count).toEqual(1);
+    expect(result[0].completed_count).toEqual(0);
+  });
+
+  it('should only return lists owned by the user', async () => {
+    const other = await createTestUser('other@example.com');
+    await db.insert(listsTable)
+      .values([{ owner_id: user.id, name: 'Mine' }, { owner_id: other.id, name: 'Theirs' }])
+      .execute();
+
+    const result = await getLists(user.id);
+
+    expect(result.map(list => list.name)).toEqual(['Mine']);
+  });
+
+  it('should include shared lists with the role and collaborators', async () => {
+    const owner = await createTestUser('owner@example.com');
+    const invitee = await createTestUser('invitee@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: owner.id, name: 'Team' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values([
+        { list_id: lists[0].id, user_id: user.id, role: 'editor', invited_by: owner.id, accepted_at: new Date() },
+        { list_id: lists[0].id, user_id: invitee.id, role: 'viewer', invited_by: owner.id }
+      ])
+      .execute();
+
+    const result = await getLists(user.id);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].role).toEqual('editor');
+    expect(result[0].members).toEqual([
+      { user_id: owner.id, name: 'owner', email: 'owner@example.com', role: 'owner', accepted: true },
+      { user_id: user.id, name: 'test', email: 'test@example.com', role: 'editor', accepted: true },
+      { user_id: invitee.id, name: 'invitee', email: 'invitee@example.com', role: 'viewer', accepted: false }
+    ]);
+
+    // Pending invitations do not give access yet
+    expect(await getLists(invitee.id)).toEqual([]);
+
+    const [own] = await getLists(owner.id);
+    expect(own.role).toEqual('owner');
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type User } from '../schema';
+import { getTags } from '../handlers/get_tags';
+
+describe('getTags', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should return empty array when no tags exist', async () => {
+    const result = await getTags(user.id);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return all tags sorted by name', async () => {
+    await db.insert(tagsTable)
+      .values([{ owner_id: user.id, name: 'urgent' }, { owner_id: user.id, name: 'bug' }, { owner_id: user.id, name: 'errand' }])
+      .execute();
+
+    const result = await getTags(user.id);
+
+    expect(result.map(tag => tag.name)).toEqual(['bug', 'errand', 'urgent']);
+    expect(result[0].id).toBeDefined();
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+});
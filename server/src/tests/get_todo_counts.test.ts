@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, todosTable } from '../db/schema';
+import { getTodoCountsInputSchema, type User } from '../schema';
+import { getTodoCounts } from '../handlers/get_todo_counts';
+
+const defaultInput = getTodoCountsInputSchema.parse({})!;
+
+describe('getTodoCounts', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should count nothing when there are no todos', async () => {
+    expect(await getTodoCounts(defaultInput, user.id)).toEqual({ total: 0, active: 0, completed: 0 });
+  });
+
+  it('should count live todos by status', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Open' },
+        { owner_id: user.id, title: 'Also open' },
+        { owner_id: user.id, title: 'Done', completed: true },
+        { owner_id: user.id, title: 'Trashed', deleted_at: new Date() }
+      ])
+      .execute();
+
+    expect(await getTodoCounts(defaultInput, user.id)).toEqual({ total: 3, active: 2, completed: 1 });
+  });
+
+  it('should apply the same filters as getTodos', async () => {
+    const other = await createTestUser('other@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Work' })
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'In list', list_id: lists[0].id, completed: true },
+        { owner_id: user.id, title: 'Unfiled' },
+        { owner_id: other.id, title: 'Not mine' }
+      ])
+      .execute();
+
+    expect(await getTodoCounts({ ...defaultInput, listId: lists[0].id }, user.id)).toEqual({ total: 1, active: 0, completed: 1 });
+    expect(await getTodoCounts({ ...defaultInput, listId: null }, user.id)).toEqual({ total: 1, active: 1, completed: 0 });
+  });
+});
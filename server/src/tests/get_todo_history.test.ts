@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todoEventsTable } from '../db/schema';
+import { type TodoEvent, type User } from '../schema';
+import { getTodoHistory } from '../handlers/get_todo_history';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { updateTodoCompletion } from '../handlers/update_todo_completion';
+import { undoTodoCompletion } from '../handlers/undo_todo_completion';
+import { deleteTodo } from '../handlers/delete_todo';
+import { restoreTodo } from '../handlers/restore_todo';
+import { attachTag } from '../handlers/attach_tag';
+import { detachTag } from '../handlers/detach_tag';
+import { addChecklistItem } from '../handlers/add_checklist_item';
+import { updateChecklistItem } from '../handlers/update_checklist_item';
+import { deleteChecklistItem } from '../handlers/delete_checklist_item';
+import { reorderChecklistItems } from '../handlers/reorder_checklist_items';
+import { assignTodo } from '../handlers/assign_todo';
+
+// Oldest first and without ids or timestamps, for comparing whole logs
+const summarize = (events: TodoEvent[]) =>
+  [...events].reverse().map(({ type, field, from_value, to_value, actor_name }) => ({ type, field, from_value, to_value, actor_name }));
+
+describe('getTodoHistory', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should record creating, editing, completing, deleting and restoring a todo', async () => {
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Work' })
+      .returning()
+      .execute();
+    const todo = await createTodo({ title: 'Draft', priority: 'p3' }, user.id);
+
+    await updateTodo({ id: todo.id, title: 'Final', priority: 'p1', list_id: lists[0].id }, user.id);
+    await updateTodoCompletion({ id: todo.id, completed: true, complete_checklist: false }, user.id);
+    await updateTodoCompletion({ id: todo.id, completed: false, complete_checklist: false }, user.id);
+    await deleteTodo({ id: todo.id }, user.id);
+    await restoreTodo({ id: todo.id }, user.id);
+
+    const history = await getTodoHistory({ todo_id: todo.id }, user.id);
+
+    expect(summarize(history)).toEqual([
+      { type: 'created', field: null, from_value: null, to_value: null, actor_name: 'test' },
+      { type: 'edited', field: 'title', from_value: 'Draft', to_value: 'Final', actor_name: 'test' },
+      { type: 'edited', field: 'list', from_value: null, to_value: 'Work', actor_name: 'test' },
+      { type: 'edited', field: 'priority', from_value: 'p3', to_value: 'p1', actor_name: 'test' },
+      { type: 'completed', field: null, from_value: null, to_value: null, actor_name: 'test' },
+      { type: 'reopened', field: null, from_value: null, to_value: null, actor_name: 'test' },
+      { type: 'deleted', field: null, from_value: null, to_value: null, actor_name: 'test' },
+      { type: 'restored', field: null, from_value: null, to_value: null, actor_name: 'test' }
+    ]);
+    expect(history[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should not record fields that were sent unchanged', async () => {
+    const todo = await createTodo({ title: 'Same' }, user.id);
+
+    await updateTodo({ id: todo.id, title: 'Same', description: null, priority: null }, user.id);
+
+    const history = await getTodoHistory({ todo_id: todo.id }, user.id);
+    expect(history.map(event => event.type)).toEqual(['created']);
+  });
+
+  it('should record due dates with their time of day', async () => {
+    const todo = await createTodo({ title: 'Dentist' }, user.id);
+    const due = new Date('2025-03-10T09:30:00Z');
+
+    await updateTodo({ id: todo.id, due_at: due, due_has_time: true }, user.id);
+
+    const [event] = await getTodoHistory({ todo_id: todo.id }, user.id);
+    expect(event.field).toEqual('due');
+    expect(event.from_value).toBeNull();
+    expect(event.to_value).toEqual({ due_at: due.toISOString(), due_has_time: true });
+  });
+
+  it('should record the occurrences of a recurring todo that were completed and undone', async () => {
+    const due = new Date('2025-03-10T00:00:00Z');
+    const todo = await createTodo({
+      title: 'Water plants',
+      due_at: due,
+      recurrence: { frequency: 'daily', interval: 1, weekdays: [], until: null, count: null }
+    }, user.id);
+
+    const advanced = await updateTodoCompletion({ id: todo.id, completed: true, complete_checklist: false }, user.id);
+    await undoTodoCompletion({ id: todo.id, checklist: [] }, user.id);
+
+    const [reopened, completed] = await getTodoHistory({ todo_id: todo.id }, user.id);
+    expect(completed.type).toEqual('completed');
+    expect(completed.from_value).toEqual({ due_at: due.toISOString(), due_has_time: false });
+    expect(completed.to_value).toEqual({ due_at: advanced.due_at!.toISOString(), due_has_time: false });
+    expect(reopened.type).toEqual('reopened');
+    expect(reopened.to_value).toEqual(completed.from_value);
+  });
+
+  it('should record tags, checklist changes and assignments', async () => {
+    const todo = await createTodo({ title: 'Release' }, user.id);
+
+    const tagged = await attachTag({ todo_id: todo.id, name: 'ops' }, user.id);
+    await attachTag({ todo_id: todo.id, name: 'ops' }, user.id); // Already attached - not recorded
+    await detachTag({ todo_id: todo.id, tag_id: tagged.tags[0].id }, user.id);
+    await addChecklistItem({ todo_id: todo.id, title: 'Tag' }, user.id);
+    const withItems = await addChecklistItem({ todo_id: todo.id, title: 'Ship' }, user.id);
+    const [first, second] = withItems.checklist;
+    await updateChecklistItem({ id: first.id, title: 'Tag it', completed: true }, user.id);
+    await reorderChecklistItems({ todo_id: todo.id, item_ids: [second.id, first.id] }, user.id);
+    await deleteChecklistItem({ id: second.id }, user.id);
+    await assignTodo({ id: todo.id, assignee_id: user.id }, user.id);
+
+    const history = await getTodoHistory({ todo_id: todo.id }, user.id);
+
+    expect(summarize(history).map(({ type, from_value, to_value }) => [type, from_value, to_value])).toEqual([
+      ['created', null, null],
+      ['tagged', null, 'ops'],
+      ['untagged', 'ops', null],
+      ['checklist_item_added', null, 'Tag'],
+      ['checklist_item_added', null, 'Ship'],
+      ['checklist_item_edited', 'Tag', 'Tag it'],
+      ['checklist_item_completed', null, 'Tag it'],
+      ['checklist_reordered', null, null],
+      ['checklist_item_deleted', 'Ship', null],
+      ['assigned', null, 'test']
+    ]);
+  });
+
+  it('should not record anything for changes that fail', async () => {
+    const todo = await createTodo({ title: 'Release' }, user.id);
+    await addChecklistItem({ todo_id: todo.id, title: 'Tag' }, user.id);
+
+    await expect(reorderChecklistItems({ todo_id: todo.id, item_ids: [999] }, user.id)).rejects.toThrow();
+
+    const events = await db.select().from(todoEventsTable).execute();
+    expect(events.map(event => event.type)).toEqual(['created', 'checklist_item_added']);
+  });
+
+  it('should show the history to viewers of a shared list', async () => {
+    const viewer = await createTestUser('viewer@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Team' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: lists[0].id, user_id: viewer.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+    const todo = await createTodo({ title: 'Shared', list_id: lists[0].id }, user.id);
+
+    const history = await getTodoHistory({ todo_id: todo.id }, viewer.id);
+
+    expect(history).toHaveLength(1);
+    expect(history[0].actor_id).toEqual(user.id);
+  });
+
+  it('should not show the history of another user\'s todo', async () => {
+    const other = await createTestUser('other@example.com');
+    const todo = await createTodo({ title: 'Private' }, other.id);
+
+    await expect(getTodoHistory({ todo_id: todo.id }, user.id))
+      .rejects.toThrow(new RegExp(`Todo with id ${todo.id} not found`));
+  });
+});
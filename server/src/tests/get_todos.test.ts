@@ -1,16 +1,25 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { type CreateTodoInput } from '../schema';
+import { checklistItemsTable, commentsTable, listMembersTable, listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { getTodosInputSchema, type CreateTodoInput, type User } from '../schema';
 import { getTodos } from '../handlers/get_todos';
+import { eq } from 'drizzle-orm';
+
+// Input with every zod default applied; tests spread it and override the fields they exercise
+const defaultInput = getTodosInputSchema.parse({})!;
 
 describe('getTodos', () => {
+  let user: User;
+
   beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
   afterEach(resetDB);
 
   it('should return empty array when no todos exist', async () => {
-    const result = await getTodos();
+    const result = (await getTodos(undefined, user.id)).todos;
 
     expect(result).toEqual([]);
     expect(result).toHaveLength(0);
@@ -21,16 +30,19 @@ describe('getTodos', () => {
     await db.insert(todosTable)
       .values([
         {
+          owner_id: user.id,
           title: 'First Todo',
           description: 'First todo description',
           completed: false
         },
         {
+          owner_id: user.id,
           title: 'Second Todo', 
           description: null,
           completed: true
         },
         {
+          owner_id: user.id,
           title: 'Third Todo',
           description: 'Third todo description',
           completed: false
@@ -38,7 +50,7 @@ describe('getTodos', () => {
       ])
       .execute();
 
-    const result = await getTodos();
+    const result = (await getTodos(undefined, user.id)).todos;
 
     expect(result).toHaveLength(3);
     
@@ -71,13 +83,14 @@ describe('getTodos', () => {
     // Create a test todo
     await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'Type Test Todo',
         description: 'Testing data types',
         completed: true
       })
       .execute();
 
-    const result = await getTodos();
+    const result = (await getTodos(undefined, user.id)).todos;
 
     expect(result).toHaveLength(1);
     
@@ -99,6 +112,7 @@ describe('getTodos', () => {
     for (const title of todoTitles) {
       await db.insert(todosTable)
         .values({
+          owner_id: user.id,
           title,
           description: `Description for ${title}`,
           completed: false
@@ -106,7 +120,7 @@ describe('getTodos', () => {
         .execute();
     }
 
-    const result = await getTodos();
+    const result = (await getTodos(undefined, user.id)).todos;
 
     expect(result).toHaveLength(3);
     expect(result[0].title).toEqual('Alpha Todo');
@@ -118,14 +132,14 @@ describe('getTodos', () => {
     // Create todos with different completion states
     await db.insert(todosTable)
       .values([
-        { title: 'Incomplete Todo 1', description: 'Not done', completed: false },
-        { title: 'Complete Todo 1', description: 'Done', completed: true },
-        { title: 'Incomplete Todo 2', description: null, completed: false },
-        { title: 'Complete Todo 2', description: 'Also done', completed: true }
+        { owner_id: user.id, title: 'Incomplete Todo 1', description: 'Not done', completed: false },
+        { owner_id: user.id, title: 'Complete Todo 1', description: 'Done', completed: true },
+        { owner_id: user.id, title: 'Incomplete Todo 2', description: null, completed: false },
+        { owner_id: user.id, title: 'Complete Todo 2', description: 'Also done', completed: true }
       ])
       .execute();
 
-    const result = await getTodos();
+    const result = (await getTodos(undefined, user.id)).todos;
 
     expect(result).toHaveLength(4);
     
@@ -141,4 +155,427 @@ describe('getTodos', () => {
     expect(incomplete.some(todo => todo.title === 'Incomplete Todo 1')).toBe(true);
     expect(incomplete.some(todo => todo.title === 'Incomplete Todo 2')).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should filter todos by list', async () => {
+    const lists = await db.insert(listsTable)
+      .values([{ owner_id: user.id, name: 'Home' }, { owner_id: user.id, name: 'Work' }])
+      .returning()
+      .execute();
+
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Home Todo', list_id: lists[0].id },
+        { owner_id: user.id, title: 'Work Todo', list_id: lists[1].id },
+        { owner_id: user.id, title: 'Unfiled Todo', list_id: null }
+      ])
+      .execute();
+
+    const homeTodos = (await getTodos({ ...defaultInput, listId: lists[0].id }, user.id)).todos;
+    expect(homeTodos.map(todo => todo.title)).toEqual(['Home Todo']);
+
+    const unfiledTodos = (await getTodos({ ...defaultInput, listId: null }, user.id)).todos;
+    expect(unfiledTodos.map(todo => todo.title)).toEqual(['Unfiled Todo']);
+
+    const allTodos = (await getTodos(defaultInput, user.id)).todos;
+    expect(allTodos).toHaveLength(3);
+  });
+
+  it('should return tags with each todo', async () => {
+    const todos = await db.insert(todosTable)
+      .values([{ owner_id: user.id, title: 'Tagged' }, { owner_id: user.id, title: 'Untagged' }])
+      .returning()
+      .execute();
+    const tags = await db.insert(tagsTable)
+      .values({ owner_id: user.id, name: 'bug' })
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable)
+      .values({ todo_id: todos[0].id, tag_id: tags[0].id })
+      .execute();
+
+    const result = (await getTodos(undefined, user.id)).todos;
+
+    const tagged = result.find(todo => todo.id === todos[0].id)!;
+    expect(tagged.tags).toHaveLength(1);
+    expect(tagged.tags[0].name).toEqual('bug');
+
+    const untagged = result.find(todo => todo.id === todos[1].id)!;
+    expect(untagged.tags).toEqual([]);
+  });
+
+  it('should filter todos by any or all of the given tags', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Bug only' },
+        { owner_id: user.id, title: 'Bug and urgent' },
+        { owner_id: user.id, title: 'Urgent only' },
+        { owner_id: user.id, title: 'No tags' }
+      ])
+      .returning()
+      .execute();
+    const tags = await db.insert(tagsTable)
+      .values([{ owner_id: user.id, name: 'bug' }, { owner_id: user.id, name: 'urgent' }])
+      .returning()
+      .execute();
+    const [bug, urgent] = tags;
+
+    await db.insert(todoTagsTable)
+      .values([
+        { todo_id: todos[0].id, tag_id: bug.id },
+        { todo_id: todos[1].id, tag_id: bug.id },
+        { todo_id: todos[1].id, tag_id: urgent.id },
+        { todo_id: todos[2].id, tag_id: urgent.id }
+      ])
+      .execute();
+
+    const anyResult = (await getTodos({ ...defaultInput, tagIds: [bug.id, urgent.id] }, user.id)).todos;
+    expect(anyResult.map(todo => todo.title).sort()).toEqual(['Bug and urgent', 'Bug only', 'Urgent only']);
+
+    const allResult = (await getTodos({ ...defaultInput, tagIds: [bug.id, urgent.id], tagMatch: 'all' }, user.id)).todos;
+    expect(allResult.map(todo => todo.title)).toEqual(['Bug and urgent']);
+
+    // Filtered todos still come back with all of their tags
+    expect(allResult[0].tags).toHaveLength(2);
+
+    const emptyFilter = (await getTodos({ ...defaultInput, tagIds: [], tagMatch: 'all' }, user.id)).todos;
+    expect(emptyFilter).toHaveLength(4);
+  });
+
+  it('should compute overdue status', async () => {
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Past with time', due_at: new Date(now - hour), due_has_time: true },
+        { owner_id: user.id, title: 'Future with time', due_at: new Date(now + hour), due_has_time: true },
+        // Date-only due dates are not overdue until their day is over
+        { owner_id: user.id, title: 'Date only, day not over', due_at: new Date(now - hour), due_has_time: false },
+        { owner_id: user.id, title: 'Date only, day over', due_at: new Date(now - 25 * hour), due_has_time: false },
+        { owner_id: user.id, title: 'Past but completed', due_at: new Date(now - 25 * hour), due_has_time: true, completed: true },
+        { owner_id: user.id, title: 'No due date' }
+      ])
+      .execute();
+
+    const result = (await getTodos(undefined, user.id)).todos;
+    const overdueTitles = result.filter(todo => todo.overdue).map(todo => todo.title).sort();
+
+    expect(overdueTitles).toEqual(['Date only, day over', 'Past with time']);
+  });
+
+  it('should filter todos by due date range', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'January', due_at: new Date('2030-01-10T00:00:00') },
+        { owner_id: user.id, title: 'February', due_at: new Date('2030-02-10T00:00:00') },
+        { owner_id: user.id, title: 'March', due_at: new Date('2030-03-10T00:00:00') },
+        { owner_id: user.id, title: 'No due date' }
+      ])
+      .execute();
+
+    const range = (await getTodos({
+      ...defaultInput,
+      dueFrom: new Date('2030-02-01T00:00:00'),
+      dueTo: new Date('2030-03-10T00:00:00')
+    }, user.id)).todos;
+    expect(range.map(todo => todo.title).sort()).toEqual(['February', 'March']);
+
+    const until = (await getTodos({ ...defaultInput, dueTo: new Date('2030-01-31T00:00:00') }, user.id)).todos;
+    expect(until.map(todo => todo.title)).toEqual(['January']);
+  });
+
+  it('should return todos in creation order by default', async () => {
+    await db.insert(todosTable).values({ owner_id: user.id, title: 'First', priority: 'p4' }).execute();
+    await db.insert(todosTable).values({ owner_id: user.id, title: 'Second', priority: 'p1' }).execute();
+    await db.insert(todosTable).values({ owner_id: user.id, title: 'Third' }).execute();
+
+    const result = (await getTodos(defaultInput, user.id)).todos;
+
+    expect(result.map(todo => todo.title)).toEqual(['First', 'Second', 'Third']);
+  });
+
+  it('should sort by priority, then due date, with unprioritized todos last', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'No priority', priority: null },
+        { owner_id: user.id, title: 'P2 later', priority: 'p2', due_at: new Date('2030-06-01T00:00:00') },
+        { owner_id: user.id, title: 'P1', priority: 'p1' },
+        { owner_id: user.id, title: 'P2 sooner', priority: 'p2', due_at: new Date('2030-01-01T00:00:00') },
+        { owner_id: user.id, title: 'P2 no date', priority: 'p2' },
+        { owner_id: user.id, title: 'P4', priority: 'p4' }
+      ])
+      .execute();
+
+    const result = (await getTodos({ ...defaultInput, sortBy: 'priority' }, user.id)).todos;
+
+    expect(result.map(todo => todo.title)).toEqual([
+      'P1',
+      'P2 sooner',
+      'P2 later',
+      'P2 no date',
+      'P4',
+      'No priority'
+    ]);
+  });
+
+  it('should sort by due date with undated todos last', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Undated' },
+        { owner_id: user.id, title: 'Later', due_at: new Date('2030-06-01T00:00:00') },
+        { owner_id: user.id, title: 'Sooner', due_at: new Date('2030-01-01T00:00:00') }
+      ])
+      .execute();
+
+    const result = (await getTodos({ ...defaultInput, sortBy: 'due_at' }, user.id)).todos;
+
+    expect(result.map(todo => todo.title)).toEqual(['Sooner', 'Later', 'Undated']);
+  });
+
+  it('should return checklist items nested and ordered', async () => {
+    const todos = await db.insert(todosTable)
+      .values([{ owner_id: user.id, title: 'With checklist' }, { owner_id: user.id, title: 'Without checklist' }])
+      .returning()
+      .execute();
+    await db.insert(checklistItemsTable)
+      .values([
+        { todo_id: todos[0].id, title: 'Second', position: 1 },
+        { todo_id: todos[0].id, title: 'First', position: 0, completed: true }
+      ])
+      .execute();
+
+    const result = (await getTodos(undefined, user.id)).todos;
+
+    const withChecklist = result.find(todo => todo.id === todos[0].id)!;
+    expect(withChecklist.checklist.map(item => item.title)).toEqual(['First', 'Second']);
+    expect(withChecklist.checklist[0].completed).toBe(true);
+
+    const withoutChecklist = result.find(todo => todo.id === todos[1].id)!;
+    expect(withoutChecklist.checklist).toEqual([]);
+  });
+
+  it('should return todos in manual order by default', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Third', position: 'r' },
+        { owner_id: user.id, title: 'First', position: 'a' },
+        { owner_id: user.id, title: 'Second', position: 'ai' }
+      ])
+      .returning()
+      .execute();
+
+    const result = (await getTodos(defaultInput, user.id)).todos;
+
+    expect(result.map(todo => todo.title)).toEqual(['First', 'Second', 'Third']);
+    expect(result[0].position).toEqual(todos[1].position);
+  });
+
+  it('should leave out trashed todos by default', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Alive' },
+        { owner_id: user.id, title: 'Trashed', deleted_at: new Date() }
+      ])
+      .execute();
+
+    const result = (await getTodos(defaultInput, user.id)).todos;
+
+    expect(result.map(todo => todo.title)).toEqual(['Alive']);
+    expect(result[0].deleted_at).toBeNull();
+  });
+
+  it('should return only trashed todos, most recently deleted first', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Alive' },
+        { owner_id: user.id, title: 'Trashed earlier', deleted_at: new Date('2030-01-01T00:00:00Z') },
+        { owner_id: user.id, title: 'Trashed later', deleted_at: new Date('2030-01-02T00:00:00Z') }
+      ])
+      .execute();
+
+    const result = (await getTodos({ ...defaultInput, trashed: true }, user.id)).todos;
+
+    expect(result.map(todo => todo.title)).toEqual(['Trashed later', 'Trashed earlier']);
+  });
+
+  it('should only return todos owned by the user', async () => {
+    const other = await createTestUser('other@example.com');
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Mine' },
+        { owner_id: other.id, title: 'Theirs' }
+      ])
+      .execute();
+
+    const result = (await getTodos(defaultInput, user.id)).todos;
+
+    expect(result.map(todo => todo.title)).toEqual(['Mine']);
+  });
+
+  it('should include todos in lists shared with the user', async () => {
+    const owner = await createTestUser('owner@example.com');
+    const lists = await db.insert(listsTable)
+      .values([{ owner_id: owner.id, name: 'Shared' }, { owner_id: owner.id, name: 'Private' }])
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: lists[0].id, user_id: user.id, role: 'viewer', invited_by: owner.id, accepted_at: new Date() })
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: owner.id, title: 'Shared todo', list_id: lists[0].id },
+        { owner_id: owner.id, title: 'Private list todo', list_id: lists[1].id },
+        { owner_id: owner.id, title: 'Unfiled todo' }
+      ])
+      .execute();
+
+    const all = (await getTodos(defaultInput, user.id)).todos;
+    expect(all.map(todo => todo.title)).toEqual(['Shared todo']);
+
+    const inList = (await getTodos({ ...defaultInput, listId: lists[1].id }, user.id)).todos;
+    expect(inList).toEqual([]);
+  });
+
+  it('should filter todos by assignee', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Mine', assignee_id: user.id },
+        { owner_id: user.id, title: 'Nobody\'s' }
+      ])
+      .execute();
+
+    const assigned = (await getTodos({ ...defaultInput, assigneeId: user.id }, user.id)).todos;
+    expect(assigned.map(todo => todo.title)).toEqual(['Mine']);
+    expect(assigned[0].assignee_name).toEqual('test');
+
+    const unassigned = (await getTodos({ ...defaultInput, assigneeId: null }, user.id)).todos;
+    expect(unassigned.map(todo => todo.title)).toEqual(['Nobody\'s']);
+  });
+
+  it('should return the number of comments on each todo', async () => {
+    const todos = await db.insert(todosTable)
+      .values([{ owner_id: user.id, title: 'Discussed' }, { owner_id: user.id, title: 'Quiet' }])
+      .returning()
+      .execute();
+    await db.insert(commentsTable)
+      .values([
+        { todo_id: todos[0].id, author_id: user.id, body: 'One' },
+        { todo_id: todos[0].id, author_id: user.id, body: 'Two' }
+      ])
+      .execute();
+
+    const result = (await getTodos(defaultInput, user.id)).todos;
+
+    expect(result.map(todo => [todo.title, todo.comment_count])).toEqual([['Discussed', 2], ['Quiet', 0]]);
+  });
+
+  it('should filter by status', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Open', completed: false },
+        { owner_id: user.id, title: 'Done', completed: true }
+      ])
+      .execute();
+
+    const active = (await getTodos({ ...defaultInput, status: 'active' }, user.id)).todos;
+    expect(active.map(todo => todo.title)).toEqual(['Open']);
+
+    const completed = (await getTodos({ ...defaultInput, status: 'completed' }, user.id)).todos;
+    expect(completed.map(todo => todo.title)).toEqual(['Done']);
+  });
+
+  it('should keep archived todos out of the live todos and show them in the archive', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Open' },
+        { owner_id: user.id, title: 'Archived', completed: true, archived_at: new Date() },
+        { owner_id: user.id, title: 'Archived and trashed', completed: true, archived_at: new Date(), deleted_at: new Date() }
+      ])
+      .execute();
+
+    const live = (await getTodos(defaultInput, user.id)).todos;
+    expect(live.map(todo => todo.title)).toEqual(['Open']);
+
+    const archive = (await getTodos({ ...defaultInput, archived: true }, user.id)).todos;
+    expect(archive.map(todo => todo.title)).toEqual(['Archived']);
+
+    // The trash shows everything that was trashed, archived or not
+    const trash = (await getTodos({ ...defaultInput, trashed: true }, user.id)).todos;
+    expect(trash.map(todo => todo.title)).toEqual(['Archived and trashed']);
+  });
+
+  it('should filter by when todos were created and last updated', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Old', created_at: new Date('2030-01-01T00:00:00Z'), updated_at: new Date('2030-03-01T00:00:00Z') },
+        { owner_id: user.id, title: 'New', created_at: new Date('2030-02-01T00:00:00Z'), updated_at: new Date('2030-02-01T00:00:00Z') }
+      ])
+      .execute();
+
+    const created = (await getTodos({ ...defaultInput, createdFrom: new Date('2030-01-15T00:00:00Z') }, user.id)).todos;
+    expect(created.map(todo => todo.title)).toEqual(['New']);
+
+    const updated = (await getTodos({
+      ...defaultInput,
+      updatedFrom: new Date('2030-02-15T00:00:00Z'),
+      updatedTo: new Date('2030-03-01T00:00:00Z')
+    }, user.id)).todos;
+    expect(updated.map(todo => todo.title)).toEqual(['Old']);
+  });
+
+  it('should sort descending with undated and unprioritized todos still last', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Undated', priority: null },
+        { owner_id: user.id, title: 'Sooner', priority: 'p1', due_at: new Date('2030-01-01T00:00:00') },
+        { owner_id: user.id, title: 'Later', priority: 'p3', due_at: new Date('2030-06-01T00:00:00') }
+      ])
+      .execute();
+
+    const byDue = (await getTodos({ ...defaultInput, sortBy: 'due_at', sortDirection: 'desc' }, user.id)).todos;
+    expect(byDue.map(todo => todo.title)).toEqual(['Later', 'Sooner', 'Undated']);
+
+    const byPriority = (await getTodos({ ...defaultInput, sortBy: 'priority', sortDirection: 'desc' }, user.id)).todos;
+    expect(byPriority.map(todo => todo.title)).toEqual(['Later', 'Sooner', 'Undated']);
+  });
+
+  it('should page through todos with a cursor, breaking ties by id', async () => {
+    const due = new Date('2030-01-01T00:00:00');
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'A', due_at: due },
+        { owner_id: user.id, title: 'B' },
+        { owner_id: user.id, title: 'C', due_at: due },
+        { owner_id: user.id, title: 'D', due_at: new Date('2029-12-01T00:00:00') },
+        { owner_id: user.id, title: 'E', due_at: due }
+      ])
+      .execute();
+
+    const input = { ...defaultInput, sortBy: 'due_at' as const, limit: 2 };
+    const titles: string[][] = [];
+    let cursor: number | undefined;
+    do {
+      const page = await getTodos({ ...input, cursor }, user.id);
+      titles.push(page.todos.map(todo => todo.title));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+
+    expect(titles).toEqual([['D', 'A'], ['C', 'E'], ['B']]);
+  });
+
+  it('should continue after a cursor todo that has since been trashed', async () => {
+    const todos = await db.insert(todosTable)
+      .values([{ owner_id: user.id, title: 'First' }, { owner_id: user.id, title: 'Second' }, { owner_id: user.id, title: 'Third' }])
+      .returning()
+      .execute();
+
+    const first = await getTodos({ ...defaultInput, limit: 1 }, user.id);
+    expect(first.nextCursor).toEqual(todos[0].id);
+
+    await db.update(todosTable).set({ deleted_at: new Date() }).where(eq(todosTable.id, todos[0].id)).execute();
+
+    const rest = await getTodos({ ...defaultInput, cursor: first.nextCursor! }, user.id);
+    expect(rest.todos.map(todo => todo.title)).toEqual(['Second', 'Third']);
+    expect(rest.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { importICalendar } from '../handlers/import_icalendar';
+import { createCalendarFeed } from '../handlers/create_calendar_feed';
+import { renderCalendarFeed } from '../handlers/render_calendar_feed';
+import { getTodos } from '../handlers/get_todos';
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Test//EN', ...lines, 'END:VCALENDAR', ''].join('\r\n');
+
+describe('importICalendar', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const importFile = (content: string, options: { list_id?: number | null; dry_run?: boolean } = {}) =>
+    importICalendar({ content, list_id: null, dry_run: false, skip_duplicates: true, ...options }, user.id);
+
+  it('should import VTODOs with their status, due date, priority and repeat rule', async () => {
+    const report = await importFile(calendar(
+      'BEGIN:VTODO',
+      'UID:1@example.com',
+      'SUMMARY:Write report\\, finally',
+      'DESCRIPTION:First line\\nSecond',
+      '  line',
+      'DUE;TZID=Europe/Berlin:20250301T103000',
+      'PRIORITY:1',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250630T215959Z',
+      'CATEGORIES:Work,Reports',
+      'STATUS:NEEDS-ACTION',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VTODO',
+      'BEGIN:VEVENT',
+      'SUMMARY:Not a todo',
+      'DTSTART:20250301T100000Z',
+      'END:VEVENT',
+      'BEGIN:VTODO',
+      'SUMMARY:Pay rent',
+      'DUE;VALUE=DATE:20250401',
+      'PRIORITY:5',
+      'COMPLETED:20250330T080000Z',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Call Mom',
+      'DUE:20250302T180000Z',
+      'PRIORITY:9',
+      'STATUS:COMPLETED',
+      'END:VTODO'
+    ));
+
+    expect(report.imported).toEqual(3);
+    const { todos } = await getTodos(undefined, user.id);
+    expect(todos[0]).toMatchObject({
+      title: 'Write report, finally',
+      description: 'First line\nSecond line',
+      completed: false,
+      // 10:30 in Berlin, an hour ahead of UTC in winter
+      due_at: new Date('2025-03-01T09:30:00Z'),
+      due_has_time: true,
+      priority: 'p1',
+      recurrence: { frequency: 'weekly', interval: 2, weekdays: ['MO', 'WE'], count: null }
+    });
+    expect(todos[0].recurrence?.until).toMatch(/^2025-0(6-30|7-01)$/);
+    expect(todos[0].tags.map(tag => tag.name).sort()).toEqual(['reports', 'work']);
+    expect(todos[1]).toMatchObject({ title: 'Pay rent', completed: true, due_at: new Date(2025, 3, 1), due_has_time: false, priority: 'p3' });
+    expect(todos[2]).toMatchObject({ title: 'Call Mom', completed: true, due_at: new Date('2025-03-02T18:00:00Z'), priority: 'p4' });
+  });
+
+  it('should report VTODOs it cannot import', async () => {
+    const report = await importFile(calendar(
+      'BEGIN:VTODO',
+      'DUE:20250301',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Hourly',
+      'DUE:20250301T100000Z',
+      'RRULE:FREQ=HOURLY',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Second Tuesday',
+      'DUE:20250311',
+      'RRULE:FREQ=MONTHLY;BYDAY=2TU',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Soon',
+      'DUE:soon',
+      'END:VTODO'
+    ), { dry_run: true });
+
+    expect(report.rows.map(row => row.status)).toEqual(['invalid', 'invalid', 'invalid', 'invalid']);
+    expect(report.rows[0].errors).toEqual(['title: Required']);
+    expect(report.rows[1].errors[0]).toStartWith('recurrence.frequency:');
+    expect(report.rows[2].errors.some(error => error.startsWith('recurrence.weekdays'))).toBe(true);
+    expect(report.rows[3].errors[0]).toStartWith('due_at:');
+  });
+
+  it('should reject files that are not calendars', async () => {
+    await expect(importFile('SUMMARY:Nope')).rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Invalid iCalendar file: it must start with BEGIN:VCALENDAR' });
+  });
+
+  it('should import the calendar feed into another list as it was', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: user.id, name: 'Copy' }).returning().execute();
+    await db.insert(todosTable)
+      .values([
+        {
+          owner_id: user.id,
+          title: 'Write report; draft, then final',
+          description: 'First line\nSecond line',
+          due_at: new Date('2025-03-01T09:30:00Z'),
+          due_has_time: true,
+          priority: 'p2',
+          recurrence: { frequency: 'monthly', interval: 1, weekdays: [], until: null, count: 6 }
+        },
+        { owner_id: user.id, title: 'Pay rent', completed: true, priority: 'p4', due_at: new Date(2025, 3, 1) }
+      ])
+      .execute();
+    const { token } = await createCalendarFeed(user.id);
+
+    const report = await importFile((await renderCalendarFeed(token, { events: true }))!, { list_id: list.id });
+
+    expect(report.imported).toEqual(2);
+    const fields = ({ title, description, completed, due_at, due_has_time, priority, recurrence }: Record<string, unknown>) =>
+      ({ title, description, completed, due_at, due_has_time, priority, recurrence });
+    const { todos } = await getTodos(undefined, user.id);
+    const originals = todos.filter(todo => todo.list_id === null);
+    const copies = todos.filter(todo => todo.list_id === list.id);
+    expect(copies.map(fields)).toEqual(originals.map(fields));
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { importTodoTxt } from '../handlers/import_todo_txt';
+import { getTodos } from '../handlers/get_todos';
+import { parseTodoTxt, parseTodoTxtLine, serializeTodoTxt, serializeTodoTxtLine } from '../helpers/todotxt';
+import { asc } from 'drizzle-orm';
+
+describe('todo.txt format', () => {
+  it('should read every part of a line', () => {
+    expect(parseTodoTxtLine('(A) 2025-01-02 Call Mom +Family @phone due:2025-01-05')).toEqual({
+      completed: false,
+      priority: 'A',
+      completed_on: null,
+      created_on: '2025-01-02',
+      text: 'Call Mom +Family @phone due:2025-01-05'
+    });
+    expect(parseTodoTxtLine('x 2025-01-06 2025-01-02 Call Mom pri:A')).toEqual({
+      completed: true,
+      priority: null,
+      completed_on: '2025-01-06',
+      created_on: '2025-01-02',
+      text: 'Call Mom pri:A'
+    });
+    // A completed task's only date is when it was completed
+    expect(parseTodoTxtLine('x 2025-01-06 Call Mom')).toMatchObject({ completed_on: '2025-01-06', created_on: null });
+  });
+
+  it('should write back every line exactly as it was read', () => {
+    const lines = [
+      'Plain task',
+      '(A) Thank Mom for the meatballs @phone',
+      '(B) 2025-01-02 Schedule Goodwill pickup +GarageSale @phone',
+      'x 2025-01-06 2025-01-02 Post signs around the neighborhood +GarageSale pri:C',
+      'x 2025-01-06 Download Todo.txt mobile app @Phone',
+      '2025-01-02 Pay rent due:2025-02-01 rec:+1m t:2025-01-25',
+      'Read https://example.com/a:b before the meeting',
+      '(a) lowercase priorities are text, and so is an x in the middle',
+      'xylophone lessons start with an x but are not done',
+      '  indented  with   extra spaces  '
+    ];
+
+    for (const line of lines) {
+      expect(serializeTodoTxtLine(parseTodoTxtLine(line))).toEqual(line);
+    }
+    expect(serializeTodoTxt(parseTodoTxt(lines.join('\n') + '\n'))).toEqual(lines.join('\n') + '\n');
+  });
+
+  it('should leave out blank lines and read Windows line endings', () => {
+    expect(parseTodoTxt('\uFEFFFirst\r\n\r\n   \r\nSecond\r\n').map(task => task.text)).toEqual(['First', 'Second']);
+  });
+});
+
+describe('importTodoTxt', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const importFile = (content: string, dryRun: boolean = false) =>
+    importTodoTxt({ content, list_id: null, dry_run: dryRun, skip_duplicates: true }, user.id);
+
+  it('should map tasks onto todos', async () => {
+    const report = await importFile([
+      '(B) 2025-01-02 Call Mom +Family @phone due:2025-01-05T18:30 rec:2w',
+      'x 2025-01-06 2025-01-02 File taxes due:2025-01-31 pri:A',
+      '(F) Someday task +family rec:b'
+    ].join('\n'));
+
+    expect(report.imported).toEqual(3);
+    const { todos } = await getTodos(undefined, user.id);
+
+    expect(todos[0]).toMatchObject({
+      // Projects and contexts stay where they were written, and are added as tags too
+      title: 'Call Mom +Family @phone',
+      completed: false,
+      priority: 'p2',
+      due_at: new Date(2025, 0, 5, 18, 30),
+      due_has_time: true,
+      recurrence: { frequency: 'weekly', interval: 2, weekdays: [] }
+    });
+    expect(todos[0].tags.map(tag => tag.name).sort()).toEqual(['family', 'phone']);
+
+    expect(todos[1]).toMatchObject({
+      title: 'File taxes',
+      completed: true,
+      priority: 'p1',
+      due_at: new Date(2025, 0, 31),
+      due_has_time: false,
+      recurrence: null
+    });
+
+    // Priorities below (D) count as p4; rec:b is every business day
+    expect(todos[2]).toMatchObject({
+      title: 'Someday task +family',
+      priority: 'p4',
+      recurrence: { frequency: 'weekly', interval: 1, weekdays: ['MO', 'TU', 'WE', 'TH', 'FR'] }
+    });
+  });
+
+  it('should report tasks whose extensions cannot be read', async () => {
+    const report = await importFile('Pay rent due:soon\nWater plants rec:2b\nStretch rec-days:MO\nBuy milk\n', true);
+
+    expect(report.rows.map(row => row.status)).toEqual(['invalid', 'invalid', 'invalid', 'new']);
+    expect(report.rows[0].title).toEqual('Pay rent');
+    expect(report.rows[0].errors[0]).toStartWith('due_at:');
+    expect(report.rows[1].errors[0]).toStartWith('recurrence:');
+    expect(report.rows[2].errors[0]).toStartWith('recurrence.frequency:');
+    const rows = await db.select().from(todosTable).orderBy(asc(todosTable.id)).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should skip tasks already in the list', async () => {
+    await importFile('Call Mom due:2025-01-05\n');
+
+    const report = await importFile('Call Mom due:2025-01-05\nCall Mom\n');
+
+    expect(report.rows.map(row => row.status)).toEqual(['duplicate', 'new']);
+    expect(report.imported).toEqual(1);
+  });
+});
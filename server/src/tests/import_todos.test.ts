@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todosTable } from '../db/schema';
+import { type ImportTodosInput, type User } from '../schema';
+import { importTodos } from '../handlers/import_todos';
+import { exportTodos } from '../handlers/export_todos';
+import { getTodos } from '../handlers/get_todos';
+import { asc, eq } from 'drizzle-orm';
+
+describe('importTodos', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const importFile = (format: ImportTodosInput['format'], content: string, options: Partial<ImportTodosInput> = {}) =>
+    importTodos({ format, content, list_id: null, dry_run: false, skip_duplicates: true, ...options }, user.id);
+
+  const titles = async () => {
+    const rows = await db.select().from(todosTable).orderBy(asc(todosTable.id)).execute();
+    return rows.map(todo => todo.title);
+  };
+
+  it('should import an export into another list as it was', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: user.id, name: 'Copy' }).returning().execute();
+    await importFile('json', JSON.stringify([{
+      title: 'Write report',
+      description: 'Quarterly',
+      completed: true,
+      due_at: '2025-03-01T09:30:00.000Z',
+      due_has_time: true,
+      priority: 'p1',
+      recurrence: { frequency: 'monthly' },
+      tags: ['#Work'],
+      checklist: [{ title: 'Outline', completed: true }]
+    }]));
+
+    for (const format of ['json', 'csv'] as const) {
+      const file = await exportTodos({ format, listId: null, includeArchived: false }, user.id);
+      await importFile(format, file.content, { list_id: list.id });
+    }
+
+    const { todos } = await getTodos({ listId: list.id, tagMatch: 'any', status: 'all', sortBy: 'position', sortDirection: 'asc', trashed: false, archived: false }, user.id);
+    // Both copies landed in the list; the second one was a duplicate of the first
+    expect(todos).toHaveLength(1);
+    expect(todos[0]).toMatchObject({
+      title: 'Write report',
+      description: 'Quarterly',
+      completed: true,
+      due_at: new Date('2025-03-01T09:30:00.000Z'),
+      due_has_time: true,
+      priority: 'p1',
+      recurrence: { frequency: 'monthly', interval: 1, weekdays: [], until: null, count: null }
+    });
+    expect(todos[0].tags.map(tag => tag.name)).toEqual(['work']);
+    expect(todos[0].checklist.map(item => [item.title, item.completed])).toEqual([['Outline', true]]);
+  });
+
+  it('should restore a backup into the lists it names and the archive', async () => {
+    const lists = await db.insert(listsTable)
+      .values([{ owner_id: user.id, name: 'Work' }, { owner_id: user.id, name: 'Home' }])
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Write report', list_id: lists[0].id, completed: true, archived_at: new Date() },
+        { owner_id: user.id, title: 'Mow the lawn', list_id: lists[1].id },
+        { owner_id: user.id, title: 'Call mum' }
+      ])
+      .execute();
+
+    for (const format of ['json', 'csv'] as const) {
+      const file = await exportTodos({ format, includeArchived: true }, user.id);
+      // The Home list is gone and has to be made again; Work is still there
+      await db.delete(todosTable).execute();
+      await db.delete(listsTable).where(eq(listsTable.name, 'Home')).execute();
+
+      const report = await importFile(format, file.content);
+      expect(report.imported).toEqual(3);
+
+      const restored = await db.select({ title: todosTable.title, list: listsTable.name, archived_at: todosTable.archived_at })
+        .from(todosTable)
+        .leftJoin(listsTable, eq(todosTable.list_id, listsTable.id))
+        .orderBy(asc(todosTable.title))
+        .execute();
+      expect(restored.map(todo => [todo.title, todo.list, todo.archived_at !== null])).toEqual([
+        ['Call mum', null, false],
+        ['Mow the lawn', 'Home', false],
+        ['Write report', 'Work', true]
+      ]);
+      expect(await db.select().from(listsTable).where(eq(listsTable.name, 'Work')).execute()).toHaveLength(1);
+
+      // Restoring the same backup again finds every todo in its list
+      const again = await importFile(format, file.content, { dry_run: true });
+      expect(again.rows.map(row => row.status)).toEqual(['duplicate', 'duplicate', 'duplicate']);
+    }
+  });
+
+  it('should read back CSV fields escaped against spreadsheet formulas', async () => {
+    await importFile('json', JSON.stringify([{ title: '=SUM(A1:A2)' }, { title: "'@home" }, { title: "Don't panic" }]));
+
+    const file = await exportTodos({ format: 'csv', listId: null, includeArchived: false }, user.id);
+    await db.delete(todosTable).execute();
+    await importFile('csv', file.content);
+
+    expect(await titles()).toEqual(['=SUM(A1:A2)', "'@home", "Don't panic"]);
+  });
+
+  it('should import CSV with the columns in any order', async () => {
+    const report = await importFile('csv', 'Priority,Title,Tags\r\np3,"Buy milk, eggs",home\r\n,Call mum,\r\n');
+
+    expect(report.imported).toEqual(2);
+    const rows = await db.select().from(todosTable).orderBy(asc(todosTable.id)).execute();
+    expect(rows.map(todo => [todo.title, todo.priority])).toEqual([['Buy milk, eggs', 'p3'], ['Call mum', null]]);
+  });
+
+  it('should import Markdown checklists with nested steps', async () => {
+    await importFile('markdown', [
+      '# Weekend',
+      '',
+      '- [ ] Clean the garage',
+      '  - [x] Sort the boxes',
+      '  - [ ] Sweep',
+      '* [X] Water the plants',
+      'Some notes that are not todos'
+    ].join('\n'));
+
+    const { todos } = await getTodos(undefined, user.id);
+    expect(todos.map(todo => [todo.title, todo.completed])).toEqual([['Clean the garage', false], ['Water the plants', true]]);
+    expect(todos[0].checklist.map(item => [item.title, item.completed])).toEqual([['Sort the boxes', true], ['Sweep', false]]);
+  });
+
+  it('should report invalid todos and import the valid ones', async () => {
+    const report = await importFile('json', JSON.stringify([
+      { title: 'Fine' },
+      { title: '  ', priority: 'urgent' },
+      { title: 'Bad date', due_at: 'someday' }
+    ]));
+
+    expect(report.imported).toEqual(1);
+    expect(report.rows).toEqual([
+      { row: 1, title: 'Fine', status: 'new', errors: [] },
+      { row: 2, title: null, status: 'invalid', errors: [expect.stringMatching(/^title: /), expect.stringMatching(/^priority: /)] },
+      { row: 3, title: 'Bad date', status: 'invalid', errors: ['due_at: Invalid date'] }
+    ]);
+    expect(await titles()).toEqual(['Fine']);
+  });
+
+  it('should skip duplicates of existing todos and of earlier rows', async () => {
+    await db.insert(todosTable).values({ owner_id: user.id, title: 'Buy milk' }).execute();
+
+    const report = await importFile('markdown', '- [ ] buy MILK\n- [ ] Call mum\n- [ ] Call mum\n');
+
+    expect(report.rows.map(row => row.status)).toEqual(['duplicate', 'new', 'duplicate']);
+    expect(await titles()).toEqual(['Buy milk', 'Call mum']);
+
+    // Unless asked to import them anyway
+    await importFile('markdown', '- [ ] Buy milk\n', { skip_duplicates: false });
+    expect(await titles()).toEqual(['Buy milk', 'Call mum', 'Buy milk']);
+  });
+
+  it('should only report on a dry run', async () => {
+    const report = await importFile('markdown', '- [ ] Buy milk\n', { dry_run: true });
+
+    expect(report).toEqual({ dry_run: true, imported: 0, rows: [{ row: 1, title: 'Buy milk', status: 'new', errors: [] }] });
+    expect(await titles()).toEqual([]);
+  });
+
+  it('should reject unreadable files and lists the user may not edit', async () => {
+    await expect(importFile('json', '{"todos": ')).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/^Invalid JSON/) });
+    await expect(importFile('json', '{"items": []}')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(importFile('csv', 'name\r\nBuy milk\r\n')).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/"title"/) });
+    await expect(importFile('csv', 'title\r\n"Buy milk\r\n')).rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Invalid CSV: a quoted field is never closed' });
+
+    const other = await createTestUser('other@example.com');
+    const [list] = await db.insert(listsTable).values({ owner_id: other.id, name: 'Team' }).returning().execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: list.id, user_id: user.id, role: 'viewer', invited_by: other.id, accepted_at: new Date() })
+      .execute();
+    await expect(importFile('markdown', '- [ ] Buy milk\n', { list_id: list.id })).rejects.toThrow();
+  });
+});
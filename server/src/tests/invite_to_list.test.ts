@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable } from '../db/schema';
+import { type User } from '../schema';
+import { inviteToList } from '../handlers/invite_to_list';
+import { eq } from 'drizzle-orm';
+
+describe('inviteToList', () => {
+  let user: User;
+  let friend: User;
+  let listId: number;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    friend = await createTestUser('friend@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Release steps' })
+      .returning()
+      .execute();
+    listId = lists[0].id;
+  });
+  afterEach(resetDB);
+
+  it('should create a pending invitation', async () => {
+    const result = await inviteToList({ list_id: listId, email: 'friend@example.com', role: 'editor' }, user.id);
+
+    expect(result).toEqual({
+      user_id: friend.id,
+      name: friend.name,
+      email: 'friend@example.com',
+      role: 'editor',
+      accepted: false
+    });
+
+    const members = await db.select()
+      .from(listMembersTable)
+      .where(eq(listMembersTable.list_id, listId))
+      .execute();
+
+    expect(members).toHaveLength(1);
+    expect(members[0].invited_by).toEqual(user.id);
+    expect(members[0].accepted_at).toBeNull();
+  });
+
+  it('should reject unknown emails', async () => {
+    await expect(inviteToList({ list_id: listId, email: 'nobody@example.com', role: 'viewer' }, user.id))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: 'No user with email nobody@example.com' });
+  });
+
+  it('should reject inviting the owner or inviting someone twice', async () => {
+    await expect(inviteToList({ list_id: listId, email: 'test@example.com', role: 'viewer' }, user.id))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'You already own this list' });
+
+    await inviteToList({ list_id: listId, email: 'friend@example.com', role: 'viewer' }, user.id);
+    await expect(inviteToList({ list_id: listId, email: 'friend@example.com', role: 'editor' }, user.id))
+      .rejects.toMatchObject({ code: 'CONFLICT', message: 'friend@example.com has already been invited to this list' });
+  });
+
+  it('should only let the owner invite', async () => {
+    await db.insert(listMembersTable)
+      .values({ list_id: listId, user_id: friend.id, role: 'editor', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+    await createTestUser('third@example.com');
+
+    await expect(inviteToList({ list_id: listId, email: 'third@example.com', role: 'viewer' }, friend.id))
+      .rejects.toThrow(/You need to be owner of list/);
+  });
+
+  it('should treat lists of other users as missing', async () => {
+    await expect(inviteToList({ list_id: listId, email: 'test@example.com', role: 'viewer' }, friend.id))
+      .rejects.toThrow(new RegExp(`List with id ${listId} not found`));
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { loginInputSchema } from '../schema';
+import { registerUser } from '../handlers/register_user';
+import { loginUser } from '../handlers/login_user';
+import { createSession, deleteSession, getSessionUser } from '../helpers/sessions';
+
+describe('loginUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await registerUser({ email: 'ada@example.com', name: 'Ada', password: 'correct horse' });
+  });
+
+  it('should return the user for the right password', async () => {
+    const result = await loginUser(loginInputSchema.parse({ email: 'Ada@Example.com', password: 'correct horse' }));
+
+    expect(result.email).toEqual('ada@example.com');
+    expect(result.name).toEqual('Ada');
+    expect(result).not.toHaveProperty('password_hash');
+  });
+
+  it('should reject a wrong password', async () => {
+    await expect(loginUser({ email: 'ada@example.com', password: 'wrong horse' }))
+      .rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid email or password' });
+  });
+
+  it('should reject an unknown email with the same error', async () => {
+    await expect(loginUser({ email: 'bob@example.com', password: 'correct horse' }))
+      .rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid email or password' });
+  });
+
+  it('should resolve sessions until they are deleted', async () => {
+    const user = await loginUser({ email: 'ada@example.com', password: 'correct horse' });
+    const token = await createSession(user.id);
+
+    expect(await getSessionUser(token)).toEqual(user);
+    expect(await getSessionUser('not-a-token')).toBeNull();
+
+    await deleteSession(token);
+
+    expect(await getSessionUser(token)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todoEventsTable, todosTable, todoTagsTable } from '../db/schema';
+import { mergeTagsInputSchema, type User } from '../schema';
+import { mergeTags } from '../handlers/merge_tags';
+import { eq } from 'drizzle-orm';
+
+describe('mergeTags', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should move todos to the target tag and remove the source tag', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Only source', completed: false },
+        { owner_id: user.id, title: 'Both tags', completed: false },
+        { owner_id: user.id, title: 'Only target', completed: false }
+      ])
+      .returning()
+      .execute();
+    const tags = await db.insert(tagsTable)
+      .values([{ owner_id: user.id, name: 'defect' }, { owner_id: user.id, name: 'bug' }])
+      .returning()
+      .execute();
+    const [source, target] = tags;
+
+    await db.insert(todoTagsTable)
+      .values([
+        { todo_id: todos[0].id, tag_id: source.id },
+        { todo_id: todos[1].id, tag_id: source.id },
+        { todo_id: todos[1].id, tag_id: target.id },
+        { todo_id: todos[2].id, tag_id: target.id }
+      ])
+      .execute();
+
+    const result = await mergeTags({ source_id: source.id, target_id: target.id }, user.id);
+
+    expect(result.id).toEqual(target.id);
+    expect(result.name).toEqual('bug');
+
+    // Source tag is gone
+    const remainingTags = await db.select().from(tagsTable).execute();
+    expect(remainingTags.map(tag => tag.name)).toEqual(['bug']);
+
+    // Every todo now carries the target tag exactly once
+    const links = await db.select()
+      .from(todoTagsTable)
+      .where(eq(todoTagsTable.tag_id, target.id))
+      .execute();
+    expect(links.map(link => link.todo_id).sort()).toEqual(todos.map(todo => todo.id).sort());
+
+    const allLinks = await db.select().from(todoTagsTable).execute();
+    expect(allLinks).toHaveLength(3);
+
+    // The todos that had the source tag record what happened to it
+    const events = await db.select().from(todoEventsTable).orderBy(todoEventsTable.todo_id).execute();
+    expect(events.map(event => [event.todo_id, event.type, event.from_value, event.to_value])).toEqual([
+      [todos[0].id, 'tag_renamed', 'defect', 'bug'],
+      [todos[1].id, 'untagged', 'defect', null]
+    ]);
+  });
+
+  it('should reject merging a tag into itself', () => {
+    expect(() => mergeTagsInputSchema.parse({ source_id: 1, target_id: 1 })).toThrow();
+  });
+
+  it('should throw error when a tag does not exist and leave data untouched', async () => {
+    const tags = await db.insert(tagsTable)
+      .values({ owner_id: user.id, name: 'bug' })
+      .returning()
+      .execute();
+
+    await expect(mergeTags({ source_id: tags[0].id, target_id: 999 }, user.id))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: 'Tag with id 999 not found' });
+    await expect(mergeTags({ source_id: 999, target_id: tags[0].id }, user.id))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: 'Tag with id 999 not found' });
+
+    const remainingTags = await db.select().from(tagsTable).execute();
+    expect(remainingTags).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type MoveTodoInput, type User } from '../schema';
+import { moveTodo } from '../handlers/move_todo';
+import { getTodos } from '../handlers/get_todos';
+import { createTodo } from '../handlers/create_todo';
+import { rankBetween } from '../helpers/positions';
+import { eq } from 'drizzle-orm';
+
+describe('moveTodo', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestTodos = async () => {
+    return db.insert(todosTable)
+      .values([{ owner_id: user.id, title: 'A' }, { owner_id: user.id, title: 'B' }, { owner_id: user.id, title: 'C' }])
+      .returning()
+      .execute();
+  };
+
+  const titlesInOrder = async () => {
+    const todos = (await getTodos({ tagMatch: 'any', status: 'all', sortBy: 'position', sortDirection: 'asc', trashed: false, archived: false }, user.id)).todos;
+    return todos.map(todo => todo.title);
+  };
+
+  it('should move a todo before another', async () => {
+    const [a, , c] = await createTestTodos();
+
+    const input: MoveTodoInput = { id: c.id, target_id: a.id, placement: 'before' };
+    const result = await moveTodo(input, user.id);
+
+    expect(result.id).toEqual(c.id);
+    expect(result.title).toEqual('C');
+    expect(await titlesInOrder()).toEqual(['C', 'A', 'B']);
+  });
+
+  it('should move a todo after another', async () => {
+    const [a, b] = await createTestTodos();
+
+    await moveTodo({ id: a.id, target_id: b.id, placement: 'after' }, user.id);
+
+    expect(await titlesInOrder()).toEqual(['B', 'A', 'C']);
+  });
+
+  it('should move a todo to the end and keep new todos after it', async () => {
+    const [a, , c] = await createTestTodos();
+
+    await moveTodo({ id: a.id, target_id: c.id, placement: 'after' }, user.id);
+    expect(await titlesInOrder()).toEqual(['B', 'C', 'A']);
+
+    await createTodo({ title: 'D' }, user.id);
+    expect(await titlesInOrder()).toEqual(['B', 'C', 'A', 'D']);
+  });
+
+  it('should only rewrite the moved todo', async () => {
+    const [a, b, c] = await createTestTodos();
+
+    await moveTodo({ id: c.id, target_id: b.id, placement: 'before' }, user.id);
+
+    const rows = await db.select().from(todosTable).execute();
+    const positions = new Map(rows.map(row => [row.id, row.position]));
+    expect(positions.get(a.id)).toEqual(a.position);
+    expect(positions.get(b.id)).toEqual(b.position);
+    expect(positions.get(c.id)).not.toEqual(c.position);
+  });
+
+  it('should keep finding room in the same gap', async () => {
+    const [a, b, c] = await createTestTodos();
+
+    // Alternately drop B and C between A and the other one
+    for (let i = 0; i < 30; i++) {
+      const moving = i % 2 === 0 ? c : b;
+      await moveTodo({ id: moving.id, target_id: a.id, placement: 'after' }, user.id);
+    }
+
+    expect(await titlesInOrder()).toEqual(['A', 'B', 'C']);
+
+    const rows = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, b.id))
+      .execute();
+    expect(rows[0].position.length).toBeLessThan(40);
+  });
+
+  it('should not take the position of a todo the user cannot see', async () => {
+    const other = await createTestUser('other@example.com');
+    const [a, b, c] = await createTestTodos();
+    // Another account's todo already sits where a move between A and B would land
+    const [hidden] = await db.insert(todosTable)
+      .values({ owner_id: other.id, title: 'Hidden', position: rankBetween(a.position, b.position) })
+      .returning()
+      .execute();
+
+    const moved = await moveTodo({ id: c.id, target_id: a.id, placement: 'after' }, user.id);
+
+    expect(moved.position).not.toEqual(hidden.position);
+    expect(Buffer.compare(Buffer.from(a.position), Buffer.from(moved.position))).toEqual(-1);
+    expect(Buffer.compare(Buffer.from(moved.position), Buffer.from(hidden.position))).toEqual(-1);
+    expect(await titlesInOrder()).toEqual(['A', 'C', 'B']);
+  });
+
+  it('should throw error when a todo does not exist', async () => {
+    const [a] = await createTestTodos();
+
+    await expect(moveTodo({ id: 999, target_id: a.id, placement: 'before' }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/i);
+    await expect(moveTodo({ id: a.id, target_id: 999, placement: 'after' }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/i);
+  });
+});
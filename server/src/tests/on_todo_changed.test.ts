@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { type IncomingHttpHeaders } from 'node:http';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable } from '../db/schema';
+import { type TodoChange, type User } from '../schema';
+import { onTodoChanged } from '../handlers/on_todo_changed';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { attachTag } from '../handlers/attach_tag';
+import { renameTag } from '../handlers/rename_tag';
+import { updateListMember } from '../handlers/update_list_member';
+import { removeListMember } from '../handlers/remove_list_member';
+import { deleteList } from '../handlers/delete_list';
+import { assignTodo } from '../handlers/assign_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { restoreTodo } from '../handlers/restore_todo';
+import { createApiToken } from '../handlers/create_api_token';
+import { revokeApiToken } from '../handlers/revoke_api_token';
+import { createSession, deleteSession } from '../helpers/sessions';
+import { authenticate } from '../context';
+
+const signedIn = async () => true;
+
+// Subscribes as the user, makes the changes, and returns the first `count` changes delivered
+const receive = async (userId: number, count: number, act: () => Promise<unknown>): Promise<TodoChange[]> => {
+  const controller = new AbortController();
+  const changes = onTodoChanged(userId, signedIn, controller.signal);
+  // Starts listening before the changes are made
+  const first = changes.next();
+  await act();
+
+  const received: TodoChange[] = [];
+  for (let result = await first; !result.done; result = await changes.next()) {
+    received.push(result.value);
+    if (received.length === count) break;
+  }
+
+  controller.abort();
+  return received;
+};
+
+describe('onTodoChanged', () => {
+  let user: User;
+  let viewer: User;
+  let outsider: User;
+  let listId: number;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    viewer = await createTestUser('viewer@example.com');
+    outsider = await createTestUser('outsider@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Team' })
+      .returning()
+      .execute();
+    listId = lists[0].id;
+    await db.insert(listMembersTable)
+      .values({ list_id: listId, user_id: viewer.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should deliver created, updated and deleted todos', async () => {
+    let todoId = 0;
+    const changes = await receive(user.id, 3, async () => {
+      const todo = await createTodo({ title: 'Plan sprint' }, user.id);
+      todoId = todo.id;
+      await attachTag({ todo_id: todo.id, name: 'work' }, user.id);
+      await deleteTodo({ id: todo.id }, user.id);
+    });
+
+    expect(changes.map((change: TodoChange) => change.type)).toEqual(['created', 'updated', 'deleted']);
+    expect(changes[0].type === 'created' && changes[0].todo.title).toEqual('Plan sprint');
+    // Delivered with its related data, like getTodos
+    expect(changes[1].type === 'updated' && changes[1].todo.tags.map(tag => tag.name)).toEqual(['work']);
+    expect(changes[2]).toEqual({ type: 'deleted', id: todoId });
+  });
+
+  it('should deliver changes made by collaborators to everyone on the list', async () => {
+    const changes = await receive(viewer.id, 1, () =>
+      createTodo({ title: 'Shared task', list_id: listId }, user.id)
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].type === 'created' && changes[0].todo.title).toEqual('Shared task');
+  });
+
+  it('should not deliver changes to todos the user cannot see', async () => {
+    const changes = await receive(outsider.id, 1, async () => {
+      await createTodo({ title: 'Shared task', list_id: listId }, user.id);
+      await createTodo({ title: 'Private task' }, user.id);
+      // Only this change concerns the outsider
+      await createTodo({ title: 'Own task' }, outsider.id);
+    });
+
+    expect(changes[0].type === 'created' && changes[0].todo.title).toEqual('Own task');
+  });
+
+  it('should deliver a todo moved out of sight as deleted', async () => {
+    const todo = await createTodo({ title: 'Shared task', list_id: listId }, user.id);
+
+    const changes = await receive(viewer.id, 1, () =>
+      updateTodo({ id: todo.id, list_id: null }, user.id)
+    );
+
+    expect(changes).toEqual([{ type: 'deleted', id: todo.id }]);
+  });
+
+  it('should deliver a restored todo as updated', async () => {
+    const todo = await createTodo({ title: 'Plan sprint' }, user.id);
+    await deleteTodo({ id: todo.id }, user.id);
+
+    const changes = await receive(user.id, 1, () => restoreTodo({ id: todo.id }, user.id));
+
+    expect(changes[0].type === 'updated' && changes[0].todo.deleted_at).toBeNull();
+  });
+
+  it('should deliver the todos of a renamed tag to collaborators', async () => {
+    const todo = await createTodo({ title: 'Shared task', list_id: listId }, user.id);
+    const tagged = await attachTag({ todo_id: todo.id, name: 'wrok' }, user.id);
+
+    const changes = await receive(viewer.id, 1, () =>
+      renameTag({ id: tagged.tags[0].id, name: 'work' }, user.id)
+    );
+
+    expect(changes[0].type === 'updated' && changes[0].todo.tags.map(tag => tag.name)).toEqual(['work']);
+  });
+
+  it('should deliver todos unassigned when their assignee loses edit access', async () => {
+    await updateListMember({ list_id: listId, user_id: viewer.id, role: 'editor' }, user.id);
+    const todo = await createTodo({ title: 'Shared task', list_id: listId }, user.id);
+    await assignTodo({ id: todo.id, assignee_id: viewer.id }, user.id);
+
+    const changes = await receive(user.id, 1, () =>
+      updateListMember({ list_id: listId, user_id: viewer.id, role: 'viewer' }, user.id)
+    );
+
+    expect(changes[0].type === 'updated' && changes[0].todo.assignee_id).toBeNull();
+  });
+
+  it('should deliver the todos of a deleted list as deleted to its members', async () => {
+    const todo = await createTodo({ title: 'Shared task', list_id: listId }, user.id);
+
+    const changes = await receive(viewer.id, 1, () => deleteList({ id: listId }, user.id));
+
+    expect(changes).toEqual([{ type: 'deleted', id: todo.id }]);
+  });
+
+  it('should deliver the todos of a list as deleted to a member who was removed', async () => {
+    const todo = await createTodo({ title: 'Shared task', list_id: listId }, user.id);
+
+    const changes = await receive(viewer.id, 1, async () => {
+      await removeListMember({ list_id: listId, user_id: viewer.id }, user.id);
+      // No longer concerns the removed member
+      await createTodo({ title: 'Later task', list_id: listId }, user.id);
+    });
+
+    expect(changes).toEqual([{ type: 'deleted', id: todo.id }]);
+  });
+
+  it('should deliver the todos of a list again to an editor made a viewer, and only to them', async () => {
+    await updateListMember({ list_id: listId, user_id: viewer.id, role: 'editor' }, user.id);
+    const todo = await createTodo({ title: 'Shared task', list_id: listId }, user.id);
+
+    const [demoted, owner] = await Promise.all([
+      receive(viewer.id, 1, () => updateListMember({ list_id: listId, user_id: viewer.id, role: 'viewer' }, user.id)),
+      receive(user.id, 1, () => createTodo({ title: 'Own task' }, user.id))
+    ]);
+
+    expect(demoted[0].type === 'updated' && demoted[0].todo.id).toEqual(todo.id);
+    expect(owner[0].type === 'created' && owner[0].todo.title).toEqual('Own task');
+  });
+
+  it('should end once the session or API token it was opened with is gone', async () => {
+    const session = await createSession(user.id);
+    const apiToken = await createApiToken({ name: 'CI', scopes: ['read'], expires_in_days: 30 }, user.id);
+    // As the router checks the headers of the WebSocket connection
+    const checkFor = (headers: IncomingHttpHeaders) => async () => (await authenticate(headers)).user?.id === user.id;
+    // The error each subscription ends with, caught from the start so it is never unhandled
+    const ending = (headers: IncomingHttpHeaders) =>
+      onTodoChanged(user.id, checkFor(headers)).next().then(() => null, (error: unknown) => error);
+    const bySession = ending({ cookie: `session=${session}` });
+    const byToken = ending({ authorization: `Bearer ${apiToken.token}` });
+
+    await deleteSession(session);
+    await revokeApiToken({ id: apiToken.id }, user.id);
+    await createTodo({ title: 'Plan sprint' }, user.id);
+
+    expect(await bySession).toMatchObject({ code: 'UNAUTHORIZED' });
+    expect(await byToken).toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should end when the subscription is aborted', async () => {
+    const controller = new AbortController();
+    const changes = onTodoChanged(user.id, signedIn, controller.signal);
+    const next = changes.next();
+
+    controller.abort();
+
+    expect(await next).toEqual({ done: true, value: undefined });
+  });
+});
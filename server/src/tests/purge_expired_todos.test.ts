@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { purgeExpiredTodos } from '../handlers/purge_expired_todos';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('purgeExpiredTodos', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should purge only todos trashed longer ago than the retention window', async () => {
+    const now = Date.now();
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Long gone', deleted_at: new Date(now - 31 * DAY_MS) },
+        { owner_id: user.id, title: 'Recently trashed', deleted_at: new Date(now - 29 * DAY_MS) },
+        { owner_id: user.id, title: 'Alive' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(checklistItemsTable)
+      .values({ todo_id: todos[0].id, title: 'Step', position: 0 })
+      .execute();
+
+    const purged = await purgeExpiredTodos(30);
+
+    expect(purged).toEqual(1);
+
+    const remainingTodos = await db.select().from(todosTable).execute();
+    expect(remainingTodos.map(todo => todo.title).sort()).toEqual(['Alive', 'Recently trashed']);
+
+    const remainingItems = await db.select().from(checklistItemsTable).execute();
+    expect(remainingItems).toHaveLength(0);
+  });
+
+  it('should purge nothing when the trash is empty', async () => {
+    await db.insert(todosTable).values({ owner_id: user.id, title: 'Alive' }).execute();
+
+    expect(await purgeExpiredTodos(30)).toEqual(0);
+  });
+});
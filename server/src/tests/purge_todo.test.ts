@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, todosTable } from '../db/schema';
+import { type PurgeTodoInput, type User } from '../schema';
+import { purgeTodo } from '../handlers/purge_todo';
+
+describe('purgeTodo', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should permanently delete a trashed todo and its checklist', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Trashed', deleted_at: new Date() },
+        { owner_id: user.id, title: 'Other' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(checklistItemsTable)
+      .values([
+        { todo_id: todos[0].id, title: 'Step', position: 0 },
+        { todo_id: todos[1].id, title: 'Unrelated step', position: 0 }
+      ])
+      .execute();
+
+    const input: PurgeTodoInput = { id: todos[0].id };
+    const result = await purgeTodo(input, user.id);
+
+    expect(result.success).toBe(true);
+
+    const remainingTodos = await db.select().from(todosTable).execute();
+    expect(remainingTodos.map(todo => todo.title)).toEqual(['Other']);
+
+    const remainingItems = await db.select().from(checklistItemsTable).execute();
+    expect(remainingItems.map(item => item.title)).toEqual(['Unrelated step']);
+  });
+
+  it('should not purge a todo that is not in the trash', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Alive' })
+      .returning()
+      .execute();
+
+    const result = await purgeTodo({ id: todos[0].id }, user.id);
+
+    expect(result.success).toBe(false);
+
+    const remainingTodos = await db.select().from(todosTable).execute();
+    expect(remainingTodos).toHaveLength(1);
+  });
+
+  it('should return false when todo does not exist', async () => {
+    const result = await purgeTodo({ id: 999 }, user.id);
+
+    expect(result.success).toBe(false);
+  });
+});
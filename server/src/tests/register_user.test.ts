@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { registerInputSchema, type RegisterInput } from '../schema';
+import { registerUser } from '../handlers/register_user';
+import { UNUSABLE_PASSWORD_HASH, verifyPassword } from '../helpers/passwords';
+import { eq } from 'drizzle-orm';
+
+const testInput: RegisterInput = {
+  email: 'ada@example.com',
+  name: 'Ada',
+  password: 'correct horse'
+};
+
+describe('registerUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a user without exposing the password hash', async () => {
+    const result = await registerUser(testInput);
+
+    expect(result.id).toBeDefined();
+    expect(result.email).toEqual('ada@example.com');
+    expect(result.name).toEqual('Ada');
+    expect(result.created_at).toBeInstanceOf(Date);
+    expect(result).not.toHaveProperty('password_hash');
+  });
+
+  it('should store a hash that verifies against the password', async () => {
+    const result = await registerUser(testInput);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+
+    expect(users[0].password_hash).not.toContain('correct horse');
+    expect(await verifyPassword('correct horse', users[0].password_hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', users[0].password_hash)).toBe(false);
+    expect(await verifyPassword('correct horse', UNUSABLE_PASSWORD_HASH)).toBe(false);
+  });
+
+  it('should reject an email that is already registered', async () => {
+    await registerUser(testInput);
+
+    // Emails are normalized by the input schema, so case does not matter
+    const input = registerInputSchema.parse({ ...testInput, email: ' ADA@example.com ' });
+
+    await expect(registerUser(input)).rejects.toThrow(/already exists/i);
+    await expect(registerUser(input)).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should require passwords of at least 8 characters', () => {
+    expect(registerInputSchema.safeParse({ ...testInput, password: 'short' }).success).toBe(false);
+  });
+});
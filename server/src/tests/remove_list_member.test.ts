@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todoAssignmentsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { removeListMember } from '../handlers/remove_list_member';
+
+describe('removeListMember', () => {
+  let user: User;
+  let friend: User;
+  let listId: number;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    friend = await createTestUser('friend@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Shared' })
+      .returning()
+      .execute();
+    listId = lists[0].id;
+    await db.insert(listMembersTable)
+      .values({ list_id: listId, user_id: friend.id, role: 'editor', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should let the owner remove a collaborator and keep their todos in the list', async () => {
+    await db.insert(todosTable)
+      .values({ owner_id: friend.id, title: 'Added by friend', list_id: listId })
+      .execute();
+
+    const result = await removeListMember({ list_id: listId, user_id: friend.id }, user.id);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(listMembersTable).execute()).toHaveLength(0);
+    expect(await db.select().from(todosTable).execute()).toHaveLength(1);
+  });
+
+  it('should let collaborators leave a list', async () => {
+    const result = await removeListMember({ list_id: listId, user_id: friend.id }, friend.id);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(listMembersTable).execute()).toHaveLength(0);
+  });
+
+  it('should not let collaborators remove others', async () => {
+    const third = await createTestUser('third@example.com');
+    await db.insert(listMembersTable)
+      .values({ list_id: listId, user_id: third.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+
+    await expect(removeListMember({ list_id: listId, user_id: third.id }, friend.id))
+      .rejects.toThrow(/You need to be owner of list/);
+  });
+
+  it('should return false for users who are not members', async () => {
+    const result = await removeListMember({ list_id: listId, user_id: 999 }, user.id);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should unassign a removed collaborator from the list\'s todos', async () => {
+    await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Assigned to friend', list_id: listId, assignee_id: friend.id })
+      .execute();
+
+    await removeListMember({ list_id: listId, user_id: friend.id }, user.id);
+
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos[0].assignee_id).toBeNull();
+
+    const history = await db.select().from(todoAssignmentsTable).execute();
+    expect(history).toHaveLength(1);
+    expect(history[0].assignee_id).toBeNull();
+    expect(history[0].assigned_by).toEqual(user.id);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todoEventsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type User } from '../schema';
+import { renameTag } from '../handlers/rename_tag';
+import { eq } from 'drizzle-orm';
+
+describe('renameTag', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should rename a tag', async () => {
+    const tags = await db.insert(tagsTable)
+      .values({ owner_id: user.id, name: 'bgu' })
+      .returning()
+      .execute();
+
+    const result = await renameTag({ id: tags[0].id, name: 'bug' }, user.id);
+
+    expect(result.id).toEqual(tags[0].id);
+    expect(result.name).toEqual('bug');
+
+    const saved = await db.select()
+      .from(tagsTable)
+      .where(eq(tagsTable.id, tags[0].id))
+      .execute();
+    expect(saved[0].name).toEqual('bug');
+  });
+
+  it('should allow renaming a tag to its current name', async () => {
+    const tags = await db.insert(tagsTable)
+      .values({ owner_id: user.id, name: 'bug' })
+      .returning()
+      .execute();
+
+    const result = await renameTag({ id: tags[0].id, name: 'bug' }, user.id);
+
+    expect(result.name).toEqual('bug');
+  });
+
+  it('should record the rename in the history of the tagged todos', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Fix login', completed: false })
+      .returning()
+      .execute();
+    const [tag] = await db.insert(tagsTable)
+      .values({ owner_id: user.id, name: 'bgu' })
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable).values({ todo_id: todo.id, tag_id: tag.id }).execute();
+
+    await renameTag({ id: tag.id, name: 'bug' }, user.id);
+    // Renaming to the same name again changes nothing
+    await renameTag({ id: tag.id, name: 'bug' }, user.id);
+
+    const events = await db.select().from(todoEventsTable).execute();
+    expect(events.map(event => [event.todo_id, event.type, event.from_value, event.to_value]))
+      .toEqual([[todo.id, 'tag_renamed', 'bgu', 'bug']]);
+  });
+
+  it('should reject a name used by another tag', async () => {
+    const tags = await db.insert(tagsTable)
+      .values([{ owner_id: user.id, name: 'bug' }, { owner_id: user.id, name: 'defect' }])
+      .returning()
+      .execute();
+
+    await expect(renameTag({ id: tags[1].id, name: 'bug' }, user.id))
+      .rejects.toMatchObject({ code: 'CONFLICT', message: 'Tag "bug" already exists; merge the tags instead' });
+  });
+
+  it('should throw error when tag does not exist', async () => {
+    await expect(renameTag({ id: 999, name: 'bug' }, user.id))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: 'Tag with id 999 not found' });
+  });
+});
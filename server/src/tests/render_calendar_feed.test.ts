@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todoCompletionsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type User } from '../schema';
+import { createCalendarFeed } from '../handlers/create_calendar_feed';
+import { getCalendarFeed } from '../handlers/get_calendar_feed';
+import { renderCalendarFeed } from '../handlers/render_calendar_feed';
+
+// The components of a calendar, each as its unfolded lines
+const components = (calendar: string, name: string): string[][] =>
+  calendar.replace(/\r\n /g, '').split('\r\n').join('\n')
+    .split(`BEGIN:${name}\n`).slice(1)
+    .map(component => component.split(`\nEND:${name}`)[0].split('\n'));
+
+describe('renderCalendarFeed', () => {
+  let user: User;
+  let token: string;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    ({ token } = await createCalendarFeed(user.id));
+  });
+  afterEach(resetDB);
+
+  const createExampleTodos = async () => {
+    const [timed, dated] = await db.insert(todosTable)
+      .values([
+        {
+          owner_id: user.id,
+          title: 'Write report; draft, then final',
+          description: 'First line\nSecond line',
+          due_at: new Date('2025-03-01T09:30:00Z'),
+          due_has_time: true,
+          priority: 'p1',
+          recurrence: { frequency: 'weekly', interval: 2, weekdays: ['MO', 'WE'], until: '2025-06-30', count: null }
+        },
+        { owner_id: user.id, title: 'Pay rent', completed: true, priority: 'p3', due_at: new Date(2025, 3, 1) },
+        { owner_id: user.id, title: 'Someday' }
+      ])
+      .returning()
+      .execute();
+    const [tag] = await db.insert(tagsTable).values({ owner_id: user.id, name: 'work' }).returning().execute();
+    await db.insert(todoTagsTable).values({ todo_id: timed.id, tag_id: tag.id }).execute();
+    return { timed, dated };
+  };
+
+  it('should write a VTODO per todo', async () => {
+    const { timed, dated } = await createExampleTodos();
+
+    const calendar = await renderCalendarFeed(token, { events: false });
+
+    expect(calendar).toStartWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:');
+    expect(calendar).toEndWith('END:VCALENDAR\r\n');
+    expect(calendar).toContain("X-WR-CALNAME:test's todos\r\n");
+    // No line is longer than 75 octets
+    expect(calendar!.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+
+    const todos = components(calendar!, 'VTODO');
+    expect(todos).toHaveLength(3);
+    expect(todos[0]).toEqual(expect.arrayContaining([
+      `UID:todo-${timed.id}@todo-app`,
+      'SUMMARY:Write report\\; draft\\, then final',
+      'DESCRIPTION:First line\\nSecond line',
+      'DTSTART:20250301T093000Z',
+      'DUE:20250301T093000Z',
+      expect.stringMatching(/^RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250630T\d{6}Z$/),
+      'PRIORITY:1',
+      'STATUS:NEEDS-ACTION',
+      'CATEGORIES:work'
+    ]));
+    expect(todos[1]).toEqual(expect.arrayContaining([
+      `UID:todo-${dated.id}@todo-app`,
+      'DUE;VALUE=DATE:20250401',
+      'PRIORITY:5',
+      'STATUS:COMPLETED'
+    ]));
+    expect(todos[2].some(line => line.startsWith('DUE'))).toBe(false);
+    expect(components(calendar!, 'VEVENT')).toHaveLength(0);
+  });
+
+  it('should add an event for each dated todo when asked to', async () => {
+    const { timed, dated } = await createExampleTodos();
+
+    const calendar = await renderCalendarFeed(token, { events: true });
+
+    const events = components(calendar!, 'VEVENT');
+    expect(events).toHaveLength(2);
+    expect(events[0]).toEqual(expect.arrayContaining([`UID:event-${timed.id}@todo-app`, 'DTSTART:20250301T093000Z', 'TRANSP:TRANSPARENT']));
+    expect(events[1]).toEqual(expect.arrayContaining([`UID:event-${dated.id}@todo-app`, 'DTSTART;VALUE=DATE:20250401']));
+  });
+
+  it('should count a rule from the current occurrence', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({
+        owner_id: user.id,
+        title: 'Physio',
+        due_at: new Date(2025, 2, 15),
+        recurrence: { frequency: 'weekly', interval: 1, weekdays: [], until: null, count: 5 }
+      })
+      .returning()
+      .execute();
+    await db.insert(todoCompletionsTable)
+      .values([
+        { todo_id: todo.id, due_at: new Date(2025, 2, 1) },
+        { todo_id: todo.id, due_at: new Date(2025, 2, 8) }
+      ])
+      .execute();
+
+    const calendar = await renderCalendarFeed(token, { events: false });
+
+    expect(components(calendar!, 'VTODO')[0]).toEqual(expect.arrayContaining([
+      'DTSTART;VALUE=DATE:20250315',
+      'RRULE:FREQ=WEEKLY;COUNT=3'
+    ]));
+  });
+
+  it('should leave out todos in the trash, the archive or other accounts', async () => {
+    const other = await createTestUser('other@example.com');
+    await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Visible' },
+        { owner_id: user.id, title: 'Trashed', deleted_at: new Date() },
+        { owner_id: user.id, title: 'Archived', completed: true, archived_at: new Date() },
+        { owner_id: other.id, title: 'Not mine' }
+      ])
+      .execute();
+
+    const calendar = await renderCalendarFeed(token, { events: false });
+
+    expect(components(calendar!, 'VTODO').map(todo => todo.find(line => line.startsWith('SUMMARY:')))).toEqual(['SUMMARY:Visible']);
+  });
+
+  it('should record when the feed was read', async () => {
+    await renderCalendarFeed(token, { events: false });
+
+    expect((await getCalendarFeed(user.id))?.last_fetched_at).toBeInstanceOf(Date);
+  });
+
+  it('should return null for unknown tokens', async () => {
+    expect(await renderCalendarFeed('unknown', { events: false })).toBeNull();
+  });
+});
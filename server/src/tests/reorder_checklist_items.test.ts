@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { reorderChecklistItems } from '../handlers/reorder_checklist_items';
+
+describe('reorderChecklistItems', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestChecklist = async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Deploy', completed: false })
+      .returning()
+      .execute();
+    const items = await db.insert(checklistItemsTable)
+      .values([
+        { todo_id: todos[0].id, title: 'Build', position: 0 },
+        { todo_id: todos[0].id, title: 'Test', position: 1 },
+        { todo_id: todos[0].id, title: 'Ship', position: 2 }
+      ])
+      .returning()
+      .execute();
+
+    return { todo: todos[0], items };
+  };
+
+  it('should reorder the checklist', async () => {
+    const { todo, items } = await createTestChecklist();
+
+    const result = await reorderChecklistItems({
+      todo_id: todo.id,
+      item_ids: [items[2].id, items[0].id, items[1].id]
+    }, user.id);
+
+    expect(result.checklist.map(item => item.title)).toEqual(['Ship', 'Build', 'Test']);
+    expect(result.checklist.map(item => item.position)).toEqual([0, 1, 2]);
+  });
+
+  it('should reject an order that leaves out or adds items', async () => {
+    const { todo, items } = await createTestChecklist();
+
+    await expect(reorderChecklistItems({ todo_id: todo.id, item_ids: [items[0].id, items[1].id] }, user.id))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: `Item ids must list every checklist item of todo ${todo.id} exactly once` });
+    await expect(reorderChecklistItems({ todo_id: todo.id, item_ids: [...items.map(item => item.id), 999] }, user.id))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: `Item ids must list every checklist item of todo ${todo.id} exactly once` });
+  });
+
+  it('should throw error when todo does not exist', async () => {
+    await expect(reorderChecklistItems({ todo_id: 999, item_ids: [] }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/i);
+  });
+});
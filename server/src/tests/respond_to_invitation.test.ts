@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todosTable } from '../db/schema';
+import { getTodosInputSchema, type User } from '../schema';
+import { respondToInvitation } from '../handlers/respond_to_invitation';
+import { getTodos } from '../handlers/get_todos';
+
+describe('respondToInvitation', () => {
+  let user: User;
+  let listId: number;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    const owner = await createTestUser('owner@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: owner.id, name: 'Handoff' })
+      .returning()
+      .execute();
+    listId = lists[0].id;
+    await db.insert(todosTable)
+      .values({ owner_id: owner.id, title: 'Check pager', list_id: listId })
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: listId, user_id: user.id, role: 'viewer', invited_by: owner.id })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should not give access before the invitation is accepted', async () => {
+    expect((await getTodos(getTodosInputSchema.parse({}), user.id)).todos).toEqual([]);
+  });
+
+  it('should give access to the list once accepted', async () => {
+    const result = await respondToInvitation({ list_id: listId, accept: true }, user.id);
+
+    expect(result.success).toBe(true);
+
+    const todos = (await getTodos(getTodosInputSchema.parse({}), user.id)).todos;
+    expect(todos.map(todo => todo.title)).toEqual(['Check pager']);
+  });
+
+  it('should remove the invitation when declined', async () => {
+    await respondToInvitation({ list_id: listId, accept: false }, user.id);
+
+    const members = await db.select().from(listMembersTable).execute();
+    expect(members).toHaveLength(0);
+  });
+
+  it('should reject responses without a pending invitation', async () => {
+    await respondToInvitation({ list_id: listId, accept: true }, user.id);
+
+    await expect(respondToInvitation({ list_id: listId, accept: false }, user.id))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: `No pending invitation to list ${listId}` });
+  });
+});
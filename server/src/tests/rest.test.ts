@@ -0,0 +1,207 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type User } from '../schema';
+import { REST_ROUTES, createRestHandler, openApiDocument } from '../rest';
+import { appRouter } from '../router';
+import { createApiToken } from '../handlers/create_api_token';
+import { revokeApiToken } from '../handlers/revoke_api_token';
+
+type Operation = {
+  operationId: string;
+  parameters?: { name: string; in: string; required: boolean; schema: Record<string, unknown> }[];
+  requestBody?: { required: boolean; content: { 'application/json': { schema: { properties: Record<string, unknown>; required?: string[] } } } };
+  responses: Record<string, { content?: { 'application/json': { schema: Record<string, unknown> } } }>;
+};
+
+describe('openApiDocument', () => {
+  const document = openApiDocument() as { openapi: string; paths: Record<string, Record<string, Operation>> };
+
+  it('should describe every REST route', () => {
+    expect(document.openapi).toStartWith('3.');
+    const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+      Object.entries(methods).map(([method, operation]) => `${method.toUpperCase()} ${path} ${operation.operationId}`)
+    );
+    expect(operations.sort()).toEqual(REST_ROUTES.map(route =>
+      `${route.method} ${route.path.replace(/:(\w+)/g, '{$1}')} ${route.procedure}`
+    ).sort());
+  });
+
+  it('should describe query parameters from the input schema', () => {
+    const parameters = document.paths['/todos']['get'].parameters!;
+
+    expect(parameters.find(parameter => parameter.name === 'status')).toEqual({
+      name: 'status',
+      in: 'query',
+      required: false,
+      schema: { type: 'string', enum: ['all', 'active', 'completed'], default: 'all' }
+    });
+    expect(parameters.find(parameter => parameter.name === 'limit')?.schema).toEqual({ type: 'integer', minimum: 1, maximum: 200 });
+    expect(parameters.find(parameter => parameter.name === 'tagIds')).toMatchObject({ schema: { type: 'array' }, explode: true });
+  });
+
+  it('should describe request bodies without the path parameters', () => {
+    const patch = document.paths['/todos/{id}']['patch'];
+
+    expect(patch.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }]);
+    const body = patch.requestBody!.content['application/json'].schema;
+    expect(Object.keys(body.properties)).not.toContain('id');
+    expect(body.properties['due_at']).toEqual({ type: 'string', format: 'date-time', nullable: true });
+    expect(patch.requestBody!.required).toBe(false);
+
+    const create = document.paths['/todos']['post'];
+    expect(create.requestBody!.content['application/json'].schema.required).toEqual(['title']);
+    expect(create.responses['201'].content!['application/json'].schema).toMatchObject({ type: 'object' });
+  });
+});
+
+describe('createRestHandler', () => {
+  let server: Server;
+  let baseUrl: string;
+  let user: User;
+  let token: string;
+
+  // Requests the REST handler passes on get a 404, as tRPC gives paths it does not know
+  beforeAll(async () => {
+    const serveRest = createRestHandler(appRouter);
+    server = createServer((req, res) => serveRest(req, res, () => res.writeHead(404).end()));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    ({ token } = await createApiToken({ name: 'CI', scopes: ['read', 'write', 'delete'], expires_in_days: 30 }, user.id));
+  });
+  afterEach(resetDB);
+
+  const request = (path: string, init: RequestInit = {}) => fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...init.headers }
+  });
+
+  const titles = async (path: string): Promise<string[]> => {
+    const response = await request(path);
+    expect(response.status).toEqual(200);
+    const page = await response.json() as { todos: { title: string }[] };
+    return page.todos.map(todo => todo.title).sort();
+  };
+
+  it('should answer 404 for unknown paths and 405 for other methods', async () => {
+    expect((await request('/nothing')).status).toEqual(404);
+    expect((await request('/todos/abc')).status).toEqual(404);
+
+    const response = await request('/todos/counts', { method: 'DELETE' });
+    expect(response.status).toEqual(405);
+    expect(response.headers.get('allow')).toEqual('GET');
+  });
+
+  it('should create, change and delete todos', async () => {
+    const created = await request('/todos', { method: 'POST', body: JSON.stringify({ title: 'Nightly build' }) });
+    expect(created.status).toEqual(201);
+    const todo = await created.json() as { id: number; title: string };
+    expect(todo.title).toEqual('Nightly build');
+
+    const updated = await request(`/todos/${todo.id}`, { method: 'PATCH', body: JSON.stringify({ title: 'Nightly release' }) });
+    expect(await updated.json()).toMatchObject({ id: todo.id, title: 'Nightly release' });
+
+    const deleted = await request(`/todos/${todo.id}`, { method: 'DELETE' });
+    expect(deleted.status).toEqual(200);
+    expect(await deleted.json()).toEqual({ success: true });
+
+    // Already in the trash, so there is nothing left to delete
+    const again = await request(`/todos/${todo.id}`, { method: 'DELETE' });
+    expect(again.status).toEqual(404);
+    expect(await again.json()).toMatchObject({ error: { code: 'NOT_FOUND' } });
+  });
+
+  it('should convert query values to the types the input expects', async () => {
+    const list = await db.insert(listsTable).values({ owner_id: user.id, name: 'Work' }).returning().execute();
+    const tags = await db.insert(tagsTable)
+      .values([{ owner_id: user.id, name: 'home' }, { owner_id: user.id, name: 'office' }])
+      .returning()
+      .execute();
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: user.id, title: 'Laundry' },
+        { owner_id: user.id, title: 'Report', list_id: list[0].id },
+        { owner_id: user.id, title: 'Old draft', deleted_at: new Date() }
+      ])
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable)
+      .values([{ todo_id: todos[0].id, tag_id: tags[0].id }, { todo_id: todos[1].id, tag_id: tags[1].id }])
+      .execute();
+
+    expect(await titles(`/todos?listId=${list[0].id}`)).toEqual(['Report']);
+    expect(await titles('/todos?listId=null')).toEqual(['Laundry']);
+    expect(await titles('/todos?trashed=true')).toEqual(['Old draft']);
+    expect(await titles(`/todos?tagIds=${tags[0].id}`)).toEqual(['Laundry']);
+    expect(await titles(`/todos?tagIds=${tags[0].id}&tagIds=${tags[1].id}`)).toEqual(['Laundry', 'Report']);
+    expect(await titles(`/todos?tagIds=${tags[0].id},${tags[1].id}&tagMatch=all`)).toEqual([]);
+
+    const page = await (await request('/todos?limit=1')).json() as { todos: unknown[]; nextCursor: number | null };
+    expect(page.todos).toHaveLength(1);
+    expect(page.nextCursor).not.toBeNull();
+  });
+
+  it('should reject bodies that are not JSON objects or are too large', async () => {
+    const malformed = await request('/todos', { method: 'POST', body: '{"title": ' });
+    expect(malformed.status).toEqual(400);
+    expect(await malformed.json()).toEqual({ error: { code: 'BAD_REQUEST', message: 'The request body is not valid JSON' } });
+
+    expect((await request('/todos', { method: 'POST', body: '["Nightly build"]' })).status).toEqual(400);
+
+    const large = await request('/todos', { method: 'POST', body: JSON.stringify({ title: 'x'.repeat(1_100_000) }) });
+    expect(large.status).toEqual(400);
+    expect(await large.json()).toMatchObject({ error: { code: 'BAD_REQUEST' } });
+    expect(await db.select().from(todosTable).execute()).toHaveLength(0);
+  });
+
+  it('should report invalid input field by field', async () => {
+    const response = await request('/todos', { method: 'POST', body: JSON.stringify({ title: '', priority: 'urgent' }) });
+
+    expect(response.status).toEqual(400);
+    const { error } = await response.json() as { error: { code: string; message: string; issues: { path: string }[] } };
+    expect(error.code).toEqual('BAD_REQUEST');
+    expect(error.message).toEqual('Invalid input');
+    expect(error.issues.map(issue => issue.path).sort()).toEqual(['priority', 'title']);
+  });
+
+  it('should answer 404 for missing todos and 403 for read-only ones', async () => {
+    const missing = await request('/todos/999999', { method: 'PATCH', body: JSON.stringify({ title: 'Anything' }) });
+    expect(missing.status).toEqual(404);
+    expect(await missing.json()).toEqual({ error: { code: 'NOT_FOUND', message: 'Todo with id 999999 not found' } });
+
+    const owner = await createTestUser('owner@example.com');
+    const list = await db.insert(listsTable).values({ owner_id: owner.id, name: 'Team' }).returning().execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: list[0].id, user_id: user.id, role: 'viewer', invited_by: owner.id, accepted_at: new Date() })
+      .execute();
+    const todo = await db.insert(todosTable)
+      .values({ owner_id: owner.id, title: 'Plan offsite', list_id: list[0].id })
+      .returning()
+      .execute();
+
+    const forbidden = await request(`/todos/${todo[0].id}`, { method: 'PATCH', body: JSON.stringify({ title: 'Cancel offsite' }) });
+    expect(forbidden.status).toEqual(403);
+    expect(await forbidden.json()).toMatchObject({ error: { code: 'FORBIDDEN' } });
+    expect((await request(`/todos/${todo[0].id}`, { method: 'DELETE' })).status).toEqual(403);
+  });
+
+  it('should answer 401 without a valid API token', async () => {
+    expect((await fetch(`${baseUrl}/todos`)).status).toEqual(401);
+    expect((await request('/todos', { headers: { Authorization: 'Bearer not-a-token' } })).status).toEqual(401);
+
+    const created = await createApiToken({ name: 'Old CI', scopes: ['read'], expires_in_days: 30 }, user.id);
+    await revokeApiToken({ id: created.id }, user.id);
+    const revoked = await request('/todos', { headers: { Authorization: `Bearer ${created.token}` } });
+    expect(revoked.status).toEqual(401);
+    expect(await revoked.json()).toMatchObject({ error: { code: 'UNAUTHORIZED' } });
+  });
+});
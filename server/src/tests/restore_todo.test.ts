@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, todosTable } from '../db/schema';
+import { type RestoreTodoInput, type User } from '../schema';
+import { restoreTodo } from '../handlers/restore_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+
+describe('restoreTodo', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should take a todo back out of the trash', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Oops', description: 'Deleted by accident' })
+      .returning()
+      .execute();
+    await db.insert(checklistItemsTable)
+      .values({ todo_id: todos[0].id, title: 'Still here', position: 0 })
+      .execute();
+    await deleteTodo({ id: todos[0].id }, user.id);
+
+    const input: RestoreTodoInput = { id: todos[0].id };
+    const result = await restoreTodo(input, user.id);
+
+    expect(result.id).toEqual(todos[0].id);
+    expect(result.deleted_at).toBeNull();
+    expect(result.description).toEqual('Deleted by accident');
+    expect(result.position).toEqual(todos[0].position);
+    expect(result.checklist.map(item => item.title)).toEqual(['Still here']);
+  });
+
+  it('should throw error when todo is not in the trash', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Alive' })
+      .returning()
+      .execute();
+
+    await expect(restoreTodo({ id: todos[0].id }, user.id))
+      .rejects.toThrow(/not found in the trash/i);
+    await expect(restoreTodo({ id: 999 }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found in the trash/i);
+  });
+});
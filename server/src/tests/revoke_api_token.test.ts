@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { type User } from '../schema';
+import { createApiToken } from '../handlers/create_api_token';
+import { getApiTokens } from '../handlers/get_api_tokens';
+import { revokeApiToken } from '../handlers/revoke_api_token';
+import { getApiTokenAuth } from '../helpers/api_tokens';
+
+describe('revokeApiToken', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should revoke the token', async () => {
+    const apiToken = await createApiToken({ name: 'CI', scopes: ['read'], expires_in_days: 30 }, user.id);
+
+    expect(await revokeApiToken({ id: apiToken.id }, user.id)).toEqual({ success: true });
+
+    expect(await getApiTokens(user.id)).toEqual([]);
+    expect(await getApiTokenAuth(apiToken.token)).toBeNull();
+  });
+
+  it('should not revoke other users\' tokens', async () => {
+    const other = await createTestUser('other@example.com');
+    const apiToken = await createApiToken({ name: 'CI', scopes: ['read'], expires_in_days: 30 }, other.id);
+
+    expect(await revokeApiToken({ id: apiToken.id }, user.id)).toEqual({ success: false });
+    expect(await getApiTokenAuth(apiToken.token)).not.toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { type User } from '../schema';
+import { createCalendarFeed } from '../handlers/create_calendar_feed';
+import { getCalendarFeed } from '../handlers/get_calendar_feed';
+import { renderCalendarFeed } from '../handlers/render_calendar_feed';
+import { revokeCalendarFeed } from '../handlers/revoke_calendar_feed';
+
+describe('revokeCalendarFeed', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should turn off the feed link', async () => {
+    const feed = await createCalendarFeed(user.id);
+
+    expect(await revokeCalendarFeed(user.id)).toEqual({ success: true });
+
+    expect(await getCalendarFeed(user.id)).toBeNull();
+    expect(await renderCalendarFeed(feed.token, { events: false })).toBeNull();
+  });
+
+  it('should report when there was no link to turn off', async () => {
+    expect(await revokeCalendarFeed(user.id)).toEqual({ success: false });
+  });
+});
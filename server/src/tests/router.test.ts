@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { IncomingMessage, ServerResponse, type IncomingHttpHeaders } from 'node:http';
+import { Socket } from 'node:net';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { type ApiTokenScope, type User } from '../schema';
+import { createContext } from '../context';
+import { appRouter } from '../router';
+import { createApiToken } from '../handlers/create_api_token';
+import { revokeApiToken } from '../handlers/revoke_api_token';
+import { createSession } from '../helpers/sessions';
+
+type Caller = Record<string, (input?: unknown) => Promise<unknown>>;
+
+// Public procedures take no token, so its scopes do not apply to them
+const PUBLIC_MUTATIONS = ['register', 'login'];
+
+// A server-side caller with the context of a request carrying these headers
+const callerFor = async (headers: IncomingHttpHeaders): Promise<Caller> => {
+  const req = new IncomingMessage(new Socket());
+  req.headers = headers;
+  return appRouter.createCaller(await createContext({ req, res: new ServerResponse(req) })) as unknown as Caller;
+};
+
+describe('appRouter', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const tokenCaller = async (scopes: ApiTokenScope[]) => {
+    const { token } = await createApiToken({ name: 'CI', scopes, expires_in_days: 30 }, user.id);
+    return callerFor({ authorization: `Bearer ${token}` });
+  };
+
+  it('should reject every mutation for a read-only token', async () => {
+    const caller = await tokenCaller(['read']);
+    const mutations = Object.entries(appRouter._def.procedures)
+      .filter(([name, procedure]) => procedure._def.type === 'mutation' && !PUBLIC_MUTATIONS.includes(name))
+      .map(([name]) => name);
+    expect(mutations).toContain('createTodo');
+
+    for (const name of mutations) {
+      // Scopes are checked before the input, so no input is needed to be turned away
+      await expect(caller[name]()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    }
+    expect(await caller['getTodos']()).toMatchObject({ todos: [] });
+  });
+
+  it('should require the delete scope to delete and purge todos', async () => {
+    const writer = await tokenCaller(['read', 'write']);
+    const todo = await writer['createTodo']({ title: 'Nightly build' }) as { id: number };
+
+    await expect(writer['deleteTodo']({ id: todo.id })).rejects.toThrow(/does not have the delete scope/);
+    await expect(writer['purgeTodo']({ id: todo.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const deleter = await tokenCaller(['delete']);
+    expect(await deleter['deleteTodo']({ id: todo.id })).toEqual({ success: true });
+    expect(await deleter['purgeTodo']({ id: todo.id })).toEqual({ success: true });
+  });
+
+  it('should reject a token without scopes', async () => {
+    const caller = await tokenCaller([]);
+
+    await expect(caller['getTodos']()).rejects.toThrow(/does not have the read scope/);
+    await expect(caller['createTodo']({ title: 'Nightly build' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should keep tokens away from credentials and sessions', async () => {
+    const caller = await tokenCaller(['read', 'write', 'delete']);
+
+    await expect(caller['getApiTokens']()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller['createApiToken']({ name: 'Another', scopes: ['read'] })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller['revokeApiToken']({ id: 1 })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller['createCalendarFeed']()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller['logout']()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // The same procedures work from a signed-in session
+    const session = await callerFor({ cookie: `session=${await createSession(user.id)}` });
+    expect(await session['createApiToken']({ name: 'Another', scopes: ['read'] })).toMatchObject({ name: 'Another' });
+  });
+
+  it('should turn away unknown and revoked tokens', async () => {
+    const unknown = await callerFor({ authorization: 'Bearer tdo_unknown' });
+    await expect(unknown['getTodos']()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      message: 'The API token is invalid or has expired'
+    });
+
+    const apiToken = await createApiToken({ name: 'CI', scopes: ['read'], expires_in_days: 30 }, user.id);
+    await revokeApiToken({ id: apiToken.id }, user.id);
+    const revoked = await callerFor({ authorization: `Bearer ${apiToken.token}` });
+    await expect(revoked['getTodos']()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+    // A bearer token that does not work is not made up for by a session cookie
+    const mixed = await callerFor({
+      authorization: `Bearer ${apiToken.token}`,
+      cookie: `session=${await createSession(user.id)}`
+    });
+    await expect(mixed['getTodos']()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todosTable } from '../db/schema';
+import { type SearchResult, type User } from '../schema';
+import { searchTodos } from '../handlers/search_todos';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { eq } from 'drizzle-orm';
+
+const titles = (results: SearchResult[]) => results.map(result => result.todo.title);
+
+describe('searchTodos', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should rank title matches above description matches', async () => {
+    await createTodo({ title: 'Book flights', description: 'Ask about the sprint budget first' }, user.id);
+    await createTodo({ title: 'Plan the sprint', description: null }, user.id);
+    await createTodo({ title: 'Water the plants', description: null }, user.id);
+
+    const results = await searchTodos({ query: 'sprint', archived: false, limit: 50 }, user.id);
+
+    expect(titles(results)).toEqual(['Plan the sprint', 'Book flights']);
+    expect(results[0].rank).toBeGreaterThan(results[1].rank);
+  });
+
+  it('should match every word as a prefix', async () => {
+    await createTodo({ title: 'Planning meeting notes' }, user.id);
+    await createTodo({ title: 'Planning poker' }, user.id);
+
+    expect(titles(await searchTodos({ query: 'plan', archived: false, limit: 50 }, user.id))).toHaveLength(2);
+    expect(titles(await searchTodos({ query: 'plan mee', archived: false, limit: 50 }, user.id))).toEqual(['Planning meeting notes']);
+  });
+
+  it('should highlight the matches', async () => {
+    await createTodo({ title: 'Plan the sprint', description: 'Collect topics for the sprint review' }, user.id);
+
+    const [result] = await searchTodos({ query: 'sprint', archived: false, limit: 50 }, user.id);
+
+    expect(result.title).toEqual([
+      { text: 'Plan the ', match: false },
+      { text: 'sprint', match: true }
+    ]);
+    expect(result.description).toContainEqual({ text: 'sprint', match: true });
+  });
+
+  it('should find todos by their current text', async () => {
+    const todo = await createTodo({ title: 'Draft' }, user.id);
+    await updateTodo({ id: todo.id, title: 'Quarterly report' }, user.id);
+
+    expect(titles(await searchTodos({ query: 'draft', archived: false, limit: 50 }, user.id))).toEqual([]);
+    expect(titles(await searchTodos({ query: 'quarterly', archived: false, limit: 50 }, user.id))).toEqual(['Quarterly report']);
+  });
+
+  it('should only search live todos the user can see', async () => {
+    const other = await createTestUser('other@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: other.id, name: 'Team' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: lists[0].id, user_id: user.id, role: 'viewer', invited_by: other.id, accepted_at: new Date() })
+      .execute();
+
+    await createTodo({ title: 'Report for the team', list_id: lists[0].id }, other.id);
+    await createTodo({ title: 'Private report' }, other.id);
+    const trashed = await createTodo({ title: 'Old report' }, user.id);
+    await deleteTodo({ id: trashed.id }, user.id);
+
+    const results = await searchTodos({ query: 'report', archived: false, limit: 50 }, user.id);
+
+    expect(titles(results)).toEqual(['Report for the team']);
+    // The search document stays on the server
+    expect(Object.keys(results[0].todo)).not.toContain('search_vector');
+  });
+
+  it('should search the archive on its own', async () => {
+    await createTodo({ title: 'Draft report' }, user.id);
+    const archived = await createTodo({ title: 'Final report' }, user.id);
+    await db.update(todosTable).set({ completed: true, archived_at: new Date() }).where(eq(todosTable.id, archived.id)).execute();
+
+    expect(titles(await searchTodos({ query: 'report', archived: false, limit: 50 }, user.id))).toEqual(['Draft report']);
+    expect(titles(await searchTodos({ query: 'report', archived: true, limit: 50 }, user.id))).toEqual(['Final report']);
+  });
+
+  it('should return nothing for searches without words', async () => {
+    await createTodo({ title: 'Plan the sprint' }, user.id);
+
+    expect(await searchTodos({ query: '&!:*', archived: false, limit: 50 }, user.id)).toEqual([]);
+  });
+
+  it('should respect the limit', async () => {
+    for (const title of ['Report one', 'Report two', 'Report three']) {
+      await createTodo({ title }, user.id);
+    }
+
+    expect(await searchTodos({ query: 'report', archived: false, limit: 2 }, user.id)).toHaveLength(2);
+  });
+});
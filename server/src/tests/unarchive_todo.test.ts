@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { unarchiveTodo } from '../handlers/unarchive_todo';
+import { eq } from 'drizzle-orm';
+
+describe('unarchiveTodo', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should take a todo back out of the archive', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Done', completed: true, archived_at: new Date() })
+      .returning()
+      .execute();
+
+    const result = await unarchiveTodo({ id: todo.id }, user.id);
+
+    expect(result.archived_at).toBeNull();
+    // It comes back as it was, still completed
+    expect(result.completed).toBe(true);
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, todo.id)).execute();
+    expect(row.archived_at).toBeNull();
+  });
+
+  it('should reject todos that are not in the archive', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Open' })
+      .returning()
+      .execute();
+
+    await expect(unarchiveTodo({ id: todo.id }, user.id)).rejects.toThrow(/not found in the archive/);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, todoCompletionsTable, todosTable } from '../db/schema';
+import { type Recurrence, type UndoTodoCompletionInput, type User } from '../schema';
+import { undoTodoCompletion } from '../handlers/undo_todo_completion';
+import { updateTodoCompletion } from '../handlers/update_todo_completion';
+
+describe('undoTodoCompletion', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const daily: Recurrence = { frequency: 'daily', interval: 1, weekdays: [], until: null, count: null };
+
+  it('should reopen a completed todo', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Water plants', completed: true })
+      .returning()
+      .execute();
+
+    const input: UndoTodoCompletionInput = { id: todos[0].id, checklist: [] };
+    const result = await undoTodoCompletion(input, user.id);
+
+    expect(result.completed).toBe(false);
+    expect(result.title).toEqual('Water plants');
+  });
+
+  it('should put checklist items back as they were', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Release', completed: false })
+      .returning()
+      .execute();
+    const items = await db.insert(checklistItemsTable)
+      .values([
+        { todo_id: todos[0].id, title: 'Build', completed: true, position: 0 },
+        { todo_id: todos[0].id, title: 'Ship', completed: false, position: 1 }
+      ])
+      .returning()
+      .execute();
+
+    await updateTodoCompletion({ id: todos[0].id, completed: true, complete_checklist: true }, user.id);
+    const result = await undoTodoCompletion({
+      id: todos[0].id,
+      checklist: items.map(item => ({ id: item.id, completed: item.completed }))
+    }, user.id);
+
+    expect(result.completed).toBe(false);
+    expect(result.checklist.map(item => item.completed)).toEqual([true, false]);
+  });
+
+  it('should move a recurring todo back to the completed occurrence', async () => {
+    const dueAt = new Date(2030, 0, 15, 9, 30);
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Submit timesheet', recurrence: daily, due_at: dueAt, due_has_time: true })
+      .returning()
+      .execute();
+
+    await updateTodoCompletion({ id: todos[0].id, completed: true, complete_checklist: false }, user.id);
+    await updateTodoCompletion({ id: todos[0].id, completed: true, complete_checklist: false }, user.id);
+    const result = await undoTodoCompletion({ id: todos[0].id, checklist: [] }, user.id);
+
+    expect(result.completed).toBe(false);
+    expect(result.due_at).toEqual(new Date(2030, 0, 16, 9, 30));
+    expect(result.due_has_time).toBe(true);
+
+    const completions = await db.select().from(todoCompletionsTable).execute();
+    expect(completions).toHaveLength(1);
+    expect(completions[0].due_at).toEqual(dueAt);
+  });
+
+  it('should reopen the last occurrence of a finished series', async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Once more', recurrence: { ...daily, count: 1 }, due_at: new Date(2030, 0, 15) })
+      .returning()
+      .execute();
+
+    await updateTodoCompletion({ id: todos[0].id, completed: true, complete_checklist: false }, user.id);
+    const result = await undoTodoCompletion({ id: todos[0].id, checklist: [] }, user.id);
+
+    expect(result.completed).toBe(false);
+    expect(result.due_at).toEqual(new Date(2030, 0, 15));
+
+    const completions = await db.select().from(todoCompletionsTable).execute();
+    expect(completions).toHaveLength(0);
+  });
+
+  it('should throw error when todo does not exist', async () => {
+    await expect(undoTodoCompletion({ id: 999, checklist: [] }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/i);
+  });
+});
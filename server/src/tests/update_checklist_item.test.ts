@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { checklistItemsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { updateChecklistItem } from '../handlers/update_checklist_item';
+
+describe('updateChecklistItem', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestItem = async () => {
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Release 1.2', completed: false })
+      .returning()
+      .execute();
+    const items = await db.insert(checklistItemsTable)
+      .values({ todo_id: todos[0].id, title: 'Write changelog', position: 0 })
+      .returning()
+      .execute();
+
+    return items[0];
+  };
+
+  it('should check off an item and return the parent todo', async () => {
+    const item = await createTestItem();
+
+    const result = await updateChecklistItem({ id: item.id, completed: true }, user.id);
+
+    expect(result.id).toEqual(item.todo_id);
+    expect(result.checklist[0].completed).toBe(true);
+    expect(result.checklist[0].title).toEqual('Write changelog');
+    // Completing an item does not complete the todo
+    expect(result.completed).toBe(false);
+  });
+
+  it('should rename an item', async () => {
+    const item = await createTestItem();
+
+    const result = await updateChecklistItem({ id: item.id, title: 'Write release notes' }, user.id);
+
+    expect(result.checklist[0].title).toEqual('Write release notes');
+    expect(result.checklist[0].completed).toBe(false);
+  });
+
+  it('should throw error when item does not exist', async () => {
+    await expect(updateChecklistItem({ id: 999, completed: true }, user.id))
+      .rejects.toThrow(/Checklist item with id 999 not found/i);
+  });
+});
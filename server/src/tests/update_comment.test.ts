@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { commentsTable, listMembersTable, listsTable, todosTable } from '../db/schema';
+import { type User } from '../schema';
+import { updateComment } from '../handlers/update_comment';
+import { eq } from 'drizzle-orm';
+
+describe('updateComment', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestComment = async (authorId: number = user.id) => {
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Team' })
+      .returning()
+      .execute();
+    if (authorId !== user.id) {
+      await db.insert(listMembersTable)
+        .values({ list_id: lists[0].id, user_id: authorId, role: 'editor', invited_by: user.id, accepted_at: new Date() })
+        .execute();
+    }
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Plan the offsite', list_id: lists[0].id })
+      .returning()
+      .execute();
+    const result = await db.insert(commentsTable)
+      .values({ todo_id: todos[0].id, author_id: authorId, body: 'Booked the venu' })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
+  it('should change the body and mark the comment as edited', async () => {
+    const comment = await createTestComment();
+
+    // Wait a bit to ensure timestamp difference
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const result = await updateComment({ id: comment.id, body: 'Booked the venue' }, user.id);
+
+    expect(result.body).toEqual('Booked the venue');
+    expect(result.edited).toBe(true);
+    expect(result.created_at).toEqual(comment.created_at);
+    expect(result.updated_at.getTime()).toBeGreaterThan(comment.updated_at.getTime());
+
+    const comments = await db.select().from(commentsTable).where(eq(commentsTable.id, comment.id)).execute();
+    expect(comments[0].body).toEqual('Booked the venue');
+  });
+
+  it('should not mark an unchanged comment as edited', async () => {
+    const comment = await createTestComment();
+
+    const result = await updateComment({ id: comment.id, body: 'Booked the venu' }, user.id);
+
+    expect(result.edited).toBe(false);
+  });
+
+  it('should only let the author edit a comment', async () => {
+    const other = await createTestUser('other@example.com');
+    const comment = await createTestComment(other.id);
+
+    await expect(updateComment({ id: comment.id, body: 'Rewritten' }, user.id))
+      .rejects.toThrow(/You can only change your own comments/);
+  });
+
+  it('should throw error when comment does not exist', async () => {
+    await expect(updateComment({ id: 999, body: 'Missing' }, user.id))
+      .rejects.toThrow(/Comment with id 999 not found/);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable } from '../db/schema';
+import { type User } from '../schema';
+import { updateList } from '../handlers/update_list';
+import { eq } from 'drizzle-orm';
+
+describe('updateList', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should rename a list', async () => {
+    const created = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Sprint 41' })
+      .returning()
+      .execute();
+
+    // Wait a bit to ensure timestamp difference
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const result = await updateList({ id: created[0].id, name: 'Sprint 42' }, user.id);
+
+    expect(result.name).toEqual('Sprint 42');
+    expect(result.updated_at.getTime()).toBeGreaterThan(created[0].updated_at.getTime());
+
+    const lists = await db.select()
+      .from(listsTable)
+      .where(eq(listsTable.id, created[0].id))
+      .execute();
+
+    expect(lists[0].name).toEqual('Sprint 42');
+  });
+
+  it('should throw error when list does not exist', async () => {
+    await expect(updateList({ id: 999, name: 'Missing' }, user.id))
+      .rejects.toThrow(/List with id 999 not found/i);
+  });
+
+  it('should not let an editor rename a shared list', async () => {
+    const editor = await createTestUser('editor@example.com');
+    const created = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Sprint 41' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: created[0].id, user_id: editor.id, role: 'editor', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+
+    await expect(updateList({ id: created[0].id, name: 'Sprint 42' }, editor.id))
+      .rejects.toThrow(/You need to be owner of list/i);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable } from '../db/schema';
+import { type User } from '../schema';
+import { updateListMember } from '../handlers/update_list_member';
+
+describe('updateListMember', () => {
+  let user: User;
+  let friend: User;
+  let listId: number;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+    friend = await createTestUser('friend@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Shared' })
+      .returning()
+      .execute();
+    listId = lists[0].id;
+    await db.insert(listMembersTable)
+      .values({ list_id: listId, user_id: friend.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should change the role of a collaborator', async () => {
+    const result = await updateListMember({ list_id: listId, user_id: friend.id, role: 'editor' }, user.id);
+
+    expect(result.success).toBe(true);
+
+    const members = await db.select().from(listMembersTable).execute();
+    expect(members[0].role).toEqual('editor');
+  });
+
+  it('should throw error for users who are not members', async () => {
+    await expect(updateListMember({ list_id: listId, user_id: 999, role: 'editor' }, user.id))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: `User 999 is not a member of list ${listId}` });
+  });
+
+  it('should not let collaborators change roles', async () => {
+    await expect(updateListMember({ list_id: listId, user_id: friend.id, role: 'editor' }, friend.id))
+      .rejects.toThrow(/You need to be owner of list/);
+  });
+});
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listMembersTable, listsTable, todoCompletionsTable, todosTable } from '../db/schema';
+import { type UpdateTodoInput, type User } from '../schema';
+import { updateTodo } from '../handlers/update_todo';
+import { eq } from 'drizzle-orm';
+
+describe('updateTodo', () => {
+  let user: User;
+
+  beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  const createTestTodo = async () => {
+    const result = await db.insert(todosTable)
+      .values({
+        owner_id: user.id,
+        title: 'Original Title',
+        description: 'Original description',
+        completed: false
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  };
+
+  it('should update the title only', async () => {
+    const todo = await createTestTodo();
+
+    const input: UpdateTodoInput = {
+      id: todo.id,
+      title: 'Fixed Title'
+    };
+
+    const result = await updateTodo(input, user.id);
+
+    expect(result.id).toEqual(todo.id);
+    expect(result.title).toEqual('Fixed Title');
+    expect(result.description).toEqual('Original description');
+    expect(result.completed).toBe(false);
+  });
+
+  it('should update the description only', async () => {
+    const todo = await createTestTodo();
+
+    const result = await updateTodo({
+      id: todo.id,
+      description: 'New description'
+    }, user.id);
+
+    expect(result.title).toEqual('Original Title');
+    expect(result.description).toEqual('New description');
+  });
+
+  it('should clear the description with null or empty string', async () => {
+    const todo = await createTestTodo();
+
+    const nullResult = await updateTodo({ id: todo.id, description: null }, user.id);
+    expect(nullResult.description).toBeNull();
+
+    await updateTodo({ id: todo.id, description: 'Temporary' }, user.id);
+    const emptyResult = await updateTodo({ id: todo.id, description: '' }, user.id);
+    expect(emptyResult.description).toBeNull();
+  });
+
+  it('should update several fields at once', async () => {
+    const todo = await createTestTodo();
+
+    const result = await updateTodo({
+      id: todo.id,
+      title: 'Both Changed',
+      description: null,
+      completed: true
+    }, user.id);
+
+    expect(result.title).toEqual('Both Changed');
+    expect(result.description).toBeNull();
+    expect(result.completed).toBe(true);
+  });
+
+  it('should bump updated_at and preserve created_at', async () => {
+    const todo = await createTestTodo();
+
+    // Wait a bit to ensure timestamp difference
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const result = await updateTodo({ id: todo.id, title: 'Later Title' }, user.id);
+
+    expect(result.updated_at).toBeInstanceOf(Date);
+    expect(result.updated_at.getTime()).toBeGreaterThan(todo.updated_at.getTime());
+    expect(result.created_at.getTime()).toEqual(todo.created_at.getTime());
+  });
+
+  it('should persist changes in database', async () => {
+    const todo = await createTestTodo();
+
+    await updateTodo({ id: todo.id, title: 'Persisted Title' }, user.id);
+
+    const todos = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, todo.id))
+      .execute();
+
+    expect(todos).toHaveLength(1);
+    expect(todos[0].title).toEqual('Persisted Title');
+    expect(todos[0].description).toEqual('Original description');
+  });
+
+  it('should throw error when todo does not exist', async () => {
+    await expect(updateTodo({ id: 999, title: 'Nope' }, user.id))
+      .rejects.toThrow(/Todo with id 999 not found/i);
+  });
+
+  it('should move a todo between lists', async () => {
+    const todo = await createTestTodo();
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'Sprint 42' })
+      .returning()
+      .execute();
+
+    const moved = await updateTodo({ id: todo.id, list_id: lists[0].id }, user.id);
+    expect(moved.list_id).toEqual(lists[0].id);
+    expect(moved.title).toEqual('Original Title');
+
+    const unfiled = await updateTodo({ id: todo.id, list_id: null }, user.id);
+    expect(unfiled.list_id).toBeNull();
+  });
+
+  it('should throw error when target list does not exist', async () => {
+    const todo = await createTestTodo();
+
+    await expect(updateTodo({ id: todo.id, list_id: 999 }, user.id))
+      .rejects.toThrow(/List with id 999 not found/i);
+  });
+
+  it('should set and clear the due date', async () => {
+    const todo = await createTestTodo();
+    const dueAt = new Date('2030-01-15T17:00:00');
+
+    const scheduled = await updateTodo({ id: todo.id, due_at: dueAt, due_has_time: true }, user.id);
+    expect(scheduled.due_at!.getTime()).toEqual(dueAt.getTime());
+    expect(scheduled.due_has_time).toBe(true);
+    expect(scheduled.overdue).toBe(false);
+
+    const cleared = await updateTodo({ id: todo.id, due_at: null }, user.id);
+    expect(cleared.due_at).toBeNull();
+    expect(cleared.due_has_time).toBe(false);
+  });
+
+  it('should not report completed todos as overdue', async () => {
+    const todo = await createTestTodo();
+
+    const late = await updateTodo({ id: todo.id, due_at: new Date('2020-01-01T00:00:00'), due_has_time: false }, user.id);
+    expect(late.overdue).toBe(true);
+
+    const done = await updateTodo({ id: todo.id, completed: true }, user.id);
+    expect(done.overdue).toBe(false);
+  });
+
+  it('should set and clear the priority', async () => {
+    const todo = await createTestTodo();
+
+    const prioritized = await updateTodo({ id: todo.id, priority: 'p2' }, user.id);
+    expect(prioritized.priority).toEqual('p2');
+
+    const cleared = await updateTodo({ id: todo.id, priority: null }, user.id);
+    expect(cleared.priority).toBeNull();
+  });
+
+  it('should set and clear the recurrence rule', async () => {
+    const todo = await createTestTodo();
+
+    const repeating = await updateTodo({
+      id: todo.id,
+      recurrence: { frequency: 'monthly', interval: 2, weekdays: [], until: '2030-12-31', count: null }
+    }, user.id);
+    expect(repeating.recurrence).toEqual({ frequency: 'monthly', interval: 2, weekdays: [], until: '2030-12-31', count: null });
+
+    const once = await updateTodo({ id: todo.id, recurrence: null }, user.id);
+    expect(once.recurrence).toBeNull();
+  });
+
+  it('should complete a recurring todo by moving it to its next occurrence', async () => {
+    const dueAt = new Date(2030, 0, 15, 9, 30);
+    const todo = await db.insert(todosTable)
+      .values({
+        owner_id: user.id,
+        title: 'Submit timesheet',
+        due_at: dueAt,
+        recurrence: { frequency: 'daily', interval: 1, weekdays: [], until: null, count: null }
+      })
+      .returning()
+      .execute();
+
+    const result = await updateTodo({ id: todo[0].id, title: 'Submit hours', completed: true }, user.id);
+
+    expect(result.title).toEqual('Submit hours');
+    expect(result.completed).toBe(false);
+    expect(result.due_at).toEqual(new Date(2030, 0, 16, 9, 30));
+    const completions = await db.select()
+      .from(todoCompletionsTable)
+      .where(eq(todoCompletionsTable.todo_id, todo[0].id))
+      .execute();
+    expect(completions).toHaveLength(1);
+    expect(completions[0].due_at).toEqual(dueAt);
+  });
+
+  it('should not update a todo owned by another user', async () => {
+    const todo = await createTestTodo();
+    const other = await createTestUser('other@example.com');
+
+    await expect(updateTodo({ id: todo.id, title: 'Hijacked' }, other.id))
+      .rejects.toThrow(new RegExp(`Todo with id ${todo.id} not found`));
+
+    const todos = await db.select().from(todosTable).where(eq(todosTable.id, todo.id)).execute();
+    expect(todos[0].title).toEqual('Original Title');
+  });
+
+  it('should unassign a todo moved to a list its assignee cannot edit', async () => {
+    const other = await createTestUser('other@example.com');
+    const lists = await db.insert(listsTable)
+      .values([{ owner_id: user.id, name: 'Team' }, { owner_id: user.id, name: 'Private' }])
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values({ list_id: lists[0].id, user_id: other.id, role: 'editor', invited_by: user.id, accepted_at: new Date() })
+      .execute();
+    const todo = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Assigned', list_id: lists[0].id, assignee_id: other.id })
+      .returning()
+      .execute();
+
+    const result = await updateTodo({ id: todo[0].id, list_id: lists[1].id }, user.id);
+
+    expect(result.list_id).toEqual(lists[1].id);
+    expect(result.assignee_id).toBeNull();
+    expect(result.assignments).toHaveLength(1);
+    expect(result.assignments[0].assigned_by).toEqual(user.id);
+  });
+});
@@ -1,19 +1,25 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { type UpdateTodoCompletionInput } from '../schema';
+import { checklistItemsTable, listMembersTable, listsTable, todoCompletionsTable, todosTable } from '../db/schema';
+import { type Recurrence, type UpdateTodoCompletionInput, type User } from '../schema';
 import { updateTodoCompletion } from '../handlers/update_todo_completion';
 import { eq } from 'drizzle-orm';
 
 describe('updateTodoCompletion', () => {
+  let user: User;
+
   beforeEach(createDB);
+  beforeEach(async () => {
+    user = await createTestUser();
+  });
   afterEach(resetDB);
 
   it('should update todo completion status to true', async () => {
     // Create a test todo first
     const createResult = await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'Test Todo',
         description: 'A todo for testing',
         completed: false
@@ -25,10 +31,11 @@ describe('updateTodoCompletion', () => {
 
     const updateInput: UpdateTodoCompletionInput = {
       id: todoId,
-      completed: true
+      completed: true,
+      complete_checklist: false
     };
 
-    const result = await updateTodoCompletion(updateInput);
+    const result = await updateTodoCompletion(updateInput, user.id);
 
     // Verify the returned result
     expect(result.id).toEqual(todoId);
@@ -43,6 +50,7 @@ describe('updateTodoCompletion', () => {
     // Create a completed todo first
     const createResult = await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'Completed Todo',
         description: null,
         completed: true
@@ -54,10 +62,11 @@ describe('updateTodoCompletion', () => {
 
     const updateInput: UpdateTodoCompletionInput = {
       id: todoId,
-      completed: false
+      completed: false,
+      complete_checklist: false
     };
 
-    const result = await updateTodoCompletion(updateInput);
+    const result = await updateTodoCompletion(updateInput, user.id);
 
     // Verify the completion status was updated
     expect(result.id).toEqual(todoId);
@@ -70,6 +79,7 @@ describe('updateTodoCompletion', () => {
     // Create a test todo
     const createResult = await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'Timestamp Test Todo',
         completed: false
       })
@@ -84,10 +94,11 @@ describe('updateTodoCompletion', () => {
 
     const updateInput: UpdateTodoCompletionInput = {
       id: todoId,
-      completed: true
+      completed: true,
+      complete_checklist: false
     };
 
-    const result = await updateTodoCompletion(updateInput);
+    const result = await updateTodoCompletion(updateInput, user.id);
 
     // Verify updated_at timestamp was changed
     expect(result.updated_at).toBeInstanceOf(Date);
@@ -101,6 +112,7 @@ describe('updateTodoCompletion', () => {
     // Create a test todo
     const createResult = await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'Persistence Test Todo',
         completed: false
       })
@@ -111,10 +123,11 @@ describe('updateTodoCompletion', () => {
 
     const updateInput: UpdateTodoCompletionInput = {
       id: todoId,
-      completed: true
+      completed: true,
+      complete_checklist: false
     };
 
-    await updateTodoCompletion(updateInput);
+    await updateTodoCompletion(updateInput, user.id);
 
     // Query the database directly to verify persistence
     const todos = await db.select()
@@ -131,10 +144,11 @@ describe('updateTodoCompletion', () => {
   it('should throw error when todo does not exist', async () => {
     const updateInput: UpdateTodoCompletionInput = {
       id: 999, // Non-existent ID
-      completed: true
+      completed: true,
+      complete_checklist: false
     };
 
-    await expect(updateTodoCompletion(updateInput))
+    await expect(updateTodoCompletion(updateInput, user.id))
       .rejects.toThrow(/Todo with id 999 not found/i);
   });
 
@@ -142,6 +156,7 @@ describe('updateTodoCompletion', () => {
     // Create todo with null description
     const createResult = await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'No Description Todo',
         description: null,
         completed: false
@@ -153,10 +168,11 @@ describe('updateTodoCompletion', () => {
 
     const updateInput: UpdateTodoCompletionInput = {
       id: todoId,
-      completed: true
+      completed: true,
+      complete_checklist: false
     };
 
-    const result = await updateTodoCompletion(updateInput);
+    const result = await updateTodoCompletion(updateInput, user.id);
 
     expect(result.description).toBeNull();
     expect(result.completed).toBe(true);
@@ -167,6 +183,7 @@ describe('updateTodoCompletion', () => {
     // Create a test todo
     const createResult = await db.insert(todosTable)
       .values({
+        owner_id: user.id,
         title: 'Toggle Test Todo',
         completed: false
       })
@@ -178,16 +195,18 @@ describe('updateTodoCompletion', () => {
     // Toggle to completed
     const firstUpdate = await updateTodoCompletion({
       id: todoId,
-      completed: true
-    });
+      completed: true,
+      complete_checklist: false
+    }, user.id);
 
     expect(firstUpdate.completed).toBe(true);
 
     // Toggle back to incomplete
     const secondUpdate = await updateTodoCompletion({
       id: todoId,
-      completed: false
-    });
+      completed: false,
+      complete_checklist: false
+    }, user.id);
 
     expect(secondUpdate.completed).toBe(false);
     expect(secondUpdate.updated_at.getTime()).toBeGreaterThan(firstUpdate.updated_at.getTime());
@@ -195,10 +214,223 @@ describe('updateTodoCompletion', () => {
     // Toggle back to completed again
     const thirdUpdate = await updateTodoCompletion({
       id: todoId,
-      completed: true
-    });
+      completed: true,
+      complete_checklist: false
+    }, user.id);
 
     expect(thirdUpdate.completed).toBe(true);
     expect(thirdUpdate.updated_at.getTime()).toBeGreaterThan(secondUpdate.updated_at.getTime());
   });
-});
\ No newline at end of file
+
+  it('should complete the checklist along with the todo when asked', async () => {
+    const createResult = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Checklist Todo', completed: false })
+      .returning()
+      .execute();
+    const todoId = createResult[0].id;
+
+    await db.insert(checklistItemsTable)
+      .values([
+        { todo_id: todoId, title: 'Done already', completed: true, position: 0 },
+        { todo_id: todoId, title: 'Still open', completed: false, position: 1 }
+      ])
+      .execute();
+
+    const result = await updateTodoCompletion({
+      id: todoId,
+      completed: true,
+      complete_checklist: true
+    }, user.id);
+
+    expect(result.completed).toBe(true);
+    expect(result.checklist.map(item => item.completed)).toEqual([true, true]);
+  });
+
+  it('should leave the checklist alone unless asked', async () => {
+    const createResult = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Checklist Todo', completed: false })
+      .returning()
+      .execute();
+    const todoId = createResult[0].id;
+
+    await db.insert(checklistItemsTable)
+      .values({ todo_id: todoId, title: 'Still open', completed: false, position: 0 })
+      .execute();
+
+    const completed = await updateTodoCompletion({
+      id: todoId,
+      completed: true,
+      complete_checklist: false
+    }, user.id);
+    expect(completed.checklist[0].completed).toBe(false);
+
+    // Reopening never reopens checklist items
+    await updateTodoCompletion({ id: todoId, completed: true, complete_checklist: true }, user.id);
+    const reopened = await updateTodoCompletion({ id: todoId, completed: false, complete_checklist: true }, user.id);
+    expect(reopened.completed).toBe(false);
+    expect(reopened.checklist[0].completed).toBe(true);
+  });
+
+  describe('recurring todos', () => {
+    const daily: Recurrence = { frequency: 'daily', interval: 1, weekdays: [], until: null, count: null };
+
+    const createRecurringTodo = async (recurrence: Recurrence, dueAt: Date | null) => {
+      const result = await db.insert(todosTable)
+        .values({ owner_id: user.id, title: 'Submit timesheet', recurrence, due_at: dueAt })
+        .returning()
+        .execute();
+
+      return result[0];
+    };
+
+    const complete = (id: number) =>
+      updateTodoCompletion({ id, completed: true, complete_checklist: false }, user.id);
+
+    it('should record the completion and advance to the next occurrence', async () => {
+      const dueAt = new Date(2030, 0, 15, 9, 30);
+      const todo = await createRecurringTodo(daily, dueAt);
+
+      const result = await complete(todo.id);
+
+      expect(result.completed).toBe(false);
+      expect(result.due_at).toEqual(new Date(2030, 0, 16, 9, 30));
+      expect(result.recurrence).toEqual(daily);
+
+      const completions = await db.select()
+        .from(todoCompletionsTable)
+        .where(eq(todoCompletionsTable.todo_id, todo.id))
+        .execute();
+
+      expect(completions).toHaveLength(1);
+      expect(completions[0].due_at).toEqual(dueAt);
+      expect(completions[0].completed_at).toBeInstanceOf(Date);
+    });
+
+    it('should step through weekdays of every other week', async () => {
+      // 2030-01-14 is a Monday
+      const todo = await createRecurringTodo(
+        { ...daily, frequency: 'weekly', interval: 2, weekdays: ['MO', 'FR'] },
+        new Date(2030, 0, 14)
+      );
+
+      const friday = await complete(todo.id);
+      expect(friday.due_at).toEqual(new Date(2030, 0, 18));
+
+      const mondayInTwoWeeks = await complete(todo.id);
+      expect(mondayInTwoWeeks.due_at).toEqual(new Date(2030, 0, 28));
+    });
+
+    it('should repeat weekly on the same weekday by default', async () => {
+      const todo = await createRecurringTodo({ ...daily, frequency: 'weekly' }, new Date(2030, 0, 18));
+
+      const result = await complete(todo.id);
+
+      expect(result.due_at).toEqual(new Date(2030, 0, 25));
+    });
+
+    it('should skip months that do not have the day', async () => {
+      const todo = await createRecurringTodo({ ...daily, frequency: 'monthly' }, new Date(2030, 0, 31));
+
+      const result = await complete(todo.id);
+
+      expect(result.due_at).toEqual(new Date(2030, 2, 31));
+    });
+
+    it('should complete the todo after the last counted occurrence', async () => {
+      const todo = await createRecurringTodo({ ...daily, count: 2 }, new Date(2030, 0, 15));
+
+      const first = await complete(todo.id);
+      expect(first.completed).toBe(false);
+      expect(first.due_at).toEqual(new Date(2030, 0, 16));
+
+      const last = await complete(todo.id);
+      expect(last.completed).toBe(true);
+      expect(last.due_at).toEqual(new Date(2030, 0, 16));
+
+      const completions = await db.select().from(todoCompletionsTable).execute();
+      expect(completions).toHaveLength(2);
+    });
+
+    it('should complete the todo when the next occurrence is past the end date', async () => {
+      const todo = await createRecurringTodo({ ...daily, interval: 3, until: '2030-01-17' }, new Date(2030, 0, 15));
+
+      const result = await complete(todo.id);
+
+      expect(result.completed).toBe(true);
+    });
+
+    it('should start the next occurrence with a fresh checklist', async () => {
+      const todo = await createRecurringTodo(daily, new Date(2030, 0, 15));
+      await db.insert(checklistItemsTable)
+        .values({ todo_id: todo.id, title: 'Fill in hours', completed: true, position: 0 })
+        .execute();
+
+      const result = await complete(todo.id);
+
+      expect(result.checklist[0].completed).toBe(false);
+    });
+
+    it('should schedule a recurring todo without a due date from today', async () => {
+      const todo = await createRecurringTodo(daily, null);
+
+      const result = await complete(todo.id);
+
+      const today = new Date();
+      expect(result.completed).toBe(false);
+      expect(result.due_at).toEqual(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1));
+      expect(result.due_has_time).toBe(false);
+    });
+
+    it('should reopen a finished series without recording a completion', async () => {
+      const todo = await createRecurringTodo({ ...daily, count: 1 }, new Date(2030, 0, 15));
+      await complete(todo.id);
+
+      const reopened = await updateTodoCompletion({ id: todo.id, completed: false, complete_checklist: false }, user.id);
+
+      expect(reopened.completed).toBe(false);
+      const completions = await db.select().from(todoCompletionsTable).execute();
+      expect(completions).toHaveLength(1);
+
+      // Completing it again finishes the series without counting the occurrence twice
+      const completed = await complete(todo.id);
+      expect(completed.completed).toBe(true);
+      expect(await db.select().from(todoCompletionsTable).execute()).toHaveLength(1);
+    });
+  });
+
+  it('should let editors but not viewers complete todos in a shared list', async () => {
+    const editor = await createTestUser('editor@example.com');
+    const viewer = await createTestUser('viewer@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: user.id, name: 'On-call handoff' })
+      .returning()
+      .execute();
+    await db.insert(listMembersTable)
+      .values([
+        { list_id: lists[0].id, user_id: editor.id, role: 'editor', invited_by: user.id, accepted_at: new Date() },
+        { list_id: lists[0].id, user_id: viewer.id, role: 'viewer', invited_by: user.id, accepted_at: new Date() }
+      ])
+      .execute();
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: user.id, title: 'Hand over pager', list_id: lists[0].id })
+      .returning()
+      .execute();
+
+    await expect(updateTodoCompletion({ id: todos[0].id, completed: true, complete_checklist: false }, viewer.id))
+      .rejects.toThrow(new RegExp(`Todo with id ${todos[0].id} is read-only for you`));
+
+    const result = await updateTodoCompletion({ id: todos[0].id, completed: true, complete_checklist: false }, editor.id);
+    expect(result.completed).toBe(true);
+  });
+
+  it('should treat todos of other users as missing', async () => {
+    const other = await createTestUser('other@example.com');
+    const todos = await db.insert(todosTable)
+      .values({ owner_id: other.id, title: 'Private' })
+      .returning()
+      .execute();
+
+    await expect(updateTodoCompletion({ id: todos[0].id, completed: true, complete_checklist: false }, user.id))
+      .rejects.toThrow(new RegExp(`Todo with id ${todos[0].id} not found`));
+  });
+});